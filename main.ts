@@ -1,11 +1,40 @@
-import { Plugin, TFile, Notice, MarkdownView, Menu } from 'obsidian';
-import { ObsiCardSettings, DEFAULT_SETTINGS, GenerationMode, Flashcard } from './src/types';
+import { Plugin, TFile, TFolder, Notice, MarkdownView, Menu } from 'obsidian';
+import {
+  ObsiCardSettings,
+  DEFAULT_SETTINGS,
+  GenerationMode,
+  GenerationOptions,
+  Flashcard,
+  SyncResult,
+  BulkScope,
+  BulkScopeType,
+  ConflictResolution,
+  PullConflict,
+  CardSyncStatus,
+  AnkiConnectionState,
+  RateLimitQuota
+} from './src/types';
 import { GroqFlashcardService } from './src/services/GroqFlashcardService';
 import { AnkiSyncService } from './src/services/AnkiSyncService';
+import { AnkiConnectionMonitor } from './src/services/AnkiConnectionMonitor';
+import { DeckRouter } from './src/services/DeckRouter';
+import { GenerationJob } from './src/services/GenerationJob';
+import { NoteOverrideReader, NOTE_OVERRIDE_KEYS } from './src/services/NoteOverrideReader';
 import { MarkdownWriter } from './src/services/MarkdownWriter';
+import { BulkGenerationService, BulkGenerationJob } from './src/services/BulkGenerationService';
+import { FlashcardIndexService } from './src/services/FlashcardIndexService';
+import { DuplicateDetector, DuplicateCorpus } from './src/services/DuplicateDetector';
 import { PreGenerationModal } from './src/ui/PreGenerationModal';
 import { ReviewModal } from './src/ui/ReviewModal';
+import { BulkGenerationModal } from './src/ui/BulkGenerationModal';
+import { BulkProgressModal } from './src/ui/BulkProgressModal';
+import { PullConflictModal } from './src/ui/PullConflictModal';
+import { SyncQueueModal } from './src/ui/SyncQueueModal';
 import { ObsiCardSettingsTab } from './src/ui/SettingsTab';
+import { FlashcardBrowserView, FLASHCARD_BROWSER_VIEW_TYPE } from './src/ui/FlashcardBrowserView';
+import { IdUtils } from './src/utils/IdUtils';
+import { TokenUtils } from './src/utils/TokenUtils';
+import { BpeTokenizer } from './src/utils/BpeTokenizer';
 
 /**
  * Main plugin class for ObsiCard
@@ -15,18 +44,47 @@ export default class ObsiCardPlugin extends Plugin {
   groqService!: GroqFlashcardService;
   ankiService!: AnkiSyncService;
   markdownWriter!: MarkdownWriter;
-  private queueProcessInterval?: number;
+  bulkService!: BulkGenerationService;
+  flashcardIndex!: FlashcardIndexService;
+  duplicateDetector!: DuplicateDetector;
+  connectionMonitor!: AnkiConnectionMonitor;
+  deckRouter!: DeckRouter;
+  noteOverrides!: NoteOverrideReader;
+  private statusBarItem?: HTMLElement;
+  private quotaStatusBarItem?: HTMLElement;
+  private activeBulkJob?: BulkGenerationJob;
+  private activeGenerationJobs = new Set<GenerationJob>();
+  private tokenizerPath = '';
 
   async onload() {
     console.debug('Loading ObsiCard plugin');
 
     // Load settings
     await this.loadSettings();
+    await this.loadTokenizer();
 
     // Initialize services
     this.groqService = new GroqFlashcardService(this.settings);
-    this.ankiService = new AnkiSyncService(this.settings, this.app);
-    this.markdownWriter = new MarkdownWriter(this.app);
+    this.deckRouter = new DeckRouter(this.settings, this.app);
+    this.noteOverrides = new NoteOverrideReader(this.app);
+    this.ankiService = new AnkiSyncService(this.settings, this.app, `${this.manifest.dir}/sync-queue.json`);
+    await this.ankiService.loadQueue();
+    this.markdownWriter = new MarkdownWriter(this.app, this.settings.outputFormat);
+    this.markdownWriter.setDestination(this.settings.flashcardDestination, this.settings.companionNotePath);
+    this.bulkService = new BulkGenerationService(this.app, this.groqService, this.markdownWriter);
+    this.flashcardIndex = new FlashcardIndexService(this.app, this.markdownWriter, this.ankiService);
+    this.duplicateDetector = new DuplicateDetector(this.settings, this.flashcardIndex, this.ankiService, this.groqService);
+
+    // Write Anki note IDs assigned during queue replay back to their notes
+    this.ankiService.setNoteIdListener((filePath, flashcards) => {
+      const file = this.app.vault.getAbstractFileByPath(filePath);
+      if (file instanceof TFile) {
+        void this.markdownWriter.updateFlashcardMetadata(file, flashcards);
+      }
+    });
+
+    // Register the flashcard browser
+    this.registerView(FLASHCARD_BROWSER_VIEW_TYPE, leaf => new FlashcardBrowserView(leaf, this));
 
     // Add settings tab
     this.addSettingTab(new ObsiCardSettingsTab(this.app, this));
@@ -37,15 +95,30 @@ export default class ObsiCardPlugin extends Plugin {
     // Add context menu items
     this.registerContextMenus();
 
-    // Start automatic queue processing if enabled
-    if (this.settings.enableOfflineQueue) {
-      this.startQueueProcessing();
-    }
-
-    // Add ribbon icon
+    // Show the Anki connection in the status bar and replay the queue whenever Anki is reachable
+    this.statusBarItem = this.addStatusBarItem();
+    this.statusBarItem.addClass('mod-clickable');
+    this.statusBarItem.addEventListener('click', () => {
+      new SyncQueueModal(this.app, this).open();
+    });
+    this.connectionMonitor = new AnkiConnectionMonitor(this.ankiService);
+    this.connectionMonitor.setStateListener(() => this.updateStatusBar());
+    this.ankiService.setQueueListener(() => this.updateStatusBar());
+    this.updateStatusBar();
+    this.connectionMonitor.start();
+
+    // Show the AI quota left once the provider has reported it
+    this.quotaStatusBarItem = this.addStatusBarItem();
+    this.quotaStatusBarItem.addClasses(['obsicard-quota-status', 'hidden']);
+    this.groqService.onQuotaChange(quota => this.updateQuotaStatus(quota));
+
+    // Add ribbon icons
     this.addRibbonIcon('brain', 'Generate flashcards', () => {
       void this.generateFlashcardsFromActiveNote();
     });
+    this.addRibbonIcon('layers', 'Open flashcard browser', () => {
+      void this.openFlashcardBrowser();
+    });
 
     console.debug('ObsiCard plugin loaded successfully');
   }
@@ -53,10 +126,12 @@ export default class ObsiCardPlugin extends Plugin {
   onunload() {
     console.debug('Unloading ObsiCard plugin');
     
-    // Stop queue processing
-    if (this.queueProcessInterval) {
-      this.ankiService.stopAutoProcessing(this.queueProcessInterval);
-    }
+    // Stop any running generation or bulk job
+    this.activeGenerationJobs.forEach(job => job.cancel());
+    this.activeBulkJob?.cancel();
+
+    // Stop probing Anki
+    this.connectionMonitor?.stop();
   }
 
   /**
@@ -67,10 +142,10 @@ export default class ObsiCardPlugin extends Plugin {
     this.addCommand({
       id: 'generate-flashcards-selection',
       name: 'Generate flashcards from selection',
-      editorCallback: (editor) => {
+      editorCallback: (editor, ctx) => {
         const selection = editor.getSelection();
         if (selection) {
-          this.generateFlashcards(selection);
+          this.generateFlashcards(selection, ctx.file ?? undefined);
         } else {
           new Notice('No text selected');
         }
@@ -86,27 +161,77 @@ export default class ObsiCardPlugin extends Plugin {
       }
     });
 
+    // Generate for many notes at once
+    this.addCommand({
+      id: 'generate-flashcards-bulk',
+      name: 'Generate flashcards for folder, tag or search',
+      callback: () => {
+        this.openBulkGeneration();
+      }
+    });
+
+    // Sync existing flashcards of the current note
+    this.addCommand({
+      id: 'sync-note-flashcards',
+      name: 'Sync flashcards in current note to Anki',
+      callback: () => {
+        void this.syncActiveNoteFlashcards();
+      }
+    });
+
+    // Pull edits made in Anki back into the current note
+    this.addCommand({
+      id: 'pull-note-flashcards',
+      name: 'Pull changes from Anki into current note',
+      callback: () => {
+        void this.pullActiveNoteFlashcards();
+      }
+    });
+
+    // Remove repeated flashcards from the current note
+    this.addCommand({
+      id: 'deduplicate-note-flashcards',
+      name: 'Remove duplicate flashcards from current note',
+      callback: () => {
+        void this.deduplicateActiveNoteFlashcards();
+      }
+    });
+
+    // Browse the flashcards of the whole vault
+    this.addCommand({
+      id: 'open-flashcard-browser',
+      name: 'Open flashcard browser',
+      callback: () => {
+        void this.openFlashcardBrowser();
+      }
+    });
+
     // Process sync queue
     this.addCommand({
       id: 'process-sync-queue',
       name: 'Process Anki sync queue',
       callback: async () => {
-        const synced = await this.ankiService.processQueue();
-        if (synced > 0) {
-          new Notice(`Synced ${synced} flashcard(s) to Anki`);
-        } else {
-          new Notice('No flashcards synced');
+        try {
+          const synced = await this.ankiService.processQueue(true);
+          if (synced > 0) {
+            new Notice(`Synced ${synced} flashcard(s) to Anki`);
+          } else {
+            new Notice('No flashcards synced');
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          new Notice(`❌ Failed to process the sync queue: ${errorMessage}`);
+          console.error('Queue processing error:', error);
         }
       }
     });
 
-    // View queue status
+    // Manage the sync queue
     this.addCommand({
       id: 'view-queue-status',
-      name: 'View sync queue status',
+      name: 'Manage sync queue',
       callback: () => {
-        const status = this.ankiService.getQueueStatus();
-        new Notice(`${status.count} flashcard(s) in sync queue`);
+        new SyncQueueModal(this.app, this).open();
       }
     });
 
@@ -117,11 +242,12 @@ export default class ObsiCardPlugin extends Plugin {
       callback: async () => {
         new Notice('Testing connections...');
         
-        const groqTest = await this.groqService.testConnection();
+        const providerName = this.groqService.getProviderName();
+        const llmTest = await this.groqService.testConnection();
         const ankiTest = await this.ankiService.testConnection();
 
         let message = '';
-        message += groqTest.success ? '✓ Groq API' : `✗ Groq API: ${groqTest.message}`;
+        message += llmTest.success ? `✓ ${providerName} API` : `✗ ${providerName} API: ${llmTest.message}`;
         message += '\n';
         message += ankiTest.success ? '✓ AnkiConnect' : `✗ AnkiConnect: ${ankiTest.message}`;
 
@@ -136,7 +262,7 @@ export default class ObsiCardPlugin extends Plugin {
   private registerContextMenus(): void {
     // Editor context menu
     this.registerEvent(
-      this.app.workspace.on('editor-menu', (menu: Menu, editor) => {
+      this.app.workspace.on('editor-menu', (menu: Menu, editor, info) => {
         menu.addItem((item) => {
           item
             .setTitle('Generate flashcards with ObsiCard')
@@ -144,7 +270,7 @@ export default class ObsiCardPlugin extends Plugin {
             .onClick(() => {
               const selection = editor.getSelection();
               if (selection) {
-                this.generateFlashcards(selection);
+                this.generateFlashcards(selection, info.file ?? undefined);
               } else {
                 void this.generateFlashcardsFromActiveNote();
               }
@@ -166,6 +292,15 @@ export default class ObsiCardPlugin extends Plugin {
                 this.generateFlashcards(content, file);
               });
           });
+        } else if (file instanceof TFolder) {
+          menu.addItem((item) => {
+            item
+              .setTitle('Generate flashcards for folder')
+              .setIcon('brain')
+              .onClick(() => {
+                this.openBulkGeneration({ type: BulkScopeType.FOLDER, value: file.path });
+              });
+          });
         }
       })
     );
@@ -201,73 +336,117 @@ export default class ObsiCardPlugin extends Plugin {
   /**
    * Main flashcard generation workflow
    * @param content - Text content to generate from
-   * @param file - Optional file to save flashcards to
+   * @param file - Optional file to save flashcards to; its frontmatter
+   * overrides the generation defaults
    */
   private generateFlashcards(content: string, file?: TFile): void {
-    // Check API key
-    if (!this.settings.groqApiKey) {
-      new Notice('Please configure your Groq API key in settings');
+    // Check provider configuration
+    const configError = this.groqService.getConfigurationError();
+    if (configError) {
+      new Notice(`Please configure ${this.groqService.getProviderName()} in settings: ${configError}`);
+      return;
+    }
+
+    const overrides = this.noteOverrides.read(file);
+    if (overrides.skip) {
+      new Notice(`This note is excluded from flashcard generation. Remove its ${NOTE_OVERRIDE_KEYS.skip} property to generate flashcards.`);
       return;
     }
 
     // Show pre-generation modal
     const modal = new PreGenerationModal(
       this.app,
-      this.settings.defaultTags,
-      (mode: GenerationMode, tags: string[]) => {
-        void this.processGeneration(content, mode, tags, file);
-      }
+      NoteOverrideReader.apply(
+        {
+          mode: GenerationMode.DYNAMIC,
+          tags: this.settings.defaultTags,
+          cardType: this.settings.defaultCardType,
+          cardSource: this.settings.longNoteCardSource
+        },
+        overrides
+      ),
+      (options: GenerationOptions) => {
+        void this.processGeneration(content, options, file);
+      },
+      options => this.groqService.planGeneration(content, options)
     );
     modal.open();
   }
 
   /**
-   * Process flashcard generation
+   * Process flashcard generation: the review modal opens right away and
+   * shows the flashcards as they are generated. Stopping or closing it
+   * cancels the job; the cards generated so far stay up for review.
    * @param content - Content to generate from
-   * @param mode - Generation mode
-   * @param tags - Tags to use
+   * @param options - Generation mode, tags and card type
    * @param file - Optional file to save to
    */
   private async processGeneration(
     content: string,
-    mode: GenerationMode,
-    tags: string[],
+    options: GenerationOptions,
     file?: TFile
   ): Promise<void> {
-    const loadingNotice = new Notice('Generating flashcards...', 0);
+    const job = new GenerationJob(this.groqService, this.ankiService);
+    this.activeGenerationJobs.add(job);
 
-    try {
-      // Generate flashcards
-      const noteName = file?.basename;
-      const flashcards = await this.groqService.generateFlashcards(
-        content,
-        mode,
-        tags,
-        noteName
-      );
+    const reviewModal = new ReviewModal(
+      this.app,
+      [],
+      (approved: Flashcard[], deckName: string) => {
+        void this.saveAndSyncFlashcards(approved, file, deckName, job);
+      },
+      this.settings.ankiDeckName,
+      cards => this.deckRouter.resolve(file, cards)
+    );
+    reviewModal.setQualityReview(
+      this.settings.minCardScore,
+      (card, problems) => this.groqService.rewriteFlashcard(card, problems, options.model)
+    );
+    reviewModal.startGeneration(() => job.cancel());
+    const duplicates = this.duplicateDetector.isEnabled()
+      ? this.duplicateDetector.loadExisting(file, this.deckRouter.resolve(file).deckName)
+      : undefined;
+    job.onFlashcards(cards => {
+      reviewModal.addFlashcards(cards);
+      if (duplicates) {
+        void this.flagDuplicates(cards, duplicates, reviewModal);
+      }
+    });
+    job.onProgress(progress => reviewModal.setGenerationProgress(progress));
+    job.onChunkFailure(failure => reviewModal.addChunkFailure(failure));
+    reviewModal.open();
 
-      loadingNotice.hide();
+    try {
+      const flashcards = await job.generate(content, options, file?.basename);
 
-      if (!flashcards || flashcards.length === 0) {
-        new Notice('No flashcards generated');
+      if (job.isCancelled()) {
         return;
       }
-
-      // Show review modal
-      const reviewModal = new ReviewModal(
-        this.app,
-        flashcards,
-        (approved: Flashcard[], deckName: string) => {
-          void this.saveAndSyncFlashcards(approved, file, deckName);
-        },
-        this.settings.ankiDeckName
-      );
-      reviewModal.open();
+      reviewModal.finishGeneration(flashcards.length === 0 ? 'No flashcards generated.' : '');
     } catch (error) {
-      loadingNotice.hide();
       const errorMessage = error instanceof Error ? error.message : String(error);
+      reviewModal.finishGeneration(`Failed to generate flashcards: ${errorMessage}`);
       new Notice(`Failed to generate flashcards: ${errorMessage}`);
       console.error('Flashcard generation error:', error);
+    } finally {
+      this.activeGenerationJobs.delete(job);
+    }
+  }
+
+  /**
+   * Check newly generated flashcards for duplicates and flag them for review
+   * @param flashcards - New flashcards
+   * @param corpus - Existing cards, loading
+   * @param reviewModal - Modal showing the flashcards
+   */
+  private async flagDuplicates(flashcards: Flashcard[], corpus: Promise<DuplicateCorpus>, reviewModal: ReviewModal): Promise<void> {
+    try {
+      const matches = await this.duplicateDetector.findDuplicates(flashcards, await corpus);
+      if (matches.length > 0) {
+        reviewModal.markDuplicates(matches);
+      }
+    } catch (error) {
+      console.error('Duplicate check failed:', error);
     }
   }
 
@@ -276,14 +455,18 @@ export default class ObsiCardPlugin extends Plugin {
    * @param flashcards - Approved flashcards
    * @param file - File to save to
    * @param deckName - Anki deck name
+   * @param job - Generation job the flashcards come from; its sync can be cancelled
    */
-  private async saveAndSyncFlashcards(flashcards: Flashcard[], file?: TFile, deckName?: string): Promise<void> {
+  private async saveAndSyncFlashcards(flashcards: Flashcard[], file?: TFile, deckName?: string, job?: GenerationJob): Promise<void> {
     if (!flashcards || flashcards.length === 0) {
       return;
     }
 
     // Show single waiting toast
-    const waitingNotice = new Notice('Saving flashcards...', 0);
+    const waitingNotice = new Notice(job ? this.createCancellableMessage('Saving flashcards...', job) : 'Saving flashcards...', 0);
+    if (job) {
+      this.activeGenerationJobs.add(job);
+    }
 
     try {
       let targetFile = file;
@@ -296,32 +479,23 @@ export default class ObsiCardPlugin extends Plugin {
         }
       }
 
-      let noteSaveSuccess = false;
-
-      // Save to note
-      if (targetFile) {
-        noteSaveSuccess = await this.markdownWriter.writeFlashcardsToNote(targetFile, flashcards);
-      }
+      const { noteSaved, savedTo, saved, ankiResult, ankiError } = await this.persistFlashcards(flashcards, targetFile, deckName, job);
+      const cancelled = ankiResult?.outcomes.filter(outcome => outcome.status === CardSyncStatus.CANCELLED).length ?? 0;
 
-      // Sync to Anki if enabled
       let ankiStatus = '';
-      if (this.settings.autoSyncToAnki) {
-        try {
-          const ankiResult = await this.ankiService.syncFlashcards(flashcards, deckName);
-          
-          if (ankiResult.synced === flashcards.length) {
-            ankiStatus = ` • ✅ Synced to Anki (${deckName})`;
-          } else if (ankiResult.synced > 0) {
-            ankiStatus = ` • ⚠️ ${ankiResult.synced} synced, ${ankiResult.queued} queued (${deckName})`;
-          } else if (ankiResult.queued > 0) {
-            ankiStatus = ` • ⏳ Queued for later sync (${deckName})`;
-          } else if (ankiResult.errors > 0) {
-            ankiStatus = ` • ❌ Anki sync failed`;
-          }
-        } catch (error) {
-          console.error('Anki sync error:', error);
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          ankiStatus = ` • ❌ Anki sync failed: ${errorMessage}`;
+      if (ankiError) {
+        ankiStatus = ` • ❌ Anki sync failed: ${ankiError}`;
+      } else if (ankiResult) {
+        if (cancelled > 0) {
+          ankiStatus = ` • ⏹️ Sync cancelled: ${ankiResult.synced} synced, ${cancelled} left for a later sync`;
+        } else if (ankiResult.synced === saved.length) {
+          ankiStatus = ` • ✅ Synced to Anki (${deckName})`;
+        } else if (ankiResult.synced > 0) {
+          ankiStatus = ` • ⚠️ ${ankiResult.synced} synced, ${ankiResult.queued} queued (${deckName})`;
+        } else if (ankiResult.queued > 0) {
+          ankiStatus = ` • ⏳ Queued for later sync (${deckName})`;
+        } else if (ankiResult.errors > 0) {
+          ankiStatus = ` • ❌ Anki sync failed`;
         }
       }
 
@@ -331,8 +505,13 @@ export default class ObsiCardPlugin extends Plugin {
       // Show single result message
       let resultMessage = '';
       
-      if (noteSaveSuccess) {
-        resultMessage += `✅ Saved ${flashcards.length} flashcard(s) to note`;
+      if (noteSaved) {
+        resultMessage += savedTo && savedTo.path !== targetFile?.path
+          ? `✅ Saved ${saved.length} flashcard(s) to ${savedTo.basename}`
+          : `✅ Saved ${saved.length} flashcard(s) to note`;
+        if (saved.length < flashcards.length) {
+          resultMessage += ` (${flashcards.length - saved.length} duplicate(s) skipped)`;
+        }
       } else {
         resultMessage += `❌ Failed to save flashcards to note`;
       }
@@ -345,15 +524,440 @@ export default class ObsiCardPlugin extends Plugin {
       const errorMessage = error instanceof Error ? error.message : String(error);
       new Notice(`❌ Error saving flashcards: ${errorMessage}`);
       console.error('Save and sync error:', error);
+    } finally {
+      if (job) {
+        this.activeGenerationJobs.delete(job);
+      }
     }
   }
 
   /**
-   * Start automatic queue processing
+   * Build a progress message with a link that cancels the job
+   * @param text - Progress text
+   * @param job - Job to cancel
+   * @returns Message for a notice
    */
-  private startQueueProcessing(): void {
-    // Process queue every 5 minutes
-    this.queueProcessInterval = this.ankiService.startAutoProcessing(300000);
+  private createCancellableMessage(text: string, job: GenerationJob): DocumentFragment {
+    return createFragment(fragment => {
+      fragment.appendText(`${text} `);
+      const cancelLink = fragment.createEl('a', { text: 'Cancel', href: '#' });
+      cancelLink.addEventListener('click', event => {
+        event.preventDefault();
+        job.cancel();
+      });
+    });
+  }
+
+  /**
+   * Write flashcards to a note, or its companion note, and sync them to Anki if enabled
+   * @param flashcards - Flashcards to save; IDs are assigned where missing
+   * @param targetFile - Note the flashcards belong to, if any
+   * @param deckName - Anki deck name
+   * @param job - Generation job whose cancellable sync is used, if any
+   * @returns Whether the note was saved, where to, the flashcards that were
+   *   not duplicates, and the Anki sync outcome
+   */
+  private async persistFlashcards(
+    flashcards: Flashcard[],
+    targetFile?: TFile,
+    deckName?: string,
+    job?: GenerationJob
+  ): Promise<{ noteSaved: boolean; savedTo?: TFile; saved: Flashcard[]; ankiResult?: SyncResult; ankiError?: string }> {
+    // Give every card a stable ID before it is written
+    IdUtils.ensureIds(flashcards);
+
+    // Save to note, skipping cards the note or its companion note already has
+    const result = targetFile
+      ? await this.markdownWriter.writeFlashcardsForNote(targetFile, flashcards)
+      : null;
+    const noteSaved = result !== null;
+    const savedTo = result?.file;
+    const saved = result ? result.written : flashcards;
+
+    // Sync to Anki if enabled
+    if (!this.settings.autoSyncToAnki || saved.length === 0) {
+      return { noteSaved, savedTo, saved };
+    }
+
+    try {
+      const filePath = (savedTo ?? targetFile)?.path;
+      const ankiResult = job
+        ? await job.sync(saved, deckName, filePath)
+        : await this.ankiService.syncFlashcards(saved, deckName, filePath);
+
+      // Record the Anki note IDs next to the cards
+      if (savedTo && ankiResult.synced > 0) {
+        await this.markdownWriter.updateFlashcardMetadata(savedTo, saved);
+      }
+
+      return { noteSaved, savedTo, saved, ankiResult };
+    } catch (error) {
+      console.error('Anki sync error:', error);
+      return { noteSaved, savedTo, saved, ankiError: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Ask for a bulk scope, then generate flashcards for every matching note
+   * @param initialScope - Optional preselected scope (e.g. from the folder menu)
+   */
+  private openBulkGeneration(initialScope?: Partial<BulkScope>): void {
+    if (this.activeBulkJob) {
+      new BulkProgressModal(this.app, this.activeBulkJob).open();
+      return;
+    }
+
+    const configError = this.groqService.getConfigurationError();
+    if (configError) {
+      new Notice(`Please configure ${this.groqService.getProviderName()} in settings: ${configError}`);
+      return;
+    }
+
+    new BulkGenerationModal(
+      this.app,
+      {
+        mode: GenerationMode.DYNAMIC,
+        tags: this.settings.defaultTags,
+        cardType: this.settings.defaultCardType
+      },
+      (scope: BulkScope, options: GenerationOptions) => {
+        void this.runBulkGeneration(scope, options);
+      },
+      initialScope
+    ).open();
+  }
+
+  /**
+   * Run a bulk generation job and report the result
+   * @param scope - Notes to process
+   * @param options - Generation mode, tags and card type
+   */
+  private async runBulkGeneration(scope: BulkScope, options: GenerationOptions): Promise<void> {
+    const files = await this.bulkService.findFiles(scope);
+    if (files.length === 0) {
+      new Notice('No notes match the selection');
+      return;
+    }
+
+    const job = this.bulkService.createJob(files, scope, options, async (file, flashcards) => {
+      const { noteSaved } = await this.persistFlashcards(flashcards, file, this.deckRouter.resolve(file, flashcards).deckName);
+      if (!noteSaved) {
+        throw new Error('Failed to save flashcards to note');
+      }
+    });
+
+    this.activeBulkJob = job;
+    new BulkProgressModal(this.app, job).open();
+
+    try {
+      const result = await job.run();
+      new Notice(
+        `Bulk generation ${result.state}: ${result.cardsGenerated} flashcard(s) from ` +
+        `${result.processed - result.skipped - result.failed} note(s), ${result.skipped} skipped, ${result.failed} failed`
+      );
+    } finally {
+      this.activeBulkJob = undefined;
+    }
+  }
+
+  /**
+   * Remove flashcards of the active note and its companion note that repeat
+   * another card word for word, ignoring case, punctuation and markup
+   */
+  private async deduplicateActiveNoteFlashcards(): Promise<void> {
+    const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+    if (!file) {
+      new Notice('No active note');
+      return;
+    }
+
+    const removed = await this.markdownWriter.deduplicateFlashcards(file);
+    new Notice(removed > 0 ? `Removed ${removed} duplicate flashcard(s)` : 'No duplicate flashcards found');
+  }
+
+  /**
+   * Sync the flashcards already stored in the active note and its companion
+   * note to Anki, updating cards that exist in Anki and adding the rest
+   */
+  private async syncActiveNoteFlashcards(): Promise<void> {
+    const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+    if (!file) {
+      new Notice('No active note');
+      return;
+    }
+
+    const notes: { note: TFile; flashcards: Flashcard[] }[] = [];
+    for (const note of this.markdownWriter.getFlashcardNotes(file)) {
+      const flashcards = await this.markdownWriter.readFlashcardsFromNote(note);
+      if (flashcards.length > 0) {
+        notes.push({ note, flashcards });
+      }
+    }
+    if (notes.length === 0) {
+      new Notice('No flashcards found in this note');
+      return;
+    }
+
+    const waitingNotice = new Notice('Syncing flashcards...', 0);
+
+    try {
+      const totals: SyncResult = { synced: 0, updated: 0, queued: 0, errors: 0, outcomes: [] };
+      for (const { note, flashcards } of notes) {
+        IdUtils.ensureIds(flashcards);
+        const { deckName } = this.deckRouter.resolve(file, flashcards);
+        const result = await this.ankiService.syncFlashcards(flashcards, deckName, note.path);
+        await this.markdownWriter.updateFlashcardMetadata(note, flashcards);
+
+        totals.synced += result.synced;
+        totals.updated += result.updated;
+        totals.queued += result.queued;
+        totals.errors += result.errors;
+        totals.outcomes.push(...result.outcomes);
+      }
+
+      waitingNotice.hide();
+
+      const added = totals.synced - totals.updated;
+      let message = `✅ ${added} added, ${totals.updated} updated in Anki`;
+      if (totals.queued > 0) {
+        message += ` • ⏳ ${totals.queued} queued`;
+      }
+      if (totals.errors > 0) {
+        const failed = totals.outcomes.find(outcome => outcome.status === CardSyncStatus.FAILED);
+        message += ` • ❌ ${totals.errors} failed`;
+        if (failed?.error) {
+          message += ` ("${failed.flashcard.front}": ${failed.error})`;
+        }
+      }
+      new Notice(message);
+    } catch (error) {
+      waitingNotice.hide();
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`❌ Anki sync failed: ${errorMessage}`);
+      console.error('Note sync error:', error);
+    }
+  }
+
+  /**
+   * Pull edits made in Anki into the flashcards of the active note and its
+   * companion note. Cards changed on both sides are shown in a conflict modal.
+   */
+  private async pullActiveNoteFlashcards(): Promise<void> {
+    const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+    if (!file) {
+      new Notice('No active note');
+      return;
+    }
+
+    const notes: { note: TFile; flashcards: Flashcard[] }[] = [];
+    for (const note of this.markdownWriter.getFlashcardNotes(file)) {
+      const flashcards = await this.markdownWriter.readFlashcardsFromNote(note);
+      if (flashcards.some(card => card.id && card.ankiNoteId)) {
+        notes.push({ note, flashcards });
+      }
+    }
+    if (notes.length === 0) {
+      new Notice('No synced flashcards found in this note');
+      return;
+    }
+
+    if (!await this.ankiService.checkAnkiConnect()) {
+      new Notice('❌ Anki is not available');
+      return;
+    }
+
+    try {
+      const conflicts: PullConflict[] = [];
+      const conflictNotes: TFile[] = [];
+      let pulled = 0;
+      let localOnly = 0;
+      let missing = 0;
+
+      for (const { note, flashcards } of notes) {
+        const result = await this.ankiService.pullChanges(flashcards.filter(card => card.id));
+
+        if (result.pulled.length > 0) {
+          await this.markdownWriter.updateFlashcardContent(note, result.pulled);
+        }
+        if (result.unchanged.length > 0) {
+          await this.markdownWriter.updateFlashcardMetadata(note, result.unchanged);
+        }
+
+        pulled += result.pulled.length;
+        localOnly += result.localOnly;
+        missing += result.missing;
+        result.conflicts.forEach(conflict => {
+          conflicts.push(conflict);
+          conflictNotes.push(note);
+        });
+      }
+
+      let message = `✅ ${pulled} flashcard(s) updated from Anki`;
+      if (localOnly > 0) {
+        message += ` • ${localOnly} changed only in Obsidian (sync to push)`;
+      }
+      if (missing > 0) {
+        message += ` • ${missing} no longer in Anki`;
+      }
+      if (conflicts.length > 0) {
+        message += ` • ⚠️ ${conflicts.length} conflict(s)`;
+      }
+      new Notice(message);
+
+      if (conflicts.length > 0) {
+        new PullConflictModal(this.app, conflicts, (resolutions) => {
+          void this.resolvePullConflicts(conflictNotes, conflicts, resolutions);
+        }).open();
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`❌ Pull from Anki failed: ${errorMessage}`);
+      console.error('Pull error:', error);
+    }
+  }
+
+  /**
+   * Apply the chosen resolutions for pull conflicts
+   * @param notes - Note containing each conflicting flashcard
+   * @param conflicts - Conflicts found by the pull
+   * @param resolutions - Chosen resolution for each conflict
+   */
+  private async resolvePullConflicts(
+    notes: TFile[],
+    conflicts: PullConflict[],
+    resolutions: ConflictResolution[]
+  ): Promise<void> {
+    let resolved = 0;
+
+    try {
+      for (const file of new Set(notes)) {
+        const indices = conflicts.map((_, index) => index).filter(index => notes[index] === file);
+        const useAnki = indices
+          .filter(index => resolutions[index] === ConflictResolution.USE_ANKI)
+          .map(index => conflicts[index].remote);
+        const keepObsidian = indices
+          .filter(index => resolutions[index] === ConflictResolution.KEEP_OBSIDIAN)
+          .map(index => conflicts[index].local);
+
+        if (useAnki.length > 0) {
+          await this.markdownWriter.updateFlashcardContent(file, useAnki);
+        }
+        if (keepObsidian.length > 0) {
+          await this.ankiService.syncFlashcards(keepObsidian, this.deckRouter.resolve(file, keepObsidian).deckName, file.path);
+          await this.markdownWriter.updateFlashcardMetadata(file, keepObsidian);
+        }
+        resolved += useAnki.length + keepObsidian.length;
+      }
+
+      if (resolved > 0) {
+        new Notice(`✅ Resolved ${resolved} conflict(s)`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`❌ Failed to resolve conflicts: ${errorMessage}`);
+      console.error('Conflict resolution error:', error);
+    }
+  }
+
+  /**
+   * Open the flashcard browser in the right sidebar, or reveal it if it is open
+   */
+  private async openFlashcardBrowser(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(FLASHCARD_BROWSER_VIEW_TYPE)[0];
+
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) {
+        return;
+      }
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: FLASHCARD_BROWSER_VIEW_TYPE, active: true });
+    }
+
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Show the Anki connection state and the number of queued flashcards in the status bar
+   */
+  private updateStatusBar(): void {
+    if (!this.statusBarItem) {
+      return;
+    }
+
+    const state = this.connectionMonitor.getState();
+    const { count, deadLetters } = this.ankiService.getQueueStatus();
+    const label = {
+      [AnkiConnectionState.UNKNOWN]: '…',
+      [AnkiConnectionState.ONLINE]: 'online',
+      [AnkiConnectionState.OFFLINE]: 'offline'
+    }[state];
+
+    let text = `Anki: ${label}`;
+    if (count > 0) {
+      text += ` • ${count} queued`;
+    }
+    if (deadLetters.length > 0) {
+      text += ` • ${deadLetters.length} failed`;
+    }
+
+    this.statusBarItem.setText(text);
+    this.statusBarItem.setAttribute('aria-label', 'Open the Anki sync queue');
+  }
+
+  /**
+   * Show the remaining AI quota, or when requests resume after hitting the limit
+   * @param quota - Quota reported by the provider
+   */
+  private updateQuotaStatus(quota: RateLimitQuota): void {
+    if (!this.quotaStatusBarItem) {
+      return;
+    }
+
+    let text = '';
+    if (quota.pausedUntil !== undefined && quota.pausedUntil > Date.now()) {
+      text = `AI: rate limited until ${new Date(quota.pausedUntil).toLocaleTimeString()}`;
+    } else {
+      const parts: string[] = [];
+      if (quota.requestsRemaining !== undefined) {
+        parts.push(`${quota.requestsRemaining} requests`);
+      }
+      if (quota.tokensRemaining !== undefined) {
+        parts.push(`${quota.tokensRemaining} tokens`);
+      }
+      text = parts.length > 0 ? `AI: ${parts.join(' • ')} left` : '';
+    }
+
+    this.quotaStatusBarItem.toggleClass('hidden', !text);
+    this.quotaStatusBarItem.setText(text);
+    this.quotaStatusBarItem.setAttribute('aria-label', `${this.groqService.getProviderName()} quota left, as last reported`);
+  }
+
+  /**
+   * Count tokens with the vocabulary configured in settings, or estimate
+   * them if there is none or it cannot be read
+   */
+  private async loadTokenizer(): Promise<void> {
+    const path = this.settings.tokenizerPath.trim();
+    if (path === this.tokenizerPath) {
+      return;
+    }
+    this.tokenizerPath = path;
+
+    if (!path) {
+      TokenUtils.setTokenizer();
+      return;
+    }
+
+    try {
+      const data = await this.app.vault.adapter.read(path);
+      TokenUtils.setTokenizer(BpeTokenizer.fromTiktoken(path.split('/').pop() ?? path, data));
+    } catch (error) {
+      console.error('Failed to load tokenizer:', error);
+      TokenUtils.setTokenizer();
+      new Notice(`Could not load the tokenizer from ${path}, token counts are estimated`);
+    }
   }
 
   /**
@@ -362,6 +966,9 @@ export default class ObsiCardPlugin extends Plugin {
   async loadSettings(): Promise<void> {
     const data = await this.loadData();
     this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    // Copy the list settings so editing them never changes DEFAULT_SETTINGS
+    this.settings.deckRules = [...this.settings.deckRules];
+    this.settings.defaultTags = [...this.settings.defaultTags];
   }
 
   /**
@@ -369,19 +976,19 @@ export default class ObsiCardPlugin extends Plugin {
    */
   async saveSettings(): Promise<void> {
     await this.saveData(this.settings);
+    await this.loadTokenizer();
     
     // Update services with new settings
     this.groqService.updateSettings(this.settings);
     this.ankiService.updateSettings(this.settings);
+    this.deckRouter.updateSettings(this.settings);
+    this.duplicateDetector.updateSettings(this.settings);
     this.ankiService.updateApp(this.app);
+    this.markdownWriter.setOutputFormat(this.settings.outputFormat);
+    this.markdownWriter.setDestination(this.settings.flashcardDestination, this.settings.companionNotePath);
 
-    // Restart queue processing if needed
-    if (this.queueProcessInterval) {
-      this.ankiService.stopAutoProcessing(this.queueProcessInterval);
-    }
-    if (this.settings.enableOfflineQueue) {
-      this.startQueueProcessing();
-    }
+    // The AnkiConnect URL may have changed
+    void this.connectionMonitor.probe();
   }
 }
 
@@ -0,0 +1,132 @@
+import { AnkiConnectionState } from '../types';
+import { AnkiSyncService } from './AnkiSyncService';
+
+/**
+ * Tracks whether AnkiConnect is reachable and replays the sync queue as soon
+ * as it is. While Anki is offline it is probed with exponential backoff; every
+ * availability check made by the sync service also counts as a probe.
+ */
+export class AnkiConnectionMonitor {
+  private ankiService: AnkiSyncService;
+  private state = AnkiConnectionState.UNKNOWN;
+  private failures = 0;
+  private running = false;
+  private flushing = false;
+  private timer?: number;
+  private stateListener?: (state: AnkiConnectionState) => void;
+  private readonly ONLINE_INTERVAL_MS = 60000;
+  private readonly OFFLINE_BASE_DELAY_MS = 5000;
+  private readonly OFFLINE_MAX_DELAY_MS = 300000;
+
+  constructor(ankiService: AnkiSyncService) {
+    this.ankiService = ankiService;
+    this.ankiService.setConnectionListener(online => this.update(online));
+  }
+
+  /**
+   * Register a callback for connection state changes
+   * @param listener - Called with the new state
+   */
+  setStateListener(listener: (state: AnkiConnectionState) => void): void {
+    this.stateListener = listener;
+  }
+
+  /**
+   * Get the connection state seen by the last probe
+   * @returns Connection state
+   */
+  getState(): AnkiConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Start probing AnkiConnect
+   */
+  start(): void {
+    this.running = true;
+    void this.probe();
+  }
+
+  /**
+   * Stop probing AnkiConnect
+   */
+  stop(): void {
+    this.running = false;
+    window.clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Check AnkiConnect now. The result arrives through the connection
+   * listener, which schedules the next probe.
+   */
+  async probe(): Promise<void> {
+    window.clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.ankiService.checkAnkiConnect();
+  }
+
+  /**
+   * Record the result of an availability check
+   * @param online - Whether AnkiConnect answered
+   */
+  private update(online: boolean): void {
+    const previous = this.state;
+    this.state = online ? AnkiConnectionState.ONLINE : AnkiConnectionState.OFFLINE;
+    this.failures = online ? 0 : this.failures + 1;
+
+    if (this.state !== previous) {
+      this.stateListener?.(this.state);
+    }
+    if (online && this.hasDueItems()) {
+      void this.flush();
+    }
+    this.schedule();
+  }
+
+  /**
+   * Schedule the next probe: a fixed interval while online, exponential
+   * backoff while offline
+   */
+  private schedule(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const delay = this.state === AnkiConnectionState.ONLINE
+      ? this.ONLINE_INTERVAL_MS
+      : Math.min(this.OFFLINE_BASE_DELAY_MS * 2 ** Math.max(this.failures - 1, 0), this.OFFLINE_MAX_DELAY_MS);
+
+    window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => {
+      void this.probe();
+    }, delay);
+  }
+
+  /**
+   * Replay the queue once, ignoring checks made while it runs
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      await this.ankiService.processQueue();
+    } catch (error) {
+      console.error('Error processing queue:', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Check whether any queued item is ready to be replayed
+   * @returns True if an item is not backing off
+   */
+  private hasDueItems(): boolean {
+    const now = Date.now();
+    return this.ankiService.getQueueStatus().items.some(item => !item.nextAttempt || item.nextAttempt <= now);
+  }
+}
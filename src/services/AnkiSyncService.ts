@@ -1,5 +1,40 @@
 import { Notice, App, requestUrl } from 'obsidian';
-import { Flashcard, AnkiConnectRequest, AnkiConnectResponse, QueuedSyncItem, ObsiCardSettings } from '../types';
+import {
+  Flashcard,
+  AnkiConnectRequest,
+  AnkiConnectResponse,
+  QueuedSyncItem,
+  ObsiCardSettings,
+  SyncResult,
+  SyncQueueData,
+  CardSyncOutcome,
+  CardSyncStatus,
+  CardType,
+  FieldMapping,
+  FlashcardField,
+  AnkiNoteInfo,
+  PullResult
+} from '../types';
+import { IdUtils } from '../utils/IdUtils';
+import { Sanitizer } from '../utils/Sanitizer';
+import { CancellationUtils, CancelledError } from '../utils/CancellationUtils';
+
+/**
+ * Error reported by AnkiConnect itself (as opposed to a connection failure).
+ * These are not transient, so the cards are not queued for retry.
+ */
+export class AnkiConnectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnkiConnectError';
+  }
+}
+
+/**
+ * Flashcard in a sync batch, with the note it is stored in and its target
+ * deck and note type (the configured ones if not set)
+ */
+type BatchItem = Pick<QueuedSyncItem, 'flashcard' | 'filePath' | 'deckName' | 'modelName'>;
 
 /**
  * Service for syncing flashcards with Anki Desktop via AnkiConnect
@@ -7,15 +42,28 @@ import { Flashcard, AnkiConnectRequest, AnkiConnectResponse, QueuedSyncItem, Obs
 export class AnkiSyncService {
   private settings: ObsiCardSettings;
   private app: App;
+  private queuePath: string;
   private syncQueue: QueuedSyncItem[] = [];
+  private deadLetters: QueuedSyncItem[] = [];
   private isProcessingQueue = false;
+  private queueWrite: Promise<void> = Promise.resolve();
   private readonly ANKI_CONNECT_VERSION = 6;
-  private readonly QUEUE_STORAGE_KEY = 'obsicard-sync-queue';
+  private readonly LEGACY_QUEUE_STORAGE_KEY = 'obsicard-sync-queue';
+  private readonly RETRY_BASE_DELAY_MS = 60000;
+  private readonly RETRY_MAX_DELAY_MS = 3600000;
+  private noteIdListener?: (filePath: string, flashcards: Flashcard[]) => void;
+  private connectionListener?: (online: boolean) => void;
+  private queueListener?: () => void;
 
-  constructor(settings: ObsiCardSettings, app: App) {
+  /**
+   * @param settings - Plugin settings
+   * @param app - Obsidian app instance
+   * @param queuePath - Vault path of the file the sync queue is stored in
+   */
+  constructor(settings: ObsiCardSettings, app: App, queuePath: string) {
     this.settings = settings;
     this.app = app;
-    this.loadQueue();
+    this.queuePath = queuePath;
   }
 
   /**
@@ -34,113 +82,250 @@ export class AnkiSyncService {
     this.app = app;
   }
 
+  /**
+   * Register a callback for Anki note IDs and sync hashes recorded while
+   * replaying the queue, so they can be written back to the note the
+   * flashcards live in
+   * @param listener - Called with the note path and the synced flashcards
+   */
+  setNoteIdListener(listener: (filePath: string, flashcards: Flashcard[]) => void): void {
+    this.noteIdListener = listener;
+  }
+
+  /**
+   * Register a callback for the result of every AnkiConnect availability check
+   * @param listener - Called with true if AnkiConnect answered
+   */
+  setConnectionListener(listener: (online: boolean) => void): void {
+    this.connectionListener = listener;
+  }
+
+  /**
+   * Register a callback for changes to the sync queue or dead-letter list
+   * @param listener - Called after every change
+   */
+  setQueueListener(listener: () => void): void {
+    this.queueListener = listener;
+  }
+
   /**
    * Sync a single flashcard to Anki
    * @param flashcard - Flashcard to sync
-   * @returns True if sync successful
+   * @returns True if synced or queued for later
    */
   async syncFlashcard(flashcard: Flashcard): Promise<boolean> {
-    try {
-      // Check if Anki is available
-      const isAvailable = await this.checkAnkiConnect();
-      
-      if (!isAvailable) {
-        if (this.settings.enableOfflineQueue) {
-          this.queueFlashcard(flashcard);
-          return true; // Consider queued as successful
-        } else {
-          throw new Error('AnkiConnect is not available');
-        }
-      }
+    const { outcomes: [outcome] } = await this.syncFlashcards([flashcard]);
 
-      // Ensure deck exists
-      await this.ensureDeckExists();
-
-      // Create note in Anki
-      await this.createAnkiNote(flashcard);
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to sync flashcard:', error);
-      
-      if (this.settings.enableOfflineQueue) {
-        this.queueFlashcard(flashcard);
-        return true;
-      }
-      
-      throw error;
+    if (outcome.status === CardSyncStatus.FAILED) {
+      throw new Error(outcome.error);
     }
+    return true;
   }
 
   /**
    * Sync a single flashcard to Anki with detailed status
    * @param flashcard - Flashcard to sync
    * @param customDeckName - Optional custom deck name
+   * @param filePath - Note the flashcard is stored in
    * @returns Status object
    */
-  async syncFlashcardWithStatus(flashcard: Flashcard, customDeckName?: string): Promise<{ synced: boolean; queued: boolean; error: boolean }> {
-    try {
-      // Check if Anki is available
-      const isAvailable = await this.checkAnkiConnect();
-      
-      if (!isAvailable) {
-        if (this.settings.enableOfflineQueue) {
-          this.queueFlashcard(flashcard);
-          return { synced: false, queued: true, error: false };
-        } else {
-          return { synced: false, queued: false, error: true };
-        }
-      }
+  async syncFlashcardWithStatus(
+    flashcard: Flashcard,
+    customDeckName?: string,
+    filePath?: string
+  ): Promise<{ synced: boolean; updated: boolean; queued: boolean; error: boolean }> {
+    const { outcomes: [outcome] } = await this.syncFlashcards([flashcard], customDeckName, filePath);
 
-      // Ensure deck exists
-      await this.ensureDeckExists(customDeckName);
+    return {
+      synced: outcome.status === CardSyncStatus.ADDED || outcome.status === CardSyncStatus.UPDATED,
+      updated: outcome.status === CardSyncStatus.UPDATED,
+      queued: outcome.status === CardSyncStatus.QUEUED,
+      error: outcome.status === CardSyncStatus.FAILED
+    };
+  }
 
-      // Create note in Anki
-      await this.createAnkiNote(flashcard, customDeckName);
-      
-      return { synced: true, queued: false, error: false };
-    } catch (error) {
+  /**
+   * Sync multiple flashcards to Anki in one batch.
+   * Flashcards that already have an Anki note are updated in place; new ones
+   * are added and get their `ankiNoteId` set. AnkiConnect and the deck are
+   * checked once for the whole batch.
+   * @param flashcards - Flashcards to sync
+   * @param customDeckName - Optional custom deck name
+   * @param filePath - Note the flashcards are stored in
+   * @param signal - Cancels the sync; cards not yet sent are left out
+   * @returns Sync, update, queue and error counts, and the outcome of each flashcard
+   */
+  async syncFlashcards(
+    flashcards: Flashcard[],
+    customDeckName?: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<SyncResult> {
+    const items = flashcards.map(flashcard => ({ flashcard, filePath, deckName: customDeckName }));
+    if (items.length === 0) {
+      return this.summarizeOutcomes([]);
+    }
+
+    const onFailure = (item: BatchItem, error: unknown): CardSyncOutcome => {
+      if (error instanceof CancelledError) {
+        return { flashcard: item.flashcard, status: CardSyncStatus.CANCELLED };
+      }
       console.error('Failed to sync flashcard:', error);
-      
-      if (this.settings.enableOfflineQueue) {
-        this.queueFlashcard(flashcard);
-        return { synced: false, queued: true, error: false };
+
+      if (this.settings.enableOfflineQueue && !(error instanceof AnkiConnectError)) {
+        this.queueFlashcard(item, error);
+        return { flashcard: item.flashcard, status: CardSyncStatus.QUEUED };
       }
-      
-      return { synced: false, queued: false, error: true };
+      return { flashcard: item.flashcard, status: CardSyncStatus.FAILED, error: this.getErrorMessage(error) };
+    };
+
+    try {
+      CancellationUtils.throwIfCancelled(signal);
+      if (!(await this.checkAnkiConnect())) {
+        throw new Error('AnkiConnect is not available');
+      }
+      await this.ensureDeckExists(customDeckName);
+    } catch (error) {
+      return this.summarizeOutcomes(items.map(item => onFailure(item, error)));
     }
+
+    const outcomes = await this.applyBatch(items, onFailure, signal);
+
+    // Cards that made it to Anki must not be replayed from the queue
+    this.removeFromQueue(outcomes
+      .filter(outcome => outcome.status === CardSyncStatus.ADDED || outcome.status === CardSyncStatus.UPDATED)
+      .map(outcome => this.getQueueKey(outcome.flashcard)));
+
+    return this.summarizeOutcomes(outcomes);
   }
 
   /**
-   * Sync multiple flashcards to Anki
-   * @param flashcards - Flashcards to sync
-   * @param customDeckName - Optional custom deck name
-   * @returns Object with sync and queue counts
+   * Update and add the Anki notes of a batch of flashcards. Updates go out in
+   * one `multi` request and new notes in one `addNotes` request; a note that
+   * no longer exists in Anki is added again.
+   * @param items - Flashcards with the note they are stored in and their target deck
+   * @param onFailure - Decides the outcome of a flashcard that could not be synced
+   * @param signal - Checked between requests; a request that was sent is
+   * always completed so new note IDs are not lost
+   * @returns Outcome of each flashcard, in input order
    */
-  async syncFlashcards(flashcards: Flashcard[], customDeckName?: string): Promise<{ synced: number; queued: number; errors: number }> {
-    let syncedCount = 0;
-    let queuedCount = 0;
-    let errorCount = 0;
+  private async applyBatch<T extends BatchItem>(
+    items: T[],
+    onFailure: (item: T, error: unknown) => CardSyncOutcome,
+    signal?: AbortSignal
+  ): Promise<CardSyncOutcome[]> {
+    const outcomes: (CardSyncOutcome | undefined)[] = new Array(items.length);
+    const synced = (index: number, status: CardSyncStatus): void => {
+      const { flashcard } = items[index];
+      flashcard.syncHash = IdUtils.contentHash(flashcard);
+      outcomes[index] = { flashcard, status };
+    };
 
-    for (const flashcard of flashcards) {
-      try {
-        const result = await this.syncFlashcardWithStatus(flashcard, customDeckName);
-        if (result.synced) {
-          syncedCount++;
-        } else if (result.queued) {
-          queuedCount++;
-        } else {
-          errorCount++;
+    try {
+      const indexes = items.map((_, index) => index);
+      const toUpdate = indexes.filter(index => items[index].flashcard.ankiNoteId);
+      const toAdd = indexes.filter(index => !items[index].flashcard.ankiNoteId);
+
+      if (toUpdate.length > 0) {
+        CancellationUtils.throwIfCancelled(signal);
+        const responses = await this.invokeMulti(toUpdate.flatMap(index => {
+          const { flashcard, filePath } = items[index];
+          return [
+            {
+              action: 'updateNoteFields',
+              params: { note: { id: flashcard.ankiNoteId, fields: this.buildNoteFields(flashcard, filePath).fields } }
+            },
+            { action: 'updateNoteTags', params: { note: flashcard.ankiNoteId, tags: flashcard.tags } }
+          ];
+        }));
+
+        toUpdate.forEach((index, position) => {
+          const fieldsResponse = responses[position * 2];
+          const tagsResponse = responses[position * 2 + 1];
+
+          if (fieldsResponse.error) {
+            // Note was deleted in Anki; add it again
+            if (/not found/i.test(fieldsResponse.error)) {
+              toAdd.push(index);
+            } else {
+              outcomes[index] = onFailure(items[index], new AnkiConnectError(`Failed to update Anki note: ${fieldsResponse.error}`));
+            }
+          } else if (tagsResponse.error) {
+            outcomes[index] = onFailure(items[index], new AnkiConnectError(`Failed to update Anki note tags: ${tagsResponse.error}`));
+          } else {
+            synced(index, CardSyncStatus.UPDATED);
+          }
+        });
+        toAdd.sort((a, b) => a - b);
+      }
+
+      if (toAdd.length > 0) {
+        const notes = toAdd.map(index => this.buildAnkiNote(items[index]));
+
+        // Checked first so one rejected note does not fail the whole addNotes request
+        CancellationUtils.throwIfCancelled(signal);
+        const checkResponse = await this.invokeAnkiConnect('canAddNotesWithErrorDetail', { notes });
+        if (checkResponse.error) {
+          throw new AnkiConnectError(`Failed to check Anki notes: ${checkResponse.error}`);
+        }
+        const checks = checkResponse.result as { canAdd: boolean; error?: string }[];
+
+        const addable = toAdd.filter((index, position) => {
+          if (!checks[position].canAdd) {
+            const reason = checks[position].error || 'Anki rejected the note';
+            outcomes[index] = onFailure(items[index], new AnkiConnectError(`Failed to create Anki note: ${reason}`));
+          }
+          return checks[position].canAdd;
+        });
+
+        if (addable.length > 0) {
+          CancellationUtils.throwIfCancelled(signal);
+          const addResponse = await this.invokeAnkiConnect('addNotes', {
+            notes: addable.map(index => notes[toAdd.indexOf(index)])
+          });
+          if (addResponse.error) {
+            throw new AnkiConnectError(`Failed to create Anki notes: ${addResponse.error}`);
+          }
+
+          (addResponse.result as (number | null)[]).forEach((noteId, position) => {
+            const index = addable[position];
+            if (noteId === null) {
+              outcomes[index] = onFailure(items[index], new AnkiConnectError('Failed to create Anki note'));
+            } else {
+              items[index].flashcard.ankiNoteId = noteId;
+              synced(index, CardSyncStatus.ADDED);
+            }
+          });
         }
-        // Brief delay between syncs
-        await this.delay(100);
-      } catch (error) {
-        console.error('Failed to sync flashcard:', error);
-        errorCount++;
       }
+    } catch (error) {
+      // Cards sent before the failure keep their outcome
+      items.forEach((item, index) => {
+        if (!outcomes[index]) {
+          outcomes[index] = onFailure(item, error);
+        }
+      });
     }
 
-    return { synced: syncedCount, queued: queuedCount, errors: errorCount };
+    return outcomes as CardSyncOutcome[];
+  }
+
+  /**
+   * Total the outcomes of a batch
+   * @param outcomes - Outcome of each flashcard
+   * @returns Sync result
+   */
+  private summarizeOutcomes(outcomes: CardSyncOutcome[]): SyncResult {
+    const count = (status: CardSyncStatus) => outcomes.filter(outcome => outcome.status === status).length;
+    const updated = count(CardSyncStatus.UPDATED);
+
+    return {
+      synced: count(CardSyncStatus.ADDED) + updated,
+      updated,
+      queued: count(CardSyncStatus.QUEUED),
+      errors: count(CardSyncStatus.FAILED),
+      outcomes
+    };
   }
 
   /**
@@ -148,12 +333,16 @@ export class AnkiSyncService {
    * @returns True if available
    */
   async checkAnkiConnect(): Promise<boolean> {
+    let available: boolean;
     try {
       const response = await this.invokeAnkiConnect('version', {});
-      return response.error === null;
+      available = response.error === null;
     } catch {
-      return false;
+      available = false;
     }
+
+    this.connectionListener?.(available);
+    return available;
   }
 
   /**
@@ -161,48 +350,335 @@ export class AnkiSyncService {
    * @param customDeckName - Optional custom deck name
    */
   private async ensureDeckExists(customDeckName?: string): Promise<void> {
-    const deckName = customDeckName || this.settings.ankiDeckName;
-    
-    // Get all deck names
+    await this.ensureDecksExist([customDeckName || this.settings.ankiDeckName]);
+  }
+
+  /**
+   * Create the decks that do not exist in Anki yet, with a single deck lookup.
+   * Parents of nested decks (`Uni::Bio101`) are created first.
+   * @param deckNames - Deck names
+   */
+  private async ensureDecksExist(deckNames: string[]): Promise<void> {
     const response = await this.invokeAnkiConnect('deckNames', {});
-    const deckNames = response.result as string[];
+    const existing = new Set(response.result as string[]);
 
-    // Check if our deck exists
-    if (!deckNames.includes(deckName)) {
-      // Create deck
-      await this.invokeAnkiConnect('createDeck', {
-        deck: deckName
-      });
+    for (const deckName of deckNames) {
+      const levels = deckName.split('::');
+      for (let depth = 1; depth <= levels.length; depth++) {
+        const path = levels.slice(0, depth).join('::');
+        if (existing.has(path)) {
+          continue;
+        }
+
+        const createResponse = await this.invokeAnkiConnect('createDeck', {
+          deck: path
+        });
+        if (createResponse.error) {
+          throw new AnkiConnectError(`Failed to create deck "${path}": ${createResponse.error}`);
+        }
+        existing.add(path);
+      }
     }
   }
 
   /**
-   * Create a note in Anki
-   * @param flashcard - Flashcard to create
-   * @param customDeckName - Optional custom deck name
+   * Build the addNote payload for a flashcard
+   * @param item - Flashcard with its note, target deck and note type
+   * @returns Note for addNotes and canAddNotes
    */
-  private async createAnkiNote(flashcard: Flashcard, customDeckName?: string): Promise<void> {
-    const deckName = customDeckName || this.settings.ankiDeckName;
-    
-    const note = {
-      deckName: deckName,
-      modelName: 'Basic',
-      fields: {
-        Front: flashcard.front,
-        Back: flashcard.back
-      },
-      tags: flashcard.tags,
+  private buildAnkiNote(item: BatchItem): Record<string, unknown> {
+    const { modelName, fields } = this.buildNoteFields(item.flashcard, item.filePath);
+
+    return {
+      deckName: item.deckName || this.settings.ankiDeckName,
+      modelName: item.modelName || modelName,
+      fields,
+      tags: item.flashcard.tags,
       options: {
         allowDuplicate: false,
         duplicateScope: 'deck'
       }
     };
+  }
+
+  /**
+   * Map a flashcard to an Anki note type and its fields using the configured
+   * field mapping. Anki fields not present in the mapping are left empty.
+   * @param flashcard - Flashcard to map
+   * @param filePath - Note the flashcard is stored in, used for source links
+   * @returns Note type name and field values
+   */
+  buildNoteFields(flashcard: Flashcard, filePath?: string): { modelName: string; fields: Record<string, string> } {
+    const isCloze = flashcard.type === CardType.CLOZE;
+    const modelName = isCloze ? this.settings.ankiClozeNoteType : this.settings.ankiNoteType;
+    const mapping = isCloze ? this.settings.ankiClozeFieldMapping : this.settings.ankiFieldMapping;
+    const fields: Record<string, string> = {};
+
+    for (const [fieldName, property] of Object.entries(mapping)) {
+      if (property !== FlashcardField.NONE) {
+        fields[fieldName] = this.getFieldValue(flashcard, property, filePath);
+      }
+    }
+
+    return { modelName, fields };
+  }
+
+  /**
+   * Get the value of a flashcard property for an Anki field
+   * @param flashcard - Flashcard to read
+   * @param property - Property to read
+   * @param filePath - Note the flashcard is stored in
+   * @returns Field value
+   */
+  private getFieldValue(flashcard: Flashcard, property: FlashcardField, filePath?: string): string {
+    switch (property) {
+      case FlashcardField.FRONT:
+        return flashcard.front;
+      case FlashcardField.BACK:
+        return flashcard.back;
+      case FlashcardField.TAGS:
+        return flashcard.tags.join(' ');
+      case FlashcardField.SOURCE:
+        return flashcard.source || '';
+      case FlashcardField.SOURCE_LINK:
+        return this.buildSourceLink(flashcard, filePath);
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Build an obsidian:// link that opens the note a flashcard came from
+   * @param flashcard - Flashcard to link
+   * @param filePath - Note the flashcard is stored in
+   * @returns HTML link, or an empty string if the note is unknown
+   */
+  private buildSourceLink(flashcard: Flashcard, filePath?: string): string {
+    if (!filePath) {
+      return '';
+    }
+
+    const vault = encodeURIComponent(this.app.vault.getName());
+    const file = encodeURIComponent(filePath);
+    const label = flashcard.source || filePath.replace(/\.md$/, '');
+
+    return `<a href="obsidian://open?vault=${vault}&file=${file}">${label}</a>`;
+  }
+
+  /**
+   * Compare flashcards with their Anki notes to find edits made in Anki.
+   * The `syncHash` recorded at the last sync tells which side changed;
+   * cards without one are treated as conflicts when the sides differ.
+   * @param flashcards - Flashcards from a note; only those with an `ankiNoteId` are checked
+   * @returns Cards to pull, unchanged cards and conflicts
+   */
+  async pullChanges(flashcards: Flashcard[]): Promise<PullResult> {
+    const result: PullResult = { pulled: [], unchanged: [], conflicts: [], localOnly: 0, missing: 0 };
+    const linked = flashcards.filter(card => card.ankiNoteId);
+    if (linked.length === 0) {
+      return result;
+    }
+
+    const findResponse = await this.invokeAnkiConnect('findNotes', {
+      query: `nid:${linked.map(card => card.ankiNoteId).join(',')}`
+    });
+    if (findResponse.error) {
+      throw new AnkiConnectError(`Failed to find Anki notes: ${findResponse.error}`);
+    }
+    const existingIds = findResponse.result as number[];
+
+    const infoResponse = await this.invokeAnkiConnect('notesInfo', { notes: existingIds });
+    if (infoResponse.error) {
+      throw new AnkiConnectError(`Failed to read Anki notes: ${infoResponse.error}`);
+    }
+    const notes = new Map<number, AnkiNoteInfo>();
+    for (const info of infoResponse.result as AnkiNoteInfo[]) {
+      notes.set(info.noteId, info);
+    }
+
+    for (const local of linked) {
+      const info = notes.get(local.ankiNoteId as number);
+      if (!info) {
+        result.missing++;
+        continue;
+      }
+
+      const remote = this.parseAnkiNote(info, local);
+      const localHash = IdUtils.contentHash(local);
+      const remoteHash = IdUtils.contentHash(remote);
+
+      if (localHash === remoteHash) {
+        local.syncHash = localHash;
+        result.unchanged.push(local);
+      } else if (local.syncHash === localHash) {
+        remote.syncHash = remoteHash;
+        result.pulled.push(remote);
+      } else if (local.syncHash === remoteHash) {
+        result.localOnly++;
+      } else {
+        remote.syncHash = remoteHash;
+        result.conflicts.push({ local, remote });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Read a flashcard back from an Anki note using the field mapping
+   * @param info - Note from notesInfo
+   * @param local - Flashcard the note belongs to; supplies IDs and fields that are not mapped
+   * @returns Flashcard with the content stored in Anki
+   */
+  private parseAnkiNote(info: AnkiNoteInfo, local: Flashcard): Flashcard {
+    const isCloze = info.modelName === this.settings.ankiClozeNoteType;
+    const mapping = isCloze ? this.settings.ankiClozeFieldMapping : this.settings.ankiFieldMapping;
+    const readField = (property: FlashcardField): string | undefined => {
+      const entry = Object.entries(mapping).find(([, mapped]) => mapped === property);
+      const field = entry ? info.fields[entry[0]] : undefined;
+      return field ? Sanitizer.htmlToText(field.value) : undefined;
+    };
+
+    return {
+      ...local,
+      front: readField(FlashcardField.FRONT) ?? local.front,
+      back: readField(FlashcardField.BACK) ?? local.back,
+      tags: [...info.tags],
+      ...(isCloze ? { type: CardType.CLOZE } : {})
+    };
+  }
+
+  /**
+   * Read the notes of a deck and its subdecks as flashcards. Note types
+   * without a field mapping are read from their first two fields.
+   * @param deckName - Deck name
+   * @returns Flashcards carrying their `ankiNoteId`
+   */
+  async getDeckFlashcards(deckName: string): Promise<Flashcard[]> {
+    const findResponse = await this.invokeAnkiConnect('findNotes', {
+      query: `deck:"${deckName.replace(/["\\]/g, '\\$&')}"`
+    });
+    if (findResponse.error) {
+      throw new AnkiConnectError(`Failed to find Anki notes: ${findResponse.error}`);
+    }
+    const noteIds = findResponse.result as number[];
+    if (noteIds.length === 0) {
+      return [];
+    }
+
+    const infoResponse = await this.invokeAnkiConnect('notesInfo', { notes: noteIds });
+    if (infoResponse.error) {
+      throw new AnkiConnectError(`Failed to read Anki notes: ${infoResponse.error}`);
+    }
+
+    return (infoResponse.result as AnkiNoteInfo[]).map(info => {
+      const fields = Object.values(info.fields)
+        .sort((a, b) => a.order - b.order)
+        .map(field => Sanitizer.htmlToText(field.value));
+      return this.parseAnkiNote(info, {
+        front: fields[0] ?? '',
+        back: fields[1] ?? '',
+        tags: [],
+        ankiNoteId: info.noteId
+      });
+    });
+  }
 
-    const response = await this.invokeAnkiConnect('addNote', { note });
-    
+  /**
+   * Delete notes from Anki
+   * @param noteIds - Anki note IDs
+   */
+  async deleteNotes(noteIds: number[]): Promise<void> {
+    if (noteIds.length === 0) {
+      return;
+    }
+
+    const response = await this.invokeAnkiConnect('deleteNotes', { notes: noteIds });
+    if (response.error) {
+      throw new AnkiConnectError(`Failed to delete notes: ${response.error}`);
+    }
+  }
+
+  /**
+   * Move the cards of Anki notes to another deck, creating it if needed
+   * @param noteIds - Anki note IDs
+   * @param deckName - Target deck
+   */
+  async changeDeck(noteIds: number[], deckName: string): Promise<void> {
+    if (noteIds.length === 0) {
+      return;
+    }
+
+    await this.ensureDeckExists(deckName);
+
+    const findResponse = await this.invokeAnkiConnect('findCards', { query: `nid:${noteIds.join(',')}` });
+    if (findResponse.error) {
+      throw new AnkiConnectError(`Failed to find cards: ${findResponse.error}`);
+    }
+
+    const response = await this.invokeAnkiConnect('changeDeck', { cards: findResponse.result, deck: deckName });
+    if (response.error) {
+      throw new AnkiConnectError(`Failed to move cards to "${deckName}": ${response.error}`);
+    }
+  }
+
+  /**
+   * Get the note types available in Anki
+   * @returns Note type names
+   */
+  async getModelNames(): Promise<string[]> {
+    const response = await this.invokeAnkiConnect('modelNames', {});
     if (response.error) {
-      throw new Error(`Failed to create Anki note: ${response.error}`);
+      throw new AnkiConnectError(`Failed to load note types: ${response.error}`);
     }
+    return response.result as string[];
+  }
+
+  /**
+   * Get the fields of an Anki note type, in order
+   * @param modelName - Note type name
+   * @returns Field names
+   */
+  async getModelFieldNames(modelName: string): Promise<string[]> {
+    const response = await this.invokeAnkiConnect('modelFieldNames', { modelName });
+    if (response.error) {
+      throw new AnkiConnectError(`Failed to load fields of "${modelName}": ${response.error}`);
+    }
+    return response.result as string[];
+  }
+
+  /**
+   * Check a field mapping against the live note type in Anki
+   * @param modelName - Note type name
+   * @param mapping - Mapping from Anki field to flashcard property
+   * @returns Warnings (empty if the mapping matches)
+   */
+  async validateFieldMapping(modelName: string, mapping: FieldMapping): Promise<string[]> {
+    const modelNames = await this.getModelNames();
+    if (!modelNames.includes(modelName)) {
+      return [`Note type "${modelName}" does not exist in Anki`];
+    }
+
+    const fieldNames = await this.getModelFieldNames(modelName);
+    const warnings: string[] = [];
+    const mapped = Object.entries(mapping).filter(([, property]) => property !== FlashcardField.NONE);
+
+    for (const [fieldName] of mapped) {
+      if (!fieldNames.includes(fieldName)) {
+        warnings.push(`Field "${fieldName}" does not exist in note type "${modelName}"`);
+      }
+    }
+
+    if (!mapped.some(([, property]) => property === FlashcardField.FRONT)) {
+      warnings.push('No field receives the card front');
+    }
+
+    // Anki rejects notes whose first field is empty
+    if (fieldNames.length > 0 && !mapped.some(([fieldName]) => fieldName === fieldNames[0])) {
+      warnings.push(`The first field "${fieldNames[0]}" is not mapped, so Anki will reject new notes`);
+    }
+
+    return warnings;
   }
 
   /**
@@ -238,25 +714,87 @@ export class AnkiSyncService {
   }
 
   /**
-   * Queue a flashcard for later sync
-   * @param flashcard - Flashcard to queue
+   * Run several AnkiConnect actions in one `multi` request
+   * @param actions - Actions and their parameters
+   * @returns Response of each action, in order
+   */
+  private async invokeMulti(
+    actions: { action: string; params: Record<string, unknown> }[]
+  ): Promise<AnkiConnectResponse[]> {
+    const response = await this.invokeAnkiConnect('multi', {
+      actions: actions.map(action => ({ ...action, version: this.ANKI_CONNECT_VERSION }))
+    });
+
+    if (response.error) {
+      throw new AnkiConnectError(`Failed to run batched Anki actions: ${response.error}`);
+    }
+
+    return response.result as AnkiConnectResponse[];
+  }
+
+  /**
+   * Get a readable message from a thrown value
+   * @param error - Thrown value
+   * @returns Error message
    */
-  private queueFlashcard(flashcard: Flashcard): void {
-    const item: QueuedSyncItem = {
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Queue a flashcard for later sync, replacing any queued or dead-lettered
+   * entry for the same card
+   * @param item - Flashcard with its note and target deck
+   * @param error - Why the flashcard could not be synced
+   */
+  private queueFlashcard(item: BatchItem, error?: unknown): void {
+    const { flashcard, filePath } = item;
+    this.dropQueued([this.getQueueKey(flashcard)]);
+
+    this.syncQueue.push({
       flashcard,
       timestamp: Date.now(),
-      retryCount: 0
-    };
+      retryCount: 0,
+      filePath,
+      deckName: item.deckName || this.settings.ankiDeckName,
+      modelName: item.modelName || this.buildNoteFields(flashcard).modelName,
+      lastError: error === undefined ? undefined : this.getErrorMessage(error)
+    });
+    void this.saveQueue();
+  }
+
+  /**
+   * Re-queue a queued flashcard that failed again, with exponential backoff.
+   * Items that used up their retries move to the dead-letter list.
+   * @param item - Queued item
+   * @param error - Why the attempt failed
+   * @returns Outcome of the attempt
+   */
+  private scheduleRetry(item: QueuedSyncItem, error: unknown): CardSyncOutcome {
+    console.error('Failed to sync queued item:', error);
+    item.lastError = this.getErrorMessage(error);
 
-    this.syncQueue.push(item);
-    this.saveQueue();
+    if (item.retryCount < this.settings.maxRetries) {
+      item.retryCount++;
+      item.nextAttempt = Date.now() + Math.min(
+        this.RETRY_BASE_DELAY_MS * 2 ** (item.retryCount - 1),
+        this.RETRY_MAX_DELAY_MS
+      );
+      this.syncQueue.push(item);
+      return { flashcard: item.flashcard, status: CardSyncStatus.QUEUED };
+    }
+
+    this.deadLetters.push(item);
+    return { flashcard: item.flashcard, status: CardSyncStatus.FAILED, error: item.lastError };
   }
 
   /**
    * Process the sync queue
+   * @param force - Also replay items that are still backing off
+   * @param keys - Queue keys of the items to replay; all due items if omitted
    * @returns Number of successfully synced items
    */
-  async processQueue(): Promise<number> {
+  async processQueue(force = false, keys?: string[]): Promise<number> {
     if (this.isProcessingQueue || this.syncQueue.length === 0) {
       return 0;
     }
@@ -269,32 +807,58 @@ export class AnkiSyncService {
       const isAvailable = await this.checkAnkiConnect();
       
       if (!isAvailable) {
-        new Notice('Anki is not available. Queue processing skipped.');
+        // Background flushes leave reporting the offline state to the status bar
+        if (force) {
+          new Notice('Anki is not available. Queue processing skipped.');
+        }
+        return 0;
+      }
+
+      const now = Date.now();
+      const itemsToProcess = this.syncQueue.filter(item =>
+        (!keys || keys.includes(this.getQueueKey(item.flashcard))) &&
+        (force || !item.nextAttempt || item.nextAttempt <= now)
+      );
+      if (itemsToProcess.length === 0) {
         return 0;
       }
 
       // Process queue items
-      const itemsToProcess = [...this.syncQueue];
-      this.syncQueue = [];
+      this.syncQueue = this.syncQueue.filter(item => !itemsToProcess.includes(item));
 
-      for (const item of itemsToProcess) {
-        try {
-          await this.createAnkiNote(item.flashcard);
-          successCount++;
-        } catch (error) {
-          console.error('Failed to sync queued item:', error);
-          
-          // Re-queue if below max retries
-          if (item.retryCount < this.settings.maxRetries) {
-            item.retryCount++;
-            this.syncQueue.push(item);
-          }
+      try {
+        await this.ensureDecksExist(itemsToProcess.map(item => item.deckName || this.settings.ankiDeckName));
+      } catch (error) {
+        itemsToProcess.forEach(item => this.scheduleRetry(item, error));
+        await this.saveQueue();
+        return successCount;
+      }
+
+      const linkedByFile = new Map<string, Flashcard[]>();
+
+      const outcomes = await this.applyBatch(itemsToProcess, (item, error) => this.scheduleRetry(item, error));
+
+      outcomes.forEach((outcome, index) => {
+        const { filePath } = itemsToProcess[index];
+        if (outcome.status !== CardSyncStatus.ADDED && outcome.status !== CardSyncStatus.UPDATED) {
+          return;
         }
+        successCount++;
 
-        await this.delay(100);
-      }
+        if (filePath) {
+          const linked = linkedByFile.get(filePath) || [];
+          linked.push(outcome.flashcard);
+          linkedByFile.set(filePath, linked);
+        }
+      });
 
-      this.saveQueue();
+      await this.saveQueue();
+
+      if (this.noteIdListener) {
+        for (const [filePath, flashcards] of linkedByFile) {
+          this.noteIdListener(filePath, flashcards);
+        }
+      }
 
       if (successCount > 0) {
         new Notice(`Synced ${successCount} queued flashcard(s) to Anki`);
@@ -308,76 +872,180 @@ export class AnkiSyncService {
 
   /**
    * Get queue status
-   * @returns Queue information
+   * @returns Queue information, including items that used up their retries
    */
-  getQueueStatus(): { count: number; items: QueuedSyncItem[] } {
+  getQueueStatus(): { count: number; items: QueuedSyncItem[]; deadLetters: QueuedSyncItem[] } {
     return {
       count: this.syncQueue.length,
-      items: [...this.syncQueue]
+      items: [...this.syncQueue],
+      deadLetters: [...this.deadLetters]
     };
   }
 
   /**
-   * Clear the sync queue
+   * Get the key that identifies a flashcard in the queue
+   * @param flashcard - Flashcard
+   * @returns ObsiCard ID, or the card content for cards without one
    */
-  clearQueue(): void {
-    this.syncQueue = [];
-    this.saveQueue();
+  getQueueKey(flashcard: Flashcard): string {
+    return flashcard.id || `${flashcard.front}\u0000${flashcard.back}`;
   }
 
   /**
-   * Save queue to localStorage using App API
+   * Move dead-lettered items back into the queue with their retries reset
+   * @param keys - Queue keys of the items to retry; all items if omitted
+   * @returns Number of items moved
    */
-  private saveQueue(): void {
-    try {
-      this.app.saveLocalStorage(this.QUEUE_STORAGE_KEY, JSON.stringify(this.syncQueue));
-    } catch (error) {
-      console.error('Failed to save sync queue:', error);
+  retryDeadLetters(keys?: string[]): number {
+    const retried = this.deadLetters.filter(item => !keys || keys.includes(this.getQueueKey(item.flashcard)));
+    if (retried.length === 0) {
+      return 0;
+    }
+
+    this.deadLetters = this.deadLetters.filter(item => !retried.includes(item));
+    for (const item of retried) {
+      this.syncQueue.push({ ...item, retryCount: 0, nextAttempt: undefined });
     }
+    void this.saveQueue();
+    return retried.length;
   }
 
   /**
-   * Load queue from localStorage using App API
+   * Replay selected items now, including dead-lettered ones
+   * @param keys - Queue keys of the items
+   * @returns Number of successfully synced items
    */
-  private loadQueue(): void {
-    try {
-      const saved = this.app.loadLocalStorage(this.QUEUE_STORAGE_KEY);
-      if (saved) {
-        this.syncQueue = JSON.parse(saved);
+  async retryQueued(keys: string[]): Promise<number> {
+    this.retryDeadLetters(keys);
+    return this.processQueue(true, keys);
+  }
+
+  /**
+   * Replace the flashcard of a queued or dead-lettered item, e.g. after
+   * fixing the content Anki rejected
+   * @param key - Queue key of the item
+   * @param flashcard - Edited flashcard
+   */
+  updateQueuedFlashcard(key: string, flashcard: Flashcard): void {
+    const item = [...this.syncQueue, ...this.deadLetters].find(queued => this.getQueueKey(queued.flashcard) === key);
+    if (item) {
+      item.flashcard = flashcard;
+      void this.saveQueue();
+    }
+  }
+
+  /**
+   * Change the deck queued or dead-lettered items are replayed to
+   * @param keys - Queue keys of the items
+   * @param deckName - New target deck
+   */
+  setQueuedDeck(keys: string[], deckName: string): void {
+    for (const item of [...this.syncQueue, ...this.deadLetters]) {
+      if (keys.includes(this.getQueueKey(item.flashcard))) {
+        item.deckName = deckName;
       }
-    } catch (error) {
-      console.error('Failed to load sync queue:', error);
-      this.syncQueue = [];
     }
+    void this.saveQueue();
   }
 
   /**
-   * Start automatic queue processing
-   * @param intervalMs - Interval in milliseconds
-   * @returns Interval ID
+   * Remove queued and dead-lettered flashcards, e.g. after they were deleted
+   * from their note
+   * @param ids - ObsiCard IDs (queue keys) of the flashcards
    */
-  startAutoProcessing(intervalMs = 60000): number {
-    return window.setInterval(() => {
-      void this.processQueue().catch((error) => {
-        console.error('Error processing queue:', error);
-      });
-    }, intervalMs);
+  removeFromQueue(ids: string[]): void {
+    if (this.dropQueued(ids)) {
+      void this.saveQueue();
+    }
+  }
+
+  /**
+   * Remove items from the queue and the dead-letter list
+   * @param keys - Queue keys of the items
+   * @returns True if any item was removed
+   */
+  private dropQueued(keys: string[]): boolean {
+    const keep = (item: QueuedSyncItem) => !keys.includes(this.getQueueKey(item.flashcard));
+    const count = this.syncQueue.length + this.deadLetters.length;
+
+    this.syncQueue = this.syncQueue.filter(keep);
+    this.deadLetters = this.deadLetters.filter(keep);
+    return this.syncQueue.length + this.deadLetters.length !== count;
+  }
+
+  /**
+   * Clear the sync queue
+   */
+  clearQueue(): void {
+    this.syncQueue = [];
+    void this.saveQueue();
   }
 
   /**
-   * Stop automatic queue processing
-   * @param intervalId - Interval ID to stop
+   * Clear the dead-letter list
    */
-  stopAutoProcessing(intervalId: number): void {
-    clearInterval(intervalId);
+  clearDeadLetters(): void {
+    this.deadLetters = [];
+    void this.saveQueue();
   }
 
   /**
-   * Delay execution
-   * @param ms - Milliseconds to delay
+   * Write the queue to its file in the vault. Writes are chained so an
+   * older state never overwrites a newer one.
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private saveQueue(): Promise<void> {
+    const data: SyncQueueData = { items: this.syncQueue, deadLetters: this.deadLetters };
+    const json = JSON.stringify(data, null, 2);
+    this.queueListener?.();
+
+    this.queueWrite = this.queueWrite
+      .then(() => this.app.vault.adapter.write(this.queuePath, json))
+      .catch(error => console.error('Failed to save sync queue:', error));
+    return this.queueWrite;
+  }
+
+  /**
+   * Load the queue from its file in the vault. A queue left in local storage
+   * by earlier versions is moved into the file.
+   */
+  async loadQueue(): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      let data: Partial<SyncQueueData> = {};
+      let migrated = false;
+
+      if (await adapter.exists(this.queuePath)) {
+        data = JSON.parse(await adapter.read(this.queuePath)) as Partial<SyncQueueData>;
+      } else {
+        const legacy = this.app.loadLocalStorage(this.LEGACY_QUEUE_STORAGE_KEY) as string | null;
+        if (legacy) {
+          data = { items: JSON.parse(legacy) as QueuedSyncItem[] };
+          migrated = true;
+        }
+      }
+
+      // Items queued while loading win over stored ones for the same card
+      const queued = this.syncQueue;
+      this.syncQueue = [];
+      this.deadLetters = [];
+      for (const item of [...(data.items ?? []), ...queued]) {
+        this.dropQueued([this.getQueueKey(item.flashcard)]);
+        this.syncQueue.push(item);
+      }
+      for (const item of data.deadLetters ?? []) {
+        this.dropQueued([this.getQueueKey(item.flashcard)]);
+        this.deadLetters.push(item);
+      }
+
+      if (migrated || queued.length > 0) {
+        await this.saveQueue();
+      }
+      if (migrated) {
+        this.app.saveLocalStorage(this.LEGACY_QUEUE_STORAGE_KEY, null);
+      }
+    } catch (error) {
+      console.error('Failed to load sync queue:', error);
+    }
   }
 
   /**
@@ -0,0 +1,316 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { BulkScope, BulkScopeType, BulkJobState, BulkJobProgress, ChunkFailure, Flashcard, GenerationOptions } from '../types';
+import { GroqFlashcardService } from './GroqFlashcardService';
+import { MarkdownWriter } from './MarkdownWriter';
+import { NoteOverrideReader } from './NoteOverrideReader';
+
+/**
+ * Callback that saves (and optionally syncs) the cards generated for a note
+ */
+export type SaveFlashcardsCallback = (file: TFile, flashcards: Flashcard[]) => Promise<void>;
+
+/**
+ * Service for generating flashcards across many notes at once
+ */
+export class BulkGenerationService {
+  private app: App;
+  private groqService: GroqFlashcardService;
+  private markdownWriter: MarkdownWriter;
+
+  constructor(app: App, groqService: GroqFlashcardService, markdownWriter: MarkdownWriter) {
+    this.app = app;
+    this.groqService = groqService;
+    this.markdownWriter = markdownWriter;
+  }
+
+  /**
+   * Find the notes matching a bulk scope
+   * @param scope - Folder, tag or search query
+   * @returns Matching markdown files, sorted by path
+   */
+  async findFiles(scope: BulkScope): Promise<TFile[]> {
+    const value = scope.value.trim();
+    const files = this.app.vault.getMarkdownFiles();
+    let matches: TFile[];
+
+    switch (scope.type) {
+      case BulkScopeType.FOLDER: {
+        const folder = value.replace(/^\/+|\/+$/g, '');
+        matches = folder
+          ? files.filter(file => file.path.startsWith(folder + '/'))
+          : files;
+        break;
+      }
+
+      case BulkScopeType.TAG: {
+        const tag = '#' + value.replace(/^#/, '').toLowerCase();
+        matches = files.filter(file => {
+          const cache = this.app.metadataCache.getFileCache(file);
+          const tags = cache ? getAllTags(cache) || [] : [];
+          // Nested tags (#course/bio) match their parent tag too
+          return tags.some(t => {
+            const lower = t.toLowerCase();
+            return lower === tag || lower.startsWith(tag + '/');
+          });
+        });
+        break;
+      }
+
+      case BulkScopeType.QUERY: {
+        const query = value.toLowerCase();
+        matches = [];
+        for (const file of files) {
+          if (file.path.toLowerCase().includes(query)) {
+            matches.push(file);
+            continue;
+          }
+          const content = await this.app.vault.cachedRead(file);
+          if (content.toLowerCase().includes(query)) {
+            matches.push(file);
+          }
+        }
+        break;
+      }
+
+      default:
+        matches = [];
+    }
+
+    return matches.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Create a job that generates flashcards for the given notes
+   * @param files - Notes to process
+   * @param scope - Scope the notes were selected with
+   * @param options - Generation mode, tags and card type
+   * @param saveFlashcards - Saves the cards generated for each note
+   * @returns Job that has not been started yet
+   */
+  createJob(
+    files: TFile[],
+    scope: BulkScope,
+    options: GenerationOptions,
+    saveFlashcards: SaveFlashcardsCallback
+  ): BulkGenerationJob {
+    return new BulkGenerationJob(
+      this.app,
+      this.groqService,
+      this.markdownWriter,
+      files,
+      scope.includeExisting,
+      options,
+      saveFlashcards
+    );
+  }
+}
+
+/**
+ * A pausable, cancellable run of flashcard generation over many notes.
+ * Notes are processed one at a time; requests are throttled by the
+ * generation service's shared rate limiter.
+ */
+export class BulkGenerationJob {
+  private app: App;
+  private groqService: GroqFlashcardService;
+  private markdownWriter: MarkdownWriter;
+  private files: TFile[];
+  private includeExisting: boolean;
+  private options: GenerationOptions;
+  private overrideReader: NoteOverrideReader;
+  private saveFlashcards: SaveFlashcardsCallback;
+  private progress: BulkJobProgress;
+  private listeners = new Set<(progress: BulkJobProgress) => void>();
+  private resumeResolver?: () => void;
+  private controller = new AbortController();
+
+  constructor(
+    app: App,
+    groqService: GroqFlashcardService,
+    markdownWriter: MarkdownWriter,
+    files: TFile[],
+    includeExisting: boolean,
+    options: GenerationOptions,
+    saveFlashcards: SaveFlashcardsCallback
+  ) {
+    this.app = app;
+    this.groqService = groqService;
+    this.markdownWriter = markdownWriter;
+    this.files = files;
+    this.includeExisting = includeExisting;
+    this.options = options;
+    this.overrideReader = new NoteOverrideReader(app);
+    this.saveFlashcards = saveFlashcards;
+    this.progress = {
+      state: BulkJobState.RUNNING,
+      total: files.length,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      cardsGenerated: 0,
+      errors: []
+    };
+  }
+
+  /**
+   * Subscribe to progress updates
+   * @param listener - Called with a progress snapshot after every change
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: (progress: BulkJobProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the current progress
+   * @returns Progress snapshot
+   */
+  getProgress(): BulkJobProgress {
+    return { ...this.progress, errors: [...this.progress.errors] };
+  }
+
+  /**
+   * Pause after the note currently being processed
+   */
+  pause(): void {
+    if (this.progress.state === BulkJobState.RUNNING) {
+      this.progress.state = BulkJobState.PAUSED;
+      this.emit();
+    }
+  }
+
+  /**
+   * Resume a paused job
+   */
+  resume(): void {
+    if (this.progress.state === BulkJobState.PAUSED) {
+      this.progress.state = BulkJobState.RUNNING;
+      this.emit();
+      this.resumeResolver?.();
+    }
+  }
+
+  /**
+   * Stop the job. Generation for the current note stops as well; the
+   * flashcards it produced so far are still saved.
+   */
+  cancel(): void {
+    if (this.progress.state === BulkJobState.RUNNING || this.progress.state === BulkJobState.PAUSED) {
+      this.progress.state = BulkJobState.CANCELLED;
+      this.controller.abort();
+      this.emit();
+      this.resumeResolver?.();
+    }
+  }
+
+  /**
+   * Process all notes
+   * @returns Final progress
+   */
+  async run(): Promise<BulkJobProgress> {
+    this.emit();
+
+    for (const file of this.files) {
+      await this.waitWhilePaused();
+      if (this.progress.state === BulkJobState.CANCELLED) {
+        break;
+      }
+
+      this.progress.currentFile = file.path;
+      this.emit();
+
+      try {
+        await this.processFile(file);
+      } catch (error) {
+        this.progress.failed++;
+        this.progress.errors.push({
+          path: file.path,
+          message: error instanceof Error ? error.message : String(error)
+        });
+        console.error(`Bulk generation failed for ${file.path}:`, error);
+      }
+
+      this.progress.processed++;
+      this.emit();
+    }
+
+    this.progress.currentFile = undefined;
+    if (this.progress.state !== BulkJobState.CANCELLED) {
+      this.progress.state = BulkJobState.COMPLETED;
+    }
+    this.emit();
+
+    return this.getProgress();
+  }
+
+  /**
+   * Generate and save flashcards for a single note, using the overrides in
+   * its frontmatter
+   * @param file - Note to process
+   */
+  private async processFile(file: TFile): Promise<void> {
+    const overrides = this.overrideReader.read(file);
+    if (overrides.skip) {
+      this.progress.skipped++;
+      return;
+    }
+
+    if (!this.includeExisting && await this.markdownWriter.hasFlashcardsSection(file)) {
+      this.progress.skipped++;
+      return;
+    }
+
+    const content = await this.app.vault.read(file);
+    if (!content.trim()) {
+      this.progress.skipped++;
+      return;
+    }
+
+    const failures: ChunkFailure[] = [];
+    const flashcards = await this.groqService.generateFlashcards(
+      content,
+      NoteOverrideReader.apply(this.options, overrides),
+      file.basename,
+      false,
+      { signal: this.controller.signal, onChunkFailure: failure => failures.push(failure) }
+    );
+
+    // The note still produced cards; report the parts that did not
+    for (const failure of failures) {
+      this.progress.errors.push({
+        path: file.path,
+        message: `Part ${failure.chunk} of ${failure.chunksTotal}: ${failure.reason}`
+      });
+    }
+
+    if (flashcards.length === 0) {
+      return;
+    }
+
+    await this.saveFlashcards(file, flashcards);
+    this.progress.cardsGenerated += flashcards.length;
+  }
+
+  /**
+   * Block while the job is paused
+   */
+  private async waitWhilePaused(): Promise<void> {
+    while (this.progress.state === BulkJobState.PAUSED) {
+      await new Promise<void>(resolve => {
+        this.resumeResolver = resolve;
+      });
+      this.resumeResolver = undefined;
+    }
+  }
+
+  /**
+   * Notify listeners of the current progress
+   */
+  private emit(): void {
+    const snapshot = this.getProgress();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
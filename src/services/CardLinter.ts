@@ -0,0 +1,158 @@
+import { CardQuality, CardType, Flashcard, LintRule, LintWarning } from '../types';
+import { ClozeUtils } from '../utils/ClozeUtils';
+import { SimilarityUtils } from '../utils/SimilarityUtils';
+
+/**
+ * Points each rule takes off the score of 100
+ */
+const PENALTIES: Record<LintRule, number> = {
+  [LintRule.ANSWER_IN_QUESTION]: 45,
+  [LintRule.MULTIPLE_FACTS]: 30,
+  [LintRule.YES_NO_QUESTION]: 30,
+  [LintRule.MISSING_CONTEXT]: 25,
+  [LintRule.VAGUE_PRONOUN]: 20,
+  [LintRule.LONG_ANSWER]: 20
+};
+
+/**
+ * Answer length, in words, that is too much to recall in one go
+ */
+const LONG_ANSWER_WORDS = 50;
+
+/**
+ * Deletions sharing one cloze number that make a card test several facts
+ */
+const MAX_DELETIONS_PER_CARD = 2;
+
+const QUESTION_WORD = '(?:what|why|how|when|where|who|whom|which)';
+const AUXILIARY_VERB = '(?:is|are|was|were|do|does|did|can|could|will|would|should|shall|has|have|had|must|may|might)';
+const YES_NO_QUESTION = new RegExp(`^${AUXILIARY_VERB}\\b`, 'i');
+const YES_NO_ANSWER = /^(?:yes|no)\b/i;
+const TWO_QUESTIONS = new RegExp(`\\b${QUESTION_WORD}\\b.*\\band\\s+${QUESTION_WORD}\\b`, 'i');
+const LIST_ITEM = /^\s*(?:[-*+]|\d{1,3}[.)])\s+\S/;
+const PRONOUN = '(?:it|its|they|their|them|he|his|she|her|this|that|these|those)';
+const PRONOUN_START = new RegExp(`^${PRONOUN}\\b`, 'i');
+const PRONOUN_SUBJECT = new RegExp(`(?:^|\\b${QUESTION_WORD}\\s+)${AUXILIARY_VERB}\\s+${PRONOUN}\\b(?!\\s+(?:called|that|when|if)\\b)`, 'i');
+const SOURCE_REFERENCE = /\b(?:the|this)\s+(?:text|passage|article|note|notes|chapter|section|lecture|reading|document|author|video|example above)\b|\b(?:mentioned|described|discussed|shown|listed)\s+(?:above|earlier|before|previously)\b|\baccording to the (?:text|passage|notes?|lecture|author)\b/i;
+
+/**
+ * Linter that scores flashcards against spaced repetition best practices:
+ * one fact per card, questions that cannot be answered with yes or no,
+ * answers not given away by the question, cards that stand on their own
+ * and answers short enough to recall. The checks are heuristics tuned
+ * for English; they warn rather than reject.
+ */
+export class CardLinter {
+  /**
+   * Score a flashcard
+   * @param card - Flashcard to check
+   * @returns Score from 0 to 100 and the problems found
+   */
+  static lint(card: Flashcard): CardQuality {
+    const warnings = card.type === CardType.CLOZE ? this.lintCloze(card) : this.lintBasic(card);
+    const penalty = warnings.reduce((total, warning) => total + PENALTIES[warning.rule], 0);
+    return { score: Math.max(0, 100 - penalty), warnings };
+  }
+
+  /**
+   * Check a question and answer card
+   * @param card - Basic flashcard
+   * @returns Problems found
+   */
+  private static lintBasic(card: Flashcard): LintWarning[] {
+    const warnings: LintWarning[] = [];
+    const front = card.front.trim();
+    const back = card.back.trim();
+
+    const questions = (front.match(/\?/g) ?? []).length;
+    const listItems = back.split('\n').filter(line => LIST_ITEM.test(line)).length;
+    if (questions > 1 || TWO_QUESTIONS.test(front)) {
+      warnings.push({ rule: LintRule.MULTIPLE_FACTS, message: 'Asks several questions at once; split it into one card per question' });
+    } else if (listItems > 2) {
+      warnings.push({ rule: LintRule.MULTIPLE_FACTS, message: `Answer is a list of ${listItems} items; split it or use a cloze card per item` });
+    }
+
+    if ((YES_NO_QUESTION.test(front) && !/\bor\b/i.test(front)) || YES_NO_ANSWER.test(back)) {
+      warnings.push({ rule: LintRule.YES_NO_QUESTION, message: 'Can be answered with yes or no; ask for the fact itself' });
+    }
+
+    if (this.isGivenAway(SimilarityUtils.normalize(back), SimilarityUtils.normalize(front))) {
+      warnings.push({ rule: LintRule.ANSWER_IN_QUESTION, message: 'The question gives the answer away' });
+    }
+
+    this.lintContext(front, warnings);
+
+    const words = SimilarityUtils.normalize(back).split(' ').filter(Boolean).length;
+    if (words > LONG_ANSWER_WORDS) {
+      warnings.push({ rule: LintRule.LONG_ANSWER, message: `Answer is ${words} words long; keep it short enough to recall in one go` });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Check a cloze card. Its extra field is only shown with the answer, so
+   * neither its length nor its content matters.
+   * @param card - Cloze flashcard
+   * @returns Problems found
+   */
+  private static lintCloze(card: Flashcard): LintWarning[] {
+    const warnings: LintWarning[] = [];
+
+    const deletions = new Map<string, number>();
+    for (const [, number] of card.front.matchAll(/\{\{c(\d+)::/g)) {
+      deletions.set(number, (deletions.get(number) ?? 0) + 1);
+    }
+    const most = Math.max(0, ...deletions.values());
+    if (most > MAX_DELETIONS_PER_CARD) {
+      warnings.push({ rule: LintRule.MULTIPLE_FACTS, message: `Hides ${most} terms on the same card; give them their own numbers` });
+    }
+
+    const visible = SimilarityUtils.normalize(ClozeUtils.hideDeletions(card.front));
+    const givenAway = ClozeUtils.segments(card.front)
+      .filter(segment => segment.answer !== undefined)
+      .some(segment => this.isGivenAway(SimilarityUtils.normalize(segment.answer as string), visible));
+    if (givenAway) {
+      warnings.push({ rule: LintRule.ANSWER_IN_QUESTION, message: 'A hidden term also appears in the visible text' });
+    }
+
+    this.lintContext(ClozeUtils.hideDeletions(card.front).trim(), warnings);
+    return warnings;
+  }
+
+  /**
+   * Check that the prompt side stands on its own
+   * @param prompt - Question, or cloze text with the deletions hidden
+   * @param warnings - Problems found so far; added to
+   */
+  private static lintContext(prompt: string, warnings: LintWarning[]): void {
+    if (SOURCE_REFERENCE.test(prompt)) {
+      warnings.push({ rule: LintRule.MISSING_CONTEXT, message: 'Refers to the source text, which is not shown when reviewing; name the topic instead' });
+    }
+    if (PRONOUN_START.test(prompt) || PRONOUN_SUBJECT.test(prompt)) {
+      warnings.push({ rule: LintRule.VAGUE_PRONOUN, message: 'Uses a pronoun that refers to nothing on the card; name what it means' });
+    }
+  }
+
+  /**
+   * Check whether an answer can be read off the text shown with it: it
+   * appears there in full, or nearly all of its words of four or more
+   * letters do
+   * @param answer - Normalized answer
+   * @param shown - Normalized text shown before the answer
+   * @returns True if the answer is given away
+   */
+  private static isGivenAway(answer: string, shown: string): boolean {
+    if (!answer || !shown) {
+      return false;
+    }
+    if (answer.length >= 3 && ` ${shown} `.includes(` ${answer} `)) {
+      return true;
+    }
+
+    const shownWords = new Set(shown.split(' '));
+    const keyWords = answer.split(' ').filter(word => word.length > 3);
+    const found = keyWords.filter(word => shownWords.has(word)).length;
+    return keyWords.length > 0 && found / keyWords.length >= 0.8;
+  }
+}
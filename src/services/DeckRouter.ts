@@ -0,0 +1,170 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { DeckRoute, DeckRule, DeckRuleType, Flashcard, ObsiCardSettings } from '../types';
+import { NoteOverrideReader } from './NoteOverrideReader';
+
+/**
+ * What deck routing rules are matched against
+ */
+interface RoutingContext {
+  folder: string; // Folder of the note, without leading or trailing slashes
+  frontmatter: Record<string, unknown>;
+  tags: string[]; // Note and card tags, without '#'
+}
+
+/**
+ * Picks the Anki deck for flashcards from the configured routing rules,
+ * based on the folder, frontmatter and tags of the note they come from
+ */
+export class DeckRouter {
+  private settings: ObsiCardSettings;
+  private app: App;
+
+  constructor(settings: ObsiCardSettings, app: App) {
+    this.settings = settings;
+    this.app = app;
+  }
+
+  /**
+   * Update router settings
+   * @param settings - New settings
+   */
+  updateSettings(settings: ObsiCardSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Pick the deck for flashcards of a note
+   * @param file - Note the flashcards come from, if any
+   * @param flashcards - Flashcards whose tags are matched as well
+   * @returns Deck named by the note itself, else the deck of the first
+   * matching rule, else the default deck
+   */
+  resolve(file: TFile | undefined, flashcards: Flashcard[] = []): DeckRoute {
+    const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+    const frontmatter = cache?.frontmatter ?? {};
+
+    const noteDeck = DeckRouter.normalizeDeckName(NoteOverrideReader.parse(frontmatter).deckName ?? '');
+    if (noteDeck) {
+      return { deckName: noteDeck, fromNote: true };
+    }
+
+    const noteTags = cache ? getAllTags(cache) || [] : [];
+    return this.route({
+      folder: file?.parent?.path.replace(/^\/+|\/+$/g, '') ?? '',
+      frontmatter,
+      tags: [...noteTags, ...flashcards.flatMap(card => card.tags)].map(tag => tag.replace(/^#/, ''))
+    });
+  }
+
+  /**
+   * Evaluate the rules in order against a routing context
+   * @param context - Folder, frontmatter and tags
+   * @returns Deck of the first matching rule, or the default deck
+   */
+  route(context: RoutingContext): DeckRoute {
+    for (const rule of this.settings.deckRules) {
+      const captures = this.matchRule(rule, context);
+      if (!captures) {
+        continue;
+      }
+
+      const deckName = DeckRouter.normalizeDeckName(
+        (rule.deck || '$1').replace(/\$(\d+)/g, (_, index: string) => captures[Number(index) - 1] ?? '')
+      );
+      if (deckName) {
+        return { deckName, rule };
+      }
+    }
+
+    return { deckName: this.settings.ankiDeckName };
+  }
+
+  /**
+   * Describe a rule for previews and settings
+   * @param rule - Routing rule
+   * @returns Text such as "tag #exam"
+   */
+  static describeRule(rule: DeckRule): string {
+    switch (rule.type) {
+      case DeckRuleType.FOLDER:
+        return `folder ${rule.match}`;
+      case DeckRuleType.FRONTMATTER:
+        return `frontmatter ${rule.match}`;
+      case DeckRuleType.TAG:
+        return `tag #${rule.match.replace(/^#/, '')}`;
+    }
+  }
+
+  /**
+   * Tidy a deck name: trims each level and drops empty ones
+   * @param deckName - Deck name with `::` between levels
+   * @returns Normalized deck name
+   */
+  static normalizeDeckName(deckName: string): string {
+    return deckName
+      .split('::')
+      .map(level => level.trim())
+      .filter(level => level.length > 0)
+      .join('::');
+  }
+
+  /**
+   * Match a single rule
+   * @param rule - Routing rule
+   * @param context - Folder, frontmatter and tags
+   * @returns Captured values for $1, $2, ..., or null if the rule does not match
+   */
+  private matchRule(rule: DeckRule, context: RoutingContext): string[] | null {
+    const match = rule.match.trim();
+    if (!match) {
+      return null;
+    }
+
+    switch (rule.type) {
+      case DeckRuleType.FOLDER:
+        return this.matchFolder(match, context.folder);
+
+      case DeckRuleType.FRONTMATTER: {
+        const value = context.frontmatter[match];
+        if (value === undefined || value === null || value === '') {
+          return null;
+        }
+        return [Array.isArray(value) ? String(value[0]) : String(value)];
+      }
+
+      case DeckRuleType.TAG: {
+        // Nested tags (#exam/final) match their parent tag too
+        const tag = match.replace(/^#/, '').toLowerCase();
+        const found = context.tags.find(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/'));
+        return found ? [found] : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Match a folder pattern against the start of a folder path
+   * @param pattern - Pattern such as `Courses/*`; `*` matches one folder
+   * @param folder - Folder of the note
+   * @returns Folders matched by `*`, or null if the pattern does not match
+   */
+  private matchFolder(pattern: string, folder: string): string[] | null {
+    const patternParts = pattern.replace(/^\/+|\/+$/g, '').split('/');
+    const folderParts = folder ? folder.split('/') : [];
+    if (patternParts.length > folderParts.length) {
+      return null;
+    }
+
+    const captures: string[] = [];
+    for (let i = 0; i < patternParts.length; i++) {
+      if (patternParts[i] === '*') {
+        captures.push(folderParts[i]);
+      } else if (patternParts[i].toLowerCase() !== folderParts[i].toLowerCase()) {
+        return null;
+      }
+    }
+    return captures;
+  }
+}
@@ -0,0 +1,270 @@
+import { Notice, TFile } from 'obsidian';
+import { DuplicateMatch, DuplicateSource, Flashcard, ObsiCardSettings } from '../types';
+import { AnkiSyncService } from './AnkiSyncService';
+import { FlashcardIndexService } from './FlashcardIndexService';
+import { GroqFlashcardService } from './GroqFlashcardService';
+import { SimilarityIndex } from '../utils/SimilarityIndex';
+import { SimilarityUtils } from '../utils/SimilarityUtils';
+
+/**
+ * Existing cards close enough in wording to be compared by embeddings as
+ * well, and how many of them are compared per new card
+ */
+const EMBEDDING_CANDIDATE_SIMILARITY = 0.25;
+const EMBEDDING_CANDIDATES = 5;
+
+/**
+ * Cosine similarity from which two embedded cards count as the same card
+ */
+const EMBEDDING_THRESHOLD = 0.9;
+
+/**
+ * Texts embedded per request, and embeddings kept between runs
+ */
+const EMBEDDING_BATCH_SIZE = 100;
+const EMBEDDING_CACHE_SIZE = 5000;
+
+/**
+ * Existing flashcard new cards are compared with
+ */
+interface KnownCard {
+  card: Flashcard;
+  text: string; // Normalized front and back
+  source: DuplicateSource;
+  location?: string;
+}
+
+/**
+ * Cards a generation run is checked against. New cards are added as they
+ * are checked, so later cards of the run are compared with earlier ones.
+ */
+export interface DuplicateCorpus {
+  index: SimilarityIndex<KnownCard>;
+  local: KnownCard[]; // Cards of the note and the run, always compared by embeddings
+  embeddingFailed: boolean;
+}
+
+/**
+ * Service that flags new flashcards which repeat existing ones: cards in
+ * the note, anywhere in the vault and, optionally, in the Anki deck.
+ * Cards are compared by the n-grams of their normalized text; with an
+ * embedding model set, the closest candidates are compared by meaning too.
+ */
+export class DuplicateDetector {
+  private settings: ObsiCardSettings;
+  private flashcardIndex: FlashcardIndexService;
+  private ankiService: AnkiSyncService;
+  private groqService: GroqFlashcardService;
+  private embeddings = new Map<string, number[]>();
+
+  constructor(
+    settings: ObsiCardSettings,
+    flashcardIndex: FlashcardIndexService,
+    ankiService: AnkiSyncService,
+    groqService: GroqFlashcardService
+  ) {
+    this.settings = settings;
+    this.flashcardIndex = flashcardIndex;
+    this.ankiService = ankiService;
+    this.groqService = groqService;
+  }
+
+  /**
+   * Update service settings
+   * @param settings - New settings
+   */
+  updateSettings(settings: ObsiCardSettings): void {
+    if (settings.embeddingModel !== this.settings.embeddingModel) {
+      this.embeddings.clear();
+    }
+    this.settings = settings;
+  }
+
+  /**
+   * Check whether duplicate detection is turned on
+   * @returns True if a similarity threshold is set
+   */
+  isEnabled(): boolean {
+    return this.settings.duplicateThreshold > 0;
+  }
+
+  /**
+   * Collect the cards new flashcards are compared with
+   * @param file - Note the flashcards are generated from, if any
+   * @param deckName - Deck the flashcards go to, checked if enabled
+   * @returns Corpus for findDuplicates
+   */
+  async loadExisting(file?: TFile, deckName?: string): Promise<DuplicateCorpus> {
+    const corpus: DuplicateCorpus = { index: new SimilarityIndex(), local: [], embeddingFailed: false };
+    const linked = new Set<number>();
+
+    for (const entry of await this.flashcardIndex.buildIndex()) {
+      const inNote = file !== undefined && (entry.filePath === file.path || entry.sourcePath === file.path);
+      this.addKnown(corpus, {
+        card: entry.card,
+        text: SimilarityUtils.cardText(entry.card),
+        source: inNote ? DuplicateSource.NOTE : DuplicateSource.VAULT,
+        location: entry.filePath
+      });
+      if (entry.card.ankiNoteId) {
+        linked.add(entry.card.ankiNoteId);
+      }
+    }
+
+    if (this.settings.checkAnkiDuplicates && deckName) {
+      try {
+        const ankiCards = await this.ankiService.getDeckFlashcards(deckName);
+        // Notes synced from the vault are already indexed
+        for (const card of ankiCards.filter(card => !linked.has(card.ankiNoteId as number))) {
+          this.addKnown(corpus, {
+            card,
+            text: SimilarityUtils.cardText(card),
+            source: DuplicateSource.ANKI,
+            location: deckName
+          });
+        }
+      } catch (error) {
+        console.warn('Could not read the Anki deck to check for duplicates:', error);
+      }
+    }
+
+    return corpus;
+  }
+
+  /**
+   * Find the new flashcards that repeat a card of the corpus or an earlier
+   * card of the same run, and add them to the corpus
+   * @param flashcards - New flashcards
+   * @param corpus - Cards to compare with, from loadExisting
+   * @returns The closest existing card of each duplicate
+   */
+  async findDuplicates(flashcards: Flashcard[], corpus: DuplicateCorpus): Promise<DuplicateMatch[]> {
+    const threshold = this.settings.duplicateThreshold / 100;
+    const useEmbeddings = this.settings.embeddingModel.trim() !== '' && !corpus.embeddingFailed;
+    const matches: DuplicateMatch[] = [];
+    const unmatched: Array<{ card: Flashcard; text: string; candidates: KnownCard[] }> = [];
+
+    for (const card of flashcards) {
+      const text = SimilarityUtils.cardText(card);
+      if (!text) {
+        continue;
+      }
+
+      const hits = corpus.index.search(text, useEmbeddings ? Math.min(threshold, EMBEDDING_CANDIDATE_SIMILARITY) : threshold);
+      if (hits.length > 0 && hits[0].similarity >= threshold) {
+        matches.push(this.createMatch(card, hits[0].value, hits[0].similarity, false));
+      } else if (useEmbeddings) {
+        const nearest = hits.slice(0, EMBEDDING_CANDIDATES).map(hit => hit.value);
+        unmatched.push({ card, text, candidates: [...new Set([...corpus.local, ...nearest])] });
+      }
+
+      this.addKnown(corpus, { card, text, source: DuplicateSource.BATCH });
+    }
+
+    if (unmatched.length > 0) {
+      try {
+        matches.push(...await this.findSemanticDuplicates(unmatched));
+      } catch (error) {
+        // Keep the text matches; stop asking for the rest of the run
+        corpus.embeddingFailed = true;
+        const message = error instanceof Error ? error.message : String(error);
+        new Notice(`Could not compare flashcards by meaning, checking text only: ${message}`);
+        console.error('Embedding duplicate check failed:', error);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Compare new cards with their candidates by the cosine similarity of
+   * their embeddings
+   * @param unmatched - New cards without a text match and the cards to compare them with
+   * @returns Matches at or above the embedding threshold
+   */
+  private async findSemanticDuplicates(
+    unmatched: Array<{ card: Flashcard; text: string; candidates: KnownCard[] }>
+  ): Promise<DuplicateMatch[]> {
+    const texts = unmatched.flatMap(item => [item.text, ...item.candidates.map(candidate => candidate.text)]);
+    await this.loadEmbeddings(texts);
+
+    const matches: DuplicateMatch[] = [];
+    for (const { card, text, candidates } of unmatched) {
+      const vector = this.embeddings.get(text);
+      let best: { known: KnownCard; similarity: number } | undefined;
+
+      for (const known of candidates) {
+        const other = this.embeddings.get(known.text);
+        if (!vector || !other || known.card === card) {
+          continue;
+        }
+        const similarity = SimilarityUtils.cosine(vector, other);
+        if (similarity >= EMBEDDING_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { known, similarity };
+        }
+      }
+
+      if (best) {
+        matches.push(this.createMatch(card, best.known, best.similarity, true));
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Embed the texts that are not cached yet. When the cache is full, the
+   * oldest vectors are evicted, except those of the given texts.
+   * @param texts - Normalized texts
+   */
+  private async loadEmbeddings(texts: string[]): Promise<void> {
+    const wanted = new Set(texts);
+    const missing = [...wanted].filter(text => !this.embeddings.has(text));
+
+    // Make room by dropping the oldest vectors this call does not need
+    for (const text of this.embeddings.keys()) {
+      if (this.embeddings.size + missing.length <= EMBEDDING_CACHE_SIZE) {
+        break;
+      }
+      if (!wanted.has(text)) {
+        this.embeddings.delete(text);
+      }
+    }
+
+    for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await this.groqService.embed(batch);
+      batch.forEach((text, i) => this.embeddings.set(text, vectors[i]));
+    }
+  }
+
+  /**
+   * Add a card to a corpus
+   * @param corpus - Corpus
+   * @param known - Card and where it is stored
+   */
+  private addKnown(corpus: DuplicateCorpus, known: KnownCard): void {
+    corpus.index.add(known.text, known);
+    if (known.source === DuplicateSource.NOTE || known.source === DuplicateSource.BATCH) {
+      corpus.local.push(known);
+    }
+  }
+
+  /**
+   * Describe a duplicate
+   * @param card - New flashcard
+   * @param known - Existing card it repeats
+   * @param similarity - Similarity, 0-1
+   * @param semantic - Whether embeddings found the match
+   * @returns Match
+   */
+  private createMatch(card: Flashcard, known: KnownCard, similarity: number, semantic: boolean): DuplicateMatch {
+    return {
+      card,
+      existing: known.card,
+      source: known.source,
+      location: known.location,
+      similarity,
+      semantic
+    };
+  }
+}
@@ -0,0 +1,266 @@
+import { App, TFile } from 'obsidian';
+import { CardSyncState, Flashcard, IndexedFlashcard, SyncResult } from '../types';
+import { AnkiSyncService } from './AnkiSyncService';
+import { MarkdownWriter } from './MarkdownWriter';
+import { IdUtils } from '../utils/IdUtils';
+
+/**
+ * Service that indexes the flashcards stored across the vault and applies
+ * bulk actions to them. Cards are matched by ObsiCard ID, so cards without
+ * one get an ID written to their note before an action is applied.
+ */
+export class FlashcardIndexService {
+  private app: App;
+  private markdownWriter: MarkdownWriter;
+  private ankiService: AnkiSyncService;
+
+  constructor(app: App, markdownWriter: MarkdownWriter, ankiService: AnkiSyncService) {
+    this.app = app;
+    this.markdownWriter = markdownWriter;
+    this.ankiService = ankiService;
+  }
+
+  /**
+   * Read the Flashcards sections of every note in the vault
+   * @returns Indexed flashcards, sorted by note path
+   */
+  async buildIndex(): Promise<IndexedFlashcard[]> {
+    const queued = new Set(
+      this.ankiService.getQueueStatus().items
+        .map(item => item.flashcard.id)
+        .filter((id): id is string => !!id)
+    );
+    const files = this.app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+    const entries: IndexedFlashcard[] = [];
+
+    for (const file of files) {
+      const flashcards = await this.markdownWriter.readFlashcardsFromNote(file);
+      for (const card of flashcards) {
+        entries.push({
+          card,
+          filePath: file.path,
+          sourcePath: this.resolveSourcePath(card, file),
+          state: this.getSyncState(card, queued)
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Filter indexed flashcards by text and tag
+   * @param entries - Indexed flashcards
+   * @param query - Text to find in front, back or note path (case-insensitive)
+   * @param tag - Tag the cards must have; nested tags match their parent
+   * @returns Matching flashcards
+   */
+  filterFlashcards(entries: IndexedFlashcard[], query: string, tag?: string): IndexedFlashcard[] {
+    const text = query.trim().toLowerCase();
+
+    return entries.filter(entry => {
+      if (tag && !entry.card.tags.some(t => t === tag || t.startsWith(tag + '/'))) {
+        return false;
+      }
+      if (!text) {
+        return true;
+      }
+      return [entry.card.front, entry.card.back, entry.sourcePath]
+        .some(value => value.toLowerCase().includes(text));
+    });
+  }
+
+  /**
+   * Collect the tags used by indexed flashcards
+   * @param entries - Indexed flashcards
+   * @returns Sorted, unique tags
+   */
+  getTags(entries: IndexedFlashcard[]): string[] {
+    return [...new Set(entries.flatMap(entry => entry.card.tags))].sort();
+  }
+
+  /**
+   * Group indexed flashcards by the note they were generated from
+   * @param entries - Indexed flashcards
+   * @returns Flashcards per source note path, in index order
+   */
+  groupBySource(entries: IndexedFlashcard[]): Map<string, IndexedFlashcard[]> {
+    const groups = new Map<string, IndexedFlashcard[]>();
+    for (const entry of entries) {
+      const group = groups.get(entry.sourcePath) ?? [];
+      group.push(entry);
+      groups.set(entry.sourcePath, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Sync flashcards to Anki, updating existing notes and adding the rest
+   * @param entries - Flashcards to sync
+   * @returns Combined sync counts
+   */
+  async resync(entries: IndexedFlashcard[]): Promise<SyncResult> {
+    return this.syncGroups(await this.groupByFile(entries));
+  }
+
+  /**
+   * Delete flashcards from their notes, from Anki and from the sync queue
+   * @param entries - Flashcards to delete
+   * @returns Number of flashcards removed from notes
+   */
+  async deleteFlashcards(entries: IndexedFlashcard[]): Promise<number> {
+    const groups = await this.groupByFile(entries);
+    const cards = [...groups.values()].flat();
+
+    // Delete from Anki first, so a failure leaves the notes untouched
+    await this.ankiService.deleteNotes(
+      cards.map(card => card.ankiNoteId).filter((id): id is number => !!id)
+    );
+
+    let removed = 0;
+    for (const [file, flashcards] of groups) {
+      removed += await this.markdownWriter.deleteFlashcards(file, flashcards.map(card => card.id as string));
+    }
+    this.ankiService.removeFromQueue(cards.map(card => card.id as string));
+
+    return removed;
+  }
+
+  /**
+   * Add and remove tags on flashcards, updating synced cards in Anki
+   * @param entries - Flashcards to retag
+   * @param add - Tags to add
+   * @param remove - Tags to remove
+   * @returns Sync counts for the cards already in Anki
+   */
+  async retag(entries: IndexedFlashcard[], add: string[], remove: string[]): Promise<SyncResult> {
+    const groups = await this.groupByFile(entries);
+    const synced = new Map<TFile, Flashcard[]>();
+
+    for (const [file, flashcards] of groups) {
+      flashcards.forEach(card => {
+        card.tags = [...new Set([...card.tags.filter(tag => !remove.includes(tag)), ...add])];
+      });
+      await this.markdownWriter.updateFlashcardContent(file, flashcards);
+
+      const inAnki = flashcards.filter(card => card.ankiNoteId);
+      if (inAnki.length > 0) {
+        synced.set(file, inAnki);
+      }
+    }
+
+    return this.syncGroups(synced);
+  }
+
+  /**
+   * Move flashcards to another Anki deck. Cards not in Anki yet are added
+   * to that deck.
+   * @param entries - Flashcards to move
+   * @param deckName - Target deck
+   * @returns Sync counts for the cards that were added
+   */
+  async moveToDeck(entries: IndexedFlashcard[], deckName: string): Promise<SyncResult> {
+    const groups = await this.groupByFile(entries);
+    const cards = [...groups.values()].flat();
+
+    await this.ankiService.changeDeck(
+      cards.map(card => card.ankiNoteId).filter((id): id is number => !!id),
+      deckName
+    );
+
+    const unsynced = new Map<TFile, Flashcard[]>();
+    for (const [file, flashcards] of groups) {
+      const notInAnki = flashcards.filter(card => !card.ankiNoteId);
+      if (notInAnki.length > 0) {
+        unsynced.set(file, notInAnki);
+      }
+    }
+
+    return this.syncGroups(unsynced, deckName);
+  }
+
+  /**
+   * Sync flashcards note by note and record their Anki IDs
+   * @param groups - Flashcards per note
+   * @param deckName - Deck for new Anki notes; defaults to the configured deck
+   * @returns Combined sync counts
+   */
+  private async syncGroups(groups: Map<TFile, Flashcard[]>, deckName?: string): Promise<SyncResult> {
+    const totals: SyncResult = { synced: 0, updated: 0, queued: 0, errors: 0, outcomes: [] };
+
+    for (const [file, flashcards] of groups) {
+      const result = await this.ankiService.syncFlashcards(flashcards, deckName, file.path);
+      await this.markdownWriter.updateFlashcardMetadata(file, flashcards);
+
+      totals.synced += result.synced;
+      totals.updated += result.updated;
+      totals.queued += result.queued;
+      totals.errors += result.errors;
+      totals.outcomes.push(...result.outcomes);
+    }
+
+    return totals;
+  }
+
+  /**
+   * Group flashcards by the note they are stored in, writing IDs for cards
+   * that have none
+   * @param entries - Indexed flashcards
+   * @returns Flashcards per note; entries whose note is gone are left out
+   */
+  private async groupByFile(entries: IndexedFlashcard[]): Promise<Map<TFile, Flashcard[]>> {
+    const groups = new Map<TFile, Flashcard[]>();
+    const files = new Map<string, TFile>();
+
+    for (const entry of entries) {
+      let file = files.get(entry.filePath);
+      if (!file) {
+        const found = this.app.vault.getAbstractFileByPath(entry.filePath);
+        if (!(found instanceof TFile)) {
+          continue;
+        }
+        file = found;
+        files.set(entry.filePath, file);
+      }
+
+      const group = groups.get(file) ?? [];
+      group.push(entry.card);
+      groups.set(file, group);
+    }
+
+    for (const [file, flashcards] of groups) {
+      if (flashcards.some(card => !card.id)) {
+        IdUtils.ensureIds(flashcards);
+        await this.markdownWriter.updateFlashcardMetadata(file, flashcards);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Resolve the note a flashcard was generated from
+   * @param card - Flashcard
+   * @param file - Note the flashcard is stored in
+   * @returns Path of the source note, or of the storing note if it cannot be resolved
+   */
+  private resolveSourcePath(card: Flashcard, file: TFile): string {
+    if (!card.source) {
+      return file.path;
+    }
+    return this.app.metadataCache.getFirstLinkpathDest(card.source, file.path)?.path ?? file.path;
+  }
+
+  /**
+   * Determine the sync state of a flashcard
+   * @param card - Flashcard
+   * @param queued - IDs of flashcards in the sync queue
+   * @returns Sync state
+   */
+  private getSyncState(card: Flashcard, queued: Set<string>): CardSyncState {
+    if (card.ankiNoteId) {
+      return CardSyncState.SYNCED;
+    }
+    return card.id && queued.has(card.id) ? CardSyncState.QUEUED : CardSyncState.NEVER_SYNCED;
+  }
+}
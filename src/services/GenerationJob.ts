@@ -0,0 +1,158 @@
+import { ChunkFailure, Flashcard, GenerationOptions, GenerationProgress, GenerationStage, SyncResult } from '../types';
+import { GroqFlashcardService } from './GroqFlashcardService';
+import { AnkiSyncService } from './AnkiSyncService';
+
+/**
+ * A single generation run: summarizing the content, generating flashcards
+ * chunk batch by chunk batch, and syncing the approved cards to Anki. Each
+ * step runs under an abort signal, so it can be cancelled at any point;
+ * cards produced before that are kept.
+ */
+export class GenerationJob {
+  private groqService: GroqFlashcardService;
+  private ankiService: AnkiSyncService;
+  private controller = new AbortController();
+  private flashcards: Flashcard[] = [];
+  private chunkFailures: ChunkFailure[] = [];
+  private progress: GenerationProgress = {
+    stage: GenerationStage.GENERATING,
+    chunksDone: 0,
+    chunksTotal: 0,
+    cardsGenerated: 0
+  };
+  private progressListeners = new Set<(progress: GenerationProgress) => void>();
+  private flashcardListeners = new Set<(flashcards: Flashcard[]) => void>();
+  private chunkFailureListeners = new Set<(failure: ChunkFailure) => void>();
+
+  constructor(groqService: GroqFlashcardService, ankiService: AnkiSyncService) {
+    this.groqService = groqService;
+    this.ankiService = ankiService;
+  }
+
+  /**
+   * Subscribe to progress updates
+   * @param listener - Called with a progress snapshot after every change
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: (progress: GenerationProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to flashcards as they are generated
+   * @param listener - Called with each group of new flashcards
+   * @returns Function that removes the listener
+   */
+  onFlashcards(listener: (flashcards: Flashcard[]) => void): () => void {
+    this.flashcardListeners.add(listener);
+    return () => {
+      this.flashcardListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to parts of the content that failed to generate
+   * @param listener - Called with each failure
+   * @returns Function that removes the listener
+   */
+  onChunkFailure(listener: (failure: ChunkFailure) => void): () => void {
+    this.chunkFailureListeners.add(listener);
+    return () => {
+      this.chunkFailureListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the parts of the content that failed to generate
+   * @returns Failures so far
+   */
+  getChunkFailures(): ChunkFailure[] {
+    return [...this.chunkFailures];
+  }
+
+  /**
+   * Get the current progress
+   * @returns Progress snapshot
+   */
+  getProgress(): GenerationProgress {
+    return { ...this.progress };
+  }
+
+  /**
+   * Check whether the current step has been cancelled
+   * @returns True once cancel has been called during the step
+   */
+  isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Stop the current step. Requests in flight are abandoned, no further
+   * requests are sent, and the flashcards generated so far are kept.
+   * Stopping generation does not stop a sync started afterwards.
+   */
+  cancel(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * Generate flashcards
+   * @param content - Content to generate from
+   * @param options - Generation options
+   * @param noteName - Name of the source note
+   * @returns Generated flashcards; those generated before a cancel or a
+   * failure if either happened after the first card arrived
+   */
+  async generate(content: string, options: GenerationOptions, noteName?: string): Promise<Flashcard[]> {
+    try {
+      await this.groqService.generateFlashcards(content, options, noteName, false, {
+        signal: this.controller.signal,
+        onFlashcards: flashcards => {
+          this.flashcards.push(...flashcards);
+          this.flashcardListeners.forEach(listener => listener(flashcards));
+        },
+        onProgress: progress => this.update(progress),
+        onChunkFailure: failure => {
+          this.chunkFailures.push(failure);
+          this.chunkFailureListeners.forEach(listener => listener(failure));
+        }
+      });
+    } catch (error) {
+      // Partial results are worth reviewing; only fail if there are none
+      if (this.flashcards.length === 0) {
+        throw error;
+      }
+      console.error('Flashcard generation stopped early:', error);
+    }
+
+    return [...this.flashcards];
+  }
+
+  /**
+   * Sync approved flashcards to Anki
+   * @param flashcards - Flashcards to sync
+   * @param deckName - Target deck
+   * @param filePath - Note the flashcards are stored in
+   * @returns Sync result; cards not sent before a cancel are reported as cancelled
+   */
+  async sync(flashcards: Flashcard[], deckName?: string, filePath?: string): Promise<SyncResult> {
+    if (this.controller.signal.aborted) {
+      this.controller = new AbortController();
+    }
+    this.update({ ...this.progress, stage: GenerationStage.SYNCING });
+    return this.ankiService.syncFlashcards(flashcards, deckName, filePath, this.controller.signal);
+  }
+
+  /**
+   * Record progress and notify listeners
+   * @param progress - New progress
+   */
+  private update(progress: GenerationProgress): void {
+    this.progress = { ...progress };
+    const snapshot = this.getProgress();
+    this.progressListeners.forEach(listener => listener(snapshot));
+  }
+}
@@ -1,17 +1,103 @@
-import { Notice, requestUrl } from 'obsidian';
-import { Flashcard, ObsiCardSettings, GenerationMode } from '../types';
+import { Notice } from 'obsidian';
+import {
+  ChunkFailure,
+  Flashcard,
+  JsonSchema,
+  ObsiCardSettings,
+  GenerationMode,
+  GenerationOptions,
+  GenerationHooks,
+  GenerationStage,
+  GenerationPlan,
+  CardType,
+  CardSource,
+  CompletionRequest,
+  ConnectionTestResult,
+  RateLimitQuota,
+  TextChunk,
+  ValidationResult
+} from '../types';
 import { TokenUtils } from '../utils/TokenUtils';
+import { IdUtils } from '../utils/IdUtils';
+import { JsonArrayStreamParser } from '../utils/JsonArrayStreamParser';
+import { CancellationUtils, CancelledError } from '../utils/CancellationUtils';
 import { Validator } from './Validator';
+import { LLMProvider } from './providers/LLMProvider';
+import { createLLMProvider } from './providers/ProviderFactory';
+import { RequestScheduler } from './RequestScheduler';
 
 /**
- * Service for generating flashcards using Groq API
+ * Shape of a flashcard reply, enforced by providers that support it
+ */
+const FLASHCARD_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    flashcards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['front', 'back', 'tags']
+      }
+    }
+  },
+  required: ['flashcards']
+};
+
+/**
+ * How often an unusable reply is sent back to the model to be fixed
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Answer length requested for flashcards and for summaries
+ */
+const FLASHCARD_MAX_TOKENS = 4000;
+const SUMMARY_MAX_TOKENS = 2000;
+
+/**
+ * Typical reply sizes, for estimates: the summary prompt asks for about
+ * 1000 tokens, and the model writes 3-10 cards of about 80 tokens each
+ */
+const SUMMARY_TOKENS = 1000;
+const TOKENS_PER_CARD = 80;
+const CARDS_PER_CHUNK = 6;
+
+/**
+ * Chunks never get smaller than this, however tight the limits
+ */
+const MIN_CHUNK_TOKENS = 500;
+
+/**
+ * US dollars per million input and output tokens, matched by model name
+ * prefix; more specific names come first
+ */
+const MODEL_PRICES: Array<[string, { input: number; output: number }]> = [
+  ['llama-3.1-8b-instant', { input: 0.05, output: 0.08 }],
+  ['llama-3.3-70b-versatile', { input: 0.59, output: 0.79 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }]
+];
+
+/**
+ * Service for generating flashcards using the configured LLM provider
+ * (Groq by default)
  */
 export class GroqFlashcardService {
   private settings: ObsiCardSettings;
-  private readonly GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+  private provider: LLMProvider;
+  private scheduler: RequestScheduler;
 
   constructor(settings: ObsiCardSettings) {
     this.settings = settings;
+    this.scheduler = new RequestScheduler(settings.requestsPerMinute, settings.tokensPerMinute);
+    this.provider = this.createProvider(settings);
   }
 
   /**
@@ -20,266 +106,864 @@ export class GroqFlashcardService {
    */
   updateSettings(settings: ObsiCardSettings): void {
     this.settings = settings;
+    this.provider = this.createProvider(settings);
+    this.scheduler.setLimits(settings.requestsPerMinute, settings.tokensPerMinute);
+  }
+
+  /**
+   * Create the configured provider, feeding its rate limit state to the scheduler
+   * @param settings - Plugin settings
+   * @returns Provider
+   */
+  private createProvider(settings: ObsiCardSettings): LLMProvider {
+    const provider = createLLMProvider(settings);
+    provider.onRateLimit(info => this.scheduler.updateFromServer(info));
+    return provider;
+  }
+
+  /**
+   * Subscribe to changes of the remaining AI quota
+   * @param listener - Called with the quota after every change
+   * @returns Function that removes the listener
+   */
+  onQuotaChange(listener: (quota: RateLimitQuota) => void): () => void {
+    return this.scheduler.onQuotaChange(listener);
+  }
+
+  /**
+   * Name of the active LLM provider
+   * @returns Provider name
+   */
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Check whether the active provider has the settings it needs
+   * @returns Error message, or null if configured
+   */
+  getConfigurationError(): string | null {
+    return this.provider.validateConfig();
+  }
+
+  /**
+   * Embed texts with the configured embedding model, within the rate limits
+   * @param texts - Texts to embed
+   * @param signal - Stops waiting for the reply
+   * @returns One vector per text, in order
+   * @throws Error if no embedding model is set or the provider offers none
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const model = this.settings.embeddingModel.trim();
+    if (!model) {
+      throw new Error('No embedding model is configured');
+    }
+
+    const tokens = texts.reduce((total, text) => total + TokenUtils.countTokens(text), 0);
+    return this.scheduler.schedule(tokens, () => this.provider.embed(texts, model, signal), signal);
   }
 
   /**
    * Generate flashcards from text content
    * @param content - Text content to generate flashcards from
-   * @param mode - Generation mode (dynamic or fixed)
-   * @param userTags - User-specified tags
+   * @param options - Generation mode, tags and card type
    * @param noteName - Name of the source note
-   * @returns Array of validated flashcards
+   * @param notify - Whether to show notices (disabled for bulk runs)
+   * @param hooks - Receives cards and progress while generating, and can cancel
+   * @returns Array of validated flashcards; only those generated before
+   * cancelling if the run was cancelled
    */
   async generateFlashcards(
     content: string,
-    mode: GenerationMode,
-    userTags: string[],
-    noteName?: string
+    options: GenerationOptions,
+    noteName?: string,
+    notify = true,
+    hooks: GenerationHooks = {}
   ): Promise<Flashcard[]> {
-    if (!this.settings.groqApiKey) {
-      new Notice('Please configure your Groq API key in settings');
-      throw new Error('Groq API key not configured');
+    const configError = this.provider.validateConfig();
+    if (configError) {
+      if (notify) {
+        new Notice(`Please configure ${this.provider.name} in settings: ${configError}`);
+      }
+      throw new Error(configError);
     }
 
     if (!content || content.trim().length === 0) {
-      new Notice('No content provided for flashcard generation');
+      if (notify) {
+        new Notice('No content provided for flashcard generation');
+      }
       throw new Error('Empty content');
     }
 
     try {
-      // Chunk the content
-      const chunkingResult = TokenUtils.chunkText(content, this.settings.maxChunkSize);
+      // Chunk the content, leaving room for the prompt and the answer
+      const chunkSize = this.getChunkBudget(options);
+      const chunkingResult = TokenUtils.chunkText(content, chunkSize, this.settings.chunkOverlap);
+      if (chunkingResult.chunks.length === 0) {
+        throw new Error('Note has no content besides its properties');
+      }
       
-      // If content is very large, summarize first
-      if (chunkingResult.requiresSummarization) {
-        new Notice('Content is large, summarizing first...');
-        content = await this.summarizeContent(content);
+      // If content is very large, generate from its summary unless asked not to
+      if (chunkingResult.requiresSummarization && this.getCardSource(options) === CardSource.SUMMARY) {
+        if (notify && !hooks.onProgress) {
+          new Notice('Content is large, summarizing first...');
+        }
+        content = await this.summarizeContent(content, options, hooks);
         // Re-chunk the summarized content
-        const newChunking = TokenUtils.chunkText(content, this.settings.maxChunkSize);
-        return await this.processChunks(newChunking.chunks, mode, userTags, noteName);
+        const newChunking = TokenUtils.chunkText(content, chunkSize, this.settings.chunkOverlap);
+        return await this.processChunks(newChunking.chunks, options, noteName, hooks);
       }
 
-      // Process chunks in parallel (limited by maxParallelRequests)
-      return await this.processChunks(chunkingResult.chunks, mode, userTags, noteName);
+      // Process chunks in parallel (up to maxParallelRequests at a time)
+      return await this.processChunks(chunkingResult.chunks, options, noteName, hooks);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      new Notice(`Failed to generate flashcards: ${errorMessage}`);
+      // Cancelled before any card was generated
+      if (error instanceof CancelledError) {
+        return [];
+      }
+      if (notify) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        new Notice(`Failed to generate flashcards: ${errorMessage}`);
+      }
       throw error;
     }
   }
 
+  /**
+   * Ask the model to fix the problems the card linter found in a flashcard,
+   * splitting it into one card per fact where needed
+   * @param flashcard - Flashcard to rewrite
+   * @param problems - Problems to fix
+   * @param model - Model used instead of the configured one
+   * @returns Replacement flashcards with the tags and source of the original
+   * @throws Error if the reply holds no usable flashcard
+   */
+  async rewriteFlashcard(flashcard: Flashcard, problems: string[], model?: string): Promise<Flashcard[]> {
+    const options: GenerationOptions = {
+      mode: GenerationMode.FIXED,
+      tags: flashcard.tags,
+      cardType: flashcard.type ?? CardType.BASIC,
+      model
+    };
+    const prompt = this.buildRewritePrompt(flashcard, problems);
+    const reply = await this.callLLM(prompt, false, model);
+    const flashcards = await this.resolveReply(reply, prompt, options, flashcard.source);
+
+    return flashcards.map(card => ({ ...card, tags: [...flashcard.tags] }));
+  }
+
+  /**
+   * Estimate what generating from content takes, before sending anything
+   * @param content - Content to generate from
+   * @param options - Generation options
+   * @returns Tokens, requests and approximate cost
+   */
+  planGeneration(content: string, options: GenerationOptions): GenerationPlan {
+    const chunkTokens = this.getChunkBudget(options);
+    const chunking = TokenUtils.chunkText(content, chunkTokens, this.settings.chunkOverlap);
+    const summarize = chunking.requiresSummarization && this.getCardSource(options) === CardSource.SUMMARY;
+    const summary = summarize ? this.planSummary(content, options) : { requests: 0, promptTokens: 0, outputTokens: 0, summaryTokens: 0 };
+    const generationTokens = summarize ? summary.summaryTokens : chunking.totalTokens;
+    const chunks = summarize ? Math.ceil(summary.summaryTokens / chunkTokens) : chunking.chunks.length;
+
+    const overhead = this.countPromptTokens(this.buildCompletionRequest(this.buildPrompt('', options), false, options.model));
+    const promptTokens = summary.promptTokens + chunks * overhead + generationTokens;
+    const outputTokens = summary.outputTokens + (options.cardCount ?? chunks * CARDS_PER_CHUNK) * TOKENS_PER_CARD;
+
+    return {
+      contentTokens: chunking.totalTokens,
+      chunkTokens,
+      chunks,
+      requests: chunks + summary.requests,
+      promptTokens,
+      outputTokens,
+      summarize,
+      summaryRequests: summary.requests,
+      tokenizer: TokenUtils.getTokenizer().name,
+      estimatedCost: GroqFlashcardService.estimateCost(options.model || this.provider.model, promptTokens, outputTokens)
+    };
+  }
+
+  /**
+   * Estimate the summary requests for large content, following the merge
+   * rounds of summarizeContent with summaries of typical length
+   * @param content - Content to summarize
+   * @param options - Generation options
+   * @returns Requests and tokens of the summaries, and the length of the final summary
+   */
+  private planSummary(content: string, options: GenerationOptions): { requests: number; promptTokens: number; outputTokens: number; summaryTokens: number } {
+    const budget = this.getChunkBudget(options, true);
+    const parts = TokenUtils.chunkText(content, budget).chunks;
+    const summaryOverhead = this.countPromptTokens(this.buildCompletionRequest(TokenUtils.createSummaryPrompt(''), true, options.model));
+    const mergeOverhead = this.countPromptTokens(this.buildCompletionRequest(TokenUtils.createMergePrompt([]), true, options.model));
+
+    let requests = parts.length;
+    let promptTokens = parts.reduce((total, part) => total + summaryOverhead + part.tokenCount, 0);
+    let summaries = parts.length;
+    const perGroup = Math.max(2, Math.floor(budget / SUMMARY_TOKENS));
+    while (summaries > 1 && summaries * SUMMARY_TOKENS > TokenUtils.SUMMARIZATION_THRESHOLD) {
+      const merged = Math.ceil(summaries / perGroup);
+      promptTokens += merged * mergeOverhead + summaries * SUMMARY_TOKENS;
+      requests += merged;
+      summaries = merged;
+    }
+
+    return { requests, promptTokens, outputTokens: requests * SUMMARY_TOKENS, summaryTokens: summaries * SUMMARY_TOKENS };
+  }
+
+  /**
+   * What the cards of a note too long to send whole come from
+   * @param options - Generation options
+   * @returns Card source chosen for this generation, or the setting
+   */
+  private getCardSource(options: GenerationOptions): CardSource {
+    return options.cardSource ?? this.settings.longNoteCardSource;
+  }
+
+  /**
+   * Largest chunk that fits the model's context window and the token limit
+   * per minute together with the prompt template and the requested answer
+   * length, capped by the maximum chunk size setting
+   * @param options - Generation options, which shape the prompt
+   * @param isSummary - Whether the chunks are summarized instead
+   * @returns Tokens per chunk
+   */
+  private getChunkBudget(options: GenerationOptions, isSummary = false): number {
+    const limits = [this.settings.contextWindow, this.scheduler.getTokensPerMinute()].filter(limit => limit > 0);
+    if (limits.length === 0) {
+      return this.settings.maxChunkSize;
+    }
+
+    const prompt = isSummary ? TokenUtils.createSummaryPrompt('') : this.buildPrompt('', options);
+    const request = this.buildCompletionRequest(prompt, isSummary, options.model);
+    const room = Math.min(...limits) - this.estimateTokens(request);
+    return Math.max(Math.min(this.settings.maxChunkSize, room), MIN_CHUNK_TOKENS);
+  }
+
+  /**
+   * Approximate the price of a generation
+   * @param model - Model name
+   * @param promptTokens - Tokens sent
+   * @param outputTokens - Tokens generated
+   * @returns US dollars, or undefined if the model's prices are unknown
+   */
+  private static estimateCost(model: string, promptTokens: number, outputTokens: number): number | undefined {
+    const price = MODEL_PRICES.find(([name]) => model.startsWith(name))?.[1];
+    return price ? (promptTokens * price.input + outputTokens * price.output) / 1000000 : undefined;
+  }
+
   /**
    * Process multiple chunks in parallel
    * @param chunks - Array of text chunks
-   * @param mode - Generation mode
-   * @param userTags - User-specified tags
+   * @param options - Generation options
    * @param noteName - Source note name
+   * @param hooks - Receives cards, progress and failed chunks, and can cancel
    * @returns Combined flashcards from all chunks
+   * @throws Error with the failure reasons if every chunk failed
    */
   private async processChunks(
-    chunks: Array<{ content: string; tokenCount: number; index: number }>,
-    mode: GenerationMode,
-    userTags: string[],
-    noteName?: string
+    chunks: TextChunk[],
+    options: GenerationOptions,
+    noteName?: string,
+    hooks: GenerationHooks = {}
   ): Promise<Flashcard[]> {
     const allFlashcards: Flashcard[] = [];
-    const maxParallel = this.settings.maxParallelRequests;
-
-    // Process chunks in batches
-    for (let i = 0; i < chunks.length; i += maxParallel) {
-      const batch = chunks.slice(i, i + maxParallel);
-      const batchPromises = batch.map(chunk => 
-        this.generateFromChunk(chunk.content, mode, userTags, noteName)
-      );
-
-      const results = await Promise.allSettled(batchPromises);
-      
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          allFlashcards.push(...result.value);
-        } else {
-          console.error('Chunk processing failed:', result.reason);
+    const failures: ChunkFailure[] = [];
+    const progress = { stage: GenerationStage.GENERATING, chunksDone: 0, chunksTotal: chunks.length, cardsGenerated: 0 };
+    hooks.onProgress?.({ ...progress });
+
+    // A requested card count is shared out over the chunks
+    const chunkOptions = options.cardCount
+      ? { ...options, cardCount: Math.ceil(options.cardCount / chunks.length) }
+      : options;
+
+    // Cards are collected and passed on as they arrive, up to the requested count
+    const chunkHooks: GenerationHooks = {
+      signal: hooks.signal,
+      onFlashcards: flashcards => {
+        const accepted = options.cardCount
+          ? flashcards.slice(0, Math.max(options.cardCount - allFlashcards.length, 0))
+          : flashcards;
+        if (accepted.length > 0) {
+          allFlashcards.push(...accepted);
+          progress.cardsGenerated = allFlashcards.length;
+          hooks.onFlashcards?.(accepted);
+          hooks.onProgress?.({ ...progress });
         }
       }
-
-      // Brief delay between batches to respect rate limits
-      if (i + maxParallel < chunks.length) {
-        await this.delay(500);
+    };
+
+    const processChunk = async (chunk: TextChunk): Promise<void> => {
+      try {
+        await this.generateFromChunk(chunk.content, chunkOptions, noteName, chunkHooks);
+      } catch (error) {
+        console.error('Chunk processing failed:', error);
+        const failure = {
+          chunk: chunk.index + 1,
+          chunksTotal: chunks.length,
+          reason: error instanceof Error ? error.message : String(error)
+        };
+        failures.push(failure);
+        hooks.onChunkFailure?.(failure);
+      } finally {
+        progress.chunksDone++;
+        hooks.onProgress?.({ ...progress });
       }
+    };
+
+    await this.runParallel(chunks.length, index => processChunk(chunks[index]), hooks.signal);
+
+    if (allFlashcards.length === 0 && failures.length === chunks.length) {
+      throw new Error(failures.length === 1
+        ? failures[0].reason
+        : `All ${failures.length} parts failed: ${failures.map(failure => failure.reason).join('; ')}`);
     }
 
     return allFlashcards;
   }
 
+  /**
+   * Run a task for each index, up to maxParallelRequests at a time. Each
+   * worker takes the next index as soon as its last task is done; the
+   * request scheduler paces them within the rate limits.
+   * @param count - Number of tasks
+   * @param task - Runs the task with an index
+   * @param signal - Stops starting new tasks
+   */
+  private async runParallel(count: number, task: (index: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < count && !signal?.aborted) {
+        await task(next++);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.settings.maxParallelRequests, count) }, worker));
+  }
+
   /**
    * Generate flashcards from a single chunk
    * @param content - Chunk content
-   * @param mode - Generation mode
-   * @param userTags - User tags
+   * @param options - Generation options
    * @param noteName - Source note name
-   * @returns Flashcards from this chunk
+   * @param hooks - Receives the cards of the chunk, and can cancel
+   * @returns Flashcards from this chunk; none if cancelled
    */
   private async generateFromChunk(
     content: string,
-    mode: GenerationMode,
-    userTags: string[],
-    noteName?: string
+    options: GenerationOptions,
+    noteName?: string,
+    hooks: GenerationHooks = {}
+  ): Promise<Flashcard[]> {
+    const prompt = this.buildPrompt(content, options);
+
+    if (this.settings.streamGeneration) {
+      return this.streamFromChunk(prompt, options, noteName, hooks);
+    }
+
+    let flashcards: Flashcard[];
+    try {
+      const reply = await this.callLLM(prompt, false, options.model, hooks.signal);
+      flashcards = await this.resolveReply(reply, prompt, options, noteName, hooks.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        return [];
+      }
+      throw error;
+    }
+
+    hooks.onFlashcards?.(flashcards);
+    return flashcards;
+  }
+
+  /**
+   * Generate flashcards from a single chunk, passing each card on as soon
+   * as the model has finished writing it
+   * @param prompt - Generation prompt
+   * @param options - Generation options
+   * @param noteName - Source note name
+   * @param hooks - Receives the cards as they arrive, and can cancel
+   * @returns Flashcards from this chunk; those received so far if cancelled
+   */
+  private async streamFromChunk(
+    prompt: string,
+    options: GenerationOptions,
+    noteName: string | undefined,
+    hooks: GenerationHooks
   ): Promise<Flashcard[]> {
-    const prompt = this.buildPrompt(content, mode, userTags);
-    const response = await this.callGroqAPI(prompt);
-    
-    // Validate and repair response
-    const validation = Validator.validateGroqResponse(response);
-    
-    if (!validation.isValid) {
-      console.warn('Groq response validation failed:', validation.errors);
-      // Try repair
-      if (validation.repaired && validation.repaired.length > 0) {
-        return this.addMetadata(validation.repaired, noteName);
+    const parser = new JsonArrayStreamParser();
+    const flashcards: Flashcard[] = [];
+    let text: string;
+
+    try {
+      // Error statuses arrive before any text, so a retried stream never repeats cards
+      const request = this.buildCompletionRequest(prompt, false, options.model);
+      text = await this.scheduler.schedule(this.estimateTokens(request), () => this.provider.stream(request, delta => {
+        for (const item of parser.push(delta)) {
+          // Cards the model got wrong are left out rather than failing the chunk
+          const validation = Validator.validateGroqResponse([item], options.cardType);
+          if (validation.isValid && validation.repaired) {
+            const cards = this.addMetadata(validation.repaired, noteName, options.cardType);
+            flashcards.push(...cards);
+            hooks.onFlashcards?.(cards);
+          }
+        }
+      }, hooks.signal), hooks.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        return flashcards;
       }
-      throw new Error('Failed to generate valid flashcards');
+      throw error;
+    }
+
+    if (flashcards.length > 0) {
+      return flashcards;
     }
 
-    return this.addMetadata(validation.repaired || [], noteName);
+    // Nothing could be picked out while streaming; parse the reply as a whole
+    let cards: Flashcard[];
+    try {
+      cards = await this.resolveReply(text, prompt, options, noteName, hooks.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        return [];
+      }
+      throw error;
+    }
+    hooks.onFlashcards?.(cards);
+    return cards;
   }
 
   /**
-   * Summarize large content
-   * @param content - Content to summarize
-   * @returns Summarized content
+   * Turn a reply into flashcards. A reply that does not parse, or has
+   * cards that cannot be repaired, is sent back to the model with the
+   * validation errors, up to MAX_REPAIR_ATTEMPTS times.
+   * @param reply - Reply text
+   * @param prompt - Prompt the reply answers
+   * @param options - Generation options
+   * @param noteName - Source note name
+   * @param signal - Stops a repair request
+   * @returns Flashcards with metadata; the most usable cards if the
+   * errors could not be fixed
+   * @throws Error listing the problems if no usable flashcard was produced
+   */
+  private async resolveReply(
+    reply: string,
+    prompt: string,
+    options: GenerationOptions,
+    noteName?: string,
+    signal?: AbortSignal
+  ): Promise<Flashcard[]> {
+    let best: Flashcard[] = [];
+    let errors: string[] = [];
+
+    for (let attempt = 0; ; attempt++) {
+      const validation = this.validateReply(reply, options);
+      const flashcards = validation.repaired ?? [];
+      if (validation.errors.length === 0) {
+        return this.addMetadata(flashcards, noteName, options.cardType);
+      }
+      if (flashcards.length > best.length) {
+        best = flashcards;
+      }
+      errors = validation.errors;
+
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        break;
+      }
+
+      console.warn('LLM response validation failed, asking for a repair:', errors);
+      try {
+        reply = await this.requestRepair(prompt, reply, errors, options.model, signal);
+      } catch (error) {
+        // Keep the cards that were usable before the repair was attempted
+        if (best.length === 0) {
+          throw error;
+        }
+        if (!(error instanceof CancelledError)) {
+          console.error('Repair request failed:', error);
+        }
+        break;
+      }
+    }
+
+    if (best.length === 0) {
+      throw new Error(`Invalid flashcards in reply: ${errors.join('; ')}`);
+    }
+    return this.addMetadata(best, noteName, options.cardType);
+  }
+
+  /**
+   * Parse and validate a reply
+   * @param reply - Reply text
+   * @param options - Generation options
+   * @returns Validation result; a reply that is not JSON has no cards
    */
-  private async summarizeContent(content: string): Promise<string> {
-    const prompt = TokenUtils.createSummaryPrompt(content);
-    
+  private validateReply(reply: string, options: GenerationOptions): ValidationResult {
     try {
-      const response = await this.callGroqAPI(prompt, true);
-      return typeof response === 'string' ? response : JSON.stringify(response);
+      return Validator.validateGroqResponse(this.extractJSON(reply), options.cardType);
     } catch (error) {
-      console.error('Summarization failed:', error);
-      // Fallback: truncate content
-      return TokenUtils.truncateToTokenLimit(content, 8000);
+      return {
+        isValid: false,
+        errors: [error instanceof Error ? error.message : String(error)],
+        repaired: []
+      };
     }
   }
 
   /**
-   * Build prompt for Groq API
+   * Send a reply back to the model with the problems found in it
+   * @param prompt - Prompt the reply answers
+   * @param reply - Reply text
+   * @param errors - Validation errors
+   * @param model - Model used instead of the configured one
+   * @param signal - Stops waiting for the reply
+   * @returns Corrected reply text
+   */
+  private async requestRepair(
+    prompt: string,
+    reply: string,
+    errors: string[],
+    model?: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request = this.buildCompletionRequest(prompt, false, model);
+    request.messages.push(
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `Your reply could not be used:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with the corrected flashcards as a JSON object in the same format, and nothing else. Keep the flashcards that were fine.`
+      }
+    );
+
+    return this.complete(request, signal);
+  }
+
+  /**
+   * Summarize large content map-reduce style: each part is summarized on its
+   * own, then consecutive summaries are merged a few at a time until they
+   * are short enough to generate from, so the whole note is covered
+   * @param content - Content to summarize
+   * @param options - Generation options
+   * @param hooks - Receives progress, and can cancel
+   * @returns Summarized content
+   * @throws CancelledError if the signal is aborted
+   */
+  private async summarizeContent(content: string, options: GenerationOptions, hooks: GenerationHooks = {}): Promise<string> {
+    const budget = this.getChunkBudget(options, true);
+    const parts = TokenUtils.chunkText(content, budget).chunks.map(part => part.content);
+
+    let summaries = await this.summarizeAll(
+      parts.map(part => ({ prompt: TokenUtils.createSummaryPrompt(part), text: part })),
+      GenerationStage.SUMMARIZING,
+      options.model,
+      hooks
+    );
+    while (summaries.length > 1 && TokenUtils.countTokens(summaries.join('\n\n')) > TokenUtils.SUMMARIZATION_THRESHOLD) {
+      summaries = await this.summarizeAll(
+        this.groupSummaries(summaries, budget).map(group => ({ prompt: TokenUtils.createMergePrompt(group), text: group.join('\n\n') })),
+        GenerationStage.MERGING,
+        options.model,
+        hooks
+      );
+    }
+
+    return summaries.join('\n\n');
+  }
+
+  /**
+   * Summarize items in parallel, reporting progress. An item whose summary
+   * fails is shortened instead, so the rest of the note is not lost.
+   * @param items - Prompts with the text they summarize, in document order
+   * @param stage - Stage reported as progress
+   * @param model - Model used instead of the configured one
+   * @param hooks - Receives progress, and can cancel
+   * @returns Summaries in document order
+   * @throws CancelledError if the signal is aborted
+   */
+  private async summarizeAll(
+    items: Array<{ prompt: string; text: string }>,
+    stage: GenerationStage,
+    model: string | undefined,
+    hooks: GenerationHooks
+  ): Promise<string[]> {
+    const summaries: string[] = [];
+    const progress = { stage, chunksDone: 0, chunksTotal: items.length, cardsGenerated: 0 };
+    hooks.onProgress?.({ ...progress });
+
+    await this.runParallel(items.length, async index => {
+      try {
+        summaries[index] = await this.callLLM(items[index].prompt, true, model, hooks.signal);
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        console.error('Summarization failed:', error);
+        // Fallback: keep the start of the text
+        summaries[index] = TokenUtils.truncateToTokenLimit(items[index].text, SUMMARY_TOKENS);
+      }
+      progress.chunksDone++;
+      hooks.onProgress?.({ ...progress });
+    }, hooks.signal);
+
+    CancellationUtils.throwIfCancelled(hooks.signal);
+    return summaries;
+  }
+
+  /**
+   * Group consecutive summaries to be merged, as many as fit in a request
+   * and at least two, so every round at least halves their number
+   * @param summaries - Summaries in document order
+   * @param maxTokens - Maximum tokens per group
+   * @returns Groups in document order
+   */
+  private groupSummaries(summaries: string[], maxTokens: number): string[][] {
+    const groups: string[][] = [];
+    let group: string[] = [];
+    let tokens = 0;
+
+    for (const summary of summaries) {
+      const summaryTokens = TokenUtils.countTokens(summary);
+      if (group.length >= 2 && tokens + summaryTokens > maxTokens) {
+        groups.push(group);
+        group = [];
+        tokens = 0;
+      }
+      group.push(summary);
+      tokens += summaryTokens;
+    }
+
+    // A summary left on its own joins the group before it
+    if (group.length === 1 && groups.length > 0) {
+      groups[groups.length - 1].push(group[0]);
+    } else if (group.length > 0) {
+      groups.push(group);
+    }
+    return groups;
+  }
+
+  /**
+   * Build flashcard generation prompt
    * @param content - Content to generate flashcards from
-   * @param mode - Generation mode
-   * @param tags - Tags to use
+   * @param options - Generation mode, tags, card type, count and language
    * @returns Formatted prompt
    */
-  private buildPrompt(content: string, mode: GenerationMode, tags: string[]): string {
+  private buildPrompt(content: string, options: GenerationOptions): string {
+    const tagInstruction = options.mode === GenerationMode.DYNAMIC ? 
+      'Suggest relevant tags based on the content.' : 
+      `Use these tags: ${options.tags.join(', ')}`;
+    const countRequirement = options.cardCount
+      ? `- Generate exactly ${options.cardCount} flashcard${options.cardCount === 1 ? '' : 's'}`
+      : '- Generate 3-10 flashcards depending on content richness';
+    const languageRequirement = options.language
+      ? `\n- Write the flashcards in ${options.language}, whatever the language of the content`
+      : '';
+
+    if (options.cardType === CardType.CLOZE) {
+      return `Generate high-quality cloze deletion flashcards from the following content. Each card should hide one or more key terms of an important statement.
+
+IMPORTANT: Respond with ONLY a valid JSON object holding the flashcards. Do not include any explanatory text before or after the JSON.
+
+Format:
+{
+  "flashcards": [
+    {
+      "front": "The {{c1::mitochondria}} is the site of {{c2::cellular respiration}}.",
+      "back": "Optional extra context shown after the answer",
+      "tags": ["tag1", "tag2"]
+    }
+  ]
+}
+
+Requirements:
+- Front: A complete statement using Anki cloze syntax {{c1::hidden text}} (max 500 chars)
+- Number deletions c1, c2, ... ; use the same number to hide terms together on one card
+- Optional hint: {{c1::hidden text::hint}}
+- Hide key terms, names, numbers or definitions, never trivial words
+- Back: Optional extra context or explanation, may be an empty string (max 1000 chars)
+- Tags: Relevant categorization tags
+${countRequirement}${languageRequirement}
+- Use active recall principles
+
+Content:
+${content}
+
+${tagInstruction}
+
+JSON:`;
+    }
+
     const basePrompt = `Generate high-quality flashcards from the following content. Each flashcard should test understanding of a key concept.
 
-IMPORTANT: Respond with ONLY a valid JSON array of flashcards. Do not include any explanatory text before or after the JSON.
+IMPORTANT: Respond with ONLY a valid JSON object holding the flashcards. Do not include any explanatory text before or after the JSON.
 
 Format:
-[
-  {
-    "front": "Question or prompt",
-    "back": "Answer or explanation",
-    "tags": ["tag1", "tag2"]
-  }
-]
+{
+  "flashcards": [
+    {
+      "front": "Question or prompt",
+      "back": "Answer or explanation",
+      "tags": ["tag1", "tag2"]
+    }
+  ]
+}
 
 Requirements:
 - Front: Clear, concise question or prompt (max 500 chars)
 - Back: Comprehensive answer with examples if relevant (max 1000 chars)
 - Tags: Relevant categorization tags
-- Generate 3-10 flashcards depending on content richness
+${countRequirement}${languageRequirement}
 - Focus on understanding, not memorization
 - Use active recall principles
 
 Content:
 ${content}
 
-${mode === GenerationMode.DYNAMIC ? 
-  'Suggest relevant tags based on the content.' : 
-  `Use these tags: ${tags.join(', ')}`}
+${tagInstruction}
 
-JSON array:`;
+JSON:`;
 
     return basePrompt;
   }
 
   /**
-   * Call Groq API
+   * Build the prompt asking for a flashcard to be rewritten
+   * @param flashcard - Flashcard to rewrite
+   * @param problems - Problems to fix
+   * @returns Prompt
+   */
+  private buildRewritePrompt(flashcard: Flashcard, problems: string[]): string {
+    const isCloze = flashcard.type === CardType.CLOZE;
+    const card = isCloze
+      ? `Text: ${flashcard.front}\nExtra: ${flashcard.back}`
+      : `Front: ${flashcard.front}\nBack: ${flashcard.back}`;
+    const format = isCloze
+      ? 'Front: a complete statement using Anki cloze syntax {{c1::hidden text}}; back: optional extra context, may be an empty string'
+      : 'Front: a clear question with a single answer; back: a short answer';
+
+    return `Rewrite the following flashcard so it follows spaced repetition best practices. It has these problems:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+If it tests more than one fact, split it into several flashcards, one fact each. Every card must make sense on its own, without the note it came from. Keep the facts and the language of the original and do not add new information.
+
+IMPORTANT: Respond with ONLY a valid JSON object holding the flashcards. Do not include any explanatory text before or after the JSON.
+
+Format:
+{
+  "flashcards": [
+    {
+      "front": "${isCloze ? 'The {{c1::mitochondria}} is the site of cellular respiration.' : 'Question or prompt'}",
+      "back": "${isCloze ? '' : 'Answer'}",
+      "tags": []
+    }
+  ]
+}
+
+${format}.
+
+Flashcard:
+${card}
+
+JSON:`;
+  }
+
+  /**
+   * Call the configured LLM provider
    * @param prompt - Prompt to send
    * @param isSummary - Whether this is a summary request
-   * @returns API response
-   */
-  private async callGroqAPI(prompt: string, isSummary = false): Promise<unknown> {
-    const response = await requestUrl({
-      url: this.GROQ_API_URL,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.settings.groqApiKey}`
-      },
-      body: JSON.stringify({
-        model: this.settings.groqModel,
-        messages: [
-          {
-            role: 'system',
-            content: isSummary 
-              ? 'You are a helpful assistant that creates concise summaries.'
-              : 'You are a helpful assistant that creates educational flashcards. Always respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: isSummary ? 2000 : 4000
-      })
-    });
-
-    if (response.status !== 200) {
-      const errorText = response.text;
-      throw new Error(`Groq API error (${response.status}): ${errorText}`);
-    }
+   * @param model - Model used instead of the configured one
+   * @param signal - Stops waiting for the reply
+   * @returns Reply text
+   * @throws CancelledError if the signal is aborted
+   */
+  private async callLLM(prompt: string, isSummary = false, model?: string, signal?: AbortSignal): Promise<string> {
+    return this.complete(this.buildCompletionRequest(prompt, isSummary, model), signal);
+  }
 
-    const data = response.json as { choices?: Array<{ message?: { content?: string } }> };
-    
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      throw new Error('Invalid response format from Groq API');
-    }
+  /**
+   * Send a completion request through the request scheduler
+   * @param request - Completion request
+   * @param signal - Stops waiting for the reply
+   * @returns Reply text
+   */
+  private complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    return this.scheduler.schedule(this.estimateTokens(request), () => this.provider.complete(request, signal), signal);
+  }
 
-    const content = data.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error('No content in response from Groq API');
-    }
-    
-    if (isSummary) {
-      return content;
-    }
+  /**
+   * Estimate the tokens a request counts against the provider's limit.
+   * Providers count the requested max_tokens when the request arrives,
+   * not the tokens eventually generated.
+   * @param request - Completion request
+   * @returns Prompt tokens plus max_tokens
+   */
+  private estimateTokens(request: CompletionRequest): number {
+    return this.countPromptTokens(request) + request.maxTokens;
+  }
+
+  /**
+   * Count the tokens of the messages of a request
+   * @param request - Completion request
+   * @returns Prompt tokens
+   */
+  private countPromptTokens(request: CompletionRequest): number {
+    return request.messages.reduce((total, message) => total + TokenUtils.countTokens(message.content), 0);
+  }
 
-    // Try to extract JSON from response
-    return this.extractJSON(content);
+  /**
+   * Build the completion request for a prompt
+   * @param prompt - Prompt to send
+   * @param isSummary - Whether this is a summary request
+   * @param model - Model used instead of the configured one
+   * @returns Completion request
+   */
+  private buildCompletionRequest(prompt: string, isSummary: boolean, model?: string): CompletionRequest {
+    return {
+      messages: [
+        {
+          role: 'system',
+          content: isSummary 
+            ? 'You are a helpful assistant that creates concise summaries.'
+            : 'You are a helpful assistant that creates educational flashcards. Always respond with valid JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: isSummary ? SUMMARY_MAX_TOKENS : FLASHCARD_MAX_TOKENS,
+      model,
+      responseSchema: !isSummary && this.settings.structuredOutput ? FLASHCARD_RESPONSE_SCHEMA : undefined
+    };
   }
 
   /**
    * Extract JSON from response text
    * @param text - Response text that may contain JSON
    * @returns Parsed JSON
+   * @throws Error with the parse error if the text holds no valid JSON
    */
   private extractJSON(text: string): unknown {
-    // Try direct parse first
+    // Models without JSON mode sometimes wrap the reply in a code fence
+    const trimmed = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
     try {
-      return JSON.parse(text);
-    } catch {
-      // Try to extract JSON array from text
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      // ... or in a sentence; parse from the first bracket to the last
+      const start = trimmed.search(/[[{]/);
+      const end = Math.max(trimmed.lastIndexOf(']'), trimmed.lastIndexOf('}'));
+      if (start !== -1 && end > start) {
         try {
-          return JSON.parse(jsonMatch[0]);
+          return JSON.parse(trimmed.slice(start, end + 1));
         } catch {
-          throw new Error('Could not extract valid JSON from response');
+          // Report the error of the whole reply
         }
       }
-      throw new Error('No JSON found in response');
+      throw new Error(`Reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -287,108 +971,24 @@ JSON array:`;
    * Add metadata to flashcards
    * @param flashcards - Flashcards to add metadata to
    * @param noteName - Source note name
+   * @param cardType - Card type that was requested
    * @returns Flashcards with metadata
    */
-  private addMetadata(flashcards: Flashcard[], noteName?: string): Flashcard[] {
+  private addMetadata(flashcards: Flashcard[], noteName?: string, cardType = CardType.BASIC): Flashcard[] {
     return flashcards.map(card => ({
       ...card,
+      back: card.back ?? '',
+      type: cardType,
+      id: card.id || IdUtils.generateId(),
       source: noteName || card.source
     }));
   }
 
-  /**
-   * Delay execution
-   * @param ms - Milliseconds to delay
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Test API connection with detailed error reporting
    * @returns Connection test result with details
    */
-  async testConnection(): Promise<{ success: boolean; message: string; details?: Record<string, unknown> }> {
-    try {
-      // Check if API key is provided
-      if (!this.settings.groqApiKey || this.settings.groqApiKey.trim() === '') {
-        return {
-          success: false,
-          message: 'Groq API key is not configured'
-        };
-      }
-
-      // Check API key format (should start with 'gsk_')
-      if (!this.settings.groqApiKey.startsWith('gsk_')) {
-        return {
-          success: false,
-          message: 'Invalid API key format. Groq API keys should start with "gsk_"'
-        };
-      }
-
-      const response = await requestUrl({
-        url: this.GROQ_API_URL,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.settings.groqApiKey}`
-        },
-        body: JSON.stringify({
-          model: this.settings.groqModel,
-          messages: [
-            {
-              role: 'user',
-              content: 'Test'
-            }
-          ],
-          max_tokens: 10
-        })
-      });
-
-      if (response.status !== 200) {
-        const errorText = response.text;
-        let errorMessage = `HTTP ${response.status}: Unknown error`;
-        
-        try {
-          const errorData = JSON.parse(errorText);
-          if (errorData && typeof errorData === 'object' && 'error' in errorData) {
-            const error = errorData.error as { message?: string; type?: string };
-            errorMessage = error.message || error.type || errorMessage;
-          }
-        } catch {
-          // Use the raw error text if JSON parsing fails
-          errorMessage = errorText || errorMessage;
-        }
-
-        return {
-          success: false,
-          message: `Groq API error: ${errorMessage}`,
-          details: {
-            status: response.status,
-            response: errorText
-          }
-        };
-      }
-
-      const data = response.json;
-      
-      return {
-        success: true,
-        message: 'Successfully connected to Groq API',
-        details: {
-          model: this.settings.groqModel,
-          response: data
-        }
-      };
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        message: `Connection failed: ${errorMessage}`,
-        details: { error: errorMessage }
-      };
-    }
+  async testConnection(): Promise<ConnectionTestResult> {
+    return this.provider.testConnection();
   }
 }
-
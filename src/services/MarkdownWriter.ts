@@ -1,5 +1,8 @@
-import { App, TFile } from 'obsidian';
-import { Flashcard } from '../types';
+import { App, TFile, normalizePath } from 'obsidian';
+import { Flashcard, FlashcardDestination, OutputFormat } from '../types';
+import { FlashcardBlock, FlashcardFormat } from './formats/FlashcardFormat';
+import { createFlashcardFormat } from './formats/FormatFactory';
+import { SimilarityUtils } from '../utils/SimilarityUtils';
 
 /**
  * Service for writing flashcards to markdown files
@@ -7,9 +10,114 @@ import { Flashcard } from '../types';
 export class MarkdownWriter {
   private app: App;
   private readonly FLASHCARDS_HEADING = '## Flashcards';
+  private format: FlashcardFormat;
+  private readonly formats: FlashcardFormat[];
+  private destination = FlashcardDestination.SOURCE_NOTE;
+  private companionNotePath = '';
 
-  constructor(app: App) {
+  constructor(app: App, outputFormat = OutputFormat.OBSICARD) {
     this.app = app;
+    this.format = createFlashcardFormat(outputFormat);
+    this.formats = Object.values(OutputFormat).map(type => createFlashcardFormat(type));
+  }
+
+  /**
+   * Change the format new Flashcards sections are written in.
+   * Existing sections keep whichever format they use.
+   * @param outputFormat - Format for new flashcards
+   */
+  setOutputFormat(outputFormat: OutputFormat): void {
+    this.format = createFlashcardFormat(outputFormat);
+  }
+
+  /**
+   * Choose where generated flashcards are written
+   * @param destination - Source note or companion note
+   * @param companionNotePath - Path template for companion notes, with
+   *   {{folder}} and {{basename}} placeholders
+   */
+  setDestination(destination: FlashcardDestination, companionNotePath: string): void {
+    this.destination = destination;
+    this.companionNotePath = companionNotePath;
+  }
+
+  /**
+   * Write flashcards generated from a note, either into the note itself or
+   * into its companion note. Cards already stored in the note or its
+   * companion note are skipped.
+   * @param source - Note the flashcards were generated from
+   * @param flashcards - Flashcards to write
+   * @returns Note written to and the flashcards written, or null on failure
+   */
+  async writeFlashcardsForNote(
+    source: TFile,
+    flashcards: Flashcard[]
+  ): Promise<{ file: TFile; written: Flashcard[] } | null> {
+    try {
+      const existing = await this.readFlashcardsForNote(source);
+      const seen = new Set(existing.map(card => this.getDuplicateKey(card)));
+      const written = this.removeDuplicates(flashcards, seen);
+
+      const useCompanion = this.destination === FlashcardDestination.COMPANION_NOTE
+        && this.getCompanionPath(source) !== source.path;
+      const file = useCompanion ? await this.getOrCreateCompanionNote(source) : source;
+
+      // Cards stored away from their note link back to it
+      if (useCompanion) {
+        written.forEach(card => {
+          card.source = this.getLinkPath(source);
+        });
+      }
+
+      if (written.length > 0 && !await this.writeFlashcardsToNote(file, written)) {
+        return null;
+      }
+      return { file, written };
+    } catch (error) {
+      console.error('Failed to write flashcards:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the notes that hold a note's flashcards: the note itself and its
+   * companion note, if one exists
+   * @param file - Source note
+   * @returns Notes to read flashcards from
+   */
+  getFlashcardNotes(file: TFile): TFile[] {
+    const companion = this.getCompanionNote(file);
+    return companion && companion.path !== file.path ? [file, companion] : [file];
+  }
+
+  /**
+   * Read the flashcards of a note and of its companion note
+   * @param file - Source note
+   * @returns Flashcards of both notes, source note first
+   */
+  async readFlashcardsForNote(file: TFile): Promise<Flashcard[]> {
+    const flashcards: Flashcard[] = [];
+    for (const note of this.getFlashcardNotes(file)) {
+      flashcards.push(...await this.readFlashcardsFromNote(note));
+    }
+    return flashcards;
+  }
+
+  /**
+   * Resolve the companion note path of a note from the path template
+   * @param source - Source note
+   * @returns Vault path of the companion note
+   */
+  getCompanionPath(source: TFile): string {
+    const slash = source.path.lastIndexOf('/');
+    const folder = slash === -1 ? '' : source.path.substring(0, slash);
+    const path = normalizePath(
+      this.companionNotePath
+        .replace(/\{\{folder\}\}/g, folder)
+        .replace(/\{\{basename\}\}/g, source.basename)
+    );
+
+    return path.endsWith('.md') ? path : `${path}.md`;
   }
 
   /**
@@ -37,18 +145,15 @@ export class MarkdownWriter {
    * @returns Modified content
    */
   private insertFlashcards(content: string, flashcards: Flashcard[]): string {
-    const flashcardSection = this.formatFlashcards(flashcards);
-    
     // Check if ## Flashcards section already exists
-    const flashcardsHeadingRegex = /^##\s+Flashcards\s*$/m;
-    const match = flashcardsHeadingRegex.exec(content);
+    const section = this.findFlashcardsSection(content);
 
-    if (match) {
-      // Section exists, append to it
-      return this.appendToExistingSection(content, flashcardSection, match.index);
+    if (section) {
+      // Section exists, append to it in the format it already uses
+      return this.appendToExistingSection(content, section.format.formatFlashcards(flashcards), section.end);
     } else {
       // Section doesn't exist, create it at the end
-      return this.createNewSection(content, flashcardSection);
+      return this.createNewSection(content, this.formatFlashcards(flashcards));
     }
   }
 
@@ -56,32 +161,17 @@ export class MarkdownWriter {
    * Append flashcards to existing section
    * @param content - Original content
    * @param flashcardSection - Formatted flashcard section
-   * @param headingIndex - Index of the ## Flashcards heading
+   * @param sectionEnd - Index where the Flashcards section ends
    * @returns Modified content
    */
   private appendToExistingSection(
     content: string,
     flashcardSection: string,
-    headingIndex: number
+    sectionEnd: number
   ): string {
-    // Find the end of the Flashcards section (next heading of same or higher level, or end of file)
-    const afterHeading = content.substring(headingIndex);
-    const nextHeadingRegex = /\n##?\s+/;
-    const nextHeadingMatch = afterHeading.substring(afterHeading.indexOf('\n') + 1).match(nextHeadingRegex);
-
-    let insertPosition: number;
-    
-    if (nextHeadingMatch && nextHeadingMatch.index !== undefined) {
-      // Insert before next heading
-      insertPosition = headingIndex + afterHeading.indexOf('\n') + 1 + nextHeadingMatch.index;
-    } else {
-      // Insert at end of file
-      insertPosition = content.length;
-    }
-
     // Add newlines for proper spacing
-    const before = content.substring(0, insertPosition);
-    const after = content.substring(insertPosition);
+    const before = content.substring(0, sectionEnd);
+    const after = content.substring(sectionEnd);
     
     return before + '\n' + flashcardSection + '\n' + after;
   }
@@ -101,7 +191,7 @@ export class MarkdownWriter {
       separator = '\n';
     }
 
-    return content + separator + this.FLASHCARDS_HEADING + '\n\n' + flashcardSection;
+    return content + separator + this.FLASHCARDS_HEADING + '\n\n' + this.format.getSectionPreamble() + flashcardSection;
   }
 
   /**
@@ -110,26 +200,7 @@ export class MarkdownWriter {
    * @returns Formatted markdown string
    */
   private formatFlashcards(flashcards: Flashcard[]): string {
-    const formatted: string[] = [];
-
-    for (const card of flashcards) {
-      const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-      const tags = card.tags.map(tag => `#${tag}`).join(' ');
-      
-      formatted.push('---');
-      formatted.push('');
-      formatted.push(`**Q:** ${card.front}`);
-      formatted.push('');
-      formatted.push(`**A:** ${card.back}`);
-      formatted.push('');
-      if (tags) {
-        formatted.push(`*Tags:* ${tags}`);
-      }
-      formatted.push(`*Created:* ${timestamp}`);
-      formatted.push('');
-    }
-
-    return formatted.join('\n');
+    return this.format.formatFlashcards(flashcards);
   }
 
   /**
@@ -153,121 +224,240 @@ export class MarkdownWriter {
    * @returns Parsed flashcards
    */
   private parseFlashcards(content: string): Flashcard[] {
-    const flashcards: Flashcard[] = [];
+    const section = this.findFlashcardsSection(content);
+    if (!section) {
+      return [];
+    }
 
-    // Find Flashcards section
-    const flashcardsHeadingRegex = /^##\s+Flashcards\s*$/m;
-    const match = flashcardsHeadingRegex.exec(content);
+    return section.format.parseFlashcards(content.substring(section.start, section.end));
+  }
 
+  /**
+   * Locate the Flashcards section and the format its cards are written in.
+   * The section ends at the next level 1 or 2 heading outside a flashcard,
+   * so headings inside cards are kept.
+   * @param content - Note content
+   * @returns Index of the heading, start of the content after the heading text,
+   *   end of the section and the format that reads the most cards from it
+   */
+  private findFlashcardsSection(
+    content: string
+  ): { headingStart: number; start: number; end: number; format: FlashcardFormat } | null {
+    const match = /^##\s+Flashcards\s*$/m.exec(content);
     if (!match) {
-      return flashcards;
+      return null;
     }
 
-    // Extract section content
-    const sectionStart = match.index + match[0].length;
-    const afterSection = content.substring(sectionStart);
-    const nextHeadingMatch = afterSection.match(/\n##?\s+/);
-    const sectionContent = nextHeadingMatch && nextHeadingMatch.index !== undefined
-      ? afterSection.substring(0, nextHeadingMatch.index)
-      : afterSection;
-
-    // Parse individual flashcards
-    const cardBlocks = sectionContent.split('---').filter(block => block.trim());
-
-    for (const block of cardBlocks) {
-      const card = this.parseFlashcardBlock(block);
-      if (card) {
-        flashcards.push(card);
+    const start = match.index + match[0].length;
+    const afterHeading = content.substring(start);
+
+    // Prefer the configured format when formats read equally many cards
+    const candidates = [this.format, ...this.formats.filter(format => format.name !== this.format.name)];
+    let best = { format: this.format, end: start + this.format.findSectionEnd(afterHeading), count: -1 };
+    for (const format of candidates) {
+      const end = format.findSectionEnd(afterHeading);
+      const count = format.parseFlashcards(afterHeading.substring(0, end)).length;
+      if (count > best.count) {
+        best = { format, end: start + end, count };
       }
     }
 
-    return flashcards;
+    return { headingStart: match.index, start, end: best.end, format: best.format };
   }
 
   /**
-   * Parse a single flashcard block
-   * @param block - Flashcard block text
-   * @returns Parsed flashcard or null
+   * Write IDs of the given flashcards into their existing blocks.
+   * Blocks are matched by ObsiCard ID, or by front/back for blocks
+   * written before IDs existed; the rest of the note is left untouched.
+   * @param file - File containing the flashcards
+   * @param flashcards - Flashcards with up-to-date IDs
+   * @returns True if the note was updated
    */
-  private parseFlashcardBlock(block: string): Flashcard | null {
-    const frontMatch = block.match(/\*\*Q:\*\*\s*(.+?)(?=\n|$)/s);
-    const backMatch = block.match(/\*\*A:\*\*\s*(.+?)(?=\n\*|$)/s);
-    const tagsMatch = block.match(/\*Tags:\*\s*(.+?)(?=\n|$)/);
+  async updateFlashcardMetadata(file: TFile, flashcards: Flashcard[]): Promise<boolean> {
+    return this.rewriteFlashcardBlocks(file, (block, parsed, format) => {
+      const card = flashcards.find(c => parsed.id
+        ? c.id === parsed.id
+        : c.front === parsed.front && c.back === parsed.back);
+      if (!card || !card.id) {
+        return block.text;
+      }
 
-    if (!frontMatch || !backMatch) {
-      return null;
-    }
+      return format.updateBlockMetadata(block, card);
+    });
+  }
+
+  /**
+   * Replace the content of existing flashcard blocks, matched by ObsiCard ID.
+   * The creation date of each block is kept, as is the format it is written in.
+   * @param file - File containing the flashcards
+   * @param flashcards - Flashcards with new content
+   * @returns True if the note was updated
+   */
+  async updateFlashcardContent(file: TFile, flashcards: Flashcard[]): Promise<boolean> {
+    return this.rewriteFlashcardBlocks(file, (block, parsed, format) => {
+      const card = parsed.id ? flashcards.find(c => c.id === parsed.id) : undefined;
+      if (!card) {
+        return block.text;
+      }
+
+      return format.replaceBlockContent(block, card);
+    });
+  }
 
-    const front = frontMatch[1].trim();
-    const back = backMatch[1].trim();
-    const tags: string[] = [];
+  /**
+   * Remove flashcards from a note's Flashcards section, matched by ObsiCard ID
+   * @param file - File containing the flashcards
+   * @param ids - IDs of the flashcards to remove
+   * @returns Number of flashcards removed
+   */
+  async deleteFlashcards(file: TFile, ids: string[]): Promise<number> {
+    return this.removeFlashcardBlocks(file, card => !!card.id && ids.includes(card.id));
+  }
+
+  /**
+   * Remove flashcard blocks from a note's Flashcards section where they are,
+   * leaving the other blocks as written. Separators left behind by removed
+   * cards are tidied up.
+   * @param file - File containing the flashcards
+   * @param shouldRemove - Called for each card in order; true removes its block
+   * @returns Number of flashcards removed
+   */
+  private async removeFlashcardBlocks(file: TFile, shouldRemove: (card: Flashcard) => boolean): Promise<number> {
+    try {
+      const content = await this.app.vault.read(file);
+      const section = this.findFlashcardsSection(content);
+      if (!section) {
+        return 0;
+      }
 
-    if (tagsMatch) {
-      const tagString = tagsMatch[1];
-      const tagMatches = tagString.match(/#[\w-]+/g);
-      if (tagMatches) {
-        tags.push(...tagMatches.map(tag => tag.substring(1)));
+      const blocks = section.format.splitBlocks(content.substring(section.start, section.end));
+      const parts: string[] = [];
+      let gap = '';
+      let gapChanged = false;
+      let removed = 0;
+
+      // Collect the text between remaining cards, tidying gaps that lost a card
+      for (const block of blocks) {
+        if (block.card && shouldRemove(block.card)) {
+          removed++;
+          gapChanged = true;
+        } else if (block.card) {
+          parts.push(gapChanged ? section.format.tidyGap(gap, true) : gap, block.text);
+          gap = '';
+          gapChanged = false;
+        } else {
+          gap += block.text;
+        }
       }
+      parts.push(gapChanged ? section.format.tidyGap(gap, false) : gap);
+
+      if (removed > 0) {
+        await this.app.vault.modify(
+          file,
+          content.substring(0, section.start) + parts.join('') + content.substring(section.end)
+        );
+      }
+      return removed;
+    } catch (error) {
+      console.error('Failed to remove flashcards:', error);
+      return 0;
     }
+  }
 
-    return {
-      front,
-      back,
-      tags: tags.length > 0 ? tags : ['obsidian']
-    };
+  /**
+   * Rewrite the flashcard blocks of a note's Flashcards section in place
+   * @param file - File containing the flashcards
+   * @param rewrite - Returns the new text for a block that parses as a flashcard
+   * @returns True if the section was found and processed
+   */
+  private async rewriteFlashcardBlocks(
+    file: TFile,
+    rewrite: (block: FlashcardBlock, parsed: Flashcard, format: FlashcardFormat) => string
+  ): Promise<boolean> {
+    try {
+      const content = await this.app.vault.read(file);
+
+      const section = this.findFlashcardsSection(content);
+      if (!section) {
+        return false;
+      }
+
+      const blocks = section.format.splitBlocks(content.substring(section.start, section.end));
+      const updatedBlocks = blocks.map(block =>
+        block.card ? rewrite(block, block.card, section.format) : block.text
+      );
+
+      const newContent = content.substring(0, section.start)
+        + updatedBlocks.join('')
+        + content.substring(section.end);
+
+      if (newContent !== content) {
+        await this.app.vault.modify(file, newContent);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to update flashcards:', error);
+      return false;
+    }
   }
 
   /**
-   * Check if note has Flashcards section
+   * Check if a note or its companion note has a Flashcards section
    * @param file - File to check
    * @returns True if section exists
    */
   async hasFlashcardsSection(file: TFile): Promise<boolean> {
-    try {
-      const content = await this.app.vault.read(file);
-      const flashcardsHeadingRegex = /^##\s+Flashcards\s*$/m;
-      return flashcardsHeadingRegex.test(content);
-    } catch {
-      return false;
+    const flashcardsHeadingRegex = /^##\s+Flashcards\s*$/m;
+
+    for (const note of this.getFlashcardNotes(file)) {
+      try {
+        if (flashcardsHeadingRegex.test(await this.app.vault.read(note))) {
+          return true;
+        }
+      } catch {
+        // Unreadable notes have no flashcards
+      }
     }
+    return false;
   }
 
   /**
-   * Remove duplicate flashcards from a note
+   * Remove duplicate flashcards from a note and its companion note.
+   * Cards in the source note are kept over copies in the companion note,
+   * and earlier cards over later ones. Only the duplicate blocks are
+   * removed, so the remaining cards keep their place, format and IDs.
    * @param file - File to deduplicate
    * @returns Number of duplicates removed
    */
   async deduplicateFlashcards(file: TFile): Promise<number> {
-    try {
-      const flashcards = await this.readFlashcardsFromNote(file);
-      const unique = this.removeDuplicates(flashcards);
-      const removed = flashcards.length - unique.length;
-
-      if (removed > 0) {
-        const content = await this.app.vault.read(file);
-        const newContent = this.removeFlashcardsSection(content);
-        await this.app.vault.modify(file, newContent);
-        await this.writeFlashcardsToNote(file, unique);
-      }
-
-      return removed;
-    } catch (error) {
-      console.error('Failed to deduplicate flashcards:', error);
-      return 0;
+    const seen = new Set<string>();
+    let removed = 0;
+
+    for (const note of this.getFlashcardNotes(file)) {
+      removed += await this.removeFlashcardBlocks(note, card => {
+        const key = this.getDuplicateKey(card);
+        if (seen.has(key)) {
+          return true;
+        }
+        seen.add(key);
+        return false;
+      });
     }
+
+    return removed;
   }
 
   /**
    * Remove duplicates from flashcard array
    * @param flashcards - Flashcards to deduplicate
+   * @param seen - Keys of flashcards already kept elsewhere; updated in place
    * @returns Deduplicated flashcards
    */
-  private removeDuplicates(flashcards: Flashcard[]): Flashcard[] {
-    const seen = new Set<string>();
+  private removeDuplicates(flashcards: Flashcard[], seen = new Set<string>()): Flashcard[] {
     const unique: Flashcard[] = [];
 
     for (const card of flashcards) {
-      const key = `${card.front}|||${card.back}`;
+      const key = this.getDuplicateKey(card);
       if (!seen.has(key)) {
         seen.add(key);
         unique.push(card);
@@ -278,33 +468,58 @@ export class MarkdownWriter {
   }
 
   /**
-   * Remove Flashcards section from content
-   * @param content - Original content
-   * @returns Content without Flashcards section
+   * Key under which flashcards count as duplicates
+   * @param card - Flashcard
+   * @returns Key built from the normalized front and back
    */
-  private removeFlashcardsSection(content: string): string {
-    const flashcardsHeadingRegex = /^##\s+Flashcards\s*$/m;
-    const match = flashcardsHeadingRegex.exec(content);
+  private getDuplicateKey(card: Flashcard): string {
+    return `${SimilarityUtils.normalize(card.front)}|||${SimilarityUtils.normalize(card.back)}`;
+  }
 
-    if (!match) {
-      return content;
+  /**
+   * Find the companion note of a note, if it exists
+   * @param source - Source note
+   * @returns Companion note or null
+   */
+  private getCompanionNote(source: TFile): TFile | null {
+    if (!this.companionNotePath) {
+      return null;
     }
 
-    const sectionStart = match.index;
-    const afterSection = content.substring(sectionStart);
-    const nextHeadingMatch = afterSection.substring(afterSection.indexOf('\n') + 1).match(/\n##?\s+/);
+    const file = this.app.vault.getAbstractFileByPath(this.getCompanionPath(source));
+    return file instanceof TFile ? file : null;
+  }
 
-    let sectionEnd: number;
-    if (nextHeadingMatch && nextHeadingMatch.index !== undefined) {
-      sectionEnd = sectionStart + afterSection.indexOf('\n') + 1 + nextHeadingMatch.index;
-    } else {
-      sectionEnd = content.length;
+  /**
+   * Find or create the companion note of a note, creating missing folders
+   * @param source - Source note
+   * @returns Companion note
+   */
+  private async getOrCreateCompanionNote(source: TFile): Promise<TFile> {
+    const existing = this.getCompanionNote(source);
+    if (existing) {
+      return existing;
     }
 
-    const before = content.substring(0, sectionStart);
-    const after = content.substring(sectionEnd);
+    const path = this.getCompanionPath(source);
+    const parts = path.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      const folder = parts.slice(0, i).join('/');
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+    }
 
-    return (before + after).trim() + '\n';
+    const link = `[[${this.getLinkPath(source)}|${source.basename}]]`;
+    return this.app.vault.create(path, `# ${source.basename} flashcards\n\nFlashcards for ${link}.\n`);
   }
-}
 
+  /**
+   * Link path of a note that resolves regardless of where it is linked from
+   * @param file - Note to link to
+   * @returns Vault path without the .md extension
+   */
+  private getLinkPath(file: TFile): string {
+    return file.path.replace(/\.md$/, '');
+  }
+}
@@ -0,0 +1,138 @@
+import { App, TFile } from 'obsidian';
+import { CardType, GenerationMode, GenerationOptions, NoteOverrides } from '../types';
+
+/**
+ * Frontmatter properties a note can set to override generation settings
+ */
+export const NOTE_OVERRIDE_KEYS = {
+  skip: 'obsicard-skip',
+  deck: 'obsicard-deck',
+  tags: 'obsicard-tags',
+  mode: 'obsicard-mode',
+  count: 'obsicard-count',
+  cardType: 'obsicard-type',
+  language: 'obsicard-language',
+  model: 'obsicard-model'
+} as const;
+
+/**
+ * Largest card count a note can ask for
+ */
+const MAX_CARD_COUNT = 50;
+
+/**
+ * Reads per-note generation overrides from note frontmatter
+ */
+export class NoteOverrideReader {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Read the overrides of a note
+   * @param file - Note to read, if any
+   * @returns Overrides; nothing is overridden without a note
+   */
+  read(file?: TFile): NoteOverrides {
+    const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+    return NoteOverrideReader.parse(cache?.frontmatter ?? {});
+  }
+
+  /**
+   * Parse overrides from frontmatter. Invalid values are ignored.
+   * @param frontmatter - Note frontmatter
+   * @returns Overrides
+   */
+  static parse(frontmatter: Record<string, unknown>): NoteOverrides {
+    const overrides: NoteOverrides = {
+      skip: NoteOverrideReader.parseBoolean(frontmatter[NOTE_OVERRIDE_KEYS.skip])
+    };
+
+    const deckName = NoteOverrideReader.parseString(frontmatter[NOTE_OVERRIDE_KEYS.deck]);
+    if (deckName) {
+      overrides.deckName = deckName;
+    }
+
+    const tags = frontmatter[NOTE_OVERRIDE_KEYS.tags];
+    if (tags !== undefined && tags !== null) {
+      // A YAML list or a comma-separated string
+      const values = Array.isArray(tags) ? tags.map(String) : String(tags).split(',');
+      overrides.tags = values
+        .map(tag => tag.trim().replace(/^#/, ''))
+        .filter(tag => tag.length > 0);
+    }
+
+    const mode = NoteOverrideReader.parseString(frontmatter[NOTE_OVERRIDE_KEYS.mode])?.toLowerCase();
+    if (Object.values(GenerationMode).includes(mode as GenerationMode)) {
+      overrides.mode = mode as GenerationMode;
+    }
+
+    const count = Number(frontmatter[NOTE_OVERRIDE_KEYS.count]);
+    if (Number.isInteger(count) && count > 0) {
+      overrides.cardCount = Math.min(count, MAX_CARD_COUNT);
+    }
+
+    const cardType = NoteOverrideReader.parseString(frontmatter[NOTE_OVERRIDE_KEYS.cardType])?.toLowerCase();
+    if (Object.values(CardType).includes(cardType as CardType)) {
+      overrides.cardType = cardType as CardType;
+    }
+
+    const language = NoteOverrideReader.parseString(frontmatter[NOTE_OVERRIDE_KEYS.language]);
+    if (language) {
+      overrides.language = language;
+    }
+
+    const model = NoteOverrideReader.parseString(frontmatter[NOTE_OVERRIDE_KEYS.model]);
+    if (model) {
+      overrides.model = model;
+    }
+
+    return overrides;
+  }
+
+  /**
+   * Apply note overrides on top of generation options
+   * @param options - Options chosen in settings or a dialog
+   * @param overrides - Overrides of the note
+   * @returns Combined options
+   */
+  static apply(options: GenerationOptions, overrides: NoteOverrides): GenerationOptions {
+    return {
+      ...options,
+      // Tags set by the note are used as they are unless it asks for dynamic tags
+      mode: overrides.mode ?? (overrides.tags ? GenerationMode.FIXED : options.mode),
+      tags: overrides.tags ?? options.tags,
+      cardType: overrides.cardType ?? options.cardType,
+      cardCount: overrides.cardCount ?? options.cardCount,
+      language: overrides.language ?? options.language,
+      model: overrides.model ?? options.model
+    };
+  }
+
+  /**
+   * Read a frontmatter value as trimmed text
+   * @param value - Frontmatter value
+   * @returns Text, or undefined if empty or not a scalar
+   */
+  private static parseString(value: unknown): string | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return undefined;
+    }
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
+  /**
+   * Read a frontmatter value as a flag
+   * @param value - Frontmatter value such as `true` or `"yes"`
+   * @returns True if the flag is set
+   */
+  private static parseBoolean(value: unknown): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    return typeof value === 'string' && ['true', 'yes', '1'].includes(value.trim().toLowerCase());
+  }
+}
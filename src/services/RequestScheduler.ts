@@ -0,0 +1,211 @@
+import { RateLimitInfo, RateLimitQuota } from '../types';
+import { TokenBucket } from '../utils/TokenBucket';
+import { CancellationUtils } from '../utils/CancellationUtils';
+import { ProviderError } from './providers/LLMProvider';
+
+/**
+ * Schedules AI requests within per-minute request and token limits.
+ * Shared by every generation, so bulk runs and parallel chunks draw on the
+ * same allowance. The rate limit state providers report in their response
+ * headers tightens the limits, and requests rejected with 429 or a 5xx
+ * status are retried with jittered backoff.
+ */
+export class RequestScheduler {
+  private static readonly MAX_RETRIES = 3;
+  private static readonly BASE_BACKOFF_MS = 2000;
+  private static readonly MAX_BACKOFF_MS = 60000;
+  private requests: TokenBucket;
+  private tokens: TokenBucket;
+  private tokensPerMinute: number;
+  private pausedUntil = 0;
+  private quota: RateLimitQuota = {};
+  private listeners = new Set<(quota: RateLimitQuota) => void>();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param requestsPerMinute - Maximum requests per minute (0 for no limit)
+   * @param tokensPerMinute - Maximum tokens per minute (0 to use the provider's reported limit)
+   */
+  constructor(requestsPerMinute: number, tokensPerMinute: number) {
+    this.requests = new TokenBucket(requestsPerMinute);
+    this.tokens = new TokenBucket(tokensPerMinute);
+    this.tokensPerMinute = tokensPerMinute;
+  }
+
+  /**
+   * Change the limits
+   * @param requestsPerMinute - Maximum requests per minute (0 for no limit)
+   * @param tokensPerMinute - Maximum tokens per minute (0 to use the provider's reported limit)
+   */
+  setLimits(requestsPerMinute: number, tokensPerMinute: number): void {
+    this.requests.setCapacity(requestsPerMinute);
+    this.tokens.setCapacity(tokensPerMinute);
+    this.tokensPerMinute = tokensPerMinute;
+  }
+
+  /**
+   * Get the token limit in effect
+   * @returns Tokens per minute, configured or reported by the provider; 0 if unlimited
+   */
+  getTokensPerMinute(): number {
+    return this.tokens.getCapacity();
+  }
+
+  /**
+   * Subscribe to changes of the remaining quota
+   * @param listener - Called with the quota after every change
+   * @returns Function that removes the listener
+   */
+  onQuotaChange(listener: (quota: RateLimitQuota) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the remaining quota
+   * @returns Quota as last reported by the provider
+   */
+  getQuota(): RateLimitQuota {
+    return { ...this.quota };
+  }
+
+  /**
+   * Apply the rate limit state a provider reported
+   * @param info - State from the response headers
+   */
+  updateFromServer(info: RateLimitInfo): void {
+    if (info.tokensLimit && this.tokensPerMinute === 0 && this.tokens.getCapacity() !== info.tokensLimit) {
+      this.tokens.setCapacity(info.tokensLimit);
+    }
+    if (info.requestsRemaining !== undefined) {
+      this.requests.limitTo(info.requestsRemaining);
+      this.quota.requestsRemaining = info.requestsRemaining;
+      if (info.requestsRemaining === 0 && info.requestsResetMs) {
+        this.pause(info.requestsResetMs);
+      }
+    }
+    if (info.tokensRemaining !== undefined) {
+      this.tokens.limitTo(info.tokensRemaining);
+      this.quota.tokensRemaining = info.tokensRemaining;
+      if (info.tokensRemaining === 0 && info.tokensResetMs) {
+        this.pause(info.tokensResetMs);
+      }
+    }
+    this.emit();
+  }
+
+  /**
+   * Send a request once the limits allow it, retrying transient failures
+   * @param tokens - Tokens the request counts against the limit
+   * @param send - Sends the request
+   * @param signal - Stops waiting and retrying
+   * @returns Result of the request
+   * @throws CancelledError if the signal is aborted, or the last error once
+   *   retries are used up
+   */
+  async schedule<T>(tokens: number, send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(tokens, signal);
+
+      try {
+        return await send();
+      } catch (error) {
+        if (!(error instanceof ProviderError) || !RequestScheduler.isTransient(error) || attempt >= RequestScheduler.MAX_RETRIES) {
+          throw error;
+        }
+
+        const waitMs = RequestScheduler.backoff(attempt, error);
+        if (error.status === 429) {
+          // Every request would be rejected until the limit resets
+          this.pause(waitMs);
+        }
+        console.warn(`AI request failed with status ${error.status}, retrying in ${Math.round(waitMs / 1000)}s`);
+        await CancellationUtils.delay(waitMs, signal);
+        CancellationUtils.throwIfCancelled(signal);
+      }
+    }
+  }
+
+  /**
+   * Wait for a turn, in the order requests arrive, then take it
+   * @param tokens - Tokens the request counts against the limit
+   * @param signal - Stops waiting
+   */
+  private async acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(tokens, signal));
+    // A cancelled waiter must not block the ones behind it
+    this.queue = turn.catch(() => undefined);
+    await turn;
+  }
+
+  /**
+   * Wait until both limits have room and no pause is in effect
+   * @param tokens - Tokens the request counts against the limit
+   * @param signal - Stops waiting
+   * @throws CancelledError if the signal is aborted while waiting
+   */
+  private async waitForCapacity(tokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      CancellationUtils.throwIfCancelled(signal);
+      const waitMs = Math.max(this.pausedUntil - Date.now(), this.requests.waitTime(1), this.tokens.waitTime(tokens));
+
+      if (waitMs <= 0) {
+        this.requests.take(1);
+        this.tokens.take(tokens);
+        if (this.quota.pausedUntil !== undefined) {
+          delete this.quota.pausedUntil;
+          this.emit();
+        }
+        return;
+      }
+
+      await CancellationUtils.delay(waitMs, signal);
+    }
+  }
+
+  /**
+   * Hold back all requests for a while
+   * @param ms - Milliseconds to wait
+   */
+  private pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.quota.pausedUntil = this.pausedUntil;
+    this.emit();
+  }
+
+  /**
+   * Notify listeners of the current quota
+   */
+  private emit(): void {
+    const quota = this.getQuota();
+    this.listeners.forEach(listener => listener(quota));
+  }
+
+  /**
+   * Check whether a failed request may succeed when sent again
+   * @param error - Provider error
+   * @returns True for rate limiting and server errors
+   */
+  private static isTransient(error: ProviderError): boolean {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  /**
+   * Time to wait before a retry: what the provider asked for, or an
+   * exponential backoff. Jitter keeps parallel requests from retrying at once.
+   * @param attempt - Zero-based attempt that failed
+   * @param error - Provider error
+   * @returns Milliseconds to wait
+   */
+  private static backoff(attempt: number, error: ProviderError): number {
+    const retryAfterMs = error.rateLimit.retryAfterMs;
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs + Math.random() * 1000;
+    }
+
+    const ceiling = Math.min(RequestScheduler.BASE_BACKOFF_MS * 2 ** attempt, RequestScheduler.MAX_BACKOFF_MS);
+    return ceiling / 2 + Math.random() * ceiling / 2;
+  }
+}
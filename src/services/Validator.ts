@@ -1,5 +1,6 @@
-import { Flashcard, ValidationResult } from '../types';
+import { Flashcard, ValidationResult, CardType } from '../types';
 import { Sanitizer } from '../utils/Sanitizer';
+import { ClozeUtils } from '../utils/ClozeUtils';
 
 /**
  * Validator service for flashcard schema validation and repair
@@ -8,9 +9,10 @@ export class Validator {
   /**
    * Validate a single flashcard
    * @param flashcard - Flashcard to validate
+   * @param cardType - Type assumed when the card does not declare one
    * @returns Validation result with errors if any
    */
-  static validateFlashcard(flashcard: unknown): { isValid: boolean; errors: string[] } {
+  static validateFlashcard(flashcard: unknown, cardType = CardType.BASIC): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Check if flashcard is an object
@@ -20,6 +22,7 @@ export class Validator {
     }
 
     const card = flashcard as Record<string, unknown>;
+    const isCloze = (card.type ?? cardType) === CardType.CLOZE;
 
     // Validate front
     if (!card.front || typeof card.front !== 'string') {
@@ -28,10 +31,18 @@ export class Validator {
       errors.push('Flashcard "front" cannot be empty');
     } else if (card.front.length > 5000) {
       errors.push('Flashcard "front" is too long (max 5000 characters)');
+    } else if (isCloze) {
+      errors.push(...ClozeUtils.validate(card.front));
     }
 
-    // Validate back
-    if (!card.back || typeof card.back !== 'string') {
+    // Validate back (optional extra for cloze cards)
+    if (isCloze) {
+      if (card.back !== undefined && typeof card.back !== 'string') {
+        errors.push('Cloze flashcard "back" must be a string');
+      } else if (typeof card.back === 'string' && card.back.length > 10000) {
+        errors.push('Flashcard "back" is too long (max 10000 characters)');
+      }
+    } else if (!card.back || typeof card.back !== 'string') {
       errors.push('Flashcard must have a valid "back" string');
     } else if (card.back.trim().length === 0) {
       errors.push('Flashcard "back" cannot be empty');
@@ -57,9 +68,10 @@ export class Validator {
   /**
    * Validate array of flashcards
    * @param flashcards - Array of flashcards to validate
+   * @param cardType - Type assumed for cards that do not declare one
    * @returns Validation result
    */
-  static validateFlashcards(flashcards: unknown): ValidationResult {
+  static validateFlashcards(flashcards: unknown, cardType = CardType.BASIC): ValidationResult {
     if (!Array.isArray(flashcards)) {
       return {
         isValid: false,
@@ -80,7 +92,7 @@ export class Validator {
     let allValid = true;
 
     flashcards.forEach((card, index) => {
-      const { isValid, errors } = this.validateFlashcard(card);
+      const { isValid, errors } = this.validateFlashcard(card, cardType);
       if (!isValid) {
         allValid = false;
         allErrors.push(`Card ${index + 1}: ${errors.join(', ')}`);
@@ -97,9 +109,10 @@ export class Validator {
   /**
    * Attempt to repair invalid flashcards
    * @param flashcards - Array of potentially invalid flashcards
+   * @param cardType - Type assumed for cards that do not declare one
    * @returns Repaired flashcards
    */
-  static repairFlashcards(flashcards: unknown[]): Flashcard[] {
+  static repairFlashcards(flashcards: unknown[], cardType = CardType.BASIC): Flashcard[] {
     if (!Array.isArray(flashcards)) {
       return [];
     }
@@ -108,7 +121,7 @@ export class Validator {
 
     for (const card of flashcards) {
       try {
-        const repairedCard = this.repairFlashcard(card);
+        const repairedCard = this.repairFlashcard(card, cardType);
         if (repairedCard) {
           repaired.push(repairedCard);
         }
@@ -124,14 +137,16 @@ export class Validator {
   /**
    * Attempt to repair a single flashcard
    * @param flashcard - Potentially invalid flashcard
+   * @param cardType - Type assumed when the card does not declare one
    * @returns Repaired flashcard or null if cannot be repaired
    */
-  private static repairFlashcard(flashcard: unknown): Flashcard | null {
+  private static repairFlashcard(flashcard: unknown, cardType = CardType.BASIC): Flashcard | null {
     if (!flashcard || typeof flashcard !== 'object') {
       return null;
     }
 
     const card = flashcard as Record<string, unknown>;
+    const isCloze = (card.type ?? cardType) === CardType.CLOZE;
 
     // Extract and clean front
     let front = '';
@@ -141,6 +156,8 @@ export class Validator {
       front = card.question;
     } else if (card.prompt && typeof card.prompt === 'string') {
       front = card.prompt;
+    } else if (card.text && typeof card.text === 'string') {
+      front = card.text;
     }
 
     // Extract and clean back
@@ -151,6 +168,8 @@ export class Validator {
       back = card.answer;
     } else if (card.response && typeof card.response === 'string') {
       back = card.response;
+    } else if (card.extra && typeof card.extra === 'string') {
+      back = card.extra;
     }
 
     // Clean content
@@ -159,7 +178,12 @@ export class Validator {
     back = cleaned.back;
 
     // Validate minimum requirements
-    if (!front || !back || front.length === 0 || back.length === 0) {
+    if (isCloze) {
+      // Cloze cards need well-formed deletions; the extra field may be empty
+      if (!front || ClozeUtils.validate(front).length > 0) {
+        return null;
+      }
+    } else if (!front || !back || front.length === 0 || back.length === 0) {
       return null;
     }
 
@@ -190,16 +214,19 @@ export class Validator {
       front,
       back,
       tags,
-      source
+      source,
+      ...(isCloze ? { type: CardType.CLOZE } : {})
     };
   }
 
   /**
    * Validate and parse Groq API response
    * @param response - Raw response from Groq API
-   * @returns Validated and repaired flashcards
+   * @param cardType - Card type that was requested
+   * @returns Validated and repaired flashcards; errors describe the cards
+   * that could not be repaired, so a reply can be valid and still have errors
    */
-  static validateGroqResponse(response: unknown): ValidationResult {
+  static validateGroqResponse(response: unknown, cardType = CardType.BASIC): ValidationResult {
     try {
       // Handle different response formats
       let flashcards: unknown[] = [];
@@ -224,14 +251,23 @@ export class Validator {
       }
 
       // Validate
-      const validation = this.validateFlashcards(flashcards);
+      const validation = this.validateFlashcards(flashcards, cardType);
 
       // If validation fails, attempt repair
       if (!validation.isValid) {
-        const repaired = this.repairFlashcards(flashcards);
+        const repaired: Flashcard[] = [];
+        const lost: string[] = [];
+        flashcards.forEach((card, index) => {
+          const [repairedCard] = this.repairFlashcards([card], cardType);
+          if (repairedCard) {
+            repaired.push(repairedCard);
+          } else {
+            lost.push(`Card ${index + 1}: ${this.validateFlashcard(card, cardType).errors.join(', ')}`);
+          }
+        });
         return {
           isValid: repaired.length > 0,
-          errors: repaired.length > 0 ? [] : validation.errors,
+          errors: repaired.length > 0 ? lost : validation.errors,
           repaired
         };
       }
@@ -0,0 +1,201 @@
+import { Flashcard } from '../../types';
+
+/**
+ * A piece of a Flashcards section. Joining the text of all blocks in order
+ * reproduces the section exactly.
+ */
+export interface FlashcardBlock {
+  text: string;
+  card: Flashcard | null; // Null for separators and text that is not a flashcard
+  version: number; // Block format version; 0 for non-card text
+}
+
+/**
+ * Base class for the markdown syntaxes flashcards can be stored in.
+ * Subclasses write single cards and split a Flashcards section into blocks;
+ * reading, rewriting and locating the end of the section are shared.
+ */
+export abstract class FlashcardFormat {
+  /**
+   * Hidden comment that formats without their own metadata syntax use to
+   * store card fields, e.g. `<!-- obsicard id: abc created: 2025-01-31 -->`
+   */
+  protected static readonly METADATA_COMMENT_REGEX = /<!--\s*obsicard((?:\s+[\w-]+:\s*\S*)+)\s*-->/;
+
+  /**
+   * Human-readable format name used in settings and notices
+   */
+  abstract readonly name: string;
+
+  /**
+   * Format a single flashcard
+   * @param card - Flashcard to format
+   * @param created - Creation date used if the card has none (YYYY-MM-DD)
+   * @returns Card markdown, without surrounding blank lines
+   */
+  abstract formatFlashcard(card: Flashcard, created?: string): string;
+
+  /**
+   * Split a Flashcards section into blocks
+   * @param text - Section content
+   * @returns Blocks whose text joins back to the section
+   */
+  abstract splitBlocks(text: string): FlashcardBlock[];
+
+  /**
+   * Format flashcards to append to a Flashcards section
+   * @param flashcards - Flashcards to format
+   * @param created - Creation date for cards without one (YYYY-MM-DD)
+   * @returns Formatted markdown
+   */
+  formatFlashcards(flashcards: Flashcard[], created = this.today()): string {
+    return flashcards.map(card => this.formatFlashcard(card, created) + '\n').join('\n');
+  }
+
+  /**
+   * Text written below the heading when a new Flashcards section is created
+   * @returns Markdown ending with a blank line, or an empty string
+   */
+  getSectionPreamble(): string {
+    return '';
+  }
+
+  /**
+   * Parse all flashcards in a Flashcards section
+   * @param text - Section content
+   * @returns Parsed flashcards, in order
+   */
+  parseFlashcards(text: string): Flashcard[] {
+    return this.splitBlocks(text)
+      .map(block => block.card)
+      .filter((card): card is Flashcard => card !== null);
+  }
+
+  /**
+   * Find where a Flashcards section ends: at the next level 1 or 2 heading
+   * that is not inside a flashcard
+   * @param text - Note content following the Flashcards heading text
+   * @returns Index of the newline before the next heading, or the text length
+   */
+  findSectionEnd(text: string): number {
+    const lines = text.split('\n');
+    let offset = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const regionEnd = this.findRegionEnd(lines, i);
+      if (regionEnd !== -1) {
+        for (let k = i; k <= regionEnd; k++) {
+          offset += lines[k].length + 1;
+        }
+        i = regionEnd;
+        continue;
+      }
+
+      if (i > 0 && /^##?\s+/.test(lines[i])) {
+        return offset - 1;
+      }
+      offset += lines[i].length + 1;
+    }
+
+    return text.length;
+  }
+
+  /**
+   * Write a card's IDs and sync hash into its block
+   * @param block - Block containing the card
+   * @param card - Flashcard with up-to-date IDs
+   * @returns New block text
+   */
+  updateBlockMetadata(block: FlashcardBlock, card: Flashcard): string {
+    const parsed = block.card as Flashcard;
+    return this.replaceBlockText(block.text, this.formatFlashcard({
+      ...parsed,
+      id: card.id,
+      ankiNoteId: card.ankiNoteId,
+      syncHash: card.syncHash
+    }));
+  }
+
+  /**
+   * Replace the content of a card's block, keeping its creation date
+   * @param block - Block containing the card
+   * @param card - Flashcard with new content
+   * @returns New block text
+   */
+  replaceBlockContent(block: FlashcardBlock, card: Flashcard): string {
+    const created = block.card?.created ?? card.created;
+    return this.replaceBlockText(block.text, this.formatFlashcard({ ...card, created }));
+  }
+
+  /**
+   * Tidy the text left between two cards after cards in between were removed
+   * @param text - Non-card text between the remaining cards
+   * @param cardFollows - Whether a card follows the text
+   * @returns Text without runs of blank lines
+   */
+  tidyGap(text: string, cardFollows: boolean): string {
+    const tidied = text.replace(/\n(?:[ \t]*\n){2,}/g, '\n\n');
+    return cardFollows || tidied.trim() ? tidied : '\n';
+  }
+
+  /**
+   * Find the last line of a multi-line region that starts at a line and in
+   * which headings do not end the section (e.g. a delimited card)
+   * @param lines - Section lines
+   * @param index - Line to check
+   * @returns Index of the region's last line, or -1 if no region starts here
+   */
+  protected findRegionEnd(lines: string[], index: number): number {
+    return -1;
+  }
+
+  /**
+   * Format a metadata comment
+   * @param entries - Values to store; empty values are left out
+   * @returns Comment, or an empty string if there is nothing to store
+   */
+  protected formatMetadataComment(entries: Record<string, string | undefined>): string {
+    const parts = Object.entries(entries)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}: ${encodeURIComponent(value as string)}`);
+    return parts.length > 0 ? `<!-- obsicard ${parts.join(' ')} -->` : '';
+  }
+
+  /**
+   * Read the metadata comment in a piece of text
+   * @param text - Text that may contain a metadata comment
+   * @returns Stored values and the comment itself, or null if there is none
+   */
+  protected parseMetadataComment(text: string): { entries: Record<string, string>; comment: string } | null {
+    const match = text.match(FlashcardFormat.METADATA_COMMENT_REGEX);
+    if (!match) {
+      return null;
+    }
+
+    const entries: Record<string, string> = {};
+    for (const entry of match[1].matchAll(/([\w-]+):\s*(\S*)/g)) {
+      entries[entry[1]] = decodeURIComponent(entry[2]);
+    }
+    return { entries, comment: match[0] };
+  }
+
+  /**
+   * Swap the text of a block for new text, keeping surrounding whitespace
+   * @param block - Original block text
+   * @param formatted - New text
+   * @returns Replacement block text
+   */
+  protected replaceBlockText(block: string, formatted: string): string {
+    const leading = block.match(/^\s*/)?.[0] ?? '';
+    const trailing = block.match(/\s*$/)?.[0] ?? '';
+    return leading + formatted + trailing;
+  }
+
+  /**
+   * Get today's date
+   * @returns Date as YYYY-MM-DD
+   */
+  protected today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+}
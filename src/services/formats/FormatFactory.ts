@@ -0,0 +1,24 @@
+import { OutputFormat } from '../../types';
+import { FlashcardFormat } from './FlashcardFormat';
+import { ObsiCardFormat } from './ObsiCardFormat';
+import { SpacedRepetitionFormat } from './SpacedRepetitionFormat';
+import { ObsidianToAnkiFormat } from './ObsidianToAnkiFormat';
+
+/**
+ * Create the flashcard format for an output format setting
+ * @param outputFormat - Selected output format
+ * @returns Format that writes and reads that syntax
+ */
+export function createFlashcardFormat(outputFormat: OutputFormat): FlashcardFormat {
+  switch (outputFormat) {
+    case OutputFormat.SPACED_REPETITION:
+      return new SpacedRepetitionFormat();
+
+    case OutputFormat.OBSIDIAN_TO_ANKI:
+      return new ObsidianToAnkiFormat();
+
+    case OutputFormat.OBSICARD:
+    default:
+      return new ObsiCardFormat();
+  }
+}
@@ -0,0 +1,442 @@
+import { Flashcard, CardType } from '../../types';
+import { FlashcardBlock, FlashcardFormat } from './FlashcardFormat';
+
+/**
+ * ObsiCard's own flashcard block format.
+ *
+ * Version 2 (written by this class) wraps every card in HTML comments, so
+ * cards may contain anything markdown allows, including `---`, tables, code
+ * blocks and math:
+ *
+ * ```
+ * <!-- obsicard v2 id: abc123 anki-id: 1700000000000 sync: 1x2y3z -->
+ * **Q:** Single-line front
+ *
+ * **A:**
+ *
+ * Multi-line back
+ * starts on its own line
+ *
+ * *Tags:* #biology #cells
+ * *Source:* [[Cell Biology]]
+ * *Created:* 2025-01-31
+ * <!-- /obsicard -->
+ * ```
+ *
+ * Cloze cards use `**Cloze:**` and an optional `**Extra:**` instead of
+ * `**Q:**`/`**A:**`. Content lines that would be read as one of these labels,
+ * a metadata line or a marker are escaped with a leading backslash.
+ * Fronts and backs are trimmed.
+ *
+ * Version 1 blocks (single-line `**Q:**`/`**A:**` separated by `---`, with an
+ * optional `<!-- obsicard-id: ... -->` marker) are still read.
+ */
+export class ObsiCardFormat extends FlashcardFormat {
+  readonly name = 'ObsiCard';
+  static readonly VERSION = 2;
+  private static readonly OPEN_REGEX = /^<!--\s*obsicard\s+v(\d+)((?:\s+[\w-]+:\s*\S+)*)\s*-->$/;
+  private static readonly CLOSE_LINE = '<!-- /obsicard -->';
+  private static readonly CLOSE_REGEX = /^<!--\s*\/obsicard\s*-->$/;
+  private static readonly RESERVED_REGEX = /^\\*(\*\*(Q|A|Cloze|Extra):\*\*|\*(Tags|Source|Created):\*|<!--\s*\/?obsicard)/;
+  private static readonly METADATA_REGEX = /^\*(Tags|Source|Created):\*(?: (.*))?$/;
+  private static readonly LEGACY_MARKER_REGEX = /<!--\s*obsicard-id:\s*([\w-]+)(?:\s+anki-id:\s*(\d+))?(?:\s+sync:\s*(\w+))?\s*-->/;
+
+  /**
+   * Format flashcards as a run of blocks separated by `---`
+   * @param flashcards - Flashcards to format
+   * @param created - Creation date for cards without one (YYYY-MM-DD)
+   * @returns Formatted markdown
+   */
+  formatFlashcards(flashcards: Flashcard[], created = this.today()): string {
+    const formatted: string[] = [];
+
+    for (const card of flashcards) {
+      formatted.push('---');
+      formatted.push('');
+      formatted.push(this.formatFlashcard(card, created));
+      formatted.push('');
+    }
+
+    return formatted.join('\n');
+  }
+
+  /**
+   * Format a single flashcard as a version 2 block
+   * @param card - Flashcard to format
+   * @param created - Creation date used if the card has none (YYYY-MM-DD)
+   * @returns Block from opening to closing marker
+   */
+  formatFlashcard(card: Flashcard, created = this.today()): string {
+    const isCloze = card.type === CardType.CLOZE;
+    const lines: string[] = [this.formatOpenMarker(card)];
+
+    lines.push(...this.formatField(isCloze ? 'Cloze' : 'Q', card.front));
+    if (!isCloze || card.back.trim()) {
+      lines.push(...this.formatField(isCloze ? 'Extra' : 'A', card.back));
+    }
+
+    if (card.tags.length > 0) {
+      lines.push(`*Tags:* ${card.tags.map(tag => `#${tag}`).join(' ')}`);
+    }
+    if (card.source) {
+      lines.push(`*Source:* [[${card.source}]]`);
+    }
+    lines.push(`*Created:* ${card.created || created}`);
+    lines.push(ObsiCardFormat.CLOSE_LINE);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Split a Flashcards section into blocks
+   * @param text - Section content
+   * @returns Blocks whose text joins back to the section
+   */
+  splitBlocks(text: string): FlashcardBlock[] {
+    const blocks: FlashcardBlock[] = [];
+    const lines = text.split('\n');
+    let legacyStart = 0;
+    let i = 0;
+
+    const flushLegacy = (end: number) => {
+      if (end > legacyStart) {
+        blocks.push(...this.splitLegacyBlocks(lines.slice(legacyStart, end).join('\n') + '\n'));
+      }
+    };
+
+    while (i < lines.length) {
+      const open = lines[i].match(ObsiCardFormat.OPEN_REGEX);
+      const close = open ? this.findClose(lines, i + 1) : -1;
+
+      if (!open || close === -1) {
+        i++;
+        continue;
+      }
+
+      flushLegacy(i);
+      const regionText = lines.slice(i, close + 1).join('\n');
+      blocks.push({
+        text: regionText,
+        card: this.parseCard(open, lines.slice(i + 1, close)),
+        version: Number(open[1])
+      });
+      i = close + 1;
+      legacyStart = i;
+      if (i < lines.length) {
+        // The newline ending the closing marker belongs to the following text
+        blocks.push({ text: '\n', card: null, version: 0 });
+      }
+    }
+
+    if (legacyStart < lines.length) {
+      const rest = lines.slice(legacyStart).join('\n');
+      if (rest) {
+        blocks.push(...this.splitLegacyBlocks(rest));
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Drop the `---` separators of removed cards, keeping one before each card
+   * @param text - Non-card text between the remaining cards
+   * @param cardFollows - Whether a card follows the text
+   * @returns Text with one separator at most
+   */
+  tidyGap(text: string, cardFollows: boolean): string {
+    let tidied = text.replace(/^---[ \t]*\n(?=(?:[ \t]*\n)*---[ \t]*$)/gm, '');
+    if (!cardFollows) {
+      tidied = tidied.replace(/(^|\n)---[ \t]*(?:\n(\s*))?$/, '$1$2');
+    }
+    return super.tidyGap(tidied, cardFollows);
+  }
+
+  /**
+   * Write IDs into a block. Version 1 blocks only get their marker updated,
+   * since their multi-line content may not have been parsed completely.
+   * @param block - Block containing the card
+   * @param card - Flashcard with up-to-date IDs
+   * @returns New block text
+   */
+  updateBlockMetadata(block: FlashcardBlock, card: Flashcard): string {
+    if (block.version !== 1) {
+      return super.updateBlockMetadata(block, card);
+    }
+
+    const ankiPart = card.ankiNoteId ? ` anki-id: ${card.ankiNoteId}` : '';
+    const syncPart = card.ankiNoteId && card.syncHash ? ` sync: ${card.syncHash}` : '';
+    const marker = `<!-- obsicard-id: ${card.id}${ankiPart}${syncPart} -->`;
+
+    if (ObsiCardFormat.LEGACY_MARKER_REGEX.test(block.text)) {
+      return block.text.replace(ObsiCardFormat.LEGACY_MARKER_REGEX, marker);
+    }
+
+    // Insert the marker after the block's last line, keeping trailing spacing
+    const trimmed = block.text.replace(/\s*$/, '');
+    return trimmed + '\n' + marker + block.text.substring(trimmed.length);
+  }
+
+  /**
+   * Version 2 blocks may contain headings
+   * @param lines - Section lines
+   * @param index - Line to check
+   * @returns Index of the closing marker, or -1
+   */
+  protected findRegionEnd(lines: string[], index: number): number {
+    return ObsiCardFormat.OPEN_REGEX.test(lines[index]) ? this.findClose(lines, index + 1) : -1;
+  }
+
+  /**
+   * Format the opening marker with a card's IDs
+   * @param card - Flashcard
+   * @returns Opening marker line
+   */
+  private formatOpenMarker(card: Flashcard): string {
+    const parts = [`obsicard v${ObsiCardFormat.VERSION}`];
+    if (card.id) {
+      parts.push(`id: ${card.id}`);
+    }
+    if (card.ankiNoteId) {
+      parts.push(`anki-id: ${card.ankiNoteId}`);
+      if (card.syncHash) {
+        parts.push(`sync: ${card.syncHash}`);
+      }
+    }
+    return `<!-- ${parts.join(' ')} -->`;
+  }
+
+  /**
+   * Format a labelled field. Single-line values follow the label; longer
+   * values start after a blank line so lists, tables and code render.
+   * @param label - Field label
+   * @param value - Field value
+   * @returns Lines of the field, ending with a blank line
+   */
+  private formatField(label: string, value: string): string[] {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return [`**${label}:**`, ''];
+    }
+
+    const valueLines = trimmed.split('\n');
+    if (valueLines.length === 1) {
+      return [`**${label}:** ${trimmed}`, ''];
+    }
+
+    return [`**${label}:**`, '', ...valueLines.map(line => this.escapeLine(line)), ''];
+  }
+
+  /**
+   * Parse the lines between a version 2 block's markers
+   * @param open - Match of the opening marker
+   * @param lines - Lines inside the block
+   * @returns Parsed flashcard, or null if the block has no front
+   */
+  private parseCard(open: RegExpMatchArray, lines: string[]): Flashcard | null {
+    const attributes: Record<string, string> = {};
+    for (const match of open[2].matchAll(/([\w-]+):\s*(\S+)/g)) {
+      attributes[match[1]] = match[2];
+    }
+
+    let front: string | null = null;
+    let back: string | null = null;
+    let type = CardType.BASIC;
+    const metadata: Record<string, string> = {};
+    let i = 0;
+
+    while (i < lines.length) {
+      const label = lines[i].match(/^\*\*(Q|A|Cloze|Extra):\*\*(?: (.*))?$/);
+      const meta = lines[i].match(ObsiCardFormat.METADATA_REGEX);
+
+      if (label) {
+        const { value, next } = this.readFieldValue(lines, i, label[2]);
+        if (label[1] === 'Q' || label[1] === 'Cloze') {
+          front = value;
+          type = label[1] === 'Cloze' ? CardType.CLOZE : CardType.BASIC;
+        } else {
+          back = value;
+        }
+        i = next;
+      } else if (meta) {
+        metadata[meta[1]] = meta[2] ?? '';
+        i++;
+      } else {
+        i++;
+      }
+    }
+
+    if (front === null) {
+      return null;
+    }
+
+    const card: Flashcard = {
+      front,
+      back: back ?? '',
+      tags: metadata.Tags
+        ? metadata.Tags.split(/\s+/).filter(tag => tag).map(tag => tag.replace(/^#/, ''))
+        : [],
+      type
+    };
+
+    const source = metadata.Source?.match(/^\[\[(.*)\]\]$/);
+    if (source) {
+      card.source = source[1];
+    } else if (metadata.Source) {
+      card.source = metadata.Source;
+    }
+    if (metadata.Created) {
+      card.created = metadata.Created;
+    }
+    if (attributes.id) {
+      card.id = attributes.id;
+    }
+    if (attributes['anki-id']) {
+      card.ankiNoteId = Number(attributes['anki-id']);
+    }
+    if (attributes.sync) {
+      card.syncHash = attributes.sync;
+    }
+
+    return card;
+  }
+
+  /**
+   * Read the value of a labelled field
+   * @param lines - Lines inside the block
+   * @param start - Index of the label line
+   * @param inline - Text after the label on the same line
+   * @returns Field value and the index of the line after it
+   */
+  private readFieldValue(lines: string[], start: number, inline?: string): { value: string; next: number } {
+    const valueLines: string[] = inline !== undefined ? [inline] : [];
+    let i = start + 1;
+
+    // Multi-line values start after a blank line
+    if (inline === undefined && i < lines.length && lines[i] === '') {
+      i++;
+    }
+
+    while (i < lines.length && !this.isStructuralLine(lines[i])) {
+      valueLines.push(this.unescapeLine(lines[i]));
+      i++;
+    }
+
+    // Drop the blank line separating the field from the next one
+    if (valueLines.length > 0 && valueLines[valueLines.length - 1] === '') {
+      valueLines.pop();
+    }
+
+    return { value: valueLines.join('\n'), next: i };
+  }
+
+  /**
+   * Check whether a line is an unescaped label or metadata line
+   * @param line - Line to check
+   * @returns True if the line ends the current field
+   */
+  private isStructuralLine(line: string): boolean {
+    return /^\*\*(Q|A|Cloze|Extra):\*\*/.test(line) || ObsiCardFormat.METADATA_REGEX.test(line);
+  }
+
+  /**
+   * Escape a content line that would otherwise be read as structure
+   * @param line - Content line
+   * @returns Line with one extra leading backslash if needed
+   */
+  private escapeLine(line: string): string {
+    return ObsiCardFormat.RESERVED_REGEX.test(line) ? '\\' + line : line;
+  }
+
+  /**
+   * Reverse escapeLine
+   * @param line - Escaped line
+   * @returns Original content line
+   */
+  private unescapeLine(line: string): string {
+    return /^\\/.test(line) && ObsiCardFormat.RESERVED_REGEX.test(line) ? line.substring(1) : line;
+  }
+
+  /**
+   * Find the closing marker of a version 2 block
+   * @param lines - Section lines
+   * @param from - Line after the opening marker
+   * @returns Index of the closing marker, or -1 if the block is not closed
+   */
+  private findClose(lines: string[], from: number): number {
+    for (let i = from; i < lines.length; i++) {
+      if (ObsiCardFormat.CLOSE_REGEX.test(lines[i])) {
+        return i;
+      }
+      if (ObsiCardFormat.OPEN_REGEX.test(lines[i])) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Split text outside version 2 blocks into version 1 blocks on `---`
+   * @param text - Text to split
+   * @returns Blocks, with each `---` as a separate non-card block
+   */
+  private splitLegacyBlocks(text: string): FlashcardBlock[] {
+    const blocks: FlashcardBlock[] = [];
+
+    text.split('---').forEach((piece, index) => {
+      if (index > 0) {
+        blocks.push({ text: '---', card: null, version: 0 });
+      }
+      const card = this.parseLegacyBlock(piece);
+      blocks.push({ text: piece, card, version: card ? 1 : 0 });
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Parse a version 1 flashcard block
+   * @param block - Block text
+   * @returns Parsed flashcard or null
+   */
+  private parseLegacyBlock(block: string): Flashcard | null {
+    const clozeMatch = block.match(/\*\*Cloze:\*\*\s*(.+?)(?=\n\n\*\*Extra:\*\*|\n\*|$)/s);
+    const extraMatch = block.match(/\*\*Extra:\*\*\s*(.+?)(?=\n\*|$)/s);
+    const frontMatch = block.match(/\*\*Q:\*\*\s*(.+?)(?=\n|$)/s);
+    const backMatch = block.match(/\*\*A:\*\*\s*(.+?)(?=\n\*|$)/s);
+    const tagsMatch = block.match(/\*Tags:\*\s*(.+?)(?=\n|$)/);
+    const createdMatch = block.match(/\*Created:\*\s*(\S+)/);
+
+    const isCloze = !!clozeMatch;
+    if (!isCloze && (!frontMatch || !backMatch)) {
+      return null;
+    }
+
+    const front = isCloze ? clozeMatch[1].trim() : (frontMatch as RegExpMatchArray)[1].trim();
+    const back = isCloze
+      ? (extraMatch ? extraMatch[1].trim() : '')
+      : (backMatch as RegExpMatchArray)[1].trim();
+    const tags: string[] = [];
+
+    if (tagsMatch) {
+      const tagString = tagsMatch[1];
+      const tagMatches = tagString.match(/#[\w/-]+/g);
+      if (tagMatches) {
+        tags.push(...tagMatches.map(tag => tag.substring(1)));
+      }
+    }
+
+    const idMatch = block.match(ObsiCardFormat.LEGACY_MARKER_REGEX);
+
+    return {
+      front,
+      back,
+      tags: tags.length > 0 ? tags : ['obsidian'],
+      ...(isCloze ? { type: CardType.CLOZE } : {}),
+      created: createdMatch ? createdMatch[1] : undefined,
+      id: idMatch ? idMatch[1] : undefined,
+      ankiNoteId: idMatch && idMatch[2] ? Number(idMatch[2]) : undefined,
+      syncHash: idMatch && idMatch[3] ? idMatch[3] : undefined
+    };
+  }
+}
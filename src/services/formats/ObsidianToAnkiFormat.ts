@@ -0,0 +1,208 @@
+import { Flashcard, CardType } from '../../types';
+import { FlashcardBlock, FlashcardFormat } from './FlashcardFormat';
+
+/**
+ * Syntax of the Obsidian_to_Anki plugin:
+ *
+ * ```
+ * START
+ * Basic
+ * Front: Question
+ * Back: Answer
+ * Tags: biology cells
+ * <!--ID: 1700000000000-->
+ * END
+ * ```
+ *
+ * Cloze cards use the `Cloze` note type with `Text:` and `Back Extra:`.
+ * Fields run until the next field line, so they may span several lines.
+ * The Anki note ID is shared with the plugin through its `<!--ID: ...-->`
+ * line; ObsiCard's own ID, sync hash, source and creation date are kept in a
+ * hidden `<!-- obsicard ... -->` comment on the line before `START`.
+ */
+export class ObsidianToAnkiFormat extends FlashcardFormat {
+  readonly name = 'Obsidian_to_Anki';
+  private static readonly FIELD_REGEX = /^(Front|Back|Text|Back Extra|Tags):(?: (.*))?$/;
+  private static readonly ID_REGEX = /^<!--ID:\s*(\d+)\s*-->$/;
+
+  /**
+   * Format a single flashcard as a START/END block
+   * @param card - Flashcard to format
+   * @param created - Creation date used if the card has none (YYYY-MM-DD)
+   * @returns Metadata comment and block
+   */
+  formatFlashcard(card: Flashcard, created = this.today()): string {
+    const isCloze = card.type === CardType.CLOZE;
+    const lines: string[] = [];
+
+    lines.push(this.formatMetadataComment({
+      id: card.id,
+      sync: card.ankiNoteId ? card.syncHash : undefined,
+      source: card.source,
+      created: card.created || created
+    }));
+    lines.push('START');
+    lines.push(isCloze ? 'Cloze' : 'Basic');
+    lines.push(this.formatField(isCloze ? 'Text' : 'Front', card.front));
+    lines.push(this.formatField(isCloze ? 'Back Extra' : 'Back', card.back));
+    if (card.tags.length > 0) {
+      lines.push(`Tags: ${card.tags.join(' ')}`);
+    }
+    if (card.ankiNoteId) {
+      lines.push(`<!--ID: ${card.ankiNoteId}-->`);
+    }
+    lines.push('END');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Split a Flashcards section into START/END blocks and the text between them
+   * @param text - Section content
+   * @returns Blocks whose text joins back to the section
+   */
+  splitBlocks(text: string): FlashcardBlock[] {
+    const blocks: FlashcardBlock[] = [];
+    const lines = text.split('\n');
+    let textStart = 0;
+    let i = 0;
+
+    while (i < lines.length) {
+      const end = this.findRegionEnd(lines, i);
+      if (end === -1) {
+        i++;
+        continue;
+      }
+
+      // A metadata comment directly above START belongs to the card
+      const hasMetadata = i > textStart && this.isMetadataLine(lines[i - 1]);
+      const start = hasMetadata ? i - 1 : i;
+
+      if (start > textStart) {
+        blocks.push({ text: lines.slice(textStart, start).join('\n') + '\n', card: null, version: 0 });
+      }
+
+      const card = this.parseBlock(lines.slice(i + 1, end), hasMetadata ? lines[i - 1] : '');
+      blocks.push({ text: lines.slice(start, end + 1).join('\n'), card, version: card ? 1 : 0 });
+
+      i = end + 1;
+      textStart = i;
+      if (i < lines.length) {
+        // The newline ending END belongs to the following text
+        blocks.push({ text: '\n', card: null, version: 0 });
+      }
+    }
+
+    if (textStart < lines.length) {
+      const rest = lines.slice(textStart).join('\n');
+      if (rest) {
+        blocks.push({ text: rest, card: null, version: 0 });
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * START/END blocks may contain headings
+   * @param lines - Section lines
+   * @param index - Line to check
+   * @returns Index of the END line, or -1
+   */
+  protected findRegionEnd(lines: string[], index: number): number {
+    if (lines[index].trim() !== 'START') {
+      return -1;
+    }
+
+    for (let i = index + 1; i < lines.length; i++) {
+      if (lines[i].trim() === 'END') {
+        return i;
+      }
+      if (lines[i].trim() === 'START') {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Format a field, continuing multi-line values on the following lines
+   * @param name - Field name
+   * @param value - Field value
+   * @returns Field lines
+   */
+  private formatField(name: string, value: string): string {
+    const trimmed = value.trim();
+    return trimmed ? `${name}: ${trimmed}` : `${name}:`;
+  }
+
+  /**
+   * Parse the lines between START and END
+   * @param lines - Block lines, starting with the note type
+   * @param metadataLine - Metadata comment above START, if any
+   * @returns Parsed flashcard or null
+   */
+  private parseBlock(lines: string[], metadataLine: string): Flashcard | null {
+    const noteType = (lines[0] ?? '').trim();
+    const fields: Record<string, string[]> = {};
+    let current: string[] | null = null;
+    let ankiNoteId: number | undefined;
+
+    for (const line of lines.slice(1)) {
+      const field = line.match(ObsidianToAnkiFormat.FIELD_REGEX);
+      const id = line.match(ObsidianToAnkiFormat.ID_REGEX);
+
+      if (id) {
+        ankiNoteId = Number(id[1]);
+      } else if (field) {
+        current = [field[2] ?? ''];
+        fields[field[1]] = current;
+      } else if (current) {
+        current.push(line);
+      }
+    }
+
+    const isCloze = noteType === 'Cloze';
+    const read = (name: string) => (fields[name] ?? []).join('\n').trim();
+    const front = read(isCloze ? 'Text' : 'Front');
+    if (!front) {
+      return null;
+    }
+
+    const entries = this.parseMetadataComment(metadataLine)?.entries ?? {};
+    const card: Flashcard = {
+      front,
+      back: read(isCloze ? 'Back Extra' : 'Back'),
+      tags: read('Tags').split(/\s+/).filter(tag => tag),
+      type: isCloze ? CardType.CLOZE : CardType.BASIC
+    };
+
+    if (entries.source) {
+      card.source = entries.source;
+    }
+    if (entries.created) {
+      card.created = entries.created;
+    }
+    if (entries.id) {
+      card.id = entries.id;
+    }
+    if (ankiNoteId) {
+      card.ankiNoteId = ankiNoteId;
+    }
+    if (entries.sync) {
+      card.syncHash = entries.sync;
+    }
+
+    return card;
+  }
+
+  /**
+   * Check whether a line is only a metadata comment
+   * @param line - Line to check
+   * @returns True for a metadata comment line
+   */
+  private isMetadataLine(line: string): boolean {
+    const metadata = this.parseMetadataComment(line);
+    return !!metadata && metadata.comment === line.trim();
+  }
+}
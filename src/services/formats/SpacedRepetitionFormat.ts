@@ -0,0 +1,184 @@
+import { Flashcard, CardType } from '../../types';
+import { FlashcardBlock, FlashcardFormat } from './FlashcardFormat';
+
+/**
+ * Syntax of the Obsidian Spaced Repetition plugin.
+ *
+ * Cards are paragraphs separated by blank lines:
+ * - `question::answer` for single-line cards
+ * - question lines, a `?` line, then answer lines for multi-line cards
+ * - paragraphs with `==highlighted==` deletions for cloze cards
+ *
+ * ObsiCard's IDs, tags, source and creation date are kept in a hidden
+ * `<!-- obsicard ... -->` comment at the end of the card, and the plugin's
+ * own `<!--SR:...-->` scheduling comment is preserved on rewrite.
+ * Blank lines inside cards are dropped, and cloze hints and shared numbers
+ * are lost, because the plugin's syntax cannot express them.
+ */
+export class SpacedRepetitionFormat extends FlashcardFormat {
+  readonly name = 'Spaced Repetition';
+  private static readonly SCHEDULE_REGEX = /<!--SR:[^>]*-->/;
+  private static readonly CLOZE_REGEX = /\{\{c\d+::([\s\S]*?)(?:::[\s\S]*?)?\}\}/g;
+  private static readonly HIGHLIGHT_REGEX = /==([^=\n]+?)==/g;
+
+  /**
+   * The plugin only reviews notes with its flashcards tag
+   * @returns Tag line followed by a blank line
+   */
+  getSectionPreamble(): string {
+    return '#flashcards\n\n';
+  }
+
+  /**
+   * Format a single flashcard as a paragraph
+   * @param card - Flashcard to format
+   * @param created - Creation date used if the card has none (YYYY-MM-DD)
+   * @returns Card paragraph
+   */
+  formatFlashcard(card: Flashcard, created = this.today()): string {
+    const isCloze = card.type === CardType.CLOZE;
+    const metadata = this.formatMetadataComment({
+      id: card.id,
+      'anki-id': card.ankiNoteId ? String(card.ankiNoteId) : undefined,
+      sync: card.ankiNoteId ? card.syncHash : undefined,
+      tags: card.tags.join(','),
+      source: card.source,
+      created: card.created || created,
+      extra: isCloze ? card.back.trim() : undefined
+    });
+
+    if (isCloze) {
+      const text = this.removeBlankLines(card.front)
+        .replace(SpacedRepetitionFormat.CLOZE_REGEX, (_, answer: string) => `==${answer}==`);
+      return `${text}\n${metadata}`;
+    }
+
+    const front = this.removeBlankLines(card.front);
+    const back = this.removeBlankLines(card.back);
+
+    if (!front.includes('\n') && !back.includes('\n') && !front.includes('::')) {
+      return `${front}::${back} ${metadata}`;
+    }
+
+    return `${front}\n?\n${back}\n${metadata}`;
+  }
+
+  /**
+   * Split a Flashcards section into paragraphs
+   * @param text - Section content
+   * @returns Blocks whose text joins back to the section
+   */
+  splitBlocks(text: string): FlashcardBlock[] {
+    return text.split(/(\n(?:[ \t]*\n)+)/).map((piece, index) => {
+      // Odd pieces are the blank lines between paragraphs
+      const card = index % 2 === 0 ? this.parseParagraph(piece) : null;
+      return { text: piece, card, version: card ? 1 : 0 };
+    });
+  }
+
+  /**
+   * Keep the plugin's scheduling comment when a card is rewritten
+   * @param block - Block containing the card
+   * @param card - Flashcard with up-to-date IDs
+   * @returns New block text
+   */
+  updateBlockMetadata(block: FlashcardBlock, card: Flashcard): string {
+    return this.keepSchedule(block.text, super.updateBlockMetadata(block, card));
+  }
+
+  /**
+   * Keep the plugin's scheduling comment when a card is rewritten
+   * @param block - Block containing the card
+   * @param card - Flashcard with new content
+   * @returns New block text
+   */
+  replaceBlockContent(block: FlashcardBlock, card: Flashcard): string {
+    return this.keepSchedule(block.text, super.replaceBlockContent(block, card));
+  }
+
+  /**
+   * Parse a paragraph as a flashcard
+   * @param paragraph - Paragraph text
+   * @returns Parsed flashcard or null
+   */
+  private parseParagraph(paragraph: string): Flashcard | null {
+    const metadata = this.parseMetadataComment(paragraph);
+    const body = paragraph
+      .replace(metadata?.comment ?? '', '')
+      .replace(SpacedRepetitionFormat.SCHEDULE_REGEX, '');
+    const lines = body.split('\n').map(line => line.replace(/\s+$/, '')).filter(line => line);
+
+    let front: string;
+    let back: string;
+    let type = CardType.BASIC;
+    const separator = lines.findIndex(line => /^\?\??$/.test(line));
+
+    if (separator !== -1) {
+      front = lines.slice(0, separator).join('\n');
+      back = lines.slice(separator + 1).join('\n');
+    } else if (lines.length === 1 && /:{2,3}/.test(lines[0]) && !/\{\{c\d+::/.test(lines[0])) {
+      const match = lines[0].match(/^([\s\S]*?):{2,3}([\s\S]*)$/) as RegExpMatchArray;
+      front = match[1].trim();
+      back = match[2].trim();
+    } else if (lines.length > 0 && new RegExp(SpacedRepetitionFormat.HIGHLIGHT_REGEX.source).test(body)) {
+      let number = 0;
+      front = lines.join('\n').replace(SpacedRepetitionFormat.HIGHLIGHT_REGEX, (_, answer: string) => `{{c${++number}::${answer}}}`);
+      back = metadata?.entries.extra ?? '';
+      type = CardType.CLOZE;
+    } else {
+      return null;
+    }
+
+    const entries = metadata?.entries ?? {};
+    const card: Flashcard = {
+      front,
+      back,
+      tags: entries.tags ? entries.tags.split(',') : [],
+      type
+    };
+
+    if (entries.source) {
+      card.source = entries.source;
+    }
+    if (entries.created) {
+      card.created = entries.created;
+    }
+    if (entries.id) {
+      card.id = entries.id;
+    }
+    if (entries['anki-id']) {
+      card.ankiNoteId = Number(entries['anki-id']);
+    }
+    if (entries.sync) {
+      card.syncHash = entries.sync;
+    }
+
+    return card;
+  }
+
+  /**
+   * Re-append the scheduling comment of the original block
+   * @param original - Original block text
+   * @param updated - Rewritten block text
+   * @returns Rewritten text with the scheduling comment
+   */
+  private keepSchedule(original: string, updated: string): string {
+    const schedule = original.match(SpacedRepetitionFormat.SCHEDULE_REGEX);
+    if (!schedule) {
+      return updated;
+    }
+
+    const trimmed = updated.replace(/\s*$/, '');
+    const separator = trimmed.includes('\n') ? '\n' : ' ';
+    return trimmed + separator + schedule[0] + updated.substring(trimmed.length);
+  }
+
+  /**
+   * Remove blank lines, which would end a card in this syntax
+   * @param text - Card text
+   * @returns Trimmed text without blank lines
+   */
+  private removeBlankLines(text: string): string {
+    return text.trim().split('\n').filter(line => line.trim()).join('\n');
+  }
+}
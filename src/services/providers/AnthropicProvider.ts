@@ -0,0 +1,114 @@
+import { RequestUrlParam } from 'obsidian';
+import { CompletionRequest, RateLimitInfo } from '../../types';
+import { SSEEvent } from '../../utils/SSEParser';
+import { RateLimitHeaders } from '../../utils/RateLimitHeaders';
+import { LLMProvider } from './LLMProvider';
+
+/**
+ * Provider for Anthropic-style Messages APIs
+ */
+export class AnthropicProvider extends LLMProvider {
+  static readonly DEFAULT_URL = 'https://api.anthropic.com/v1/messages';
+  private static readonly API_VERSION = '2023-06-01';
+  private static readonly RESPONSE_TOOL = 'submit_response';
+  readonly name: string = 'Anthropic';
+  readonly model: string;
+  private readonly url: string;
+  private readonly apiKey: string;
+
+  constructor(url: string, apiKey: string, model: string) {
+    super();
+    this.url = url.trim() || AnthropicProvider.DEFAULT_URL;
+    this.apiKey = apiKey.trim();
+    this.model = model.trim();
+  }
+
+  validateConfig(): string | null {
+    if (!this.apiKey) {
+      return 'Anthropic API key is not configured';
+    }
+    if (!this.model) {
+      return 'Anthropic model is not configured';
+    }
+    return null;
+  }
+
+  protected buildRequest(request: CompletionRequest): RequestUrlParam {
+    // The Messages API takes the system prompt as a top-level field
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter(message => message.role !== 'system');
+
+    const body: Record<string, unknown> = {
+      model: request.model || this.model,
+      messages,
+      max_tokens: request.maxTokens
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (request.responseSchema) {
+      // A forced tool call makes the model reply with input matching the schema
+      body.tools = [{
+        name: AnthropicProvider.RESPONSE_TOOL,
+        description: 'Submit the response',
+        input_schema: request.responseSchema
+      }];
+      body.tool_choice = { type: 'tool', name: AnthropicProvider.RESPONSE_TOOL };
+    }
+
+    return {
+      url: this.url,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': AnthropicProvider.API_VERSION
+      },
+      body: JSON.stringify(body)
+    };
+  }
+
+  protected parseResponse(data: unknown): string {
+    const response = data as { content?: Array<{ type?: string; text?: string; input?: unknown }> };
+
+    if (!response || !Array.isArray(response.content)) {
+      throw new Error(`Invalid response format from ${this.name} API`);
+    }
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    return response.content
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('');
+  }
+
+  protected parseRateLimit(headers: Record<string, string>): RateLimitInfo {
+    return RateLimitHeaders.parseAnthropic(headers);
+  }
+
+  protected parseStreamEvent(event: SSEEvent): string {
+    if (event.event === 'error') {
+      const data = JSON.parse(event.data) as { error?: { message?: string } };
+      throw new Error(`${this.name} API error: ${data.error?.message ?? event.data}`);
+    }
+    if (event.event !== 'content_block_delta') {
+      return '';
+    }
+
+    const data = JSON.parse(event.data) as { delta?: { type?: string; text?: string; partial_json?: string } };
+    if (data.delta?.type === 'input_json_delta') {
+      return data.delta.partial_json ?? ''; // Tool input, when a response schema was given
+    }
+    return data.delta?.type === 'text_delta' ? data.delta.text ?? '' : '';
+  }
+}
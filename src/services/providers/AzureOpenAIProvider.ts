@@ -0,0 +1,46 @@
+import { RequestUrlParam } from 'obsidian';
+import { CompletionRequest } from '../../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * Provider for Azure OpenAI deployments.
+ * The endpoint URL is the full deployment URL including `api-version`, e.g.
+ * https://my-resource.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2024-06-01
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  readonly name: string = 'Azure OpenAI';
+
+  validateConfig(): string | null {
+    if (!this.url) {
+      return 'Azure OpenAI deployment URL is not configured';
+    }
+    if (!this.apiKey) {
+      return 'Azure OpenAI API key is not configured';
+    }
+    return null;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'api-key': this.apiKey
+    };
+  }
+
+  protected buildEmbeddingRequest(texts: string[], model: string): RequestUrlParam | null {
+    // Embeddings come from their own deployment, named by the model setting
+    return {
+      url: this.url.replace(/\/deployments\/[^/]+\/chat\/completions/, `/deployments/${encodeURIComponent(model)}/embeddings`),
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({ input: texts })
+    };
+  }
+
+  protected buildBody(request: CompletionRequest): Record<string, unknown> {
+    // The deployment in the URL selects the model
+    const body = super.buildBody(request);
+    delete body.model;
+    return body;
+  }
+}
@@ -0,0 +1,45 @@
+import { RequestUrlParam } from 'obsidian';
+import { ConnectionTestResult } from '../../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * Provider for the hosted Groq API
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  static readonly API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+  readonly name: string = 'Groq';
+
+  constructor(apiKey: string, model: string) {
+    super({ url: GroqProvider.API_URL, apiKey, model });
+  }
+
+  validateConfig(): string | null {
+    if (!this.apiKey) {
+      return 'Groq API key is not configured';
+    }
+    return super.validateConfig();
+  }
+
+  protected buildStreamBody(body: Record<string, unknown>): Record<string, unknown> {
+    // Groq does not stream in JSON mode; streamed replies rely on the prompt
+    const streamBody = super.buildStreamBody(body);
+    delete streamBody.response_format;
+    return streamBody;
+  }
+
+  protected buildEmbeddingRequest(texts: string[], model: string): RequestUrlParam | null {
+    return null; // Groq hosts no embedding models
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    // Check API key format (should start with 'gsk_')
+    if (this.apiKey && !this.apiKey.startsWith('gsk_')) {
+      return {
+        success: false,
+        message: 'Invalid API key format. Groq API keys should start with "gsk_"'
+      };
+    }
+
+    return super.testConnection();
+  }
+}
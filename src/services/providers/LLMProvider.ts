@@ -0,0 +1,327 @@
+import { requestUrl, RequestUrlParam } from 'obsidian';
+import { CompletionRequest, ConnectionTestResult, RateLimitInfo } from '../../types';
+import { SSEEvent, SSEParser } from '../../utils/SSEParser';
+import { StreamingRequest } from '../../utils/StreamingRequest';
+import { CancellationUtils } from '../../utils/CancellationUtils';
+import { RateLimitHeaders } from '../../utils/RateLimitHeaders';
+
+/**
+ * Error status returned by a provider's API, with the rate limit state
+ * sent along with it
+ */
+export class ProviderError extends Error {
+  readonly status: number;
+  readonly rateLimit: RateLimitInfo;
+
+  constructor(message: string, status: number, rateLimit: RateLimitInfo = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.rateLimit = rateLimit;
+  }
+}
+
+/**
+ * Base class for LLM providers used to generate flashcards.
+ * Subclasses describe how to build the HTTP request and how to read
+ * the completion text back out of the provider-specific response.
+ */
+export abstract class LLMProvider {
+  private rateLimitListeners = new Set<(info: RateLimitInfo) => void>();
+
+  /**
+   * Human-readable provider name used in notices and errors
+   */
+  abstract readonly name: string;
+
+  /**
+   * Model identifier sent with each request
+   */
+  abstract readonly model: string;
+
+  /**
+   * Check that the provider is configured well enough to send requests
+   * @returns Error message, or null if the configuration looks usable
+   */
+  abstract validateConfig(): string | null;
+
+  /**
+   * Build the HTTP request for a completion
+   * @param request - Provider-independent completion request
+   * @returns Request parameters for requestUrl
+   */
+  protected abstract buildRequest(request: CompletionRequest): RequestUrlParam;
+
+  /**
+   * Extract the completion text from a successful response body
+   * @param data - Parsed JSON response
+   * @returns Completion text
+   */
+  protected abstract parseResponse(data: unknown): string;
+
+  /**
+   * Extract the text of a streamed completion event
+   * @param event - Server-sent event
+   * @returns Text added by the event, or '' for events without text
+   */
+  protected abstract parseStreamEvent(event: SSEEvent): string;
+
+  /**
+   * Build the HTTP request for embeddings
+   * @param texts - Texts to embed
+   * @param model - Embedding model
+   * @returns Request parameters, or null if the provider offers no embeddings
+   */
+  protected buildEmbeddingRequest(texts: string[], model: string): RequestUrlParam | null {
+    return null;
+  }
+
+  /**
+   * Extract the embeddings from a successful response body
+   * @param data - Parsed JSON response
+   * @returns One vector per text, in request order
+   */
+  protected parseEmbeddingResponse(data: unknown): number[][] {
+    throw new Error(`${this.name} does not offer embeddings`);
+  }
+
+  /**
+   * Turn the body of a complete-reply request into a streaming one
+   * @param body - Request body
+   * @returns Request body asking for a stream
+   */
+  protected buildStreamBody(body: Record<string, unknown>): Record<string, unknown> {
+    return { ...body, stream: true };
+  }
+
+  /**
+   * Read the rate limit state from response headers
+   * @param headers - Response headers
+   * @returns Rate limit state; OpenAI-style headers by default
+   */
+  protected parseRateLimit(headers: Record<string, string>): RateLimitInfo {
+    return RateLimitHeaders.parseOpenAI(headers);
+  }
+
+  /**
+   * Subscribe to the rate limit state reported with each response
+   * @param listener - Called with the state the provider reported
+   * @returns Function that removes the listener
+   */
+  onRateLimit(listener: (info: RateLimitInfo) => void): () => void {
+    this.rateLimitListeners.add(listener);
+    return () => {
+      this.rateLimitListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pass the rate limit state of a response on to the listeners
+   * @param headers - Response headers
+   * @returns Rate limit state
+   */
+  private reportRateLimit(headers: Record<string, string>): RateLimitInfo {
+    const info = this.parseRateLimit(headers);
+    if (Object.keys(info).length > 0) {
+      this.rateLimitListeners.forEach(listener => listener(info));
+    }
+    return info;
+  }
+
+  /**
+   * Extract a readable error message from an error response body
+   * @param text - Raw response text
+   * @returns Error message
+   */
+  protected parseError(text: string): string {
+    try {
+      const errorData = JSON.parse(text);
+      if (errorData && typeof errorData === 'object' && 'error' in errorData) {
+        const error = errorData.error as { message?: string; type?: string } | string;
+        if (typeof error === 'string') {
+          return error;
+        }
+        return error.message || error.type || text;
+      }
+    } catch {
+      // Fall through to the raw text
+    }
+    return text || 'Unknown error';
+  }
+
+  /**
+   * Send a completion request and return the generated text
+   * @param request - Completion request
+   * @param signal - Stops waiting for the response
+   * @returns Completion text
+   * @throws ProviderError if the API returns an error status
+   */
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const configError = this.validateConfig();
+    if (configError) {
+      throw new Error(configError);
+    }
+
+    // requestUrl cannot be aborted; a cancelled request's response is ignored
+    const response = await CancellationUtils.race(requestUrl({ ...this.buildRequest(request), throw: false }), signal);
+    const rateLimit = this.reportRateLimit(response.headers);
+
+    if (response.status !== 200) {
+      throw new ProviderError(
+        `${this.name} API error (${response.status}): ${this.parseError(response.text)}`,
+        response.status,
+        rateLimit
+      );
+    }
+
+    const content = this.parseResponse(response.json);
+
+    if (!content) {
+      throw new Error(`No content in response from ${this.name} API`);
+    }
+
+    return content;
+  }
+
+  /**
+   * Send a completion request and stream the generated text as it arrives
+   * @param request - Completion request
+   * @param onText - Called with each piece of generated text
+   * @param signal - Aborts the request
+   * @returns Full completion text
+   * @throws ProviderError if the API returns an error status
+   */
+  async stream(request: CompletionRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+    const configError = this.validateConfig();
+    if (configError) {
+      throw new Error(configError);
+    }
+
+    const params = this.buildRequest(request);
+    const body = this.buildStreamBody(JSON.parse(params.body as string));
+    const parser = new SSEParser();
+    let content = '';
+    let streamError: unknown;
+
+    const handleEvents = (events: SSEEvent[]) => {
+      for (const event of events) {
+        const text = this.parseStreamEvent(event);
+        if (text) {
+          content += text;
+          onText(text);
+        }
+      }
+    };
+
+    const response = await StreamingRequest.send({ ...params, body: JSON.stringify(body) }, text => {
+      // Errors thrown here would escape the response stream; keep the first
+      if (streamError === undefined) {
+        try {
+          handleEvents(parser.push(text));
+        } catch (error) {
+          streamError = error;
+        }
+      }
+    }, signal);
+    const rateLimit = this.reportRateLimit(response.headers);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new ProviderError(
+        `${this.name} API error (${response.status}): ${this.parseError(response.text)}`,
+        response.status,
+        rateLimit
+      );
+    }
+    if (streamError !== undefined) {
+      throw streamError;
+    }
+    handleEvents(parser.finish());
+
+    if (!content) {
+      throw new Error(`No content in response from ${this.name} API`);
+    }
+
+    return content;
+  }
+
+  /**
+   * Embed texts as vectors whose cosine similarity reflects their meaning
+   * @param texts - Texts to embed
+   * @param model - Embedding model
+   * @param signal - Stops waiting for the response
+   * @returns One vector per text, in order
+   * @throws Error if the provider offers no embeddings, ProviderError if the
+   *   API returns an error status
+   */
+  async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    const params = this.buildEmbeddingRequest(texts, model);
+    if (!params) {
+      throw new Error(`${this.name} does not offer embeddings`);
+    }
+
+    const response = await CancellationUtils.race(requestUrl({ ...params, throw: false }), signal);
+    const rateLimit = this.reportRateLimit(response.headers);
+
+    if (response.status !== 200) {
+      throw new ProviderError(
+        `${this.name} API error (${response.status}): ${this.parseError(response.text)}`,
+        response.status,
+        rateLimit
+      );
+    }
+
+    const embeddings = this.parseEmbeddingResponse(response.json);
+    if (embeddings.length !== texts.length) {
+      throw new Error(`${this.name} API returned ${embeddings.length} embeddings for ${texts.length} texts`);
+    }
+    return embeddings;
+  }
+
+  /**
+   * Test the provider connection with a minimal request
+   * @returns Connection test result with details
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    const configError = this.validateConfig();
+    if (configError) {
+      return { success: false, message: configError };
+    }
+
+    try {
+      const response = await requestUrl({
+        ...this.buildRequest({
+          messages: [{ role: 'user', content: 'Test' }],
+          maxTokens: 10
+        }),
+        throw: false
+      });
+
+      if (response.status !== 200) {
+        return {
+          success: false,
+          message: `${this.name} API error: ${this.parseError(response.text)}`,
+          details: {
+            status: response.status,
+            response: response.text
+          }
+        };
+      }
+
+      return {
+        success: true,
+        message: `Successfully connected to ${this.name} API`,
+        details: {
+          model: this.model,
+          response: response.json
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        message: `Connection failed: ${errorMessage}`,
+        details: { error: errorMessage }
+      };
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { RequestUrlParam } from 'obsidian';
+import { CompletionRequest } from '../../types';
+import { SSEEvent } from '../../utils/SSEParser';
+import { LLMProvider } from './LLMProvider';
+
+/**
+ * Connection options for OpenAI-compatible chat completion endpoints
+ */
+export interface OpenAICompatibleOptions {
+  url: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API
+ * (llama.cpp, Ollama, OpenRouter, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider extends LLMProvider {
+  readonly name: string = 'OpenAI-compatible';
+  readonly model: string;
+  protected readonly url: string;
+  protected readonly apiKey: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    super();
+    this.url = options.url.trim();
+    this.apiKey = options.apiKey.trim();
+    this.model = options.model.trim();
+  }
+
+  validateConfig(): string | null {
+    if (!this.url) {
+      return `${this.name} endpoint URL is not configured`;
+    }
+    if (!this.model) {
+      return `${this.name} model is not configured`;
+    }
+    return null;
+  }
+
+  /**
+   * Build request headers; local servers usually need no API key
+   * @returns Request headers
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Build the JSON request body
+   * @param request - Completion request
+   * @returns Request body object
+   */
+  protected buildBody(request: CompletionRequest): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model || this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens
+    };
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (request.responseSchema) {
+      // JSON mode is widely supported, unlike schemas; the prompt describes the shape
+      body.response_format = { type: 'json_object' };
+    }
+    return body;
+  }
+
+  protected buildRequest(request: CompletionRequest): RequestUrlParam {
+    return {
+      url: this.url,
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(request))
+    };
+  }
+
+  protected buildEmbeddingRequest(texts: string[], model: string): RequestUrlParam | null {
+    // The embeddings endpoint sits next to the chat completions endpoint
+    return {
+      url: this.url.replace(/\/chat\/completions(?=$|\?)/, '/embeddings'),
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({ model, input: texts })
+    };
+  }
+
+  protected parseEmbeddingResponse(data: unknown): number[][] {
+    const response = data as { data?: Array<{ embedding?: number[]; index?: number }> };
+    if (!response || !Array.isArray(response.data)) {
+      throw new Error(`Invalid embedding response from ${this.name} API`);
+    }
+
+    return [...response.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding ?? []);
+  }
+
+  protected parseResponse(data: unknown): string {
+    const response = data as { choices?: Array<{ message?: { content?: string } }> };
+
+    if (!response || !response.choices || !response.choices[0] || !response.choices[0].message) {
+      throw new Error(`Invalid response format from ${this.name} API`);
+    }
+
+    return response.choices[0].message.content || '';
+  }
+
+  protected parseStreamEvent(event: SSEEvent): string {
+    if (event.data === '[DONE]') {
+      return '';
+    }
+
+    const chunk = JSON.parse(event.data) as {
+      choices?: Array<{ delta?: { content?: string | null } }>;
+      error?: { message?: string } | string;
+    };
+    if (chunk.error) {
+      throw new Error(`${this.name} API error: ${typeof chunk.error === 'string' ? chunk.error : chunk.error.message}`);
+    }
+
+    return chunk.choices?.[0]?.delta?.content ?? '';
+  }
+}
@@ -0,0 +1,36 @@
+import { LLMProviderType, ObsiCardSettings } from '../../types';
+import { LLMProvider } from './LLMProvider';
+import { GroqProvider } from './GroqProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { AzureOpenAIProvider } from './AzureOpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+
+/**
+ * Create the LLM provider selected in settings
+ * @param settings - Plugin settings
+ * @returns Configured provider
+ */
+export function createLLMProvider(settings: ObsiCardSettings): LLMProvider {
+  switch (settings.llmProvider) {
+    case LLMProviderType.OPENAI_COMPATIBLE:
+      return new OpenAICompatibleProvider({
+        url: settings.llmApiUrl,
+        apiKey: settings.llmApiKey,
+        model: settings.llmModel
+      });
+
+    case LLMProviderType.AZURE_OPENAI:
+      return new AzureOpenAIProvider({
+        url: settings.llmApiUrl,
+        apiKey: settings.llmApiKey,
+        model: settings.llmModel
+      });
+
+    case LLMProviderType.ANTHROPIC:
+      return new AnthropicProvider(settings.llmApiUrl, settings.llmApiKey, settings.llmModel);
+
+    case LLMProviderType.GROQ:
+    default:
+      return new GroqProvider(settings.groqApiKey, settings.groqModel);
+  }
+}
@@ -3,13 +3,36 @@
  */
 
 /**
- * Represents a single flashcard
+ * What cards of notes too long to send whole are generated from
+ */
+export enum CardSource {
+  SUMMARY = 'summary', // Summaries of the parts, merged until short enough
+  ORIGINAL = 'original' // Every part of the note as it is
+}
+
+/**
+ * Kind of flashcard
+ */
+export enum CardType {
+  BASIC = 'basic',
+  CLOZE = 'cloze'
+}
+
+/**
+ * Represents a single flashcard.
+ * For cloze cards, `front` holds the text with {{c1::...}} deletions
+ * and `back` holds the optional extra information.
  */
 export interface Flashcard {
   front: string;
   back: string;
   tags: string[];
+  type?: CardType; // Defaults to basic
   source?: string; // Original note name or path
+  id?: string; // Stable ObsiCard identifier, persisted in the note
+  ankiNoteId?: number; // Anki note ID once the card has been synced
+  syncHash?: string; // Content hash at the last sync, used to detect edits on either side
+  created?: string; // Date the card was saved to the note (YYYY-MM-DD)
 }
 
 /**
@@ -20,6 +43,221 @@ export enum GenerationMode {
   FIXED = 'fixed'
 }
 
+/**
+ * Markdown syntax flashcards are written in
+ */
+export enum OutputFormat {
+  OBSICARD = 'obsicard',
+  SPACED_REPETITION = 'spaced-repetition', // Obsidian Spaced Repetition plugin
+  OBSIDIAN_TO_ANKI = 'obsidian-to-anki' // Obsidian_to_Anki plugin
+}
+
+/**
+ * What a deck routing rule looks at
+ */
+export enum DeckRuleType {
+  FOLDER = 'folder', // Folder of the note; `*` matches one folder, captured as $1, $2, ...
+  FRONTMATTER = 'frontmatter', // Frontmatter property; its value is $1
+  TAG = 'tag' // Note or card tag, including nested tags; the matched tag is $1
+}
+
+/**
+ * Rule sending the flashcards of matching notes to a deck
+ */
+export interface DeckRule {
+  type: DeckRuleType;
+  match: string; // Folder pattern, property name or tag
+  deck: string; // Deck name, may use $1, $2, ... and `::` for nested decks
+}
+
+/**
+ * Deck picked for a set of flashcards, and the rule that picked it
+ */
+export interface DeckRoute {
+  deckName: string;
+  rule?: DeckRule; // Not set when the default deck is used
+  fromNote?: boolean; // The note names its deck in its frontmatter
+}
+
+/**
+ * Note generated flashcards are written to
+ */
+export enum FlashcardDestination {
+  SOURCE_NOTE = 'source',
+  COMPANION_NOTE = 'companion' // Separate note whose path comes from a template
+}
+
+/**
+ * Flashcard property that can be written to an Anki field
+ */
+export enum FlashcardField {
+  FRONT = 'front',
+  BACK = 'back',
+  TAGS = 'tags',
+  SOURCE = 'source',
+  SOURCE_LINK = 'sourceLink', // obsidian:// link back to the note
+  NONE = 'none'
+}
+
+/**
+ * Mapping from Anki field name to the flashcard property it receives
+ */
+export type FieldMapping = Record<string, FlashcardField>;
+
+/**
+ * Options controlling a single generation run
+ */
+export interface GenerationOptions {
+  mode: GenerationMode;
+  tags: string[];
+  cardType: CardType;
+  cardCount?: number; // Exact number of cards; the model picks 3-10 if not set
+  language?: string; // Language the cards are written in; the note's language if not set
+  model?: string; // Model used instead of the configured one
+  cardSource?: CardSource; // For long notes; the setting if not set
+}
+
+/**
+ * Counts the tokens a model sees in a text
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * Pre-flight estimate of a generation
+ */
+export interface GenerationPlan {
+  contentTokens: number;
+  chunkTokens: number; // Largest chunk that fits next to the prompt and the answer
+  chunks: number;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number; // Expected answer length, below the requested maximum
+  summarize: boolean; // Content is summarized first
+  summaryRequests: number; // Included in requests
+  tokenizer: string; // Name of the tokenizer the counts come from
+  estimatedCost?: number; // US dollars; only known for models with published prices
+}
+
+/**
+ * Step a generation job is at
+ */
+export enum GenerationStage {
+  SUMMARIZING = 'summarizing', // Parts of large content are summarized before generation
+  MERGING = 'merging', // Part summaries are merged until short enough
+  GENERATING = 'generating',
+  SYNCING = 'syncing' // Approved cards are sent to Anki
+}
+
+/**
+ * Progress of a single generation run
+ */
+export interface GenerationProgress {
+  stage: GenerationStage;
+  chunksDone: number;
+  chunksTotal: number;
+  cardsGenerated: number;
+}
+
+/**
+ * Part of the content that produced no flashcards because of an error
+ */
+export interface ChunkFailure {
+  chunk: number; // 1-based
+  chunksTotal: number;
+  reason: string;
+}
+
+/**
+ * Hooks for following a generation run while it happens
+ */
+export interface GenerationHooks {
+  onFlashcards?: (flashcards: Flashcard[]) => void; // Called with cards as soon as they are parsed
+  onProgress?: (progress: GenerationProgress) => void;
+  onChunkFailure?: (failure: ChunkFailure) => void; // The run goes on with the other chunks
+  signal?: AbortSignal; // Stops the run; the cards generated so far are kept
+}
+
+/**
+ * Generation settings a note overrides in its frontmatter
+ */
+export interface NoteOverrides {
+  skip: boolean; // Never generate flashcards from the note
+  deckName?: string;
+  tags?: string[];
+  mode?: GenerationMode;
+  cardCount?: number;
+  cardType?: CardType;
+  language?: string;
+  model?: string;
+}
+
+/**
+ * Supported LLM providers for flashcard generation
+ */
+export enum LLMProviderType {
+  GROQ = 'groq',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  AZURE_OPENAI = 'azure-openai',
+  ANTHROPIC = 'anthropic'
+}
+
+/**
+ * Single chat message sent to an LLM provider
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-independent completion request
+ */
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+  model?: string; // Overrides the provider's configured model
+  responseSchema?: JsonSchema; // JSON object the reply must match, enforced where the provider can
+}
+
+/**
+ * Rate limit state reported by a provider in its response headers
+ */
+export interface RateLimitInfo {
+  requestsRemaining?: number;
+  requestsResetMs?: number; // Until the request allowance is back to full
+  tokensLimit?: number; // Per minute
+  tokensRemaining?: number;
+  tokensResetMs?: number;
+  retryAfterMs?: number; // How long the provider asked to wait before retrying
+}
+
+/**
+ * Remaining AI request quota, as shown to the user
+ */
+export interface RateLimitQuota {
+  requestsRemaining?: number; // As last reported by the provider
+  tokensRemaining?: number;
+  pausedUntil?: number; // Epoch ms; set while requests wait for the provider's limit to reset
+}
+
+/**
+ * JSON Schema describing a structured reply
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Result of a connection test against an external service
+ */
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
 /**
  * Result from Groq API call
  */
@@ -59,49 +297,219 @@ export interface AnkiConnectResponse {
  */
 export interface QueuedSyncItem {
   flashcard: Flashcard;
-  timestamp: number;
+  timestamp: number; // When the flashcard was queued
   retryCount: number;
+  filePath?: string; // Note the flashcard is stored in
+  deckName?: string; // Target deck; the configured deck if not set
+  modelName?: string; // Note type chosen when the flashcard was queued
+  nextAttempt?: number; // Backoff: not replayed before this time
+  lastError?: string; // Why the last attempt failed
+}
+
+/**
+ * Persisted sync queue
+ */
+export interface SyncQueueData {
+  items: QueuedSyncItem[];
+  deadLetters: QueuedSyncItem[]; // Items that used up their retries
+}
+
+/**
+ * What happened to a single flashcard during a sync
+ */
+export enum CardSyncStatus {
+  ADDED = 'added',
+  UPDATED = 'updated',
+  QUEUED = 'queued',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled' // Not sent because the sync was cancelled; the card can be synced later
+}
+
+/**
+ * Sync outcome of a single flashcard
+ */
+export interface CardSyncOutcome {
+  flashcard: Flashcard;
+  status: CardSyncStatus;
+  error?: string; // Reason the flashcard failed
+}
+
+/**
+ * Outcome of syncing a batch of flashcards
+ */
+export interface SyncResult {
+  synced: number; // Added or updated in Anki
+  updated: number; // Subset of synced that already existed in Anki
+  queued: number;
+  errors: number;
+  outcomes: CardSyncOutcome[]; // One per flashcard, in input order
+}
+
+/**
+ * Note as returned by AnkiConnect's notesInfo action
+ */
+export interface AnkiNoteInfo {
+  noteId: number;
+  modelName: string;
+  tags: string[];
+  fields: Record<string, { value: string; order: number }>;
+}
+
+/**
+ * A flashcard edited both in Obsidian and in Anki since the last sync
+ */
+export interface PullConflict {
+  local: Flashcard;
+  remote: Flashcard;
+}
+
+/**
+ * How to resolve a pull conflict
+ */
+export enum ConflictResolution {
+  KEEP_OBSIDIAN = 'obsidian',
+  USE_ANKI = 'anki',
+  SKIP = 'skip'
+}
+
+/**
+ * Result of comparing flashcards in a note with their Anki notes
+ */
+export interface PullResult {
+  pulled: Flashcard[]; // Changed only in Anki; carries the Anki content
+  unchanged: Flashcard[]; // Identical on both sides
+  conflicts: PullConflict[];
+  localOnly: number; // Changed only in Obsidian
+  missing: number; // Anki note no longer exists
 }
 
 /**
  * Plugin settings
  */
 export interface ObsiCardSettings {
+  llmProvider: LLMProviderType;
   groqApiKey: string;
   groqModel: string;
+  llmApiUrl: string; // Endpoint for non-Groq providers
+  llmApiKey: string;
+  llmModel: string;
   ankiConnectUrl: string;
   ankiDeckName: string;
+  deckRules: DeckRule[]; // Evaluated in order; the first match wins
+  ankiNoteType: string;
+  ankiFieldMapping: FieldMapping;
+  ankiClozeNoteType: string;
+  ankiClozeFieldMapping: FieldMapping;
   maxChunkSize: number;
   maxParallelRequests: number;
   enableOfflineQueue: boolean;
   maxRetries: number;
   defaultTags: string[];
+  defaultCardType: CardType;
+  outputFormat: OutputFormat;
+  flashcardDestination: FlashcardDestination;
+  companionNotePath: string; // Template with {{folder}} and {{basename}}
   autoSyncToAnki: boolean;
+  requestsPerMinute: number; // Global limit on LLM requests
+  tokensPerMinute: number; // Global limit on LLM tokens; 0 uses the limit the provider reports
+  streamGeneration: boolean; // Show cards while the model is still writing them
+  structuredOutput: boolean; // Ask the provider to enforce the JSON reply format
+  tokenizerPath: string; // Vault path of a tiktoken-format vocabulary; estimated counts if empty
+  contextWindow: number; // Context window of the model in tokens; 0 if unknown
+  chunkOverlap: number; // Tokens of a split section repeated at the start of the next chunk
+  longNoteCardSource: CardSource; // Generate long notes' cards from summaries or the original text
+  duplicateThreshold: number; // Text similarity (%) from which new cards are flagged as duplicates; 0 turns the check off
+  checkAnkiDuplicates: boolean; // Compare new cards with the notes in the target Anki deck as well
+  embeddingModel: string; // Embedding model for catching reworded duplicates; text only if empty
+  minCardScore: number; // Cards scoring lower start deselected in the review dialog; 0 selects all
 }
 
 /**
  * Default plugin settings
  */
 export const DEFAULT_SETTINGS: ObsiCardSettings = {
+  llmProvider: LLMProviderType.GROQ,
   groqApiKey: '',
   groqModel: 'llama-3.1-8b-instant',
+  llmApiUrl: '',
+  llmApiKey: '',
+  llmModel: '',
   ankiConnectUrl: 'http://127.0.0.1:8765',
   ankiDeckName: 'ObsiCard',
+  deckRules: [],
+  ankiNoteType: 'Basic',
+  ankiFieldMapping: {
+    Front: FlashcardField.FRONT,
+    Back: FlashcardField.BACK
+  },
+  ankiClozeNoteType: 'Cloze',
+  ankiClozeFieldMapping: {
+    Text: FlashcardField.FRONT,
+    Extra: FlashcardField.BACK
+  },
   maxChunkSize: 3500,
   maxParallelRequests: 3,
   enableOfflineQueue: true,
   maxRetries: 3,
   defaultTags: ['obsidian'],
-  autoSyncToAnki: true
+  defaultCardType: CardType.BASIC,
+  outputFormat: OutputFormat.OBSICARD,
+  flashcardDestination: FlashcardDestination.SOURCE_NOTE,
+  companionNotePath: 'Flashcards/{{folder}}/{{basename}} - cards.md',
+  autoSyncToAnki: true,
+  requestsPerMinute: 30,
+  tokensPerMinute: 0,
+  streamGeneration: true,
+  structuredOutput: true,
+  tokenizerPath: '',
+  contextWindow: 0,
+  chunkOverlap: 0,
+  longNoteCardSource: CardSource.SUMMARY,
+  duplicateThreshold: 60,
+  checkAnkiDuplicates: false,
+  embeddingModel: '',
+  minCardScore: 60
 };
 
 /**
  * Chunk of text for processing
  */
 export interface TextChunk {
-  content: string;
+  content: string; // Starts with the headings above the chunk that are not part of it
   tokenCount: number;
   index: number;
+  headings: string[]; // Breadcrumb of the headings the chunk falls under, outermost first
+  startLine: number; // First source line, 0-based
+  endLine: number; // Last source line, inclusive
+}
+
+/**
+ * Kind of block in a markdown document
+ */
+export enum MarkdownBlockType {
+  FRONTMATTER = 'frontmatter',
+  HEADING = 'heading',
+  PARAGRAPH = 'paragraph',
+  LIST = 'list',
+  CODE = 'code',
+  MATH = 'math',
+  TABLE = 'table',
+  QUOTE = 'quote', // Blockquotes and callouts
+  COMMENT = 'comment', // Obsidian %% comments
+  RULE = 'rule'
+}
+
+/**
+ * Top-level block of a markdown document
+ */
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  text: string;
+  startLine: number; // 0-based
+  endLine: number; // Inclusive
+  depth?: number; // Heading level
+  heading?: string; // Heading text without the markup
+  items?: number[]; // Lines of the block where top-level list items start, relative to startLine
 }
 
 /**
@@ -113,3 +521,123 @@ export interface ChunkingResult {
   requiresSummarization: boolean;
 }
 
+
+/**
+ * How notes are selected for bulk generation
+ */
+export enum BulkScopeType {
+  FOLDER = 'folder',
+  TAG = 'tag',
+  QUERY = 'query'
+}
+
+/**
+ * Selection of notes for bulk generation
+ */
+export interface BulkScope {
+  type: BulkScopeType;
+  value: string;
+  includeExisting: boolean; // Also process notes that already have ## Flashcards
+}
+
+/**
+ * State of a bulk generation job
+ */
+export enum BulkJobState {
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled',
+  COMPLETED = 'completed'
+}
+
+/**
+ * Progress snapshot of a bulk generation job
+ */
+export interface BulkJobProgress {
+  state: BulkJobState;
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  cardsGenerated: number;
+  currentFile?: string;
+  errors: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Whether AnkiConnect answered the last probe
+ */
+export enum AnkiConnectionState {
+  UNKNOWN = 'unknown',
+  ONLINE = 'online',
+  OFFLINE = 'offline'
+}
+
+/**
+ * Sync state of a flashcard as shown in the flashcard browser
+ */
+export enum CardSyncState {
+  SYNCED = 'synced',
+  QUEUED = 'queued',
+  NEVER_SYNCED = 'never-synced'
+}
+
+/**
+ * Flashcard found while indexing the vault
+ */
+export interface IndexedFlashcard {
+  card: Flashcard;
+  filePath: string; // Note the flashcard is stored in
+  sourcePath: string; // Note the flashcard was generated from
+  state: CardSyncState;
+}
+
+/**
+ * Where an existing card similar to a new one was found
+ */
+export enum DuplicateSource {
+  BATCH = 'batch', // Generated earlier in the same run
+  NOTE = 'note', // Stored in the note or its companion note
+  VAULT = 'vault', // Stored in another note
+  ANKI = 'anki' // In the Anki deck
+}
+
+/**
+ * New flashcard that is likely a duplicate of an existing one
+ */
+export interface DuplicateMatch {
+  card: Flashcard; // The new flashcard
+  existing: Flashcard;
+  source: DuplicateSource;
+  location?: string; // Note path or deck name of the existing card
+  similarity: number; // 0-1
+  semantic: boolean; // Matched by embeddings rather than by text
+}
+
+/**
+ * Spaced repetition best practice a flashcard breaks
+ */
+export enum LintRule {
+  MULTIPLE_FACTS = 'multiple-facts',
+  YES_NO_QUESTION = 'yes-no-question',
+  ANSWER_IN_QUESTION = 'answer-in-question',
+  VAGUE_PRONOUN = 'vague-pronoun',
+  LONG_ANSWER = 'long-answer',
+  MISSING_CONTEXT = 'missing-context'
+}
+
+/**
+ * Problem the card linter found in a flashcard
+ */
+export interface LintWarning {
+  rule: LintRule;
+  message: string;
+}
+
+/**
+ * Quality score of a flashcard
+ */
+export interface CardQuality {
+  score: number; // 0-100
+  warnings: LintWarning[];
+}
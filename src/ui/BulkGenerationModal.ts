@@ -0,0 +1,147 @@
+import { App, Modal, Setting } from 'obsidian';
+import { BulkScope, BulkScopeType, CardType, GenerationMode, GenerationOptions } from '../types';
+
+/**
+ * Modal for choosing which notes to generate flashcards for in bulk
+ */
+export class BulkGenerationModal extends Modal {
+  private bulkScope: BulkScope;
+  private options: GenerationOptions;
+  private onSubmit: (scope: BulkScope, options: GenerationOptions) => void;
+
+  constructor(
+    app: App,
+    defaults: GenerationOptions,
+    onSubmit: (scope: BulkScope, options: GenerationOptions) => void,
+    initialScope?: Partial<BulkScope>
+  ) {
+    super(app);
+    this.options = { ...defaults, tags: [...defaults.tags] };
+    this.onSubmit = onSubmit;
+    this.bulkScope = {
+      type: BulkScopeType.FOLDER,
+      value: '',
+      includeExisting: false,
+      ...initialScope
+    };
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-bulk-modal');
+
+    contentEl.createEl('h2', { text: 'Generate flashcards for many notes' });
+    contentEl.createEl('p', {
+      text: 'Generated flashcards are saved to each note without review.',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('Select notes by')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(BulkScopeType.FOLDER, 'Folder')
+          .addOption(BulkScopeType.TAG, 'Tag')
+          .addOption(BulkScopeType.QUERY, 'Search text')
+          .setValue(this.bulkScope.type)
+          .onChange(value => {
+            this.bulkScope.type = value as BulkScopeType;
+            this.onOpen();
+          });
+      });
+
+    const labels: Record<BulkScopeType, string> = {
+      [BulkScopeType.FOLDER]: 'Folder',
+      [BulkScopeType.TAG]: 'Tag',
+      [BulkScopeType.QUERY]: 'Search text'
+    };
+    const placeholders: Record<BulkScopeType, string> = {
+      [BulkScopeType.FOLDER]: 'Courses/Bio101 (empty for whole vault)',
+      [BulkScopeType.TAG]: '#lecture',
+      [BulkScopeType.QUERY]: 'Text in note name or content'
+    };
+
+    new Setting(contentEl)
+      .setName(labels[this.bulkScope.type])
+      .addText(text => {
+        text
+          .setPlaceholder(placeholders[this.bulkScope.type])
+          .setValue(this.bulkScope.value)
+          .onChange(value => {
+            this.bulkScope.value = value;
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      });
+
+    new Setting(contentEl)
+      .setName('Include notes with flashcards')
+      .setDesc('Also generate for notes that already have a flashcards section.')
+      .addToggle(toggle => {
+        toggle
+          .setValue(this.bulkScope.includeExisting)
+          .onChange(value => {
+            this.bulkScope.includeExisting = value;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Card type')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(CardType.BASIC, 'Basic (question/answer)')
+          .addOption(CardType.CLOZE, 'Cloze deletion')
+          .setValue(this.options.cardType)
+          .onChange(value => {
+            this.options.cardType = value as CardType;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Generation mode')
+      .setDesc('Dynamic: AI suggests tags based on content. Fixed: use your specified tags.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(GenerationMode.DYNAMIC, 'Dynamic (AI-suggested tags)')
+          .addOption(GenerationMode.FIXED, 'Fixed (use my tags)')
+          .setValue(this.options.mode)
+          .onChange(value => {
+            this.options.mode = value as GenerationMode;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Tags')
+      .setDesc('Comma-separated tags used in fixed mode.')
+      .addText(text => {
+        text
+          .setPlaceholder('Enter tags...')
+          .setValue(this.options.tags.join(', '))
+          .onChange(value => {
+            this.options.tags = value
+              .split(',')
+              .map(tag => tag.trim())
+              .filter(tag => tag.length > 0);
+          });
+      });
+
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const startButton = buttonContainer.createEl('button', {
+      text: 'Find notes and start',
+      cls: 'mod-cta'
+    });
+    startButton.addEventListener('click', () => {
+      this.onSubmit({ ...this.bulkScope }, { ...this.options });
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
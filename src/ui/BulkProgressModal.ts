@@ -0,0 +1,95 @@
+import { App, Modal } from 'obsidian';
+import { BulkJobProgress, BulkJobState } from '../types';
+import { BulkGenerationJob } from '../services/BulkGenerationService';
+
+/**
+ * Modal showing the progress of a bulk generation job.
+ * Closing the modal keeps the job running in the background.
+ */
+export class BulkProgressModal extends Modal {
+  private job: BulkGenerationJob;
+  private unsubscribe?: () => void;
+
+  constructor(app: App, job: BulkGenerationJob) {
+    super(app);
+    this.job = job;
+  }
+
+  onOpen(): void {
+    this.unsubscribe = this.job.onProgress(progress => this.render(progress));
+    this.render(this.job.getProgress());
+  }
+
+  /**
+   * Render the current progress
+   * @param progress - Progress snapshot
+   */
+  private render(progress: BulkJobProgress): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-bulk-progress-modal');
+
+    contentEl.createEl('h2', { text: 'Bulk flashcard generation' });
+
+    const bar = contentEl.createEl('progress', { cls: 'obsicard-progress-bar' });
+    bar.max = Math.max(progress.total, 1);
+    bar.value = progress.processed;
+
+    const stateLabels: Record<BulkJobState, string> = {
+      [BulkJobState.RUNNING]: 'Running',
+      [BulkJobState.PAUSED]: 'Paused',
+      [BulkJobState.CANCELLED]: 'Cancelled',
+      [BulkJobState.COMPLETED]: 'Completed'
+    };
+
+    contentEl.createEl('p', {
+      text: `${stateLabels[progress.state]} • ${progress.processed} of ${progress.total} note(s) processed`
+    });
+
+    if (progress.currentFile) {
+      contentEl.createEl('p', {
+        text: `Current note: ${progress.currentFile}`,
+        cls: 'setting-item-description'
+      });
+    }
+
+    contentEl.createEl('p', {
+      text: `${progress.cardsGenerated} flashcard(s) generated • ${progress.skipped} skipped • ${progress.failed} failed`,
+      cls: 'setting-item-description'
+    });
+
+    if (progress.errors.length > 0) {
+      const errorList = contentEl.createEl('ul', { cls: 'obsicard-bulk-errors' });
+      for (const error of progress.errors) {
+        errorList.createEl('li', { text: `${error.path}: ${error.message}` });
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv('button-container');
+    const isActive = progress.state === BulkJobState.RUNNING || progress.state === BulkJobState.PAUSED;
+
+    if (isActive) {
+      const cancelButton = buttonContainer.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
+      cancelButton.addEventListener('click', () => this.job.cancel());
+
+      if (progress.state === BulkJobState.RUNNING) {
+        const pauseButton = buttonContainer.createEl('button', { text: 'Pause' });
+        pauseButton.addEventListener('click', () => this.job.pause());
+      } else {
+        const resumeButton = buttonContainer.createEl('button', { text: 'Resume', cls: 'mod-cta' });
+        resumeButton.addEventListener('click', () => this.job.resume());
+      }
+    }
+
+    const closeButton = buttonContainer.createEl('button', {
+      text: isActive ? 'Run in background' : 'Close'
+    });
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,44 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal asking to confirm an action that cannot be undone
+ */
+export class ConfirmModal extends Modal {
+  private title: string;
+  private message: string;
+  private confirmText: string;
+  private onConfirm: () => void;
+
+  constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-confirm-modal');
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.message });
+
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const confirmButton = buttonContainer.createEl('button', { text: this.confirmText, cls: 'mod-warning' });
+    confirmButton.addEventListener('click', () => {
+      this.onConfirm();
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
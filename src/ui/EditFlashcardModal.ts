@@ -0,0 +1,69 @@
+import { App, Modal } from 'obsidian';
+import { CardType, Flashcard } from '../types';
+
+/**
+ * Simple modal for editing a flashcard
+ */
+export class EditFlashcardModal extends Modal {
+  private card: Flashcard;
+  private onSave: (card: Flashcard) => void;
+
+  constructor(app: App, card: Flashcard, onSave: (card: Flashcard) => void) {
+    super(app);
+    this.card = { ...card };
+    this.onSave = onSave;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-edit-modal');
+
+    contentEl.createEl('h2', { text: 'Edit flashcard' });
+
+    const isCloze = this.card.type === CardType.CLOZE;
+
+    // Front
+    contentEl.createEl('label', { text: isCloze ? 'Text (use {{c1::...}} for deletions)' : 'Front' });
+    const frontInput = contentEl.createEl('textarea');
+    frontInput.value = this.card.front;
+
+    // Back
+    contentEl.createEl('label', { text: isCloze ? 'Extra (optional)' : 'Back' });
+    const backInput = contentEl.createEl('textarea');
+    backInput.value = this.card.back;
+
+    // Tags
+    contentEl.createEl('label', { text: 'Tags (comma-separated)' });
+    const tagsInput = contentEl.createEl('input', { type: 'text' });
+    tagsInput.value = this.card.tags.join(', ');
+
+    // Buttons
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const saveButton = buttonContainer.createEl('button', {
+      text: 'Save',
+      cls: 'mod-cta'
+    });
+    saveButton.addEventListener('click', () => {
+      this.card.front = frontInput.value.trim();
+      this.card.back = backInput.value.trim();
+      this.card.tags = tagsInput.value
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag.length > 0);
+
+      this.onSave(this.card);
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
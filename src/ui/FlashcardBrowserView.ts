@@ -0,0 +1,381 @@
+import { ItemView, Notice, Setting, WorkspaceLeaf } from 'obsidian';
+import ObsiCardPlugin from '../../main';
+import { CardSyncState, IndexedFlashcard, SyncResult } from '../types';
+import { ConfirmModal } from './ConfirmModal';
+import { MoveToDeckModal } from './MoveToDeckModal';
+import { RetagModal } from './RetagModal';
+
+export const FLASHCARD_BROWSER_VIEW_TYPE = 'obsicard-flashcard-browser';
+
+const STATE_LABELS: Record<CardSyncState, string> = {
+  [CardSyncState.SYNCED]: 'Synced',
+  [CardSyncState.QUEUED]: 'Queued',
+  [CardSyncState.NEVER_SYNCED]: 'Never synced'
+};
+
+/**
+ * Sidebar view listing the flashcards of every note in the vault, with
+ * search, filters and bulk actions
+ */
+export class FlashcardBrowserView extends ItemView {
+  private plugin: ObsiCardPlugin;
+  private entries: IndexedFlashcard[] = [];
+  private selected = new Set<IndexedFlashcard>();
+  private collapsed = new Set<string>();
+  private query = '';
+  private tag = '';
+  private state = '';
+  private loading = false;
+  private listEl?: HTMLElement;
+  private toolbarEl?: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ObsiCardPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return FLASHCARD_BROWSER_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Flashcard browser';
+  }
+
+  getIcon(): string {
+    return 'layers';
+  }
+
+  async onOpen(): Promise<void> {
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Re-index the vault and redraw the view
+   */
+  async refresh(): Promise<void> {
+    this.loading = true;
+    this.render();
+
+    try {
+      this.entries = await this.plugin.flashcardIndex.buildIndex();
+    } catch (error) {
+      console.error('Failed to index flashcards:', error);
+      new Notice('❌ Failed to index flashcards');
+      this.entries = [];
+    }
+
+    this.selected.clear();
+    this.loading = false;
+    this.render();
+  }
+
+  /**
+   * Draw the filters, toolbar and card list
+   */
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-browser');
+
+    const headerEl = contentEl.createDiv('obsicard-browser-header');
+    headerEl.createEl('h4', { text: 'Flashcards' });
+    const refreshButton = headerEl.createEl('button', { text: 'Refresh' });
+    refreshButton.disabled = this.loading;
+    refreshButton.addEventListener('click', () => {
+      void this.refresh();
+    });
+
+    if (this.loading) {
+      contentEl.createDiv({ text: 'Indexing flashcards...', cls: 'obsicard-loading' });
+      return;
+    }
+
+    new Setting(contentEl)
+      .setName('Search')
+      .addText(text => {
+        text
+          .setPlaceholder('Front, back or note')
+          .setValue(this.query)
+          .onChange(value => {
+            this.query = value;
+            this.renderList();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Filter')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', 'All tags');
+        this.plugin.flashcardIndex.getTags(this.entries).forEach(tag => dropdown.addOption(tag, `#${tag}`));
+        dropdown
+          .setValue(this.tag)
+          .onChange(value => {
+            this.tag = value;
+            this.renderList();
+          });
+      })
+      .addDropdown(dropdown => {
+        dropdown.addOption('', 'Any state');
+        Object.values(CardSyncState).forEach(state => dropdown.addOption(state, STATE_LABELS[state]));
+        dropdown
+          .setValue(this.state)
+          .onChange(value => {
+            this.state = value;
+            this.renderList();
+          });
+      });
+
+    this.toolbarEl = contentEl.createDiv('obsicard-browser-toolbar');
+    this.listEl = contentEl.createDiv('obsicard-browser-list');
+    this.renderList();
+  }
+
+  /**
+   * Draw the cards that match the filters, grouped by source note
+   */
+  private renderList(): void {
+    if (!this.listEl) {
+      return;
+    }
+
+    const visible = this.getVisibleEntries();
+    this.listEl.empty();
+    this.renderToolbar(visible);
+
+    if (visible.length === 0) {
+      this.listEl.createDiv({
+        text: this.entries.length === 0 ? 'No flashcards in this vault yet.' : 'No flashcards match the filters.',
+        cls: 'obsicard-browser-empty'
+      });
+      return;
+    }
+
+    for (const [sourcePath, group] of this.plugin.flashcardIndex.groupBySource(visible)) {
+      const groupEl = this.listEl.createDiv('obsicard-browser-group');
+      const headingEl = groupEl.createDiv('obsicard-browser-group-heading');
+
+      const groupCheckbox = headingEl.createEl('input', { type: 'checkbox' });
+      groupCheckbox.checked = group.every(entry => this.selected.has(entry));
+      groupCheckbox.addEventListener('change', () => {
+        group.forEach(entry => {
+          if (groupCheckbox.checked) {
+            this.selected.add(entry);
+          } else {
+            this.selected.delete(entry);
+          }
+        });
+        this.renderList();
+      });
+
+      const isCollapsed = this.collapsed.has(sourcePath);
+      const titleEl = headingEl.createEl('a', {
+        text: `${isCollapsed ? '▸' : '▾'} ${sourcePath.replace(/\.md$/, '')} (${group.length})`,
+        cls: 'obsicard-browser-group-title'
+      });
+      titleEl.addEventListener('click', () => {
+        if (isCollapsed) {
+          this.collapsed.delete(sourcePath);
+        } else {
+          this.collapsed.add(sourcePath);
+        }
+        this.renderList();
+      });
+
+      const openEl = headingEl.createEl('a', { text: 'Open', cls: 'obsicard-browser-open' });
+      openEl.addEventListener('click', () => {
+        void this.app.workspace.openLinkText(sourcePath, '', false);
+      });
+
+      if (!isCollapsed) {
+        group.forEach(entry => this.renderCard(groupEl, entry));
+      }
+    }
+  }
+
+  /**
+   * Draw a single card row
+   * @param containerEl - Group element
+   * @param entry - Indexed flashcard
+   */
+  private renderCard(containerEl: HTMLElement, entry: IndexedFlashcard): void {
+    const cardEl = containerEl.createDiv('obsicard-browser-card');
+
+    const checkbox = cardEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.selected.has(entry);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selected.add(entry);
+      } else {
+        this.selected.delete(entry);
+      }
+      this.renderList();
+    });
+
+    const bodyEl = cardEl.createDiv('obsicard-browser-card-body');
+    bodyEl.createDiv({ text: entry.card.front, cls: 'obsicard-browser-card-front' });
+    if (entry.card.back) {
+      bodyEl.createDiv({ text: entry.card.back, cls: 'obsicard-browser-card-back' });
+    }
+
+    const metaEl = bodyEl.createDiv('obsicard-browser-card-meta');
+    metaEl.createSpan({ text: STATE_LABELS[entry.state], cls: `obsicard-browser-state is-${entry.state}` });
+    entry.card.tags.forEach(tag => metaEl.createSpan({ text: `#${tag}`, cls: 'obsicard-browser-tag' }));
+    if (entry.filePath !== entry.sourcePath) {
+      metaEl.createSpan({ text: `in ${entry.filePath.replace(/\.md$/, '')}`, cls: 'obsicard-browser-location' });
+    }
+  }
+
+  /**
+   * Draw the selection summary and bulk action buttons
+   * @param visible - Cards that match the filters
+   */
+  private renderToolbar(visible: IndexedFlashcard[]): void {
+    if (!this.toolbarEl) {
+      return;
+    }
+
+    // Drop selected cards hidden by the filters, so actions only touch what is shown
+    const visibleSet = new Set(visible);
+    [...this.selected].filter(entry => !visibleSet.has(entry)).forEach(entry => this.selected.delete(entry));
+
+    const toolbarEl = this.toolbarEl;
+    toolbarEl.empty();
+
+    const selectAll = toolbarEl.createEl('input', { type: 'checkbox' });
+    selectAll.checked = visible.length > 0 && this.selected.size === visible.length;
+    selectAll.addEventListener('change', () => {
+      this.selected = new Set(selectAll.checked ? visible : []);
+      this.renderList();
+    });
+    toolbarEl.createSpan({ text: `${this.selected.size} of ${visible.length} selected` });
+
+    const actions: Array<{ text: string; run: (entries: IndexedFlashcard[]) => void; cls?: string }> = [
+      { text: 'Re-sync', run: entries => this.resync(entries) },
+      { text: 'Retag', run: entries => this.retag(entries) },
+      { text: 'Move to deck', run: entries => this.moveToDeck(entries) },
+      { text: 'Delete', run: entries => this.delete(entries), cls: 'mod-warning' }
+    ];
+
+    const buttonsEl = toolbarEl.createDiv('obsicard-browser-actions');
+    for (const action of actions) {
+      const button = buttonsEl.createEl('button', { text: action.text, cls: action.cls });
+      button.disabled = this.selected.size === 0;
+      button.addEventListener('click', () => action.run([...this.selected]));
+    }
+  }
+
+  /**
+   * Sync the selected cards to Anki
+   * @param entries - Selected cards
+   */
+  private resync(entries: IndexedFlashcard[]): void {
+    void this.runAction('Syncing flashcards...', async () => {
+      const result = await this.plugin.flashcardIndex.resync(entries);
+      return this.describeSync(result);
+    });
+  }
+
+  /**
+   * Ask for tags to add and remove on the selected cards
+   * @param entries - Selected cards
+   */
+  private retag(entries: IndexedFlashcard[]): void {
+    const tags = this.plugin.flashcardIndex.getTags(entries);
+    new RetagModal(this.app, entries.length, tags, (add, remove) => {
+      void this.runAction('Updating tags...', async () => {
+        const result = await this.plugin.flashcardIndex.retag(entries, add, remove);
+        return `✅ Retagged ${entries.length} flashcard(s)` + (result.synced > 0 ? ` • ${result.synced} updated in Anki` : '');
+      });
+    }).open();
+  }
+
+  /**
+   * Ask for a deck and move the selected cards to it
+   * @param entries - Selected cards
+   */
+  private async moveToDeck(entries: IndexedFlashcard[]): Promise<void> {
+    const deckNames = await this.plugin.ankiService.getDeckNames();
+    new MoveToDeckModal(this.app, entries.length, deckNames, this.plugin.settings.ankiDeckName, deckName => {
+      void this.runAction('Moving flashcards...', async () => {
+        const result = await this.plugin.flashcardIndex.moveToDeck(entries, deckName);
+        let message = `✅ Moved ${entries.length} flashcard(s) to ${deckName}`;
+        if (result.queued > 0) {
+          message += ` • ⏳ ${result.queued} queued`;
+        }
+        if (result.errors > 0) {
+          message += ` • ❌ ${result.errors} failed`;
+        }
+        return message;
+      });
+    }).open();
+  }
+
+  /**
+   * Confirm and delete the selected cards from their notes and Anki
+   * @param entries - Selected cards
+   */
+  private delete(entries: IndexedFlashcard[]): void {
+    const inAnki = entries.filter(entry => entry.state === CardSyncState.SYNCED).length;
+    const message = `Delete ${entries.length} flashcard(s) from their notes` +
+      (inAnki > 0 ? ` and ${inAnki} note(s) from Anki, including their review history?` : '?');
+
+    new ConfirmModal(this.app, 'Delete flashcards', message, 'Delete', () => {
+      void this.runAction('Deleting flashcards...', async () => {
+        const removed = await this.plugin.flashcardIndex.deleteFlashcards(entries);
+        return `✅ Deleted ${removed} flashcard(s)`;
+      });
+    }).open();
+  }
+
+  /**
+   * Run a bulk action with a progress notice, then re-index
+   * @param progressText - Text shown while the action runs
+   * @param action - Action returning the result message
+   */
+  private async runAction(progressText: string, action: () => Promise<string>): Promise<void> {
+    const notice = new Notice(progressText, 0);
+
+    try {
+      const message = await action();
+      notice.hide();
+      new Notice(message);
+    } catch (error) {
+      notice.hide();
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`❌ ${errorMessage}`);
+      console.error('Flashcard browser action failed:', error);
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Summarise a sync result
+   * @param result - Sync counts
+   * @returns Notice text
+   */
+  private describeSync(result: SyncResult): string {
+    let message = `✅ ${result.synced - result.updated} added, ${result.updated} updated in Anki`;
+    if (result.queued > 0) {
+      message += ` • ⏳ ${result.queued} queued`;
+    }
+    if (result.errors > 0) {
+      message += ` • ❌ ${result.errors} failed`;
+    }
+    return message;
+  }
+
+  /**
+   * Get the cards that match the search and filters
+   * @returns Matching cards
+   */
+  private getVisibleEntries(): IndexedFlashcard[] {
+    const matches = this.plugin.flashcardIndex.filterFlashcards(this.entries, this.query, this.tag || undefined);
+    return this.state ? matches.filter(entry => entry.state === this.state) : matches;
+  }
+}
@@ -0,0 +1,85 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Modal for choosing the Anki deck to move flashcards to
+ */
+export class MoveToDeckModal extends Modal {
+  private count: number;
+  private deckNames: string[];
+  private deckName: string;
+  private onSubmit: (deckName: string) => void;
+
+  constructor(
+    app: App,
+    count: number,
+    deckNames: string[],
+    initialDeckName: string,
+    onSubmit: (deckName: string) => void
+  ) {
+    super(app);
+    this.count = count;
+    this.deckNames = deckNames;
+    this.deckName = initialDeckName;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-browser-modal');
+
+    contentEl.createEl('h2', { text: 'Move flashcards to deck' });
+    contentEl.createEl('p', {
+      text: `Move ${this.count} flashcard(s). Cards not in Anki yet are added to the deck.`,
+      cls: 'setting-item-description'
+    });
+
+    if (this.deckNames.length > 0) {
+      new Setting(contentEl)
+        .setName('Existing deck')
+        .addDropdown(dropdown => {
+          dropdown.addOption('', 'Choose a deck...');
+          this.deckNames.forEach(name => dropdown.addOption(name, name));
+          dropdown
+            .setValue(this.deckNames.includes(this.deckName) ? this.deckName : '')
+            .onChange(value => {
+              if (value) {
+                this.deckName = value;
+                this.onOpen();
+              }
+            });
+        });
+    }
+
+    new Setting(contentEl)
+      .setName('Deck name')
+      .setDesc('A new deck is created if it does not exist.')
+      .addText(text => {
+        text
+          .setPlaceholder('ObsiCard::Biology')
+          .setValue(this.deckName)
+          .onChange(value => {
+            this.deckName = value.trim();
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      });
+
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const moveButton = buttonContainer.createEl('button', { text: 'Move', cls: 'mod-cta' });
+    moveButton.addEventListener('click', () => {
+      if (this.deckName) {
+        this.onSubmit(this.deckName);
+      }
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -1,22 +1,46 @@
 import { App, Modal, Setting } from 'obsidian';
-import { GenerationMode } from '../types';
+import { CardSource, CardType, GenerationMode, GenerationOptions, GenerationPlan } from '../types';
+import { TokenUtils } from '../utils/TokenUtils';
 
 /**
- * Modal for pre-generation configuration
+ * Modal for pre-generation configuration, pre-filled with the settings
+ * defaults and the overrides of the note. Shows what the generation will
+ * take as the options change.
  */
 export class PreGenerationModal extends Modal {
   private mode: GenerationMode = GenerationMode.DYNAMIC;
   private tags: string[] = [];
-  private onSubmit: (mode: GenerationMode, tags: string[]) => void;
+  private cardType: CardType;
+  private cardCount?: number;
+  private language: string;
+  private model?: string;
+  private cardSource?: CardSource;
+  private onSubmit: (options: GenerationOptions) => void;
+  private estimate?: (options: GenerationOptions) => GenerationPlan;
+  private estimateEl?: HTMLElement;
 
+  /**
+   * @param app - Obsidian app
+   * @param defaults - Options the form starts with
+   * @param onSubmit - Called with the chosen options
+   * @param estimate - Plans a generation with the given options, for the pre-flight estimate
+   */
   constructor(
     app: App,
-    defaultTags: string[],
-    onSubmit: (mode: GenerationMode, tags: string[]) => void
+    defaults: GenerationOptions,
+    onSubmit: (options: GenerationOptions) => void,
+    estimate?: (options: GenerationOptions) => GenerationPlan
   ) {
     super(app);
-    this.tags = [...defaultTags];
+    this.mode = defaults.mode;
+    this.tags = [...defaults.tags];
+    this.cardType = defaults.cardType;
+    this.cardCount = defaults.cardCount;
+    this.language = defaults.language ?? '';
+    this.model = defaults.model;
+    this.cardSource = defaults.cardSource;
     this.onSubmit = onSubmit;
+    this.estimate = estimate;
   }
 
   onOpen(): void {
@@ -30,6 +54,70 @@ export class PreGenerationModal extends Modal {
       cls: 'setting-item-description'
     });
 
+    // Card type selection
+    new Setting(contentEl)
+      .setName('Card type')
+      .setDesc('Basic: question and answer. Cloze: statements with hidden key terms.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(CardType.BASIC, 'Basic (question/answer)')
+          .addOption(CardType.CLOZE, 'Cloze deletion')
+          .setValue(this.cardType)
+          .onChange(value => {
+            this.cardType = value as CardType;
+            this.updateEstimate();
+          });
+      });
+
+    // Card count
+    new Setting(contentEl)
+      .setName('Number of cards')
+      .setDesc('Leave empty to let the AI pick 3-10 cards depending on the content.')
+      .addText(text => {
+        text
+          .setPlaceholder('Auto')
+          .setValue(this.cardCount ? String(this.cardCount) : '')
+          .onChange(value => {
+            const count = parseInt(value, 10);
+            this.cardCount = count > 0 ? count : undefined;
+            this.updateEstimate();
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+      });
+
+    // Language
+    new Setting(contentEl)
+      .setName('Language')
+      .setDesc('Language to write the flashcards in. Leave empty to use the language of the note.')
+      .addText(text => {
+        text
+          .setPlaceholder('Same as the note')
+          .setValue(this.language)
+          .onChange(value => {
+            this.language = value.trim();
+            this.updateEstimate();
+          });
+      });
+
+    // Source of the cards of long notes, only asked when it matters
+    const plan = this.estimate?.(this.getOptions());
+    if (!plan || plan.contentTokens > TokenUtils.SUMMARIZATION_THRESHOLD) {
+      new Setting(contentEl)
+        .setName('Long note')
+        .setDesc('Notes too long to send at once get cards from summaries of their parts, or from every part of the full text (more cards, more requests).')
+        .addDropdown(dropdown => {
+          dropdown
+            .addOption(CardSource.SUMMARY, 'From summaries')
+            .addOption(CardSource.ORIGINAL, 'From the full text')
+            .setValue(this.cardSource ?? CardSource.SUMMARY)
+            .onChange(value => {
+              this.cardSource = value as CardSource;
+              this.updateEstimate();
+            });
+        });
+    }
+
     // Mode selection
     new Setting(contentEl)
       .setName('Generation mode')
@@ -42,6 +130,7 @@ export class PreGenerationModal extends Modal {
           .onChange(value => {
             this.mode = value as GenerationMode;
             this.updateTagsVisibility();
+            this.updateEstimate();
           });
       });
 
@@ -93,6 +182,12 @@ export class PreGenerationModal extends Modal {
       });
     }
 
+    // Pre-flight estimate
+    if (this.estimate) {
+      this.estimateEl = contentEl.createDiv('pregen-estimate');
+      this.updateEstimate();
+    }
+
     // Buttons
     const buttonContainer2 = contentEl.createDiv('button-container');
 
@@ -104,11 +199,56 @@ export class PreGenerationModal extends Modal {
       cls: 'mod-cta'
     });
     generateButton.addEventListener('click', () => {
-      this.onSubmit(this.mode, this.tags);
+      this.onSubmit(this.getOptions());
       this.close();
     });
   }
 
+  /**
+   * Collect the chosen options
+   * @returns Generation options
+   */
+  private getOptions(): GenerationOptions {
+    return {
+      mode: this.mode,
+      tags: this.tags,
+      cardType: this.cardType,
+      cardCount: this.cardCount,
+      language: this.language || undefined,
+      model: this.model,
+      cardSource: this.cardSource
+    };
+  }
+
+  /**
+   * Show the tokens, requests and cost of a generation with the chosen options
+   */
+  private updateEstimate(): void {
+    if (!this.estimate || !this.estimateEl) {
+      return;
+    }
+
+    const plan = this.estimate(this.getOptions());
+    const parts = [
+      `~${(plan.promptTokens + plan.outputTokens).toLocaleString()} tokens`,
+      `${plan.requests} request${plan.requests === 1 ? '' : 's'}`
+    ];
+    if (plan.estimatedCost !== undefined) {
+      parts.push(`~$${plan.estimatedCost < 0.01 ? plan.estimatedCost.toFixed(4) : plan.estimatedCost.toFixed(2)}`);
+    }
+
+    this.estimateEl.empty();
+    this.estimateEl.createEl('p', { text: `Estimate: ${parts.join(' • ')}` });
+    const details = [
+      `${plan.contentTokens.toLocaleString()} tokens of content in ${plan.chunks} part${plan.chunks === 1 ? '' : 's'} of up to ${plan.chunkTokens.toLocaleString()}`
+    ];
+    if (plan.summarize) {
+      details.push(`summarized first in ${plan.summaryRequests} request${plan.summaryRequests === 1 ? '' : 's'}`);
+    }
+    details.push(`counted with: ${plan.tokenizer}`);
+    this.estimateEl.createEl('p', { text: details.join(', '), cls: 'setting-item-description' });
+  }
+
   /**
    * Update visibility of tags input based on mode
    */
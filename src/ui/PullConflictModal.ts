@@ -0,0 +1,119 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ConflictResolution, Flashcard, PullConflict } from '../types';
+
+/**
+ * Modal for resolving flashcards that were edited both in Obsidian and in Anki
+ */
+export class PullConflictModal extends Modal {
+  private conflicts: PullConflict[];
+  private resolutions: ConflictResolution[];
+  private onResolve: (resolutions: ConflictResolution[]) => void;
+
+  constructor(
+    app: App,
+    conflicts: PullConflict[],
+    onResolve: (resolutions: ConflictResolution[]) => void
+  ) {
+    super(app);
+    this.conflicts = conflicts;
+    this.resolutions = conflicts.map(() => ConflictResolution.SKIP);
+    this.onResolve = onResolve;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-conflict-modal');
+
+    contentEl.createEl('h2', { text: 'Resolve sync conflicts' });
+    contentEl.createEl('p', {
+      text: `${this.conflicts.length} flashcard(s) changed both in Obsidian and in Anki since the last sync.`,
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('Apply to all')
+      .addButton(button => {
+        button
+          .setButtonText('Keep all Obsidian versions')
+          .onClick(() => this.setAll(ConflictResolution.KEEP_OBSIDIAN));
+      })
+      .addButton(button => {
+        button
+          .setButtonText('Use all Anki versions')
+          .onClick(() => this.setAll(ConflictResolution.USE_ANKI));
+      });
+
+    this.conflicts.forEach((conflict, index) => {
+      const conflictEl = contentEl.createDiv('obsicard-conflict');
+      const columns = conflictEl.createDiv('obsicard-conflict-columns');
+      this.renderVersion(columns, 'Obsidian', conflict.local, conflict.remote);
+      this.renderVersion(columns, 'Anki', conflict.remote, conflict.local);
+
+      new Setting(conflictEl)
+        .setName('Keep')
+        .addDropdown(dropdown => {
+          dropdown
+            .addOption(ConflictResolution.KEEP_OBSIDIAN, 'Obsidian version (update Anki)')
+            .addOption(ConflictResolution.USE_ANKI, 'Anki version (update note)')
+            .addOption(ConflictResolution.SKIP, 'Decide later')
+            .setValue(this.resolutions[index])
+            .onChange(value => {
+              this.resolutions[index] = value as ConflictResolution;
+            });
+        });
+    });
+
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const applyButton = buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+    applyButton.addEventListener('click', () => {
+      this.onResolve([...this.resolutions]);
+      this.close();
+    });
+  }
+
+  /**
+   * Render one side of a conflict, highlighting fields that differ
+   * @param containerEl - Container element
+   * @param label - Side label
+   * @param card - Version to render
+   * @param other - Version on the other side
+   */
+  private renderVersion(containerEl: HTMLElement, label: string, card: Flashcard, other: Flashcard): void {
+    const versionEl = containerEl.createDiv('obsicard-conflict-version');
+    versionEl.createEl('h4', { text: label });
+
+    const fields: Array<[string, string, string]> = [
+      ['Front', card.front, other.front],
+      ['Back', card.back, other.back],
+      ['Tags', card.tags.join(', '), other.tags.join(', ')]
+    ];
+
+    for (const [name, value, otherValue] of fields) {
+      const fieldEl = versionEl.createDiv('obsicard-conflict-field');
+      if (value !== otherValue) {
+        fieldEl.addClass('is-changed');
+      }
+      fieldEl.createEl('strong', { text: `${name}: ` });
+      fieldEl.createSpan({ text: value || '(empty)' });
+    }
+  }
+
+  /**
+   * Set the same resolution for every conflict
+   * @param resolution - Resolution to apply
+   */
+  private setAll(resolution: ConflictResolution): void {
+    this.resolutions = this.conflicts.map(() => resolution);
+    this.onOpen();
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
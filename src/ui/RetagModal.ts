@@ -0,0 +1,92 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Modal for adding and removing tags on several flashcards at once
+ */
+export class RetagModal extends Modal {
+  private count: number;
+  private existingTags: string[];
+  private add: string[] = [];
+  private remove: string[] = [];
+  private onSubmit: (add: string[], remove: string[]) => void;
+
+  constructor(
+    app: App,
+    count: number,
+    existingTags: string[],
+    onSubmit: (add: string[], remove: string[]) => void
+  ) {
+    super(app);
+    this.count = count;
+    this.existingTags = existingTags;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-browser-modal');
+
+    contentEl.createEl('h2', { text: 'Retag flashcards' });
+    contentEl.createEl('p', {
+      text: `Change the tags of ${this.count} flashcard(s). Cards already in Anki are updated there too.`,
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('Add tags')
+      .setDesc('Comma-separated.')
+      .addText(text => {
+        text
+          .setPlaceholder('biology, exam')
+          .onChange(value => {
+            this.add = this.parseTags(value);
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      });
+
+    new Setting(contentEl)
+      .setName('Remove tags')
+      .setDesc(this.existingTags.length > 0
+        ? `Comma-separated. Current tags: ${this.existingTags.join(', ')}`
+        : 'Comma-separated.')
+      .addText(text => {
+        text
+          .setPlaceholder('draft')
+          .onChange(value => {
+            this.remove = this.parseTags(value);
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      });
+
+    const buttonContainer = contentEl.createDiv('button-container');
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const applyButton = buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+    applyButton.addEventListener('click', () => {
+      if (this.add.length + this.remove.length > 0) {
+        this.onSubmit([...this.add], [...this.remove]);
+      }
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Split comma-separated tags
+   * @param value - Input value
+   * @returns Tags without leading # or surrounding whitespace
+   */
+  private parseTags(value: string): string[] {
+    return value
+      .split(',')
+      .map(tag => tag.trim().replace(/^#/, ''))
+      .filter(tag => tag.length > 0);
+  }
+}
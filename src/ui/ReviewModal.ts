@@ -1,26 +1,48 @@
-import { App, Modal } from 'obsidian';
-import { Flashcard } from '../types';
+import { App, Modal, Notice } from 'obsidian';
+import { CardType, ChunkFailure, DeckRoute, DuplicateMatch, DuplicateSource, Flashcard, GenerationProgress, GenerationStage } from '../types';
+import { CardLinter } from '../services/CardLinter';
+import { DeckRouter } from '../services/DeckRouter';
+import { NOTE_OVERRIDE_KEYS } from '../services/NoteOverrideReader';
+import { ClozeUtils } from '../utils/ClozeUtils';
+import { EditFlashcardModal } from './EditFlashcardModal';
 
 /**
- * Modal for reviewing and approving flashcards
+ * Modal for reviewing and approving flashcards. It can open while the
+ * flashcards are still being generated and show them as they arrive.
  */
 export class ReviewModal extends Modal {
   private flashcards: Flashcard[];
   private selectedCards: Set<number>;
   private onApprove: (approved: Flashcard[], deckName: string) => void;
   private deckName: string;
+  private resolveDeck?: (flashcards: Flashcard[]) => DeckRoute;
+  private deckOverridden = false;
+  private onStopGeneration?: () => void; // Set while flashcards are still arriving
+  private generationStatus = '';
+  private duplicates = new Map<number, DuplicateMatch>(); // By card index
+  private minScore = 0;
+  private onRewrite?: (flashcard: Flashcard, problems: string[]) => Promise<Flashcard[]>;
 
+  /**
+   * @param app - Obsidian app instance
+   * @param flashcards - Generated flashcards
+   * @param onApprove - Called with the approved flashcards and the deck name
+   * @param initialDeckName - Deck shown when no routing is available
+   * @param resolveDeck - Deck routing for the selected flashcards, previewed live
+   */
   constructor(
     app: App,
     flashcards: Flashcard[],
     onApprove: (approved: Flashcard[], deckName: string) => void,
-    initialDeckName: string = 'ObsiCard'
+    initialDeckName: string = 'ObsiCard',
+    resolveDeck?: (flashcards: Flashcard[]) => DeckRoute
   ) {
     super(app);
     this.flashcards = flashcards;
     this.selectedCards = new Set(flashcards.map((_, i) => i)); // All selected by default
     this.onApprove = onApprove;
     this.deckName = initialDeckName;
+    this.resolveDeck = resolveDeck;
   }
 
   onOpen(): void {
@@ -32,10 +54,16 @@ export class ReviewModal extends Modal {
     // Header
     const header = contentEl.createDiv('review-header');
     header.createEl('h2', { text: 'Review flashcards' });
-    header.createEl('p', {
-      text: `${this.flashcards.length} flashcard(s) generated. Select the ones you want to keep.`,
-      cls: 'setting-item-description'
-    });
+    header.createEl('p', { cls: 'review-summary setting-item-description' });
+
+    // Generation progress, with a way to stop early
+    const statusEl = contentEl.createDiv('review-generation-status');
+    statusEl.createSpan({ cls: 'review-generation-text' });
+    const stopButton = statusEl.createEl('button', { text: 'Stop generating' });
+    stopButton.addEventListener('click', () => this.stopGeneration());
+
+    // Parts of the note that produced no flashcards
+    contentEl.createEl('ul', { cls: 'review-chunk-failures hidden' });
 
     // Toggle select all / deselect all
     const selectControls = contentEl.createDiv('select-controls');
@@ -68,9 +96,16 @@ export class ReviewModal extends Modal {
     });
 
     deckNameInput.addEventListener('input', (e) => {
-      this.deckName = (e.target as HTMLInputElement).value.trim() || 'ObsiCard';
+      const value = (e.target as HTMLInputElement).value.trim();
+      // Clearing the field hands the choice back to the routing rules
+      this.deckOverridden = value.length > 0;
+      this.deckName = value || 'ObsiCard';
+      this.updateDeckPreview();
     });
 
+    deckNameContainer.createDiv({ cls: 'deck-route-preview setting-item-description' });
+    this.updateDeckPreview();
+
     // Flashcard list
     const cardList = contentEl.createDiv('flashcard-list');
 
@@ -78,6 +113,7 @@ export class ReviewModal extends Modal {
       const cardEl = this.createFlashcardElement(card, index);
       cardList.appendChild(cardEl);
     });
+    this.updateGenerationStatus();
 
     // Buttons
     const buttonContainer = contentEl.createDiv('button-container');
@@ -108,6 +144,8 @@ export class ReviewModal extends Modal {
       if (approved.length === 0) {
         return; // Button should be disabled, but just in case
       }
+      // Saving what is there ends a generation that is still running
+      this.stopGeneration();
       this.onApprove(approved, this.deckName);
       this.close();
     });
@@ -119,6 +157,166 @@ export class ReviewModal extends Modal {
     this.watchForDragHandles();
   }
 
+  /**
+   * Show the modal as generating: flashcards are added with addFlashcards
+   * until finishGeneration is called
+   * @param onStop - Called when the user stops the generation or closes the modal
+   */
+  startGeneration(onStop: () => void): void {
+    this.onStopGeneration = onStop;
+    this.generationStatus = 'Generating flashcards...';
+    this.updateGenerationStatus();
+  }
+
+  /**
+   * Deselect flashcards scoring below a minimum, and offer to have the ones
+   * with problems rewritten
+   * @param minScore - Lowest quality score selected by default (0-100)
+   * @param onRewrite - Asks the model to fix the problems of a flashcard;
+   *   resolves with the flashcards replacing it
+   */
+  setQualityReview(minScore: number, onRewrite?: (flashcard: Flashcard, problems: string[]) => Promise<Flashcard[]>): void {
+    this.minScore = minScore;
+    this.onRewrite = onRewrite;
+    this.flashcards.forEach((card, index) => {
+      if (!this.meetsMinScore(card)) {
+        this.selectedCards.delete(index);
+      }
+    });
+  }
+
+  /**
+   * Add flashcards that have just been generated, selected unless they
+   * score below the minimum
+   * @param flashcards - New flashcards
+   */
+  addFlashcards(flashcards: Flashcard[]): void {
+    const cardList = this.contentEl.querySelector('.flashcard-list');
+
+    for (const card of flashcards) {
+      const index = this.flashcards.length;
+      this.flashcards.push(card);
+      if (this.meetsMinScore(card)) {
+        this.selectedCards.add(index);
+      }
+      cardList?.appendChild(this.createFlashcardElement(card, index));
+    }
+
+    this.updateCardSelection();
+    this.updateGenerationStatus();
+  }
+
+  /**
+   * Flag flashcards that are likely duplicates and deselect them
+   * @param matches - Duplicates found among the flashcards shown
+   */
+  markDuplicates(matches: DuplicateMatch[]): void {
+    const cardList = this.contentEl.querySelector('.flashcard-list');
+
+    for (const match of matches) {
+      const index = this.flashcards.indexOf(match.card);
+      if (index === -1) {
+        continue; // Edited since it was checked
+      }
+      this.duplicates.set(index, match);
+      this.selectedCards.delete(index);
+
+      const cardEl = cardList?.querySelector(`.flashcard-item[data-index="${index}"]`);
+      cardEl?.replaceWith(this.createFlashcardElement(match.card, index));
+    }
+
+    this.updateCardSelection();
+  }
+
+  /**
+   * Show how far the generation has got
+   * @param progress - Generation progress
+   */
+  setGenerationProgress(progress: GenerationProgress): void {
+    if (!this.onStopGeneration) {
+      return;
+    }
+
+    if (progress.stage === GenerationStage.SUMMARIZING) {
+      this.generationStatus = progress.chunksTotal > 1
+        ? `Summarizing part ${Math.min(progress.chunksDone + 1, progress.chunksTotal)} of ${progress.chunksTotal} before generating...`
+        : 'Summarizing the note before generating...';
+    } else if (progress.stage === GenerationStage.MERGING) {
+      this.generationStatus = `Merging ${progress.chunksTotal} summaries...`;
+    } else {
+      const chunk = Math.min(progress.chunksDone + 1, progress.chunksTotal);
+      this.generationStatus = progress.chunksTotal > 1
+        ? `Generating flashcards from part ${chunk} of ${progress.chunksTotal}...`
+        : 'Generating flashcards...';
+    }
+    this.updateGenerationStatus();
+  }
+
+  /**
+   * Report a part of the note that failed to generate
+   * @param failure - Failed part and the reason
+   */
+  addChunkFailure(failure: ChunkFailure): void {
+    const failureList = this.contentEl.querySelector('.review-chunk-failures');
+    if (!failureList) {
+      return;
+    }
+
+    failureList.classList.remove('hidden');
+    failureList.createEl('li', {
+      text: `Part ${failure.chunk} of ${failure.chunksTotal} failed: ${failure.reason}`
+    });
+  }
+
+  /**
+   * Leave the generating state
+   * @param message - Shown above the list, e.g. why no flashcards arrived
+   */
+  finishGeneration(message = ''): void {
+    this.onStopGeneration = undefined;
+    this.generationStatus = message;
+    this.updateGenerationStatus();
+  }
+
+  /**
+   * Stop a generation that is still running, keeping the flashcards so far
+   */
+  private stopGeneration(): void {
+    const onStop = this.onStopGeneration;
+    if (onStop) {
+      this.finishGeneration('Generation stopped.');
+      onStop();
+    }
+  }
+
+  /**
+   * Update the card count, progress line and stop button
+   */
+  private updateGenerationStatus(): void {
+    const generating = this.onStopGeneration !== undefined;
+
+    const summaryEl = this.contentEl.querySelector('.review-summary');
+    if (summaryEl) {
+      summaryEl.textContent = generating
+        ? `${this.flashcards.length} flashcard(s) so far. You can start selecting while the rest arrive.`
+        : `${this.flashcards.length} flashcard(s) generated. Select the ones you want to keep.`;
+    }
+
+    const statusEl = this.contentEl.querySelector('.review-generation-status') as HTMLElement | null;
+    if (statusEl) {
+      statusEl.classList.toggle('hidden', !this.generationStatus);
+      statusEl.classList.toggle('is-generating', generating);
+      const textEl = statusEl.querySelector('.review-generation-text');
+      if (textEl) {
+        textEl.textContent = this.generationStatus;
+      }
+      const stopButton = statusEl.querySelector('button');
+      if (stopButton) {
+        stopButton.classList.toggle('hidden', !generating);
+      }
+    }
+  }
+
   /**
    * Create a flashcard element
    */
@@ -141,8 +339,8 @@ export class ReviewModal extends Modal {
 
     // Make entire card clickable
     cardEl.addEventListener('click', (e) => {
-      // Don't trigger if clicking on edit button
-      if ((e.target as HTMLElement).closest('button')) return;
+      // Don't trigger if clicking on edit button or revealing a cloze deletion
+      if ((e.target as HTMLElement).closest('button, .obsicard-cloze-deletion')) return;
       
       const isSelected = this.selectedCards.has(index);
       if (isSelected) {
@@ -181,15 +379,29 @@ export class ReviewModal extends Modal {
       checkbox.dispatchEvent(new Event('change'));
     });
 
-    // Front
-    const frontDiv = cardEl.createDiv('card-front');
-    frontDiv.createEl('strong', { text: 'Front: ' });
-    frontDiv.createSpan({ text: card.front });
+    const quality = CardLinter.lint(card);
+    const scoreEl = checkboxContainer.createSpan({ cls: 'card-score', text: `Quality ${quality.score}` });
+    scoreEl.classList.toggle('is-low', quality.score < this.minScore);
+
+    if (card.type === CardType.CLOZE) {
+      this.renderClozePreview(cardEl, card);
+    } else {
+      // Front
+      const frontDiv = cardEl.createDiv('card-front');
+      frontDiv.createEl('strong', { text: 'Front: ' });
+      frontDiv.createSpan({ text: card.front });
+
+      // Back
+      const backDiv = cardEl.createDiv('card-back');
+      backDiv.createEl('strong', { text: 'Back: ' });
+      backDiv.createSpan({ text: card.back });
+    }
 
-    // Back
-    const backDiv = cardEl.createDiv('card-back');
-    backDiv.createEl('strong', { text: 'Back: ' });
-    backDiv.createSpan({ text: card.back });
+    const duplicate = this.duplicates.get(index);
+    if (duplicate) {
+      cardEl.classList.add('is-duplicate');
+      cardEl.createDiv({ cls: 'card-duplicate', text: this.describeDuplicate(duplicate) });
+    }
 
     // Tags
     if (card.tags && card.tags.length > 0) {
@@ -199,6 +411,12 @@ export class ReviewModal extends Modal {
       tagsSpan.textContent = card.tags.map(tag => `#${tag}`).join(' ');
     }
 
+    // Problems found by the card linter
+    if (quality.warnings.length > 0) {
+      const warningList = cardEl.createEl('ul', { cls: 'card-warnings' });
+      quality.warnings.forEach(warning => warningList.createEl('li', { text: warning.message }));
+    }
+
     // Edit button (optional)
     const editButton = cardEl.createEl('button', {
       text: 'Edit',
@@ -209,11 +427,149 @@ export class ReviewModal extends Modal {
       this.editFlashcard(card, index);
     });
 
+    const onRewrite = this.onRewrite;
+    if (onRewrite && quality.warnings.length > 0) {
+      const rewriteButton = cardEl.createEl('button', {
+        text: 'Rewrite',
+        cls: 'clickable-icon'
+      });
+      rewriteButton.setAttribute('aria-label', 'Ask the AI to fix these problems, splitting the card if needed');
+      rewriteButton.addEventListener('click', (e) => {
+        e.stopPropagation(); // Prevent card click
+        void this.rewriteFlashcard(card, index, quality.warnings.map(warning => warning.message), rewriteButton, onRewrite);
+      });
+    }
+
     this.updateCardAppearance(cardEl, checkbox.checked);
 
     return cardEl;
   }
 
+  /**
+   * Check whether a flashcard scores high enough to be selected by default
+   * @param card - Flashcard
+   * @returns True if its quality score is at least the minimum
+   */
+  private meetsMinScore(card: Flashcard): boolean {
+    return this.minScore <= 0 || CardLinter.lint(card).score >= this.minScore;
+  }
+
+  /**
+   * Have the model rewrite a flashcard and put the result in its place
+   * @param card - Flashcard to rewrite
+   * @param index - Index of the flashcard
+   * @param problems - Problems to fix
+   * @param button - Rewrite button, disabled while waiting
+   * @param onRewrite - Sends the rewrite request
+   */
+  private async rewriteFlashcard(
+    card: Flashcard,
+    index: number,
+    problems: string[],
+    button: HTMLButtonElement,
+    onRewrite: (flashcard: Flashcard, problems: string[]) => Promise<Flashcard[]>
+  ): Promise<void> {
+    button.disabled = true;
+    button.textContent = 'Rewriting...';
+
+    try {
+      const replacements = await onRewrite(card, problems);
+      // The card may have been edited or rewritten meanwhile
+      if (this.flashcards[index] === card && replacements.length > 0) {
+        this.replaceFlashcard(index, replacements);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to rewrite flashcard: ${errorMessage}`);
+      button.disabled = false;
+      button.textContent = 'Rewrite';
+    }
+  }
+
+  /**
+   * Replace a flashcard with one or more flashcards, keeping the selection
+   * and duplicate flags of the others
+   * @param index - Index of the flashcard to replace
+   * @param replacements - Flashcards taking its place
+   */
+  private replaceFlashcard(index: number, replacements: Flashcard[]): void {
+    const shift = replacements.length - 1;
+    const moved = (i: number) => i > index ? i + shift : i;
+
+    this.selectedCards = new Set([...this.selectedCards].filter(i => i !== index).map(moved));
+    this.duplicates = new Map([...this.duplicates].filter(([i]) => i !== index).map(([i, match]) => [moved(i), match]));
+    this.flashcards.splice(index, 1, ...replacements);
+    replacements.forEach((card, offset) => {
+      if (this.meetsMinScore(card)) {
+        this.selectedCards.add(index + offset);
+      }
+    });
+
+    // Refresh display
+    this.onOpen();
+  }
+
+  /**
+   * Say which existing card a flashcard repeats
+   * @param match - Duplicate match
+   * @returns Warning shown on the card
+   */
+  private describeDuplicate(match: DuplicateMatch): string {
+    let where: string;
+    switch (match.source) {
+      case DuplicateSource.BATCH: {
+        const earlier = this.flashcards.indexOf(match.existing);
+        where = earlier === -1 ? 'an earlier flashcard' : `flashcard ${earlier + 1} above`;
+        break;
+      }
+      case DuplicateSource.NOTE:
+        where = 'a card already in this note';
+        break;
+      case DuplicateSource.ANKI:
+        where = `a note in the Anki deck ${match.location}`;
+        break;
+      default:
+        where = `a card in ${match.location}`;
+    }
+
+    const front = match.existing.front.length > 80 ? `${match.existing.front.slice(0, 80)}…` : match.existing.front;
+    const similarity = `${Math.round(match.similarity * 100)}% similar${match.semantic ? ' in meaning' : ''}`;
+    return `Likely duplicate of ${where} (${similarity}): "${front}"`;
+  }
+
+  /**
+   * Render a cloze card as Anki shows it: deletions hidden until clicked
+   */
+  private renderClozePreview(cardEl: HTMLElement, card: Flashcard): void {
+    const textDiv = cardEl.createDiv('card-front');
+    textDiv.createEl('strong', { text: 'Cloze: ' });
+
+    for (const segment of ClozeUtils.segments(card.front)) {
+      if (segment.answer === undefined) {
+        textDiv.createSpan({ text: segment.text });
+        continue;
+      }
+
+      const answer = segment.answer;
+      const deletion = textDiv.createSpan({
+        text: segment.text,
+        cls: 'obsicard-cloze-deletion'
+      });
+      deletion.setAttribute('aria-label', 'Click to reveal');
+      deletion.addEventListener('click', (e) => {
+        e.stopPropagation(); // Prevent card click
+        const revealed = deletion.classList.toggle('is-revealed');
+        deletion.textContent = revealed ? answer : segment.text;
+      });
+    }
+
+    if (card.back) {
+      const extraDiv = cardEl.createDiv('card-back');
+      extraDiv.createEl('strong', { text: 'Extra: ' });
+      extraDiv.createSpan({ text: card.back });
+    }
+  }
+
   /**
    * Update card appearance based on selection
    */
@@ -241,6 +597,7 @@ export class ReviewModal extends Modal {
       }
     });
     this.updateSelectedCount();
+    this.updateDeckPreview();
     
     // Update toggle button text
     const toggleBtn = this.contentEl.querySelector('.select-controls button');
@@ -250,6 +607,37 @@ export class ReviewModal extends Modal {
     }
   }
 
+  /**
+   * Route the selected cards to a deck and show which rule picked it, unless
+   * a deck name was typed in
+   */
+  private updateDeckPreview(): void {
+    const previewEl = this.contentEl.querySelector('.deck-route-preview');
+    if (!this.resolveDeck || !previewEl) {
+      return;
+    }
+
+    if (this.deckOverridden) {
+      previewEl.textContent = 'Deck set by hand. Clear the field to use the routing rules.';
+      return;
+    }
+
+    const route = this.resolveDeck(this.flashcards.filter((_, i) => this.selectedCards.has(i)));
+    this.deckName = route.deckName;
+
+    const input = this.contentEl.querySelector('.deck-name-container input') as HTMLInputElement | null;
+    if (input && document.activeElement !== input) {
+      input.value = route.deckName;
+    }
+    if (route.fromNote) {
+      previewEl.textContent = `Set by the note's ${NOTE_OVERRIDE_KEYS.deck} property → ${route.deckName}`;
+    } else {
+      previewEl.textContent = route.rule
+        ? `Routed by rule: ${DeckRouter.describeRule(route.rule)} → ${route.deckName}`
+        : `No routing rule matches; using the default deck ${route.deckName}`;
+    }
+  }
+
   /**
    * Update selected count display
    */
@@ -286,6 +674,7 @@ export class ReviewModal extends Modal {
   private editFlashcard(card: Flashcard, index: number): void {
     const modal = new EditFlashcardModal(this.app, card, (updated) => {
       this.flashcards[index] = updated;
+      this.duplicates.delete(index);
       // Refresh display
       this.onOpen();
     });
@@ -337,72 +726,8 @@ export class ReviewModal extends Modal {
   }
 
   onClose(): void {
+    this.stopGeneration();
     const { contentEl } = this;
     contentEl.empty();
   }
 }
-
-/**
- * Simple modal for editing a flashcard
- */
-class EditFlashcardModal extends Modal {
-  private card: Flashcard;
-  private onSave: (card: Flashcard) => void;
-
-  constructor(app: App, card: Flashcard, onSave: (card: Flashcard) => void) {
-    super(app);
-    this.card = { ...card };
-    this.onSave = onSave;
-  }
-
-  onOpen(): void {
-    const { contentEl } = this;
-    contentEl.empty();
-    contentEl.addClass('obsicard-edit-modal');
-
-    contentEl.createEl('h2', { text: 'Edit flashcard' });
-
-    // Front
-    contentEl.createEl('label', { text: 'Front' });
-    const frontInput = contentEl.createEl('textarea');
-    frontInput.value = this.card.front;
-
-    // Back
-    contentEl.createEl('label', { text: 'Back' });
-    const backInput = contentEl.createEl('textarea');
-    backInput.value = this.card.back;
-
-    // Tags
-    contentEl.createEl('label', { text: 'Tags (comma-separated)' });
-    const tagsInput = contentEl.createEl('input', { type: 'text' });
-    tagsInput.value = this.card.tags.join(', ');
-
-    // Buttons
-    const buttonContainer = contentEl.createDiv('button-container');
-
-    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-    cancelButton.addEventListener('click', () => this.close());
-
-    const saveButton = buttonContainer.createEl('button', {
-      text: 'Save',
-      cls: 'mod-cta'
-    });
-    saveButton.addEventListener('click', () => {
-      this.card.front = frontInput.value.trim();
-      this.card.back = backInput.value.trim();
-      this.card.tags = tagsInput.value
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
-
-      this.onSave(this.card);
-      this.close();
-    });
-  }
-
-  onClose(): void {
-    const { contentEl } = this;
-    contentEl.empty();
-  }
-}
-
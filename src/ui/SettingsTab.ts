@@ -1,11 +1,15 @@
-import { App, PluginSettingTab, Setting, Notice, Modal } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, ButtonComponent } from 'obsidian';
 import ObsiCardPlugin from '../../main';
+import { CardSource, CardType, DEFAULT_SETTINGS, DeckRuleType, FieldMapping, FlashcardDestination, FlashcardField, LLMProviderType, OutputFormat } from '../types';
+import { ConfirmModal } from './ConfirmModal';
+import { SyncQueueModal } from './SyncQueueModal';
 
 /**
  * Settings tab for ObsiCard plugin
  */
 export class ObsiCardSettingsTab extends PluginSettingTab {
   plugin: ObsiCardPlugin;
+  private ankiModelNames: string[] = [];
 
   constructor(app: App, plugin: ObsiCardPlugin) {
     super(app, plugin);
@@ -18,71 +22,32 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
 
     new Setting(containerEl).setHeading().setName('ObsiCard settings');
 
-    // Groq API Settings
-    new Setting(containerEl).setHeading().setName('Groq API configuration');
+    // LLM Provider Settings
+    new Setting(containerEl).setHeading().setName('AI provider configuration');
 
     new Setting(containerEl)
-      .setName('Groq API key')
-      .setDesc('Your Groq API key for AI flashcard generation.')
-      .addText(text => {
-        text
-          .setPlaceholder('Enter your API key')
-          .setValue(this.plugin.settings.groqApiKey)
-          .onChange(async (value) => {
-            this.plugin.settings.groqApiKey = value;
-            await this.plugin.saveSettings();
-          });
-        text.inputEl.type = 'password';
-        text.inputEl.addClass('obsicard-setting-input');
-      })
-      .addButton(button => {
-        button
-          .setButtonText('Test connection')
-          .onClick(async () => {
-            const testButton = button.buttonEl;
-            testButton.disabled = true;
-            testButton.textContent = 'Testing...';
-
-            const result = await this.plugin.groqService.testConnection();
-            
-            if (result.success) {
-              new Notice(`✓ ${result.message}`);
-              testButton.textContent = 'Connected ✓';
-            } else {
-              new Notice(`✗ ${result.message}`);
-              testButton.textContent = 'Failed ✗';
-            }
-
-            setTimeout(() => {
-              testButton.disabled = false;
-              testButton.textContent = 'Test connection';
-            }, 2000);
-          });
-      });
-
-    new Setting(containerEl)
-      .setName('Groq model')
-      .setDesc('Model ID, e.g., llama-3.1-8b-instant (editable).')
-      .addText(text => {
-        text
-          .setPlaceholder('llama-3.1-8b-instant')
-          .setValue(this.plugin.settings.groqModel)
+      .setName('Provider')
+      .setDesc('Service used to generate flashcards.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(LLMProviderType.GROQ, 'Groq')
+          .addOption(LLMProviderType.OPENAI_COMPATIBLE, 'OpenAI-compatible (Ollama, llama.cpp, OpenRouter, ...)')
+          .addOption(LLMProviderType.AZURE_OPENAI, 'Azure OpenAI')
+          .addOption(LLMProviderType.ANTHROPIC, 'Anthropic')
+          .setValue(this.plugin.settings.llmProvider)
           .onChange(async (value) => {
-            this.plugin.settings.groqModel = value.trim();
-            await this.plugin.saveSettings();
-          });
-        text.inputEl.addClass('obsicard-setting-input');
-      })
-      .addExtraButton(button => {
-        button.setIcon('reset')
-          .setTooltip('Reset to recommended')
-          .onClick(async () => {
-            this.plugin.settings.groqModel = 'llama-3.1-8b-instant';
+            this.plugin.settings.llmProvider = value as LLMProviderType;
             await this.plugin.saveSettings();
             this.display();
           });
       });
 
+    if (this.plugin.settings.llmProvider === LLMProviderType.GROQ) {
+      this.displayGroqSettings(containerEl);
+    } else {
+      this.displayProviderSettings(containerEl);
+    }
+
     // Anki Settings
     new Setting(containerEl).setHeading().setName('Anki integration');
 
@@ -149,6 +114,8 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
           });
       });
 
+    this.displayDeckRules(containerEl);
+
     new Setting(containerEl)
       .setName('Auto-sync to Anki')
       .setDesc('Automatically sync approved flashcards to Anki.')
@@ -161,6 +128,9 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
           });
       });
 
+    this.displayNoteTypeSettings(containerEl, CardType.BASIC);
+    this.displayNoteTypeSettings(containerEl, CardType.CLOZE);
+
     // Advanced Settings
     new Setting(containerEl).setHeading().setName('Advanced settings');
 
@@ -181,6 +151,23 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
         text.inputEl.type = 'number';
       });
 
+    new Setting(containerEl)
+      .setName('Chunk overlap')
+      .setDesc('Tokens from the end of a chunk repeated at the start of the next when a section is split over several chunks, so the model sees what came before (0-1000, default: 0).')
+      .addText(text => {
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.chunkOverlap))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 1000) {
+              this.plugin.settings.chunkOverlap = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
     new Setting(containerEl)
       .setName('Maximum parallel requests')
       .setDesc('Maximum number of concurrent API requests (1-5, default: 3).')
@@ -198,6 +185,97 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
         text.inputEl.type = 'number';
       });
 
+    new Setting(containerEl)
+      .setName('Requests per minute')
+      .setDesc('Maximum AI requests per minute across all generations, including bulk runs (0 for no limit, default: 30).')
+      .addText(text => {
+        text
+          .setPlaceholder('30')
+          .setValue(String(this.plugin.settings.requestsPerMinute))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 1000) {
+              this.plugin.settings.requestsPerMinute = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('Tokens per minute')
+      .setDesc('Maximum AI tokens (prompt plus requested answer length) per minute across all generations. 0 uses the limit reported by the provider, e.g. 6000 for free Groq keys (default: 0).')
+      .addText(text => {
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.tokensPerMinute))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 10000000) {
+              this.plugin.settings.tokensPerMinute = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('Context window')
+      .setDesc('Tokens the model can read at once. Chunks are made small enough to fit it together with the prompt and the answer (0 if unknown, default: 0).')
+      .addText(text => {
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.contextWindow))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 10000000) {
+              this.plugin.settings.contextWindow = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('Tokenizer vocabulary')
+      .setDesc('Path of a tiktoken-format vocabulary in your vault, such as the tokenizer.model file of Llama 3, for exact token counts. Leave empty to estimate them.')
+      .addText(text => {
+        text
+          .setPlaceholder('Tokenizers/llama3.tiktoken')
+          .setValue(this.plugin.settings.tokenizerPath)
+          .onChange(value => {
+            this.plugin.settings.tokenizerPath = value.trim();
+          });
+        // Loaded once the path is complete, not on every keystroke
+        text.inputEl.addEventListener('change', () => {
+          void this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Stream generation')
+      .setDesc('Show flashcards in the review dialog while the AI is still writing them. Turn off if your endpoint does not support streaming.')
+      .addToggle(toggle => {
+        toggle
+          .setValue(this.plugin.settings.streamGeneration)
+          .onChange(async (value) => {
+            this.plugin.settings.streamGeneration = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Structured output')
+      .setDesc('Ask the AI provider to enforce the flashcard JSON format (JSON mode, or a tool schema for Anthropic). Turn off if your endpoint rejects the request.')
+      .addToggle(toggle => {
+        toggle
+          .setValue(this.plugin.settings.structuredOutput)
+          .onChange(async (value) => {
+            this.plugin.settings.structuredOutput = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
     new Setting(containerEl)
       .setName('Enable offline queue')
       .setDesc('Queue flashcards when Anki is offline and sync later.')
@@ -244,6 +322,139 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
         text.inputEl.addClass('obsicard-setting-input');
       });
 
+    new Setting(containerEl)
+      .setName('Default card type')
+      .setDesc('Card type preselected when generating flashcards.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(CardType.BASIC, 'Basic (question/answer)')
+          .addOption(CardType.CLOZE, 'Cloze deletion')
+          .setValue(this.plugin.settings.defaultCardType)
+          .onChange(async (value) => {
+            this.plugin.settings.defaultCardType = value as CardType;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cards for long notes')
+      .setDesc('Notes over 10,000 tokens can be summarized part by part first, with the summaries merged until short enough, or every part can be sent as it is. Summaries cover the whole note in fewer cards; the full text gives more detailed cards but takes more requests.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(CardSource.SUMMARY, 'From summaries')
+          .addOption(CardSource.ORIGINAL, 'From the full text')
+          .setValue(this.plugin.settings.longNoteCardSource)
+          .onChange(async (value) => {
+            this.plugin.settings.longNoteCardSource = value as CardSource;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Minimum card quality')
+      .setDesc('Flashcards are scored against spaced repetition best practices: one fact per card, no yes/no questions, no answer given away by the question, no vague pronouns or references to the source, short answers. Cards scoring lower start deselected in the review dialog. 0 selects all cards (0-100, default: 60).')
+      .addText(text => {
+        text
+          .setPlaceholder('60')
+          .setValue(String(this.plugin.settings.minCardScore))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 100) {
+              this.plugin.settings.minCardScore = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('Duplicate threshold')
+      .setDesc('How similar in wording (%) a new flashcard must be to a card in the note, elsewhere in the vault or earlier in the run to be flagged as a likely duplicate and deselected in the review dialog. 0 turns the check off (0-100, default: 60).')
+      .addText(text => {
+        text
+          .setPlaceholder('60')
+          .setValue(String(this.plugin.settings.duplicateThreshold))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 100) {
+              this.plugin.settings.duplicateThreshold = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('Check Anki deck for duplicates')
+      .setDesc('Compare new flashcards with the notes already in the target Anki deck as well. Needs Anki to be running.')
+      .addToggle(toggle => {
+        toggle
+          .setValue(this.plugin.settings.checkAnkiDuplicates)
+          .onChange(async (value) => {
+            this.plugin.settings.checkAnkiDuplicates = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Embedding model')
+      .setDesc('Embedding model of your provider, such as text-embedding-3-small (for Azure, the name of its deployment), used to also catch duplicates that are worded differently. Groq and Anthropic offer no embeddings. Leave empty to compare wording only.')
+      .addText(text => {
+        text
+          .setPlaceholder('text-embedding-3-small')
+          .setValue(this.plugin.settings.embeddingModel)
+          .onChange(async (value) => {
+            this.plugin.settings.embeddingModel = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Flashcard format')
+      .setDesc('Markdown syntax used when writing flashcards to notes. Existing Flashcards sections keep the syntax they use.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(OutputFormat.OBSICARD, 'ObsiCard')
+          .addOption(OutputFormat.SPACED_REPETITION, 'Spaced Repetition plugin')
+          .addOption(OutputFormat.OBSIDIAN_TO_ANKI, 'Obsidian_to_Anki plugin')
+          .setValue(this.plugin.settings.outputFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.outputFormat = value as OutputFormat;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Flashcard location')
+      .setDesc('Write generated flashcards into the note they come from, or into a separate companion note that links back to it.')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption(FlashcardDestination.SOURCE_NOTE, 'Source note')
+          .addOption(FlashcardDestination.COMPANION_NOTE, 'Companion note')
+          .setValue(this.plugin.settings.flashcardDestination)
+          .onChange(async (value) => {
+            this.plugin.settings.flashcardDestination = value as FlashcardDestination;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.flashcardDestination === FlashcardDestination.COMPANION_NOTE) {
+      new Setting(containerEl)
+        .setName('Companion note path')
+        .setDesc('Path of the companion note. {{folder}} is the folder of the source note and {{basename}} its name. Missing folders are created.')
+        .addText(text => {
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.companionNotePath)
+            .setValue(this.plugin.settings.companionNotePath)
+            .onChange(async (value) => {
+              this.plugin.settings.companionNotePath = value.trim() || DEFAULT_SETTINGS.companionNotePath;
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.addClass('obsicard-setting-input');
+        });
+    }
+
     // Queue Management
     new Setting(containerEl).setHeading().setName('Queue management');
 
@@ -252,6 +463,13 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
     new Setting(containerEl)
       .setName('Sync queue')
       .setDesc(`Currently ${queueStatus.count} flashcard(s) in queue.`)
+      .addButton(button => {
+        button
+          .setButtonText('Manage')
+          .onClick(() => {
+            new SyncQueueModal(this.app, this.plugin, () => this.display()).open();
+          });
+      })
       .addButton(button => {
         button
           .setButtonText('Process queue')
@@ -260,7 +478,7 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
             processButton.disabled = true;
             processButton.textContent = 'Processing...';
 
-            const synced = await this.plugin.ankiService.processQueue();
+            const synced = await this.plugin.ankiService.processQueue(true);
             
             if (synced > 0) {
               new Notice(`Successfully synced ${synced} flashcard(s) from queue`);
@@ -280,7 +498,9 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
           .onClick(() => {
             const confirmModal = new ConfirmModal(
               this.app,
+              'Clear queue',
               `Clear ${queueStatus.count} item(s) from queue?`,
+              'Clear',
               () => {
                 this.plugin.ankiService.clearQueue();
                 new Notice('Queue cleared');
@@ -291,6 +511,41 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
           });
       });
 
+    const deadLetters = queueStatus.deadLetters;
+    if (deadLetters.length > 0) {
+      const lastError = deadLetters[deadLetters.length - 1].lastError;
+      new Setting(containerEl)
+        .setName('Failed syncs')
+        .setDesc(`${deadLetters.length} flashcard(s) failed after all retries.${lastError ? ` Last error: ${lastError}` : ''}`)
+        .addButton(button => {
+          button
+            .setButtonText('Retry')
+            .onClick(() => {
+              const retried = this.plugin.ankiService.retryDeadLetters();
+              new Notice(`Moved ${retried} flashcard(s) back to the queue`);
+              this.display();
+            });
+        })
+        .addButton(button => {
+          button
+            .setButtonText('Discard')
+            .setWarning()
+            .onClick(() => {
+              new ConfirmModal(
+                this.app,
+                'Discard failed syncs',
+                `Discard ${deadLetters.length} failed flashcard(s)? They stay in your notes.`,
+                'Discard',
+                () => {
+                  this.plugin.ankiService.clearDeadLetters();
+                  new Notice('Failed syncs discarded');
+                  this.display();
+                }
+              ).open();
+            });
+        });
+    }
+
     // Help Section
     new Setting(containerEl).setHeading().setName('Help & resources');
 
@@ -328,46 +583,377 @@ export class ObsiCardSettingsTab extends PluginSettingTab {
     });
     ankiLink.addClass('obsicard-help-link');
   }
-}
 
-/**
- * Simple confirmation modal
- */
-class ConfirmModal extends Modal {
-  private message: string;
-  private onConfirm: () => void;
-
-  constructor(app: App, message: string, onConfirm: () => void) {
-    super(app);
-    this.message = message;
-    this.onConfirm = onConfirm;
+  /**
+   * Display settings for the hosted Groq API
+   * @param containerEl - Container element
+   */
+  private displayGroqSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Groq API key')
+      .setDesc('Your Groq API key for AI flashcard generation.')
+      .addText(text => {
+        text
+          .setPlaceholder('Enter your API key')
+          .setValue(this.plugin.settings.groqApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.groqApiKey = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'password';
+        text.inputEl.addClass('obsicard-setting-input');
+      })
+      .addButton(button => this.addProviderTestButton(button));
+
+    new Setting(containerEl)
+      .setName('Groq model')
+      .setDesc('Model ID, e.g., llama-3.1-8b-instant (editable).')
+      .addText(text => {
+        text
+          .setPlaceholder('llama-3.1-8b-instant')
+          .setValue(this.plugin.settings.groqModel)
+          .onChange(async (value) => {
+            this.plugin.settings.groqModel = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      })
+      .addExtraButton(button => {
+        button.setIcon('reset')
+          .setTooltip('Reset to recommended')
+          .onClick(async () => {
+            this.plugin.settings.groqModel = 'llama-3.1-8b-instant';
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
   }
 
-  onOpen(): void {
-    const { contentEl } = this;
-    contentEl.empty();
-    contentEl.addClass('obsicard-confirm-modal');
+  /**
+   * Display settings for non-Groq providers
+   * @param containerEl - Container element
+   */
+  private displayProviderSettings(containerEl: HTMLElement): void {
+    const provider = this.plugin.settings.llmProvider;
 
-    contentEl.createEl('p', { text: this.message });
+    const urlDescriptions: Record<string, string> = {
+      [LLMProviderType.OPENAI_COMPATIBLE]: 'Chat completions URL, e.g., http://localhost:11434/v1/chat/completions.',
+      [LLMProviderType.AZURE_OPENAI]: 'Deployment URL including api-version, e.g., https://<resource>.openai.azure.com/openai/deployments/<deployment>/chat/completions?api-version=2024-06-01.',
+      [LLMProviderType.ANTHROPIC]: 'Messages API URL (leave empty for https://api.anthropic.com/v1/messages).'
+    };
 
-    const buttonContainer = contentEl.createDiv('button-container');
+    new Setting(containerEl)
+      .setName('Endpoint URL')
+      .setDesc(urlDescriptions[provider] || '')
+      .addText(text => {
+        text
+          .setPlaceholder('https://...')
+          .setValue(this.plugin.settings.llmApiUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.llmApiUrl = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.addClass('obsicard-setting-input');
+      });
 
-    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-    cancelButton.addEventListener('click', () => this.close());
+    new Setting(containerEl)
+      .setName('API key')
+      .setDesc(provider === LLMProviderType.OPENAI_COMPATIBLE
+        ? 'API key sent as a bearer token (optional for local servers).'
+        : 'API key for the selected provider.')
+      .addText(text => {
+        text
+          .setPlaceholder('Enter your API key')
+          .setValue(this.plugin.settings.llmApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.llmApiKey = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'password';
+        text.inputEl.addClass('obsicard-setting-input');
+      })
+      .addButton(button => this.addProviderTestButton(button));
+
+    if (provider !== LLMProviderType.AZURE_OPENAI) {
+      new Setting(containerEl)
+        .setName('Model')
+        .setDesc('Model ID, e.g., llama3.1, openai/gpt-4o-mini, or claude-3-5-haiku-latest.')
+        .addText(text => {
+          text
+            .setPlaceholder('Model ID')
+            .setValue(this.plugin.settings.llmModel)
+            .onChange(async (value) => {
+              this.plugin.settings.llmModel = value.trim();
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.addClass('obsicard-setting-input');
+        });
+    }
+  }
 
-    const confirmButton = buttonContainer.createEl('button', {
-      text: 'Confirm',
-      cls: 'mod-cta mod-warning'
+  /**
+   * Display the deck routing rules, evaluated top to bottom
+   * @param containerEl - Container element
+   */
+  private displayDeckRules(containerEl: HTMLElement): void {
+    const rules = this.plugin.settings.deckRules;
+    const placeholders: Record<DeckRuleType, [string, string]> = {
+      [DeckRuleType.FOLDER]: ['Courses/*', 'Uni::$1'],
+      [DeckRuleType.FRONTMATTER]: ['anki-deck', '$1'],
+      [DeckRuleType.TAG]: ['exam', 'Exams::Current']
+    };
+
+    new Setting(containerEl)
+      .setName('Deck routing rules')
+      .setDesc('Send flashcards to a deck based on the folder, a frontmatter property or a tag of their note. The first matching rule wins; otherwise the deck above is used. In folder patterns * matches one folder, available as $1, $2, ... in the deck; a frontmatter rule puts the property value in $1. Use :: for nested decks.')
+      .addButton(button => {
+        button
+          .setButtonText('Add rule')
+          .onClick(async () => {
+            this.plugin.settings.deckRules = [...rules, { type: DeckRuleType.FOLDER, match: '', deck: '' }];
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    rules.forEach((rule, index) => {
+      const move = async (offset: number) => {
+        const reordered = rules.filter(other => other !== rule);
+        reordered.splice(index + offset, 0, rule);
+        this.plugin.settings.deckRules = reordered;
+        await this.plugin.saveSettings();
+        this.display();
+      };
+
+      new Setting(containerEl)
+        .setClass('obsicard-deck-rule')
+        .addDropdown(dropdown => {
+          dropdown
+            .addOption(DeckRuleType.FOLDER, 'Folder')
+            .addOption(DeckRuleType.FRONTMATTER, 'Frontmatter')
+            .addOption(DeckRuleType.TAG, 'Tag')
+            .setValue(rule.type)
+            .onChange(async (value) => {
+              rule.type = value as DeckRuleType;
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        })
+        .addText(text => {
+          text
+            .setPlaceholder(placeholders[rule.type][0])
+            .setValue(rule.match)
+            .onChange(async (value) => {
+              rule.match = value.trim();
+              await this.plugin.saveSettings();
+            });
+        })
+        .addText(text => {
+          text
+            .setPlaceholder(placeholders[rule.type][1])
+            .setValue(rule.deck)
+            .onChange(async (value) => {
+              rule.deck = value.trim();
+              await this.plugin.saveSettings();
+            });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('arrow-up')
+            .setTooltip('Move up')
+            .setDisabled(index === 0)
+            .onClick(() => move(-1));
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('arrow-down')
+            .setTooltip('Move down')
+            .setDisabled(index === rules.length - 1)
+            .onClick(() => move(1));
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('trash')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              this.plugin.settings.deckRules = rules.filter(other => other !== rule);
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
     });
-    confirmButton.addEventListener('click', () => {
-      this.onConfirm();
-      this.close();
+  }
+
+  /**
+   * Display the note type and field mapping used for one card type
+   * @param containerEl - Container element
+   * @param cardType - Card type the note type is used for
+   */
+  private displayNoteTypeSettings(containerEl: HTMLElement, cardType: CardType): void {
+    const settings = this.plugin.settings;
+    const isCloze = cardType === CardType.CLOZE;
+    const currentName = () => isCloze ? settings.ankiClozeNoteType : settings.ankiNoteType;
+    const currentMapping = () => isCloze ? settings.ankiClozeFieldMapping : settings.ankiFieldMapping;
+
+    const saveNoteType = async (name: string, fields: FieldMapping) => {
+      if (isCloze) {
+        settings.ankiClozeNoteType = name;
+        settings.ankiClozeFieldMapping = fields;
+      } else {
+        settings.ankiNoteType = name;
+        settings.ankiFieldMapping = fields;
+      }
+      await this.plugin.saveSettings();
+    };
+
+    const loadFields = async (name: string) => {
+      try {
+        const fieldNames = await this.plugin.ankiService.getModelFieldNames(name);
+        await saveNoteType(name, this.buildDefaultMapping(fieldNames, currentMapping()));
+        this.display();
+      } catch (error) {
+        new Notice(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    const noteTypeSetting = new Setting(containerEl)
+      .setName(isCloze ? 'Note type for cloze cards' : 'Note type for basic cards')
+      .setDesc(isCloze
+        ? 'Anki note type used for cloze cards. It must be a cloze note type.'
+        : 'Anki note type used for question/answer cards.');
+
+    if (this.ankiModelNames.length > 0) {
+      noteTypeSetting.addDropdown(dropdown => {
+        const names = this.ankiModelNames.includes(currentName())
+          ? this.ankiModelNames
+          : [currentName(), ...this.ankiModelNames];
+        names.forEach(name => dropdown.addOption(name, name));
+        dropdown
+          .setValue(currentName())
+          .onChange(async (value) => {
+            await loadFields(value);
+          });
+      });
+    } else {
+      noteTypeSetting.addText(text => {
+        text
+          .setPlaceholder(isCloze ? 'Cloze' : 'Basic')
+          .setValue(currentName())
+          .onChange(async (value) => {
+            await saveNoteType(value.trim(), currentMapping());
+          });
+      });
+    }
+
+    noteTypeSetting
+      .addButton(button => {
+        button
+          .setButtonText('Load from Anki')
+          .setTooltip('Load the note types in Anki and the fields of this note type')
+          .onClick(async () => {
+            try {
+              this.ankiModelNames = await this.plugin.ankiService.getModelNames();
+            } catch (error) {
+              new Notice(`✗ ${error instanceof Error ? error.message : String(error)}`);
+              return;
+            }
+            await loadFields(currentName());
+          });
+      })
+      .addButton(button => {
+        button
+          .setButtonText('Check mapping')
+          .onClick(async () => {
+            try {
+              const warnings = await this.plugin.ankiService.validateFieldMapping(currentName(), currentMapping());
+              new Notice(warnings.length === 0
+                ? '✓ Field mapping matches the note type in Anki'
+                : `⚠ ${warnings.join('\n')}`, warnings.length === 0 ? 4000 : 10000);
+            } catch (error) {
+              new Notice(`✗ Could not check mapping: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          });
+      });
+
+    const propertyLabels: Record<FlashcardField, string> = {
+      [FlashcardField.FRONT]: isCloze ? 'Cloze text' : 'Front (question)',
+      [FlashcardField.BACK]: isCloze ? 'Extra' : 'Back (answer)',
+      [FlashcardField.TAGS]: 'Tags',
+      [FlashcardField.SOURCE]: 'Source note name',
+      [FlashcardField.SOURCE_LINK]: 'Link to source note',
+      [FlashcardField.NONE]: '(leave empty)'
+    };
+
+    const mapping = currentMapping();
+    for (const fieldName of Object.keys(mapping)) {
+      new Setting(containerEl)
+        .setName(fieldName)
+        .setDesc('Flashcard content written to this Anki field.')
+        .setClass('obsicard-field-mapping')
+        .addDropdown(dropdown => {
+          for (const [property, label] of Object.entries(propertyLabels)) {
+            dropdown.addOption(property, label);
+          }
+          dropdown
+            .setValue(mapping[fieldName])
+            .onChange(async (value) => {
+              await saveNoteType(currentName(), { ...currentMapping(), [fieldName]: value as FlashcardField });
+            });
+        });
+    }
+  }
+
+  /**
+   * Build a field mapping for a note type's fields, keeping existing choices
+   * for fields with the same name
+   * @param fieldNames - Fields of the note type, in order
+   * @param previous - Mapping to carry choices over from
+   * @returns New field mapping
+   */
+  private buildDefaultMapping(fieldNames: string[], previous: FieldMapping): FieldMapping {
+    const mapping: FieldMapping = {};
+
+    fieldNames.forEach((fieldName, index) => {
+      if (previous[fieldName]) {
+        mapping[fieldName] = previous[fieldName];
+      } else if (index === 0) {
+        mapping[fieldName] = FlashcardField.FRONT;
+      } else if (index === 1) {
+        mapping[fieldName] = FlashcardField.BACK;
+      } else {
+        mapping[fieldName] = FlashcardField.NONE;
+      }
     });
+
+    return mapping;
   }
 
-  onClose(): void {
-    const { contentEl } = this;
-    contentEl.empty();
+  /**
+   * Configure a button that tests the active provider connection
+   * @param button - Button component
+   */
+  private addProviderTestButton(button: ButtonComponent): void {
+    button
+      .setButtonText('Test connection')
+      .onClick(async () => {
+        const testButton = button.buttonEl;
+        testButton.disabled = true;
+        testButton.textContent = 'Testing...';
+
+        const result = await this.plugin.groqService.testConnection();
+        
+        if (result.success) {
+          new Notice(`✓ ${result.message}`);
+          testButton.textContent = 'Connected ✓';
+        } else {
+          new Notice(`✗ ${result.message}`);
+          testButton.textContent = 'Failed ✗';
+        }
+
+        setTimeout(() => {
+          testButton.disabled = false;
+          testButton.textContent = 'Test connection';
+        }, 2000);
+      });
   }
 }
-
@@ -0,0 +1,250 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import ObsiCardPlugin from '../../main';
+import { Flashcard, QueuedSyncItem } from '../types';
+import { ConfirmModal } from './ConfirmModal';
+import { EditFlashcardModal } from './EditFlashcardModal';
+import { MoveToDeckModal } from './MoveToDeckModal';
+
+/**
+ * Modal listing the cards waiting in the Anki sync queue, including those
+ * that used up their retries, with tools to fix, retry or drop them
+ */
+export class SyncQueueModal extends Modal {
+  private plugin: ObsiCardPlugin;
+  private selected = new Set<string>();
+  private busy = false;
+  private onClosed?: () => void;
+
+  /**
+   * @param app - Obsidian app instance
+   * @param plugin - Plugin instance
+   * @param onClosed - Called when the modal closes, e.g. to refresh queue counts
+   */
+  constructor(app: App, plugin: ObsiCardPlugin, onClosed?: () => void) {
+    super(app);
+    this.plugin = plugin;
+    this.onClosed = onClosed;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('obsicard-browser-modal');
+    contentEl.addClass('obsicard-queue-modal');
+
+    const { items, deadLetters } = this.plugin.ankiService.getQueueStatus();
+    const all = [...items, ...deadLetters];
+    const keys = new Set(all.map(item => this.getKey(item)));
+    [...this.selected].filter(key => !keys.has(key)).forEach(key => this.selected.delete(key));
+
+    contentEl.createEl('h2', { text: 'Sync queue' });
+    contentEl.createEl('p', {
+      text: `${items.length} flashcard(s) waiting, ${deadLetters.length} failed after all retries.`,
+      cls: 'setting-item-description'
+    });
+
+    if (all.length === 0) {
+      contentEl.createDiv({ text: 'The sync queue is empty.', cls: 'obsicard-browser-empty' });
+    } else {
+      this.renderToolbar(contentEl, all);
+
+      const listEl = contentEl.createDiv('obsicard-queue-list');
+      items.forEach(item => this.renderItem(listEl, item, false));
+      deadLetters.forEach(item => this.renderItem(listEl, item, true));
+    }
+
+    const buttonContainer = contentEl.createDiv('button-container');
+    const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onClosed?.();
+  }
+
+  /**
+   * Draw the selection summary and bulk action buttons
+   * @param containerEl - Modal content
+   * @param all - Queued and dead-lettered items
+   */
+  private renderToolbar(containerEl: HTMLElement, all: QueuedSyncItem[]): void {
+    const toolbarEl = containerEl.createDiv('obsicard-browser-toolbar');
+
+    const selectAll = toolbarEl.createEl('input', { type: 'checkbox' });
+    selectAll.checked = this.selected.size === all.length;
+    selectAll.addEventListener('change', () => {
+      this.selected = new Set(selectAll.checked ? all.map(item => this.getKey(item)) : []);
+      this.onOpen();
+    });
+    toolbarEl.createSpan({ text: `${this.selected.size} of ${all.length} selected` });
+
+    const actions: Array<{ text: string; run: (keys: string[]) => void; cls?: string }> = [
+      { text: 'Retry', run: keys => this.retry(keys), cls: 'mod-cta' },
+      { text: 'Change deck', run: keys => this.changeDeck(keys) },
+      { text: 'Drop', run: keys => this.drop(keys), cls: 'mod-warning' }
+    ];
+
+    const buttonsEl = toolbarEl.createDiv('obsicard-browser-actions');
+    for (const action of actions) {
+      const button = buttonsEl.createEl('button', { text: action.text, cls: action.cls });
+      button.disabled = this.busy || this.selected.size === 0;
+      button.addEventListener('click', () => action.run([...this.selected]));
+    }
+  }
+
+  /**
+   * Draw a single queued card
+   * @param containerEl - List element
+   * @param item - Queued item
+   * @param isDead - Whether the item used up its retries
+   */
+  private renderItem(containerEl: HTMLElement, item: QueuedSyncItem, isDead: boolean): void {
+    const key = this.getKey(item);
+    const cardEl = containerEl.createDiv('obsicard-browser-card');
+
+    const checkbox = cardEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.selected.has(key);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selected.add(key);
+      } else {
+        this.selected.delete(key);
+      }
+      this.onOpen();
+    });
+
+    const bodyEl = cardEl.createDiv('obsicard-browser-card-body');
+    bodyEl.createDiv({ text: item.flashcard.front, cls: 'obsicard-browser-card-front' });
+
+    const metaEl = bodyEl.createDiv('obsicard-browser-card-meta');
+    metaEl.createSpan({
+      text: isDead ? 'Failed' : this.describeNextAttempt(item),
+      cls: `obsicard-browser-state ${isDead ? 'is-failed' : 'is-queued'}`
+    });
+    metaEl.createSpan({ text: item.deckName || this.plugin.settings.ankiDeckName, cls: 'obsicard-browser-location' });
+    metaEl.createSpan({ text: `queued ${this.formatAge(item.timestamp)}`, cls: 'obsicard-browser-location' });
+    metaEl.createSpan({ text: `${item.retryCount}/${this.plugin.settings.maxRetries} retries`, cls: 'obsicard-browser-location' });
+    if (item.filePath) {
+      metaEl.createSpan({ text: item.filePath.replace(/\.md$/, ''), cls: 'obsicard-browser-location' });
+    }
+
+    if (item.lastError) {
+      bodyEl.createDiv({ text: item.lastError, cls: 'obsicard-queue-error' });
+    }
+
+    const editButton = cardEl.createEl('button', { text: 'Edit' });
+    editButton.disabled = this.busy;
+    editButton.addEventListener('click', () => this.edit(key, item));
+  }
+
+  /**
+   * Edit a queued card, in the queue and in the note it is stored in
+   * @param key - Queue key of the item
+   * @param item - Queued item
+   */
+  private edit(key: string, item: QueuedSyncItem): void {
+    new EditFlashcardModal(this.app, item.flashcard, (updated: Flashcard) => {
+      this.plugin.ankiService.updateQueuedFlashcard(key, updated);
+
+      const file = item.filePath ? this.app.vault.getAbstractFileByPath(item.filePath) : null;
+      if (file instanceof TFile && updated.id) {
+        void this.plugin.markdownWriter.updateFlashcardContent(file, [updated]);
+      }
+      this.onOpen();
+    }).open();
+  }
+
+  /**
+   * Replay the selected items now
+   * @param keys - Queue keys of the items
+   */
+  private retry(keys: string[]): void {
+    this.busy = true;
+    this.onOpen();
+
+    void this.plugin.ankiService.retryQueued(keys)
+      .then(synced => {
+        if (synced === 0) {
+          new Notice('No flashcards synced. See the errors in the queue.');
+        }
+      })
+      .catch(error => {
+        console.error('Failed to retry queued flashcards:', error);
+        new Notice(`❌ Retry failed: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        this.busy = false;
+        this.onOpen();
+      });
+  }
+
+  /**
+   * Ask for the deck the selected items are replayed to
+   * @param keys - Queue keys of the items
+   */
+  private changeDeck(keys: string[]): void {
+    void this.plugin.ankiService.getDeckNames().then(deckNames => {
+      new MoveToDeckModal(this.app, keys.length, deckNames, this.plugin.settings.ankiDeckName, deckName => {
+        this.plugin.ankiService.setQueuedDeck(keys, deckName);
+        new Notice(`${keys.length} queued flashcard(s) will sync to ${deckName}`);
+        this.onOpen();
+      }).open();
+    });
+  }
+
+  /**
+   * Confirm and remove the selected items from the queue
+   * @param keys - Queue keys of the items
+   */
+  private drop(keys: string[]): void {
+    const message = `Drop ${keys.length} flashcard(s) from the sync queue? They stay in your notes but are not sent to Anki.`;
+    new ConfirmModal(this.app, 'Drop queued flashcards', message, 'Drop', () => {
+      this.plugin.ankiService.removeFromQueue(keys);
+      this.selected.clear();
+      this.onOpen();
+    }).open();
+  }
+
+  /**
+   * Describe when a waiting item is replayed next
+   * @param item - Queued item
+   * @returns Status text
+   */
+  private describeNextAttempt(item: QueuedSyncItem): string {
+    if (!item.nextAttempt || item.nextAttempt <= Date.now()) {
+      return 'Waiting';
+    }
+    return `Retry at ${new Date(item.nextAttempt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  }
+
+  /**
+   * Format how long ago a timestamp was
+   * @param timestamp - Time in milliseconds
+   * @returns Text such as "5 min ago"
+   */
+  private formatAge(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) {
+      return 'just now';
+    }
+    if (minutes < 60) {
+      return `${minutes} min ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+      return `${hours} h ago`;
+    }
+    return `${Math.floor(hours / 24)} d ago`;
+  }
+
+  /**
+   * Get the queue key of an item
+   * @param item - Queued item
+   * @returns Queue key
+   */
+  private getKey(item: QueuedSyncItem): string {
+    return this.plugin.ankiService.getQueueKey(item.flashcard);
+  }
+}
@@ -0,0 +1,108 @@
+import { Tokenizer } from '../types';
+
+/**
+ * Pre-tokenizer pattern of the Llama 3 tokenizer (shared with tiktoken's
+ * cl100k): contractions, words with one leading non-letter, numbers in
+ * groups of up to three digits, symbol runs, newlines and other whitespace
+ */
+export const LLAMA3_SPLIT_PATTERN = /'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Byte-level BPE tokenizer working from a tiktoken-format vocabulary: one
+ * `<base64 token> <rank>` pair per line, the format Llama 3 ships its
+ * `tokenizer.model` in. Only counts tokens; ids are not needed.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private static readonly CACHE_SIZE = 10000;
+  readonly name: string;
+  private ranks: Map<string, number>;
+  private cache = new Map<string, number>();
+  private encoder = new TextEncoder();
+
+  /**
+   * @param name - Name shown to the user
+   * @param ranks - Merge rank of each token, keyed by its bytes as a latin1 string
+   */
+  constructor(name: string, ranks: Map<string, number>) {
+    this.name = name;
+    this.ranks = ranks;
+  }
+
+  /**
+   * Load a tiktoken-format vocabulary
+   * @param name - Name shown to the user
+   * @param data - Vocabulary file contents
+   * @returns Tokenizer
+   * @throws Error if the file holds no tokens
+   */
+  static fromTiktoken(name: string, data: string): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of data.split('\n')) {
+      const [token, rank] = line.trim().split(/\s+/);
+      if (token && rank !== undefined) {
+        ranks.set(atob(token), Number(rank));
+      }
+    }
+
+    if (ranks.size === 0) {
+      throw new Error('Tokenizer file contains no tokens');
+    }
+    return new BpeTokenizer(name, ranks);
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const [piece] of text.matchAll(LLAMA3_SPLIT_PATTERN)) {
+      count += this.countPiece(piece);
+    }
+    return count;
+  }
+
+  /**
+   * Count the tokens of a single pre-tokenized piece, with caching
+   * @param piece - Piece of text
+   * @returns Token count
+   */
+  private countPiece(piece: string): number {
+    const cached = this.cache.get(piece);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const bytes = String.fromCharCode(...this.encoder.encode(piece));
+    const count = this.ranks.has(bytes) ? 1 : this.merge(bytes);
+
+    if (this.cache.size >= BpeTokenizer.CACHE_SIZE) {
+      this.cache.clear();
+    }
+    this.cache.set(piece, count);
+    return count;
+  }
+
+  /**
+   * Merge the bytes of a piece pair by pair, lowest rank first
+   * @param bytes - Bytes as a latin1 string
+   * @returns Number of tokens left
+   */
+  private merge(bytes: string): number {
+    // Start offsets of the current parts, plus the end
+    const bounds = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < bounds.length - 2; i++) {
+        const rank = this.ranks.get(bytes.slice(bounds[i], bounds[i + 2]));
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+
+      if (best === -1) {
+        return bounds.length - 1;
+      }
+      bounds.splice(best + 1, 1);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Thrown when work is stopped through its abort signal
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Helpers for stopping long-running work with an AbortSignal
+ */
+export class CancellationUtils {
+  /**
+   * Stop if the signal has been aborted
+   * @param signal - Abort signal, if any
+   * @throws CancelledError if the signal is aborted
+   */
+  static throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+  }
+
+  /**
+   * Wait for a promise, or stop waiting as soon as the signal is aborted.
+   * The underlying work is not stopped; its result is ignored.
+   * @param promise - Work to wait for
+   * @param signal - Abort signal, if any
+   * @returns Result of the promise
+   * @throws CancelledError if the signal is aborted first
+   */
+  static race<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+    if (signal.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new CancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Wait for a while, ending early when the signal is aborted
+   * @param ms - Milliseconds to wait
+   * @param signal - Abort signal, if any
+   */
+  static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Utility functions for Anki-style cloze deletions ({{c1::answer::hint}})
+ */
+export class ClozeUtils {
+  private static readonly CLOZE_REGEX = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+  /**
+   * Check whether text contains at least one cloze deletion
+   * @param text - Text to check
+   * @returns True if a deletion is present
+   */
+  static hasCloze(text: string): boolean {
+    return new RegExp(this.CLOZE_REGEX.source).test(text);
+  }
+
+  /**
+   * Check cloze syntax for problems
+   * @param text - Cloze text
+   * @returns List of errors (empty if well-formed)
+   */
+  static validate(text: string): string[] {
+    const errors: string[] = [];
+    const matches = [...text.matchAll(this.CLOZE_REGEX)];
+
+    if (matches.length === 0) {
+      errors.push('Cloze text must contain at least one {{c1::...}} deletion');
+      return errors;
+    }
+
+    for (const match of matches) {
+      const number = parseInt(match[1], 10);
+      if (number < 1) {
+        errors.push(`Cloze number must be 1 or higher (found c${match[1]})`);
+      }
+      if (match[2].trim().length === 0) {
+        errors.push(`Cloze deletion c${match[1]} is empty`);
+      }
+      if (match[2].includes('{{')) {
+        errors.push(`Cloze deletion c${match[1]} is nested or unclosed`);
+      }
+    }
+
+    // Anything left that looks like cloze markup is malformed
+    const remainder = text.replace(this.CLOZE_REGEX, '');
+    if (/\{\{c\d*:?|\{\{|\}\}/.test(remainder)) {
+      errors.push('Cloze text contains unbalanced or malformed {{...}} markup');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Replace deletions with placeholders, as Anki shows the question side
+   * @param text - Cloze text
+   * @returns Text with `[...]` (or `[hint]`) in place of each deletion
+   */
+  static hideDeletions(text: string): string {
+    return text.replace(this.CLOZE_REGEX, (_, _number: string, _answer: string, hint?: string) =>
+      hint ? `[${hint}]` : '[...]'
+    );
+  }
+
+  /**
+   * Replace deletions with their answers
+   * @param text - Cloze text
+   * @returns Plain text with all answers revealed
+   */
+  static revealDeletions(text: string): string {
+    return text.replace(this.CLOZE_REGEX, (_, _number: string, answer: string) => answer);
+  }
+
+  /**
+   * Split cloze text into plain and hidden segments for rendering
+   * @param text - Cloze text
+   * @returns Segments in order; deletions carry their answer and placeholder
+   */
+  static segments(text: string): Array<{ text: string; answer?: string }> {
+    const result: Array<{ text: string; answer?: string }> = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(this.CLOZE_REGEX)) {
+      const index = match.index ?? 0;
+      if (index > lastIndex) {
+        result.push({ text: text.substring(lastIndex, index) });
+      }
+      result.push({ text: match[3] ? `[${match[3]}]` : '[...]', answer: match[2] });
+      lastIndex = index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+      result.push({ text: text.substring(lastIndex) });
+    }
+
+    return result;
+  }
+}
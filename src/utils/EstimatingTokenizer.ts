@@ -0,0 +1,66 @@
+import { Tokenizer } from '../types';
+import { LLAMA3_SPLIT_PATTERN } from './BpeTokenizer';
+
+/**
+ * Characters most BPE vocabularies spend about one token each on
+ */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Letters outside the Latin script, which get far fewer merges
+ */
+const NON_LATIN_PATTERN = /[^\p{Script=Latin}\p{Script=Common}]/u;
+
+/**
+ * Tokenizer used when no vocabulary is available. It splits text the way
+ * Llama 3 does and estimates each piece from averages measured with Llama 3
+ * and cl100k vocabularies: short Latin words are a single token, longer
+ * ones about one token per four letters, numbers one token per three
+ * digits, CJK characters one token each, other scripts one token per two
+ * letters, and symbol runs (code, math) one token per two characters.
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  readonly name = 'Estimate';
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const [piece] of text.matchAll(LLAMA3_SPLIT_PATTERN)) {
+      count += this.estimatePiece(piece);
+    }
+    return count;
+  }
+
+  /**
+   * Estimate the tokens of a single pre-tokenized piece
+   * @param piece - Piece of text
+   * @returns Estimated token count, at least 1
+   */
+  private estimatePiece(piece: string): number {
+    const text = piece.trim();
+    if (!text) {
+      return 1; // Whitespace runs and newlines
+    }
+    if (/^\p{N}+$/u.test(text)) {
+      return 1; // The pre-tokenizer splits numbers into groups of three digits
+    }
+
+    if (/\p{L}/u.test(text)) {
+      let cjk = 0;
+      let nonLatin = 0;
+      let latin = 0;
+      for (const char of text) {
+        if (CJK_PATTERN.test(char)) {
+          cjk++;
+        } else if (NON_LATIN_PATTERN.test(char)) {
+          nonLatin++;
+        } else {
+          latin++;
+        }
+      }
+      const latinTokens = latin > 0 ? 1 + Math.ceil(Math.max(latin - 6, 0) / 4) : 0;
+      return Math.max(cjk + Math.ceil(nonLatin / 2) + latinTokens, 1);
+    }
+
+    return Math.ceil([...text].length / 2);
+  }
+}
@@ -0,0 +1,48 @@
+import { Flashcard } from '../types';
+
+/**
+ * Utility functions for stable flashcard identifiers
+ */
+export class IdUtils {
+  /**
+   * Generate a new flashcard ID
+   * @returns Short, URL-safe unique ID
+   */
+  static generateId(): string {
+    const time = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${time}${random}`;
+  }
+
+  /**
+   * Ensure every flashcard has an ID, assigning new ones where missing
+   * @param flashcards - Flashcards to check
+   * @returns The same flashcards, with IDs
+   */
+  static ensureIds(flashcards: Flashcard[]): Flashcard[] {
+    for (const card of flashcards) {
+      if (!card.id) {
+        card.id = this.generateId();
+      }
+    }
+    return flashcards;
+  }
+
+  /**
+   * Hash the content of a flashcard (front, back and tags)
+   * @param card - Flashcard to hash
+   * @returns Short hash that changes whenever the content changes
+   */
+  static contentHash(card: Flashcard): string {
+    const tags = [...card.tags].sort().join(' ');
+    const text = `${card.front.trim()}\u0000${card.back.trim()}\u0000${tags}`;
+
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Incremental parser that pulls the objects out of a JSON array while the
+ * array is still being generated. Text before the opening `[` (such as a
+ * code fence or an `{"flashcards":` wrapper) is skipped.
+ */
+export class JsonArrayStreamParser {
+  private text = '';
+  private position = 0;
+  private started = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+
+  /**
+   * Feed the next piece of the text
+   * @param text - Received text
+   * @returns Array elements completed by this piece that are objects
+   */
+  push(text: string): unknown[] {
+    this.text += text;
+    const objects: unknown[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (!this.started) {
+        if (char === '[') {
+          this.started = true;
+          this.depth = 1;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && this.depth === 1) {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (char === '}' && this.depth === 1 && this.objectStart !== -1) {
+          const parsed = this.parse(this.text.slice(this.objectStart, this.position + 1));
+          if (parsed !== undefined) {
+            objects.push(parsed);
+          }
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * Parse a complete element, ignoring ones the model got wrong
+   * @param json - Element text
+   * @returns Parsed value, or undefined if it is not valid JSON
+   */
+  private parse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,374 @@
+import { MarkdownBlock, MarkdownBlockType, TextChunk } from '../types';
+import { MarkdownParser } from './MarkdownParser';
+import { TokenUtils } from './TokenUtils';
+
+/**
+ * Heading in the breadcrumb of a section
+ */
+interface HeadingPath {
+  depth: number;
+  text: string;
+}
+
+/**
+ * Heading with the blocks up to the next heading; the part of the note
+ * before the first heading has no heading
+ */
+interface Section {
+  path: HeadingPath[];
+  blocks: MarkdownBlock[];
+}
+
+/**
+ * Smallest piece of a section that is put into a chunk: a whole block, or
+ * part of a block too large for one chunk
+ */
+interface Unit {
+  text: string;
+  separator: string; // Put between the unit and the one before it
+  tokens: number; // Including the separator
+  startLine: number;
+  endLine: number;
+  section: Section;
+  heading: boolean; // Heading of its section
+}
+
+/**
+ * Text of a block with the source lines it covers
+ */
+interface Segment {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Splits a note into chunks along its markdown structure. Chunks end at
+ * headings where possible, so a section that fits in a chunk is never
+ * split. Code blocks, math, tables, callouts and list items stay whole
+ * unless they are larger than a chunk themselves; then code and tables
+ * are split between lines, repeating their fences and header rows.
+ */
+export class MarkdownChunker {
+  /**
+   * Split a note into chunks
+   * @param text - Markdown text
+   * @param maxTokens - Maximum tokens per chunk
+   * @param overlapTokens - Tokens at the end of a split section repeated at the start of the next chunk
+   * @returns Chunks with their heading breadcrumb and source lines; none if the note has no content
+   */
+  static chunk(text: string, maxTokens: number, overlapTokens = 0): TextChunk[] {
+    const overlapLimit = Math.min(overlapTokens, Math.floor(maxTokens / 2));
+    const chunks: TextChunk[] = [];
+    let current: Unit[] = [];
+    let tokens = 0;
+
+    const flush = (): void => {
+      if (current.length > 0) {
+        chunks.push(this.createChunk(current, chunks.length));
+      }
+      current = [];
+      tokens = 0;
+    };
+
+    for (const section of this.toSections(MarkdownParser.parse(text))) {
+      const units = this.toUnits(section, maxTokens);
+
+      // A section starts a new chunk rather than being split over two;
+      // headings without text of their own stay with the section below them
+      if (tokens + this.sumTokens(units) > maxTokens && !current.every(unit => unit.heading)) {
+        flush();
+      }
+
+      for (const unit of units) {
+        if (current.length > 0 && tokens + unit.tokens > maxTokens) {
+          const overlap = this.takeOverlap(current, unit, overlapLimit, maxTokens);
+          flush();
+          current = overlap;
+          tokens = overlap.length > 0 ? this.countBreadcrumb(overlap[0]) + this.sumTokens(overlap) : 0;
+        }
+        if (current.length === 0) {
+          tokens += this.countBreadcrumb(unit);
+        }
+        current.push(unit);
+        tokens += unit.tokens;
+      }
+    }
+    flush();
+
+    return chunks;
+  }
+
+  /**
+   * Group blocks under their headings. Frontmatter and comments are left out.
+   * @param blocks - Blocks of the note
+   * @returns Sections with at least one block
+   */
+  private static toSections(blocks: MarkdownBlock[]): Section[] {
+    const sections: Section[] = [{ path: [], blocks: [] }];
+    let path: HeadingPath[] = [];
+
+    for (const block of blocks) {
+      if (block.type === MarkdownBlockType.FRONTMATTER || block.type === MarkdownBlockType.COMMENT) {
+        continue;
+      }
+
+      if (block.type === MarkdownBlockType.HEADING) {
+        const depth = block.depth ?? 1;
+        path = [...path.filter(heading => heading.depth < depth), { depth, text: block.heading ?? '' }];
+        sections.push({ path, blocks: [block] });
+      } else {
+        sections[sections.length - 1].blocks.push(block);
+      }
+    }
+
+    return sections.filter(section => section.blocks.length > 0);
+  }
+
+  /**
+   * Turn the blocks of a section into units, splitting blocks larger than a chunk
+   * @param section - Section
+   * @param maxTokens - Maximum tokens per chunk
+   * @returns Units in document order
+   */
+  private static toUnits(section: Section, maxTokens: number): Unit[] {
+    const units: Unit[] = [];
+    const separatorTokens = TokenUtils.countTokens('\n\n');
+
+    for (const block of section.blocks) {
+      const heading = block.type === MarkdownBlockType.HEADING;
+      const blockTokens = TokenUtils.countTokens(block.text) + separatorTokens;
+      const segments = blockTokens <= maxTokens ? [block] : this.splitBlock(block, maxTokens);
+
+      segments.forEach((segment, index) => {
+        const separator = index === 0 ? '\n\n' : '\n';
+        units.push({
+          text: segment.text,
+          separator,
+          tokens: segments.length === 1 ? blockTokens : TokenUtils.countTokens(separator + segment.text),
+          startLine: segment.startLine,
+          endLine: segment.endLine,
+          section,
+          heading
+        });
+      });
+    }
+
+    return units;
+  }
+
+  /**
+   * Split a block larger than a chunk into pieces that fit
+   * @param block - Block
+   * @param maxTokens - Maximum tokens per chunk
+   * @returns Pieces in document order
+   */
+  private static splitBlock(block: MarkdownBlock, maxTokens: number): Segment[] {
+    const lines = this.toLines(block);
+
+    switch (block.type) {
+      case MarkdownBlockType.PARAGRAPH:
+        return this.pack(this.toSentences(block, maxTokens), maxTokens, ' ');
+
+      case MarkdownBlockType.LIST: {
+        // Whole items where they fit, their lines otherwise
+        const starts = [...(block.items ?? [0]), lines.length];
+        const items = starts.slice(0, -1).flatMap((start, index) => {
+          const item = this.joinLines(lines.slice(start, starts[index + 1]));
+          return TokenUtils.countTokens(item.text) < maxTokens ? [item] : lines.slice(start, starts[index + 1]);
+        });
+        return this.pack(items, maxTokens, '\n');
+      }
+
+      case MarkdownBlockType.CODE:
+      case MarkdownBlockType.MATH: {
+        // Each piece keeps the opening and closing fence or delimiter
+        const header = lines.length > 1 && /^\s*(```|~~~|\$\$\s*$)/.test(lines[0].text) ? [lines[0].text] : [];
+        const closing = lines[lines.length - 1].text.trim();
+        const footer = lines.length > 1 && /^(`{3,}|~{3,}|\$\$)$/.test(closing) ? [lines[lines.length - 1].text] : [];
+        return this.pack(lines.slice(header.length, lines.length - footer.length), maxTokens, '\n', header, footer);
+      }
+
+      case MarkdownBlockType.TABLE:
+        // Each piece repeats the header and delimiter rows
+        return this.pack(lines.slice(2), maxTokens, '\n', lines.slice(0, 2).map(line => line.text));
+
+      case MarkdownBlockType.QUOTE: {
+        // Each piece of a callout keeps its title line
+        const header = /^\s*>\s*\[!/.test(lines[0].text) ? [lines[0].text] : [];
+        return this.pack(lines.slice(header.length), maxTokens, '\n', header);
+      }
+
+      default:
+        return this.pack(lines, maxTokens, '\n');
+    }
+  }
+
+  /**
+   * Split a paragraph into sentences, and sentences larger than a chunk into words
+   * @param block - Paragraph
+   * @param maxTokens - Maximum tokens per chunk
+   * @returns Sentences and words with their source lines
+   */
+  private static toSentences(block: MarkdownBlock, maxTokens: number): Segment[] {
+    const lineAt = (offset: number): number => block.startLine + (block.text.slice(0, offset).match(/\n/g)?.length ?? 0);
+    const segmentsOf = (text: string, offset: number, pattern: RegExp): Segment[] =>
+      [...text.matchAll(pattern)].map(match => ({
+        text: match[0].trim(),
+        startLine: lineAt(offset + (match.index ?? 0)),
+        endLine: lineAt(offset + (match.index ?? 0) + match[0].length - 1)
+      }));
+
+    const sentencePattern = /\S[\s\S]*?(?:[.!?]+(?=\s|$)|$)/g;
+    return [...block.text.matchAll(sentencePattern)].flatMap(match => {
+      const sentence = match[0];
+      return TokenUtils.countTokens(sentence) < maxTokens
+        ? segmentsOf(sentence, match.index ?? 0, /[\s\S]+/g)
+        : segmentsOf(sentence, match.index ?? 0, /\S+/g);
+    });
+  }
+
+  /**
+   * Combine consecutive segments into pieces of up to a chunk each
+   * @param segments - Segments in document order
+   * @param maxTokens - Maximum tokens per piece
+   * @param joiner - Put between segments
+   * @param header - Lines every piece starts with
+   * @param footer - Lines every piece ends with
+   * @returns Pieces
+   */
+  private static pack(segments: Segment[], maxTokens: number, joiner: string, header: string[] = [], footer: string[] = []): Segment[] {
+    const frame = TokenUtils.countTokens([...header, ...footer].join('\n')) + 2;
+    const joinerTokens = TokenUtils.countTokens(joiner);
+    const pieces: Segment[] = [];
+    let current: Segment[] = [];
+    let tokens = frame;
+
+    const flush = (): void => {
+      if (current.length > 0) {
+        pieces.push({
+          text: [...header, current.map(segment => segment.text).join(joiner), ...footer].join('\n'),
+          startLine: current[0].startLine,
+          endLine: current[current.length - 1].endLine
+        });
+      }
+      current = [];
+      tokens = frame;
+    };
+
+    for (const segment of segments) {
+      const segmentTokens = TokenUtils.countTokens(segment.text) + joinerTokens;
+      if (current.length > 0 && tokens + segmentTokens > maxTokens) {
+        flush();
+      }
+      current.push(segment);
+      tokens += segmentTokens;
+    }
+    flush();
+
+    return pieces;
+  }
+
+  /**
+   * Take the units at the end of a full chunk that are repeated at the
+   * start of the next, when that continues the same section
+   * @param units - Units of the full chunk
+   * @param next - Unit the next chunk starts with
+   * @param overlapTokens - Maximum tokens to repeat
+   * @param maxTokens - Maximum tokens per chunk
+   * @returns Units to repeat, possibly none
+   */
+  private static takeOverlap(units: Unit[], next: Unit, overlapTokens: number, maxTokens: number): Unit[] {
+    const overlap: Unit[] = [];
+    let tokens = 0;
+
+    for (let index = units.length - 1; index > 0 && overlapTokens > 0; index--) {
+      const unit = units[index];
+      if (unit.section !== next.section || tokens + unit.tokens > overlapTokens) {
+        break;
+      }
+      overlap.unshift(unit);
+      tokens += unit.tokens;
+    }
+
+    const fits = overlap.length > 0 && this.countBreadcrumb(overlap[0]) + tokens + next.tokens <= maxTokens;
+    return fits ? overlap : [];
+  }
+
+  /**
+   * Build a chunk, starting it with the headings above its first unit
+   * @param units - Units of the chunk
+   * @param index - Index of the chunk
+   * @returns Chunk
+   */
+  private static createChunk(units: Unit[], index: number): TextChunk {
+    const breadcrumb = this.getBreadcrumb(units[0]);
+    let content = breadcrumb.map(heading => `${'#'.repeat(heading.depth)} ${heading.text}`).join('\n');
+    for (const unit of units) {
+      content += content ? unit.separator + unit.text : unit.text;
+    }
+
+    return {
+      content,
+      tokenCount: TokenUtils.countTokens(content),
+      index,
+      headings: units[0].section.path.map(heading => heading.text),
+      startLine: Math.min(...units.map(unit => unit.startLine)),
+      endLine: Math.max(...units.map(unit => unit.endLine))
+    };
+  }
+
+  /**
+   * Headings to restore above a chunk starting with a unit: all headings of
+   * its section, except the section's own if the unit is that heading
+   * @param unit - First unit of the chunk
+   * @returns Headings, outermost first
+   */
+  private static getBreadcrumb(unit: Unit): HeadingPath[] {
+    return unit.heading ? unit.section.path.slice(0, -1) : unit.section.path;
+  }
+
+  /**
+   * Count the tokens of the breadcrumb above a chunk starting with a unit
+   * @param unit - First unit of the chunk
+   * @returns Token count
+   */
+  private static countBreadcrumb(unit: Unit): number {
+    return this.getBreadcrumb(unit).reduce((total, heading) => total + TokenUtils.countTokens(`${'#'.repeat(heading.depth)} ${heading.text}\n`), 0);
+  }
+
+  /**
+   * Sum the tokens of units
+   * @param units - Units
+   * @returns Token count
+   */
+  private static sumTokens(units: Unit[]): number {
+    return units.reduce((total, unit) => total + unit.tokens, 0);
+  }
+
+  /**
+   * Split a block into its lines
+   * @param block - Block
+   * @returns Lines with their source line numbers
+   */
+  private static toLines(block: MarkdownBlock): Segment[] {
+    return block.text.split('\n').map((text, index) => ({
+      text,
+      startLine: block.startLine + index,
+      endLine: block.startLine + index
+    }));
+  }
+
+  /**
+   * Join consecutive lines into one segment
+   * @param lines - Lines in document order
+   * @returns Segment covering the lines
+   */
+  private static joinLines(lines: Segment[]): Segment {
+    return {
+      text: lines.map(line => line.text).join('\n'),
+      startLine: lines[0].startLine,
+      endLine: lines[lines.length - 1].endLine
+    };
+  }
+}
@@ -0,0 +1,263 @@
+import { MarkdownBlock, MarkdownBlockType } from '../types';
+
+/**
+ * Block-level markdown parser: splits a note into its top-level blocks
+ * (headings, paragraphs, lists, code, math, tables, quotes and callouts)
+ * with their source lines. Inline markup is left as it is.
+ */
+export class MarkdownParser {
+  private static readonly FENCE = /^ {0,3}(`{3,}|~{3,})/;
+  private static readonly HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+  private static readonly SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+  private static readonly LIST_ITEM = /^[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)/;
+  private static readonly RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+  private static readonly QUOTE = /^ {0,3}>/;
+  private static readonly TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+  /**
+   * Parse a markdown document into blocks
+   * @param text - Markdown text
+   * @returns Top-level blocks in document order; blank lines are left out
+   */
+  static parse(text: string): MarkdownBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: MarkdownBlock[] = [];
+    let line = 0;
+
+    const frontmatter = this.readFrontmatter(lines);
+    if (frontmatter) {
+      blocks.push(frontmatter);
+      line = frontmatter.endLine + 1;
+    }
+
+    while (line < lines.length) {
+      if (!lines[line].trim()) {
+        line++;
+        continue;
+      }
+      const block = this.readBlock(lines, line);
+      blocks.push(block);
+      line = block.endLine + 1;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Read the YAML frontmatter at the start of a note
+   * @param lines - Lines of the note
+   * @returns Frontmatter block, or undefined if the note has none
+   */
+  private static readFrontmatter(lines: string[]): MarkdownBlock | undefined {
+    if (lines[0]?.trim() !== '---') {
+      return undefined;
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'));
+    return end === -1 ? undefined : this.createBlock(MarkdownBlockType.FRONTMATTER, lines, 0, end);
+  }
+
+  /**
+   * Read the block starting at a non-blank line
+   * @param lines - Lines of the note
+   * @param start - First line of the block
+   * @returns Block
+   */
+  private static readBlock(lines: string[], start: number): MarkdownBlock {
+    const line = lines[start];
+
+    const fence = line.match(this.FENCE);
+    if (fence) {
+      return this.createBlock(MarkdownBlockType.CODE, lines, start, this.findFenceEnd(lines, start, fence[1]));
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('$$')) {
+      return this.createBlock(MarkdownBlockType.MATH, lines, start, this.findDelimiterEnd(lines, start, '$$'));
+    }
+    if (trimmed.startsWith('%%')) {
+      return this.createBlock(MarkdownBlockType.COMMENT, lines, start, this.findDelimiterEnd(lines, start, '%%'));
+    }
+
+    const heading = line.match(this.HEADING);
+    if (heading) {
+      return {
+        ...this.createBlock(MarkdownBlockType.HEADING, lines, start, start),
+        depth: heading[1].length,
+        heading: heading[2]?.trim() ?? ''
+      };
+    }
+
+    if (this.RULE.test(line)) {
+      return this.createBlock(MarkdownBlockType.RULE, lines, start, start);
+    }
+    if (this.QUOTE.test(line)) {
+      let end = start;
+      while (end + 1 < lines.length && this.QUOTE.test(lines[end + 1])) {
+        end++;
+      }
+      return this.createBlock(MarkdownBlockType.QUOTE, lines, start, end);
+    }
+    if (this.isTableStart(lines, start)) {
+      let end = start + 1;
+      while (end + 1 < lines.length && lines[end + 1].trim() && lines[end + 1].includes('|')) {
+        end++;
+      }
+      return this.createBlock(MarkdownBlockType.TABLE, lines, start, end);
+    }
+    if (this.LIST_ITEM.test(line)) {
+      return this.readList(lines, start);
+    }
+
+    return this.readParagraph(lines, start);
+  }
+
+  /**
+   * Read a list, including nested items, continuation lines and blank
+   * lines between items
+   * @param lines - Lines of the note
+   * @param start - First line of the list
+   * @returns List block with the lines its top-level items start at
+   */
+  private static readList(lines: string[], start: number): MarkdownBlock {
+    const baseIndent = this.indentOf(lines[start]);
+    const items = [0];
+    let end = start;
+
+    for (let line = start + 1; line < lines.length; line++) {
+      const text = lines[line];
+      if (!text.trim()) {
+        continue;
+      }
+
+      const indent = this.indentOf(text);
+      const afterBlank = !lines[line - 1].trim();
+      if (indent <= baseIndent && this.LIST_ITEM.test(text) && !this.RULE.test(text)) {
+        items.push(line - start);
+      } else if (indent <= baseIndent && (afterBlank || this.startsBlock(lines, line))) {
+        break;
+      }
+      end = line;
+    }
+
+    return { ...this.createBlock(MarkdownBlockType.LIST, lines, start, end), items };
+  }
+
+  /**
+   * Read a paragraph: lines up to a blank line or the start of another block.
+   * A paragraph underlined with `===` or `---` is a heading.
+   * @param lines - Lines of the note
+   * @param start - First line of the paragraph
+   * @returns Paragraph or heading block
+   */
+  private static readParagraph(lines: string[], start: number): MarkdownBlock {
+    let end = start;
+    for (let line = start + 1; line < lines.length && lines[line].trim(); line++) {
+      const underline = lines[line].match(this.SETEXT_UNDERLINE);
+      if (underline) {
+        return {
+          ...this.createBlock(MarkdownBlockType.HEADING, lines, start, line),
+          depth: underline[1].startsWith('=') ? 1 : 2,
+          heading: lines.slice(start, line).map(text => text.trim()).join(' ')
+        };
+      }
+      if (this.startsBlock(lines, line)) {
+        break;
+      }
+      end = line;
+    }
+
+    return this.createBlock(MarkdownBlockType.PARAGRAPH, lines, start, end);
+  }
+
+  /**
+   * Check whether a line interrupts a paragraph by starting another block
+   * @param lines - Lines of the note
+   * @param line - Line to check
+   * @returns True if the line starts a block other than a paragraph
+   */
+  private static startsBlock(lines: string[], line: number): boolean {
+    const text = lines[line];
+    const trimmed = text.trim();
+    return this.FENCE.test(text) ||
+      this.HEADING.test(text) ||
+      this.QUOTE.test(text) ||
+      this.LIST_ITEM.test(text) ||
+      this.RULE.test(text) ||
+      trimmed.startsWith('$$') ||
+      trimmed.startsWith('%%') ||
+      this.isTableStart(lines, line);
+  }
+
+  /**
+   * Check whether a table header row starts at a line
+   * @param lines - Lines of the note
+   * @param line - Line to check
+   * @returns True if the line holds a `|` and the next is a delimiter row
+   */
+  private static isTableStart(lines: string[], line: number): boolean {
+    const next = lines[line + 1];
+    return lines[line].includes('|') && next !== undefined && next.includes('-') && this.TABLE_DELIMITER.test(next);
+  }
+
+  /**
+   * Find the closing fence of a code block
+   * @param lines - Lines of the note
+   * @param start - Line of the opening fence
+   * @param fence - Opening fence characters
+   * @returns Line of the closing fence, or the last line if it is not closed
+   */
+  private static findFenceEnd(lines: string[], start: number, fence: string): number {
+    for (let line = start + 1; line < lines.length; line++) {
+      const closing = lines[line].trim();
+      if (closing.length >= fence.length && closing === fence[0].repeat(closing.length)) {
+        return line;
+      }
+    }
+    return lines.length - 1;
+  }
+
+  /**
+   * Find the end of a block enclosed in `$$` or `%%`, which may open and
+   * close on the same line
+   * @param lines - Lines of the note
+   * @param start - Line of the opening delimiter
+   * @param delimiter - Delimiter
+   * @returns Line of the closing delimiter, or the last line if it is not closed
+   */
+  private static findDelimiterEnd(lines: string[], start: number, delimiter: string): number {
+    const opening = lines[start].trim();
+    if (opening.length > delimiter.length && opening.endsWith(delimiter)) {
+      return start;
+    }
+
+    for (let line = start + 1; line < lines.length; line++) {
+      if (lines[line].trim().endsWith(delimiter)) {
+        return line;
+      }
+    }
+    return lines.length - 1;
+  }
+
+  /**
+   * Width of the indentation of a line, counting a tab as four spaces
+   * @param line - Line of text
+   * @returns Indentation width
+   */
+  private static indentOf(line: string): number {
+    const indent = line.match(/^[ \t]*/)?.[0] ?? '';
+    return indent.replace(/\t/g, '    ').length;
+  }
+
+  /**
+   * Create a block from a range of lines
+   * @param type - Block type
+   * @param lines - Lines of the note
+   * @param start - First line
+   * @param end - Last line, inclusive
+   * @returns Block
+   */
+  private static createBlock(type: MarkdownBlockType, lines: string[], start: number, end: number): MarkdownBlock {
+    return { type, text: lines.slice(start, end + 1).join('\n'), startLine: start, endLine: end };
+  }
+}
@@ -0,0 +1,110 @@
+import { RateLimitInfo } from '../types';
+
+/**
+ * Parsers for the rate limit headers AI providers send with each response
+ */
+export class RateLimitHeaders {
+  /**
+   * Parse OpenAI-style `x-ratelimit-*` headers, as sent by Groq and OpenAI
+   * @param headers - Response headers
+   * @returns Rate limit state; fields the headers do not mention are left out
+   */
+  static parseOpenAI(headers: Record<string, string>): RateLimitInfo {
+    const get = RateLimitHeaders.lookup(headers);
+    return RateLimitHeaders.compact({
+      requestsRemaining: RateLimitHeaders.parseNumber(get('x-ratelimit-remaining-requests')),
+      requestsResetMs: RateLimitHeaders.parseDuration(get('x-ratelimit-reset-requests')),
+      tokensLimit: RateLimitHeaders.parseNumber(get('x-ratelimit-limit-tokens')),
+      tokensRemaining: RateLimitHeaders.parseNumber(get('x-ratelimit-remaining-tokens')),
+      tokensResetMs: RateLimitHeaders.parseDuration(get('x-ratelimit-reset-tokens')),
+      retryAfterMs: RateLimitHeaders.parseRetryAfter(get('retry-after'))
+    });
+  }
+
+  /**
+   * Parse Anthropic `anthropic-ratelimit-*` headers, whose resets are timestamps
+   * @param headers - Response headers
+   * @returns Rate limit state; fields the headers do not mention are left out
+   */
+  static parseAnthropic(headers: Record<string, string>): RateLimitInfo {
+    const get = RateLimitHeaders.lookup(headers);
+    return RateLimitHeaders.compact({
+      requestsRemaining: RateLimitHeaders.parseNumber(get('anthropic-ratelimit-requests-remaining')),
+      requestsResetMs: RateLimitHeaders.parseTimestamp(get('anthropic-ratelimit-requests-reset')),
+      tokensLimit: RateLimitHeaders.parseNumber(get('anthropic-ratelimit-tokens-limit')),
+      tokensRemaining: RateLimitHeaders.parseNumber(get('anthropic-ratelimit-tokens-remaining')),
+      tokensResetMs: RateLimitHeaders.parseTimestamp(get('anthropic-ratelimit-tokens-reset')),
+      retryAfterMs: RateLimitHeaders.parseRetryAfter(get('retry-after'))
+    });
+  }
+
+  /**
+   * Parse a duration such as `7.66s`, `2m59.56s` or `120ms`
+   * @param value - Header value
+   * @returns Milliseconds, or undefined if not a duration
+   */
+  static parseDuration(value?: string): number | undefined {
+    const match = value?.trim().match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+    if (!match || match.slice(1).every(part => part === undefined)) {
+      return undefined;
+    }
+
+    const [hours, minutes, seconds, ms] = match.slice(1).map(part => Number(part ?? 0));
+    return Math.ceil(((hours * 60 + minutes) * 60 + seconds) * 1000 + ms);
+  }
+
+  /**
+   * Parse a `retry-after` header: seconds or an HTTP date
+   * @param value - Header value
+   * @returns Milliseconds to wait, or undefined if not set
+   */
+  static parseRetryAfter(value?: string): number | undefined {
+    const seconds = RateLimitHeaders.parseNumber(value);
+    if (seconds !== undefined) {
+      return Math.ceil(seconds * 1000);
+    }
+    return RateLimitHeaders.parseTimestamp(value);
+  }
+
+  /**
+   * Parse a date into the time left until it
+   * @param value - Header value
+   * @returns Milliseconds until the date (0 if past), or undefined if not a date
+   */
+  private static parseTimestamp(value?: string): number | undefined {
+    const time = value ? Date.parse(value) : NaN;
+    return isNaN(time) ? undefined : Math.max(time - Date.now(), 0);
+  }
+
+  /**
+   * Parse a non-negative number
+   * @param value - Header value
+   * @returns Number, or undefined if not a number
+   */
+  private static parseNumber(value?: string): number | undefined {
+    if (value === undefined || value.trim() === '') {
+      return undefined;
+    }
+    const number = Number(value);
+    return isNaN(number) || number < 0 ? undefined : number;
+  }
+
+  /**
+   * Case-insensitive header lookup
+   * @param headers - Response headers
+   * @returns Function returning a header value by lowercase name
+   */
+  private static lookup(headers: Record<string, string>): (name: string) => string | undefined {
+    const lowercase = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), String(value)]));
+    return name => lowercase.get(name);
+  }
+
+  /**
+   * Drop the fields that were not reported
+   * @param info - Parsed state
+   * @returns State without undefined fields
+   */
+  private static compact(info: RateLimitInfo): RateLimitInfo {
+    return Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)) as RateLimitInfo;
+  }
+}
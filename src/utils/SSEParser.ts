@@ -0,0 +1,101 @@
+/**
+ * Single server-sent event
+ */
+export interface SSEEvent {
+  event: string; // Event type; 'message' if the server did not name one
+  data: string; // Data lines joined with '\n'
+}
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Text can be pushed in
+ * arbitrary pieces; events are returned once their terminating blank line
+ * has arrived.
+ */
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+
+  /**
+   * Feed the next piece of the stream
+   * @param text - Received text
+   * @returns Events completed by this piece
+   */
+  push(text: string): SSEEvent[] {
+    this.buffer += text;
+    const events: SSEEvent[] = [];
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+
+    return events;
+  }
+
+  /**
+   * Finish the stream, dispatching an event the server did not terminate
+   * @returns The pending event, if any
+   */
+  finish(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    const pending = this.dispatch();
+    if (pending) {
+      events.push(pending);
+    }
+    return events;
+  }
+
+  /**
+   * Apply a single line of the stream
+   * @param line - Line without its line break
+   * @returns Event completed by a blank line, if any
+   */
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null; // Comment, e.g. a keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'event') {
+      this.eventType = value;
+    }
+    return null;
+  }
+
+  /**
+   * Complete the event collected so far
+   * @returns Event, or null if it has no data
+   */
+  private dispatch(): SSEEvent | null {
+    const event = this.dataLines.length > 0
+      ? { event: this.eventType || 'message', data: this.dataLines.join('\n') }
+      : null;
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
@@ -30,6 +30,25 @@ export class Sanitizer {
     return sanitized;
   }
 
+  /**
+   * Convert the HTML of an Anki field back to plain text
+   * @param html - Field HTML as stored by Anki
+   * @returns Text with line breaks restored and entities decoded
+   */
+  static htmlToText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p)>\s*/gi, '\n')
+      .replace(/<(div|p)[^>]*>/gi, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
   /**
    * Escape markdown special characters
    * @param text - Text to escape
@@ -0,0 +1,94 @@
+import { SimilarityUtils } from './SimilarityUtils';
+
+/**
+ * Entry found by a similarity search
+ */
+export interface SimilarityHit<T> {
+  value: T;
+  similarity: number; // Jaccard similarity of the n-grams, 0-1
+}
+
+/**
+ * Index of texts for finding similar ones without comparing against every
+ * entry. MinHash signatures are split into bands; texts sharing any band
+ * land in the same bucket and are compared exactly. With two hashes per
+ * band, pairs from about 0.25 similarity up are found almost always.
+ */
+export class SimilarityIndex<T> {
+  private static readonly ROWS_PER_BAND = 2;
+  private entries: Array<{ value: T; shingles: Set<string> }> = [];
+  private buckets = new Map<string, number[]>();
+
+  /**
+   * Number of texts in the index
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a text
+   * @param text - Normalized text; empty texts are not indexed
+   * @param value - Value returned when the text matches a search
+   */
+  add(text: string, value: T): void {
+    const shingles = SimilarityUtils.shingles(text);
+    if (shingles.size === 0) {
+      return;
+    }
+
+    const index = this.entries.length;
+    this.entries.push({ value, shingles });
+    for (const key of this.bandKeys(shingles)) {
+      const bucket = this.buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        this.buckets.set(key, [index]);
+      }
+    }
+  }
+
+  /**
+   * Find the texts similar to a text
+   * @param text - Normalized text
+   * @param minSimilarity - Lowest similarity to return, 0-1
+   * @returns Matches, most similar first
+   */
+  search(text: string, minSimilarity: number): SimilarityHit<T>[] {
+    const shingles = SimilarityUtils.shingles(text);
+    if (shingles.size === 0) {
+      return [];
+    }
+
+    const candidates = new Set<number>();
+    for (const key of this.bandKeys(shingles)) {
+      this.buckets.get(key)?.forEach(index => candidates.add(index));
+    }
+
+    const hits: SimilarityHit<T>[] = [];
+    for (const index of candidates) {
+      const entry = this.entries[index];
+      const similarity = SimilarityUtils.jaccard(shingles, entry.shingles);
+      if (similarity >= minSimilarity) {
+        hits.push({ value: entry.value, similarity });
+      }
+    }
+    return hits.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Bucket keys of a set, one per band of its signature
+   * @param shingles - N-grams of a text
+   * @returns Keys
+   */
+  private bandKeys(shingles: Set<string>): string[] {
+    const signature = SimilarityUtils.minHash(shingles);
+    const rows = SimilarityIndex.ROWS_PER_BAND;
+    const keys: string[] = [];
+    for (let band = 0; band * rows < signature.length; band++) {
+      keys.push(`${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`);
+    }
+    return keys;
+  }
+}
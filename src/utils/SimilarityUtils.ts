@@ -0,0 +1,165 @@
+import { Flashcard } from '../types';
+import { ClozeUtils } from './ClozeUtils';
+
+/**
+ * Text similarity for finding near-duplicate flashcards: normalized text
+ * compared by the Jaccard similarity of its character n-grams, MinHash
+ * signatures that estimate it, and cosine similarity for embeddings
+ */
+export class SimilarityUtils {
+  private static readonly SHINGLE_SIZE = 3;
+  static readonly SIGNATURE_SIZE = 64;
+
+  /**
+   * Reduce text to what matters for comparing cards: cloze answers revealed,
+   * links and HTML reduced to their text, accents, case, punctuation and
+   * markup dropped, whitespace collapsed
+   * @param text - Card text
+   * @returns Lowercase words separated by single spaces
+   */
+  static normalize(text: string): string {
+    return ClozeUtils.revealDeletions(text)
+      .replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, ' ')
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Normalized text of a flashcard, front and back together
+   * @param card - Flashcard
+   * @returns Normalized text
+   */
+  static cardText(card: Pick<Flashcard, 'front' | 'back'>): string {
+    return this.normalize(`${card.front} ${card.back}`);
+  }
+
+  /**
+   * Split normalized text into overlapping character n-grams. Words are
+   * padded with spaces, so their first and last letters count as well.
+   * @param text - Normalized text
+   * @returns Distinct n-grams; empty for empty text
+   */
+  static shingles(text: string): Set<string> {
+    const shingles = new Set<string>();
+    if (!text) {
+      return shingles;
+    }
+
+    const padded = ` ${text} `;
+    for (let i = 0; i + this.SHINGLE_SIZE <= padded.length; i++) {
+      shingles.add(padded.slice(i, i + this.SHINGLE_SIZE));
+    }
+    return shingles;
+  }
+
+  /**
+   * Jaccard similarity of two sets
+   * @param a - First set
+   * @param b - Second set
+   * @returns Size of the intersection over the size of the union; 0 if both are empty
+   */
+  static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0;
+    }
+
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    for (const item of smaller) {
+      if (larger.has(item)) {
+        shared++;
+      }
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  /**
+   * MinHash signature of a set: the smallest hash of its items under each
+   * of a family of hash functions. Two signatures agree at a position with
+   * probability equal to the Jaccard similarity of their sets.
+   * @param shingles - Set to sign
+   * @returns Signature of SIGNATURE_SIZE hashes
+   */
+  static minHash(shingles: Set<string>): Uint32Array {
+    const signature = new Uint32Array(this.SIGNATURE_SIZE).fill(0xffffffff);
+
+    for (const shingle of shingles) {
+      const hash = this.fnv1a(shingle);
+      for (let i = 0; i < this.SIGNATURE_SIZE; i++) {
+        const value = this.mix(hash ^ Math.imul(i + 1, 0x9e3779b9));
+        if (value < signature[i]) {
+          signature[i] = value;
+        }
+      }
+    }
+    return signature;
+  }
+
+  /**
+   * Estimate the Jaccard similarity of two sets from their signatures
+   * @param a - First signature
+   * @param b - Second signature
+   * @returns Share of positions where the signatures agree
+   */
+  static estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+    let equal = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) {
+        equal++;
+      }
+    }
+    return a.length > 0 ? equal / a.length : 0;
+  }
+
+  /**
+   * Cosine similarity of two vectors
+   * @param a - First vector
+   * @param b - Second vector
+   * @returns Cosine of the angle between them; 0 if either is zero
+   */
+  static cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a string
+   * @param text - Text to hash
+   * @returns Unsigned hash
+   */
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Scramble the bits of a 32-bit value (the MurmurHash3 finalizer)
+   * @param value - Value to scramble
+   * @returns Unsigned result
+   */
+  private static mix(value: number): number {
+    let hash = value;
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+}
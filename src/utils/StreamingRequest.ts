@@ -0,0 +1,89 @@
+import * as http from 'http';
+import * as https from 'https';
+import { RequestUrlParam } from 'obsidian';
+import { CancelledError } from './CancellationUtils';
+
+/**
+ * Status, headers and, for error statuses, the body of a streamed response
+ */
+export interface StreamingResponse {
+  status: number;
+  headers: Record<string, string>; // Lowercase names
+  text: string; // Only collected when the status is not 2xx
+}
+
+/**
+ * HTTP request whose response body is handed over as it arrives.
+ * Obsidian's requestUrl only returns complete bodies, so this uses Node's
+ * http module, which is available because the plugin is desktop only.
+ */
+export class StreamingRequest {
+  /**
+   * Send a request and stream a successful response body
+   * @param params - Request parameters, as for requestUrl
+   * @param onText - Called with each piece of a 2xx response body
+   * @param signal - Aborts the request
+   * @returns Response status and headers, with the body of error responses
+   */
+  static send(
+    params: RequestUrlParam,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<StreamingResponse> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const url = new URL(params.url);
+      const transport = url.protocol === 'https:' ? https : http;
+
+      const onAbort = () => {
+        const error = new CancelledError();
+        reject(error);
+        request.destroy(error);
+      };
+      const cleanUp = () => signal?.removeEventListener('abort', onAbort);
+
+      const request = transport.request(url, {
+        method: params.method ?? 'GET',
+        headers: params.headers
+      }, response => {
+        const status = response.statusCode ?? 0;
+        const ok = status >= 200 && status < 300;
+        let errorText = '';
+
+        response.setEncoding('utf8');
+        response.on('data', (text: string) => {
+          if (ok) {
+            onText(text);
+          } else {
+            errorText += text;
+          }
+        });
+        response.on('end', () => {
+          cleanUp();
+          const headers = Object.fromEntries(Object.entries(response.headers)
+            .map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value ?? '']));
+          resolve({ status, headers, text: errorText });
+        });
+        response.on('error', error => {
+          cleanUp();
+          reject(error);
+        });
+      });
+
+      request.on('error', error => {
+        cleanUp();
+        reject(error);
+      });
+      signal?.addEventListener('abort', onAbort);
+
+      if (params.body !== undefined) {
+        request.write(typeof params.body === 'string' ? params.body : Buffer.from(params.body));
+      }
+      request.end();
+    });
+  }
+}
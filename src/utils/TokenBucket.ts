@@ -0,0 +1,82 @@
+/**
+ * Token bucket that refills continuously, up to its capacity once per minute.
+ * A capacity of 0 disables the limit.
+ */
+export class TokenBucket {
+  private readonly WINDOW_MS = 60000;
+  private capacity: number;
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.available = perMinute;
+  }
+
+  /**
+   * Get the capacity
+   * @returns Amount per minute, 0 if unlimited
+   */
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Change the capacity
+   * @param perMinute - Amount per minute (0 disables the limit)
+   */
+  setCapacity(perMinute: number): void {
+    this.refill();
+    // A bucket that was unlimited starts full
+    this.available = this.capacity > 0 ? Math.min(this.available, perMinute) : perMinute;
+    this.capacity = perMinute;
+  }
+
+  /**
+   * Lower the available amount to what the provider says is left
+   * @param remaining - Amount the provider reports as remaining
+   */
+  limitTo(remaining: number): void {
+    this.refill();
+    this.available = Math.min(this.available, remaining);
+  }
+
+  /**
+   * Time until an amount can be taken
+   * @param amount - Amount to take; more than the capacity counts as a full bucket
+   * @returns Milliseconds to wait, 0 if it can be taken now
+   */
+  waitTime(amount: number): number {
+    if (this.capacity <= 0) {
+      return 0;
+    }
+
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil(missing * this.WINDOW_MS / this.capacity) : 0;
+  }
+
+  /**
+   * Take an amount out of the bucket
+   * @param amount - Amount to take
+   */
+  take(amount: number): void {
+    if (this.capacity <= 0) {
+      return;
+    }
+
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /**
+   * Add what has refilled since the last update
+   */
+  private refill(): void {
+    const now = Date.now();
+    if (this.capacity > 0) {
+      this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.capacity / this.WINDOW_MS);
+    }
+    this.updatedAt = now;
+  }
+}
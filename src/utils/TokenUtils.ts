@@ -1,135 +1,85 @@
-import { TextChunk, ChunkingResult } from '../types';
+import { ChunkingResult, Tokenizer } from '../types';
+import { EstimatingTokenizer } from './EstimatingTokenizer';
+import { MarkdownChunker } from './MarkdownChunker';
 
 /**
  * Utility class for token counting and text chunking
- * Uses a simple approximation: ~4 characters per token
+ * Counts with the active tokenizer: a loaded vocabulary, or an estimate
  */
 export class TokenUtils {
-  private static readonly CHARS_PER_TOKEN = 4;
   private static readonly CONTEXT_LIMIT = 16000;
+  static readonly SUMMARIZATION_THRESHOLD = 10000;
+  private static readonly VERBATIM_INSTRUCTIONS = `Copy key terms, definitions, formulas, names, dates and numbers exactly as they appear; do not paraphrase them.
+Keep the markdown headings that say which chapter or section each point belongs to.`;
+  private static tokenizer: Tokenizer = new EstimatingTokenizer();
 
   /**
-   * Estimate token count for a given text
+   * Replace the tokenizer used for counting
+   * @param tokenizer - Tokenizer, or undefined to go back to the estimate
+   */
+  static setTokenizer(tokenizer?: Tokenizer): void {
+    this.tokenizer = tokenizer ?? new EstimatingTokenizer();
+  }
+
+  /**
+   * Get the tokenizer used for counting
+   * @returns Active tokenizer
+   */
+  static getTokenizer(): Tokenizer {
+    return this.tokenizer;
+  }
+
+  /**
+   * Count the tokens of a text
    * @param text - Text to count tokens for
-   * @returns Estimated token count
+   * @returns Token count
    */
   static countTokens(text: string): number {
-    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+    return text ? this.tokenizer.countTokens(text) : 0;
   }
 
   /**
-   * Split text into chunks based on token limit
+   * Split markdown into chunks along its structure
    * @param text - Text to chunk
    * @param maxChunkSize - Maximum tokens per chunk
+   * @param overlap - Tokens of a split section repeated at the start of the next chunk
    * @returns Chunking result with metadata
    */
-  static chunkText(text: string, maxChunkSize: number): ChunkingResult {
+  static chunkText(text: string, maxChunkSize: number, overlap = 0): ChunkingResult {
     const totalTokens = this.countTokens(text);
-    
-    // If text fits in one chunk, return as-is
-    if (totalTokens <= maxChunkSize) {
-      return {
-        chunks: [{
-          content: text,
-          tokenCount: totalTokens,
-          index: 0
-        }],
-        totalTokens,
-        requiresSummarization: false
-      };
-    }
-
-    // Split by paragraphs first
-    const paragraphs = text.split(/\n\n+/);
-    const chunks: TextChunk[] = [];
-    let currentChunk = '';
-    let currentTokenCount = 0;
-    let chunkIndex = 0;
-
-    for (const paragraph of paragraphs) {
-      const paragraphTokens = this.countTokens(paragraph);
-      
-      // If single paragraph exceeds limit, split by sentences
-      if (paragraphTokens > maxChunkSize) {
-        if (currentChunk) {
-          chunks.push({
-            content: currentChunk.trim(),
-            tokenCount: currentTokenCount,
-            index: chunkIndex++
-          });
-          currentChunk = '';
-          currentTokenCount = 0;
-        }
-        
-        const sentences = this.splitBySentences(paragraph);
-        for (const sentence of sentences) {
-          const sentenceTokens = this.countTokens(sentence);
-          
-          if (currentTokenCount + sentenceTokens > maxChunkSize) {
-            if (currentChunk) {
-              chunks.push({
-                content: currentChunk.trim(),
-                tokenCount: currentTokenCount,
-                index: chunkIndex++
-              });
-            }
-            currentChunk = sentence + ' ';
-            currentTokenCount = sentenceTokens;
-          } else {
-            currentChunk += sentence + ' ';
-            currentTokenCount += sentenceTokens;
-          }
-        }
-      } else {
-        // Check if adding this paragraph exceeds chunk size
-        if (currentTokenCount + paragraphTokens > maxChunkSize) {
-          chunks.push({
-            content: currentChunk.trim(),
-            tokenCount: currentTokenCount,
-            index: chunkIndex++
-          });
-          currentChunk = paragraph + '\n\n';
-          currentTokenCount = paragraphTokens;
-        } else {
-          currentChunk += paragraph + '\n\n';
-          currentTokenCount += paragraphTokens;
-        }
-      }
-    }
-
-    // Add remaining chunk
-    if (currentChunk.trim()) {
-      chunks.push({
-        content: currentChunk.trim(),
-        tokenCount: currentTokenCount,
-        index: chunkIndex
-      });
-    }
-
     return {
-      chunks,
+      chunks: MarkdownChunker.chunk(text, maxChunkSize, overlap),
       totalTokens,
-      requiresSummarization: totalTokens > 10000 // Threshold for summarization
+      requiresSummarization: totalTokens > this.SUMMARIZATION_THRESHOLD
     };
   }
 
   /**
-   * Split text by sentences
-   * @param text - Text to split
-   * @returns Array of sentences
+   * Create a summary prompt for one part of a large text
+   * @param text - Text to summarize
+   * @returns Summary prompt
    */
-  private static splitBySentences(text: string): string[] {
-    // Split by common sentence endings, but keep the punctuation
-    return text.match(/[^.!?]+[.!?]+/g) || [text];
+  static createSummaryPrompt(text: string): string {
+    return `Please provide a concise summary of the following text, focusing on key concepts and main ideas that would be useful for creating flashcards. Limit the summary to about 1000 tokens.
+
+${this.VERBATIM_INSTRUCTIONS}
+
+Text:
+${text}`;
   }
 
   /**
-   * Create a summary prompt for large texts
-   * @param text - Text to summarize
-   * @returns Summary prompt
+   * Create a prompt that merges the summaries of consecutive parts into one
+   * @param summaries - Summaries in document order
+   * @returns Merge prompt
    */
-  static createSummaryPrompt(text: string): string {
-    return `Please provide a concise summary of the following text, focusing on key concepts and main ideas that would be useful for creating flashcards. Limit the summary to about 1000 tokens.\n\nText:\n${text}`;
+  static createMergePrompt(summaries: string[]): string {
+    return `The following are summaries of consecutive parts of one document. Merge them into a single concise summary of about 1000 tokens, focusing on key concepts and main ideas that would be useful for creating flashcards. Drop repetition, but keep what each part covers.
+
+${this.VERBATIM_INSTRUCTIONS}
+
+Summaries:
+${summaries.join('\n\n---\n\n')}`;
   }
 
   /**
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GroqFlashcardService } from '../../src/services/GroqFlashcardService';
 import { AnkiSyncService } from '../../src/services/AnkiSyncService';
 import { Validator } from '../../src/services/Validator';
-import { DEFAULT_SETTINGS, GenerationMode } from '../../src/types';
+import { DEFAULT_SETTINGS, GenerationMode, CardType } from '../../src/types';
 import { mockFlashcardResponse } from '../mocks/groq';
 import { createMockAnkiConnectHandler } from '../mocks/anki';
 
@@ -12,7 +12,7 @@ describe('Flashcard Flow Integration', () => {
 
   beforeEach(() => {
     // Setup services with mock API key
-    const settingsWithApiKey = { ...DEFAULT_SETTINGS, groqApiKey: 'mock-api-key' };
+    const settingsWithApiKey = { ...DEFAULT_SETTINGS, groqApiKey: 'mock-api-key', streamGeneration: false };
     groqService = new GroqFlashcardService(settingsWithApiKey);
     ankiService = new AnkiSyncService(settingsWithApiKey);
 
@@ -35,8 +35,7 @@ describe('Flashcard Flow Integration', () => {
     const content = 'Photosynthesis is the process by which plants make food.';
     const flashcards = await groqService.generateFlashcards(
       content,
-      GenerationMode.FIXED,
-      ['biology'],
+      { mode: GenerationMode.FIXED, tags: ['biology'], cardType: CardType.BASIC },
       'test-note'
     );
 
@@ -46,6 +45,25 @@ describe('Flashcard Flow Integration', () => {
     expect(flashcards[0].source).toBe('test-note');
   });
 
+  it('should ask for the requested card count, language and model', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockImplementation(() => Promise.resolve({
+      ok: true,
+      json: async () => mockFlashcardResponse
+    } as Response));
+
+    const flashcards = await groqService.generateFlashcards(
+      'Photosynthesis is the process by which plants make food.',
+      { mode: GenerationMode.DYNAMIC, tags: [], cardType: CardType.BASIC, cardCount: 1, language: 'German', model: 'custom-model' },
+      'test-note'
+    );
+
+    const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+    expect(body.model).toBe('custom-model');
+    expect(body.messages[1].content).toContain('Generate exactly 1 flashcard\n');
+    expect(body.messages[1].content).toContain('Write the flashcards in German');
+    expect(flashcards).toHaveLength(1);
+  });
+
   it('should validate and repair invalid flashcards', async () => {
     const invalidCards = [
       { question: 'Q1', answer: 'A1' }, // Wrong field names
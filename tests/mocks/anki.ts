@@ -51,17 +51,76 @@ export function createMockAnkiConnectFetch(response: unknown, shouldFail = false
   };
 }
 
-export function createMockAnkiConnectHandler() {
-  const state = {
+export function createMockAnkiState() {
+  return {
     decks: ['Default'],
-    notes: [] as unknown[]
+    models: {
+      Basic: ['Front', 'Back'],
+      Cloze: ['Text', 'Extra']
+    } as Record<string, string[]>,
+    notes: [] as Array<{ id: number; deckName?: string; modelName?: string; fields: Record<string, string>; tags: string[] }>,
+    nextNoteId: 1000
   };
+}
 
-  return async (url: string, options?: RequestInit) => {
+type MockNote = { deckName?: string; modelName?: string; fields: Record<string, string> };
+
+function getAddNoteError(state: ReturnType<typeof createMockAnkiState>, note: MockNote): string | null {
+  const first = Object.values(note.fields)[0];
+  if (!first) {
+    return 'cannot create note because it is empty';
+  }
+  const duplicate = state.notes.some(n =>
+    n.deckName === note.deckName && n.modelName === note.modelName && Object.values(n.fields)[0] === first
+  );
+  return duplicate ? 'cannot create note because it is a duplicate' : null;
+}
+
+export function createMockAnkiConnectHandler(state = createMockAnkiState()) {
+  const handler = async (url: string, options?: RequestInit): Promise<{ ok: boolean; json: () => Promise<unknown> }> => {
     const body = JSON.parse(options?.body as string);
     const action = body.action;
 
     switch (action) {
+      case 'multi': {
+        const results: unknown[] = [];
+        for (const inner of body.params.actions) {
+          const response = await handler(url, { body: JSON.stringify(inner) });
+          results.push(await response.json());
+        }
+        return {
+          ok: true,
+          json: async () => ({ result: results, error: null })
+        };
+      }
+
+      case 'canAddNotesWithErrorDetail':
+        return {
+          ok: true,
+          json: async () => ({
+            result: body.params.notes.map((note: MockNote) => {
+              const error = getAddNoteError(state, note);
+              return error ? { canAdd: false, error } : { canAdd: true };
+            }),
+            error: null
+          })
+        };
+
+      case 'addNotes': {
+        const ids = body.params.notes.map((note: MockNote) => {
+          if (getAddNoteError(state, note)) {
+            return null;
+          }
+          const id = state.nextNoteId++;
+          state.notes.push({ id, tags: [], ...note });
+          return id;
+        });
+        return {
+          ok: true,
+          json: async () => ({ result: ids, error: null })
+        };
+      }
+
       case 'version':
         return {
           ok: true,
@@ -86,11 +145,117 @@ export function createMockAnkiConnectHandler() {
           json: async () => mockCreateDeckResponse
         };
 
-      case 'addNote':
-        state.notes.push(body.params.note);
+      case 'modelNames':
+        return {
+          ok: true,
+          json: async () => ({
+            result: Object.keys(state.models),
+            error: null
+          })
+        };
+
+      case 'modelFieldNames': {
+        const fields = state.models[body.params.modelName];
+        return {
+          ok: true,
+          json: async () => ({
+            result: fields ?? null,
+            error: fields ? null : 'model was not found: ' + body.params.modelName
+          })
+        };
+      }
+
+      case 'addNote': {
+        const id = state.nextNoteId++;
+        state.notes.push({ id, ...body.params.note });
+        return {
+          ok: true,
+          json: async () => ({ result: id, error: null })
+        };
+      }
+
+      case 'updateNoteFields': {
+        const note = state.notes.find(n => n.id === body.params.note.id);
+        if (note) {
+          note.fields = { ...note.fields, ...body.params.note.fields };
+        }
+        return {
+          ok: true,
+          json: async () => ({
+            result: null,
+            error: note ? null : 'Note was not found: ' + body.params.note.id
+          })
+        };
+      }
+
+      case 'findNotes': {
+        const ids = String(body.params.query).replace(/^nid:/, '').split(',').map(Number);
+        return {
+          ok: true,
+          json: async () => ({
+            result: state.notes.filter(n => ids.includes(n.id)).map(n => n.id),
+            error: null
+          })
+        };
+      }
+
+      case 'notesInfo':
+        return {
+          ok: true,
+          json: async () => ({
+            result: state.notes
+              .filter(n => body.params.notes.includes(n.id))
+              .map(n => ({
+                noteId: n.id,
+                modelName: n.modelName,
+                tags: n.tags,
+                fields: Object.fromEntries(
+                  Object.entries(n.fields).map(([name, value], order) => [name, { value, order }])
+                )
+              })),
+            error: null
+          })
+        };
+
+      case 'updateNoteTags': {
+        const note = state.notes.find(n => n.id === body.params.note);
+        if (note) {
+          note.tags = body.params.tags;
+        }
+        return {
+          ok: true,
+          json: async () => ({ result: null, error: null })
+        };
+      }
+
+      case 'deleteNotes':
+        state.notes = state.notes.filter(n => !body.params.notes.includes(n.id));
+        return {
+          ok: true,
+          json: async () => ({ result: null, error: null })
+        };
+
+      // Every mock note has a single card that shares its ID
+      case 'findCards': {
+        const ids = String(body.params.query).replace(/^nid:/, '').split(',').map(Number);
+        return {
+          ok: true,
+          json: async () => ({
+            result: state.notes.filter(n => ids.includes(n.id)).map(n => n.id),
+            error: null
+          })
+        };
+      }
+
+      case 'changeDeck':
+        state.notes
+          .filter(n => body.params.cards.includes(n.id))
+          .forEach(n => {
+            n.deckName = body.params.deck;
+          });
         return {
           ok: true,
-          json: async () => mockAddNoteResponse
+          json: async () => ({ result: null, error: null })
         };
 
       default:
@@ -103,5 +268,6 @@ export function createMockAnkiConnectHandler() {
         };
     }
   };
+  return handler;
 }
 
@@ -0,0 +1,37 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * Create a vault file for tests. The mocked TFile takes its path in the
+ * constructor, which the real type does not declare.
+ */
+export function createFile(path: string): TFile {
+  return new (TFile as unknown as new (path: string) => TFile)(path);
+}
+
+/**
+ * Create an app whose vault adapter and local storage are backed by maps
+ * @param files - Adapter files by path
+ * @param storage - Local storage entries by key
+ */
+export function createApp(files = new Map<string, string>(), storage = new Map<string, string>()): App {
+  return {
+    vault: {
+      getName: () => 'My Vault',
+      adapter: {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? '',
+        write: async (path: string, data: string) => {
+          files.set(path, data);
+        }
+      }
+    },
+    loadLocalStorage: (key: string) => storage.get(key) ?? null,
+    saveLocalStorage: (key: string, value: string | null) => {
+      if (value === null) {
+        storage.delete(key);
+      } else {
+        storage.set(key, value);
+      }
+    }
+  } as unknown as App;
+}
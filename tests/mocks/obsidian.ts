@@ -16,6 +16,45 @@ export class Notice {
   }
 }
 
+/**
+ * Mock requestUrl that delegates to the (mocked) global fetch
+ */
+export async function requestUrl(request: { url: string; method?: string; headers?: Record<string, string>; body?: string }): Promise<{ status: number; headers: Record<string, string>; json: unknown; text: string }> {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  }) as Partial<Response>;
+
+  const json = response.json ? await response.json() : undefined;
+
+  return {
+    status: response.status ?? 200,
+    headers: (response.headers as unknown as Record<string, string>) ?? {},
+    json,
+    text: JSON.stringify(json)
+  };
+}
+
+/**
+ * Mock normalizePath: collapses slashes and trims them from both ends
+ */
+export function normalizePath(path: string): string {
+  return path.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '') || '/';
+}
+
+/**
+ * Mock getAllTags: frontmatter tags followed by inline tags, with a leading '#'
+ */
+export function getAllTags(cache: { tags?: { tag: string }[]; frontmatter?: Record<string, unknown> }): string[] | null {
+  const frontmatterTags = cache.frontmatter?.tags;
+  const tags = [
+    ...(Array.isArray(frontmatterTags) ? frontmatterTags.map(tag => `#${String(tag).replace(/^#/, '')}`) : []),
+    ...(cache.tags ?? []).map(tag => tag.tag)
+  ];
+  return tags;
+}
+
 export class Plugin {
   app: App;
   manifest: unknown;
@@ -49,11 +88,13 @@ export class TFile {
   path: string;
   basename: string;
   extension: string;
+  parent: { path: string } | null;
 
   constructor(path: string) {
     this.path = path;
     this.basename = path.split('/').pop()?.replace(/\.[^.]+$/, '') || '';
     this.extension = path.split('.').pop() || '';
+    this.parent = { path: path.split('/').slice(0, -1).join('/') || '/' };
   }
 }
 
@@ -180,6 +221,7 @@ export class Menu {
 export class App {
   vault: { read: (file: TFile) => Promise<string>; modify: (file: TFile, content: string) => Promise<void> };
   workspace: { getActiveViewOfType: (type: unknown) => unknown; on: (event: string, callback: unknown) => void };
+  metadataCache: { getFileCache: (file: TFile) => { frontmatter?: Record<string, unknown> } | null };
 
   constructor() {
     this.vault = {
@@ -191,6 +233,10 @@ export class App {
       getActiveViewOfType: (type: unknown) => null,
       on: (event: string, callback: unknown) => {}
     };
+
+    this.metadataCache = {
+      getFileCache: (file: TFile) => null
+    };
   }
 }
 
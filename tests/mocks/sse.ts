@@ -0,0 +1,95 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * What the mock server sends back for a request
+ */
+export interface MockSSEReply {
+  status?: number; // Defaults to 200
+  events?: Array<{ event?: string; data: string }>; // Written one at a time
+  body?: string; // Raw body for error statuses
+  hold?: boolean; // Keep the stream open after the events until the client leaves
+}
+
+/**
+ * Local HTTP server answering chat completion requests with a
+ * `text/event-stream` body, for testing streaming providers
+ */
+export interface MockSSEServer {
+  url: string;
+  requests: Array<Record<string, unknown>>; // Parsed request bodies
+  closed: Promise<void>; // Resolves when a stream has been closed
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a mock SSE server on a free local port
+ * @param reply - Builds the reply for each request
+ * @returns Running server
+ */
+export async function createMockSSEServer(reply: (body: Record<string, unknown>) => MockSSEReply): Promise<MockSSEServer> {
+  const requests: Array<Record<string, unknown>> = [];
+  let markClosed: () => void = () => {};
+  const closed = new Promise<void>(resolve => {
+    markClosed = resolve;
+  });
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', (text: string) => {
+      raw += text;
+    });
+    req.on('end', async () => {
+      const body = raw ? JSON.parse(raw) as Record<string, unknown> : {};
+      requests.push(body);
+      const { status = 200, events = [], body: errorBody = '', hold = false } = reply(body);
+
+      if (status !== 200) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(errorBody);
+        return;
+      }
+
+      res.on('close', markClosed);
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(': connected\n\n');
+      for (const { event, data } of events) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        res.write(`${event ? `event: ${event}\n` : ''}data: ${data}\n\n`);
+      }
+
+      if (!hold) {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1/chat/completions`,
+    requests,
+    closed,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+/**
+ * Split text into OpenAI-style streamed completion chunks
+ * @param text - Completion text
+ * @param size - Characters per chunk
+ * @returns SSE events ending with `[DONE]`
+ */
+export function openAIStreamEvents(text: string, size = 7): Array<{ data: string }> {
+  const events: Array<{ data: string }> = [];
+  for (let i = 0; i < text.length; i += size) {
+    events.push({ data: JSON.stringify({ choices: [{ delta: { content: text.slice(i, i + size) } }] }) });
+  }
+  events.push({ data: '[DONE]' });
+  return events;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnkiConnectionMonitor } from '../../src/services/AnkiConnectionMonitor';
+import { AnkiSyncService } from '../../src/services/AnkiSyncService';
+import { AnkiConnectionState, DEFAULT_SETTINGS } from '../../src/types';
+import { createMockAnkiConnectHandler, createMockAnkiState } from '../mocks/anki';
+import { createApp } from '../mocks/files';
+
+describe('AnkiConnectionMonitor', () => {
+  let state: ReturnType<typeof createMockAnkiState>;
+  let online: boolean;
+  let service: AnkiSyncService;
+  let monitor: AnkiConnectionMonitor;
+
+  function countProbes(): number {
+    return vi.mocked(global.fetch).mock.calls
+      .filter(([, options]) => JSON.parse(options?.body as string).action === 'version').length;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    state = createMockAnkiState();
+    online = false;
+    const handler = createMockAnkiConnectHandler(state);
+    global.fetch = vi.fn((url: string, options?: RequestInit) =>
+      online ? handler(url, options) : Promise.reject(new Error('Connection refused'))
+    ) as unknown as typeof fetch;
+
+    service = new AnkiSyncService(DEFAULT_SETTINGS, createApp(), 'sync-queue.json');
+    monitor = new AnkiConnectionMonitor(service);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.useRealTimers();
+  });
+
+  it('should probe an offline Anki with backoff', async () => {
+    const states: AnkiConnectionState[] = [];
+    monitor.setStateListener(newState => states.push(newState));
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(monitor.getState()).toBe(AnkiConnectionState.OFFLINE);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(countProbes()).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(19999);
+    expect(countProbes()).toBe(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(countProbes()).toBe(4);
+    expect(states).toEqual([AnkiConnectionState.OFFLINE]);
+  });
+
+  it('should flush the queue as soon as Anki is back', async () => {
+    await service.syncFlashcards([{ id: 'a', front: 'Q', back: 'A', tags: [] }]);
+    expect(monitor.getState()).toBe(AnkiConnectionState.OFFLINE);
+    expect(service.getQueueStatus().count).toBe(1);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    online = true;
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(monitor.getState()).toBe(AnkiConnectionState.ONLINE);
+    expect(service.getQueueStatus().count).toBe(0);
+    expect(state.notes).toHaveLength(1);
+  });
+});
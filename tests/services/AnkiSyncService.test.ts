@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnkiSyncService } from '../../src/services/AnkiSyncService';
+import { CardSyncStatus, DEFAULT_SETTINGS, Flashcard, FlashcardField } from '../../src/types';
+import { createMockAnkiConnectHandler, createMockAnkiState } from '../mocks/anki';
+import { createApp } from '../mocks/files';
+
+const QUEUE_PATH = '.obsidian/plugins/obsicard/sync-queue.json';
+
+describe('AnkiSyncService', () => {
+  let state: ReturnType<typeof createMockAnkiState>;
+  let service: AnkiSyncService;
+
+  beforeEach(() => {
+    state = createMockAnkiState();
+    global.fetch = vi.fn(createMockAnkiConnectHandler(state)) as unknown as typeof fetch;
+    service = new AnkiSyncService(DEFAULT_SETTINGS, createApp(), QUEUE_PATH);
+  });
+
+  describe('syncFlashcards', () => {
+    it('should add new cards and record their Anki note IDs', async () => {
+      const card: Flashcard = { id: 'card1', front: 'Q', back: 'A', tags: ['test'] };
+
+      const result = await service.syncFlashcards([card]);
+
+      expect(result).toMatchObject({ synced: 1, updated: 0, queued: 0, errors: 0 });
+      expect(card.ankiNoteId).toBe(state.notes[0].id);
+      expect(state.notes[0].fields).toEqual({ Front: 'Q', Back: 'A' });
+    });
+
+    it('should update existing notes in place instead of adding duplicates', async () => {
+      const card: Flashcard = { id: 'card1', front: 'Q', back: 'A', tags: ['test'] };
+      await service.syncFlashcards([card]);
+
+      card.back = 'Edited answer';
+      card.tags = ['test', 'edited'];
+      const result = await service.syncFlashcards([card]);
+
+      expect(result).toMatchObject({ synced: 1, updated: 1, queued: 0, errors: 0 });
+      expect(state.notes).toHaveLength(1);
+      expect(state.notes[0].fields.Back).toBe('Edited answer');
+      expect(state.notes[0].tags).toEqual(['test', 'edited']);
+    });
+
+    it('should re-add cards whose Anki note was deleted', async () => {
+      const card: Flashcard = { id: 'card1', front: 'Q', back: 'A', tags: [], ankiNoteId: 42 };
+
+      const result = await service.syncFlashcards([card]);
+
+      expect(result.synced).toBe(1);
+      expect(result.updated).toBe(0);
+      expect(card.ankiNoteId).not.toBe(42);
+    });
+
+    it('should check Anki and the deck once and send each kind of change in one request', async () => {
+      const existing: Flashcard[] = [1, 2].map(n => ({ id: `old${n}`, front: `Old ${n}`, back: 'A', tags: [] }));
+      await service.syncFlashcards(existing);
+      existing.forEach(card => {
+        card.back = 'Edited';
+      });
+      const added: Flashcard[] = [1, 2, 3].map(n => ({ id: `new${n}`, front: `New ${n}`, back: 'A', tags: [] }));
+      vi.mocked(global.fetch).mockClear();
+
+      const result = await service.syncFlashcards([...existing, ...added]);
+
+      const actions = vi.mocked(global.fetch).mock.calls.map(([, options]) => JSON.parse(options?.body as string).action);
+      expect(actions).toEqual(['version', 'deckNames', 'multi', 'canAddNotesWithErrorDetail', 'addNotes']);
+      expect(result).toMatchObject({ synced: 5, updated: 2, queued: 0, errors: 0 });
+      expect(state.notes).toHaveLength(5);
+    });
+
+    it('should create the parents of nested decks', async () => {
+      await service.syncFlashcards([{ id: 'a', front: 'Q', back: 'A', tags: [] }], 'Uni::Bio101::Cells');
+
+      expect(state.decks).toEqual(['Default', 'Uni', 'Uni::Bio101', 'Uni::Bio101::Cells']);
+      expect(state.notes[0].deckName).toBe('Uni::Bio101::Cells');
+    });
+
+    it('should attribute partial failures to the cards that failed', async () => {
+      state.notes.push({ id: 7, deckName: 'ObsiCard', modelName: 'Basic', fields: { Front: 'Taken', Back: 'A' }, tags: [] });
+      const cards: Flashcard[] = [
+        { id: 'ok', front: 'Fine', back: 'A', tags: [] },
+        { id: 'dup', front: 'Taken', back: 'B', tags: [] },
+        { id: 'empty', front: '', back: 'C', tags: [] }
+      ];
+
+      const result = await service.syncFlashcards(cards);
+
+      expect(result).toMatchObject({ synced: 1, updated: 0, queued: 0, errors: 2 });
+      expect(result.outcomes.map(outcome => [outcome.flashcard.id, outcome.status])).toEqual([
+        ['ok', CardSyncStatus.ADDED],
+        ['dup', CardSyncStatus.FAILED],
+        ['empty', CardSyncStatus.FAILED]
+      ]);
+      expect(result.outcomes[1].error).toContain('duplicate');
+      expect(cards.map(card => card.ankiNoteId)).toEqual([1000, undefined, undefined]);
+    });
+
+    it('should queue every card of the batch when Anki is unreachable', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new Error('Connection refused')) as unknown as typeof fetch;
+      const cards: Flashcard[] = [{ id: 'a', front: 'A', back: 'A', tags: [] }, { id: 'b', front: 'B', back: 'B', tags: [] }];
+
+      const result = await service.syncFlashcards(cards);
+
+      expect(result).toMatchObject({ synced: 0, queued: 2, errors: 0 });
+      expect(service.getQueueStatus().count).toBe(2);
+    });
+
+    it('should finish a request already sent and leave the rest out when cancelled', async () => {
+      const existing: Flashcard = { id: 'old', front: 'Old', back: 'A', tags: [] };
+      await service.syncFlashcards([existing]);
+      existing.back = 'Edited';
+      const fresh: Flashcard = { id: 'new', front: 'New', back: 'B', tags: [] };
+
+      // Cancel while the update request is in flight
+      const controller = new AbortController();
+      const handler = createMockAnkiConnectHandler(state);
+      global.fetch = vi.fn(async (url: string, init: RequestInit) => {
+        if (JSON.parse(String(init.body)).action === 'multi') {
+          controller.abort();
+        }
+        return handler(url, init);
+      }) as unknown as typeof fetch;
+
+      const result = await service.syncFlashcards([existing, fresh], undefined, undefined, controller.signal);
+
+      expect(result).toMatchObject({ synced: 1, updated: 1, queued: 0, errors: 0 });
+      expect(result.outcomes.map(outcome => outcome.status)).toEqual([CardSyncStatus.UPDATED, CardSyncStatus.CANCELLED]);
+      expect(state.notes).toHaveLength(1);
+      expect(state.notes[0].fields.Back).toBe('Edited');
+      expect(service.getQueueStatus().count).toBe(0);
+    });
+  });
+
+  describe('sync queue', () => {
+    let files: Map<string, string>;
+
+    function goOffline(): void {
+      global.fetch = vi.fn().mockRejectedValue(new Error('Connection refused')) as unknown as typeof fetch;
+    }
+
+    beforeEach(() => {
+      files = new Map();
+      service = new AnkiSyncService(DEFAULT_SETTINGS, createApp(files), QUEUE_PATH);
+    });
+
+    it('should replay queued cards to the deck they were synced to', async () => {
+      goOffline();
+      await service.syncFlashcards([{ id: 'a', front: 'Q', back: 'A', tags: [] }], 'Biology', 'bio.md');
+      global.fetch = vi.fn(createMockAnkiConnectHandler(state)) as unknown as typeof fetch;
+
+      expect(await service.processQueue()).toBe(1);
+
+      expect(state.notes[0]).toMatchObject({ deckName: 'Biology', modelName: 'Basic' });
+      expect(service.getQueueStatus().count).toBe(0);
+    });
+
+    it('should back off between retries and dead-letter cards that use them up', async () => {
+      vi.useFakeTimers();
+      try {
+        goOffline();
+        await service.syncFlashcards([{ id: 'a', front: 'Q', back: 'A', tags: [] }]);
+        global.fetch = vi.fn(createMockAnkiConnectHandler(state)) as unknown as typeof fetch;
+        state.notes.push({ id: 7, deckName: 'ObsiCard', modelName: 'Basic', fields: { Front: 'Q', Back: 'Old' }, tags: [] });
+
+        await service.processQueue();
+        const [item] = service.getQueueStatus().items;
+        expect(item).toMatchObject({ retryCount: 1, nextAttempt: Date.now() + 60000 });
+        expect(item.lastError).toContain('duplicate');
+
+        // Still backing off
+        expect(await service.processQueue()).toBe(0);
+        expect(service.getQueueStatus().items[0].retryCount).toBe(1);
+
+        vi.advanceTimersByTime(60000);
+        await service.processQueue();
+        expect(service.getQueueStatus().items[0].nextAttempt).toBe(Date.now() + 120000);
+
+        await service.processQueue(true);
+        await service.processQueue(true);
+
+        const status = service.getQueueStatus();
+        expect(status.count).toBe(0);
+        expect(status.deadLetters.map(dead => dead.flashcard.id)).toEqual(['a']);
+
+        state.notes = [];
+        expect(service.retryDeadLetters(['a'])).toBe(1);
+        expect(await service.processQueue()).toBe(1);
+        expect(service.getQueueStatus().deadLetters).toHaveLength(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should retry queued cards later when their deck cannot be created', async () => {
+      goOffline();
+      await service.syncFlashcards([{ id: 'a', front: 'Q', back: 'A', tags: [] }], 'Biology');
+      const handler = createMockAnkiConnectHandler(state);
+      global.fetch = vi.fn(async (url: string, init: { body: string }) => JSON.parse(init.body).action === 'createDeck'
+        ? { ok: true, json: async () => ({ result: null, error: 'Connection reset' }) }
+        : handler(url, init)) as unknown as typeof fetch;
+
+      expect(await service.processQueue()).toBe(0);
+
+      const [item] = service.getQueueStatus().items;
+      expect(item).toMatchObject({ deckName: 'Biology', retryCount: 1 });
+      expect(item.lastError).toContain('Connection reset');
+      expect(state.notes).toHaveLength(0);
+    });
+
+    it('should replay selected items after editing them and changing their deck', async () => {
+      goOffline();
+      const cards: Flashcard[] = [{ id: 'a', front: '', back: 'A', tags: [] }, { id: 'b', front: 'B', back: 'B', tags: [] }];
+      await service.syncFlashcards(cards);
+      global.fetch = vi.fn(createMockAnkiConnectHandler(state)) as unknown as typeof fetch;
+
+      service.updateQueuedFlashcard('a', { ...cards[0], front: 'Fixed' });
+      service.setQueuedDeck(['a'], 'Biology');
+
+      expect(await service.retryQueued(['a'])).toBe(1);
+
+      expect(state.notes.map(note => [note.fields.Front, note.deckName])).toEqual([['Fixed', 'Biology']]);
+      expect(service.getQueueStatus().items.map(item => item.flashcard.id)).toEqual(['b']);
+    });
+
+    it('should keep one entry per card and store the queue in the vault', async () => {
+      goOffline();
+      const card: Flashcard = { id: 'a', front: 'Q', back: 'A', tags: [] };
+      await service.syncFlashcards([card], 'Biology');
+      await service.syncFlashcards([{ ...card, back: 'Edited' }], 'Chemistry');
+
+      const reloaded = new AnkiSyncService(DEFAULT_SETTINGS, createApp(files), QUEUE_PATH);
+      await reloaded.loadQueue();
+
+      const { items } = reloaded.getQueueStatus();
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ deckName: 'Chemistry', flashcard: { back: 'Edited' } });
+      expect(items[0].lastError).toContain('AnkiConnect is not available');
+    });
+
+    it('should move a queue left in local storage into the vault', async () => {
+      const storage = new Map([['obsicard-sync-queue', JSON.stringify([{ flashcard: { id: 'old', front: 'Q', back: 'A', tags: [] }, timestamp: 0, retryCount: 0 }])]]);
+      service = new AnkiSyncService(DEFAULT_SETTINGS, createApp(files, storage), QUEUE_PATH);
+
+      await service.loadQueue();
+
+      expect(service.getQueueStatus().count).toBe(1);
+      expect(JSON.parse(files.get(QUEUE_PATH) as string).items).toHaveLength(1);
+      expect(storage.size).toBe(0);
+    });
+  });
+
+  describe('field mapping', () => {
+    const mappedSettings = {
+      ...DEFAULT_SETTINGS,
+      ankiNoteType: 'Obsidian',
+      ankiFieldMapping: {
+        Question: FlashcardField.FRONT,
+        Answer: FlashcardField.BACK,
+        Link: FlashcardField.SOURCE_LINK,
+        Notes: FlashcardField.NONE
+      }
+    };
+
+    beforeEach(() => {
+      state.models.Obsidian = ['Question', 'Answer', 'Link', 'Notes'];
+      service = new AnkiSyncService(mappedSettings, createApp(), QUEUE_PATH);
+    });
+
+    it('should write flashcard properties to the mapped fields', async () => {
+      const card: Flashcard = { front: 'Q', back: 'A', tags: [], source: 'Cells' };
+
+      await service.syncFlashcards([card], undefined, 'Biology/Cells.md');
+
+      expect(state.notes[0].modelName).toBe('Obsidian');
+      expect(state.notes[0].fields).toEqual({
+        Question: 'Q',
+        Answer: 'A',
+        Link: '<a href="obsidian://open?vault=My%20Vault&file=Biology%2FCells.md">Cells</a>'
+      });
+    });
+
+    it('should accept a mapping that matches the live note type', async () => {
+      const warnings = await service.validateFieldMapping('Obsidian', mappedSettings.ankiFieldMapping);
+
+      expect(warnings).toEqual([]);
+    });
+
+    it('should warn about missing note types and fields', async () => {
+      expect(await service.validateFieldMapping('Missing', {})).toEqual([
+        'Note type "Missing" does not exist in Anki'
+      ]);
+
+      const warnings = await service.validateFieldMapping('Obsidian', {
+        Prompt: FlashcardField.FRONT,
+        Answer: FlashcardField.BACK
+      });
+
+      expect(warnings).toContain('Field "Prompt" does not exist in note type "Obsidian"');
+      expect(warnings).toContain('The first field "Question" is not mapped, so Anki will reject new notes');
+    });
+  });
+
+  describe('pullChanges', () => {
+    async function syncCard(): Promise<Flashcard> {
+      const card: Flashcard = { id: 'card1', front: 'Q', back: 'A', tags: ['test'] };
+      await service.syncFlashcards([card]);
+      return card;
+    }
+
+    it('should pull edits made only in Anki', async () => {
+      const card = await syncCard();
+      state.notes[0].fields.Back = 'Fixed&nbsp;typo<br>second line';
+
+      const result = await service.pullChanges([card]);
+
+      expect(result.pulled).toHaveLength(1);
+      expect(result.pulled[0]).toMatchObject({ id: 'card1', front: 'Q', back: 'Fixed typo\nsecond line' });
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('should leave cards changed only in Obsidian alone', async () => {
+      const card = await syncCard();
+      card.back = 'Edited locally';
+
+      const result = await service.pullChanges([card]);
+
+      expect(result.localOnly).toBe(1);
+      expect(result.pulled).toHaveLength(0);
+    });
+
+    it('should report conflicts when both sides changed', async () => {
+      const card = await syncCard();
+      card.back = 'Edited locally';
+      state.notes[0].fields.Back = 'Edited in Anki';
+
+      const result = await service.pullChanges([card]);
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].local.back).toBe('Edited locally');
+      expect(result.conflicts[0].remote.back).toBe('Edited in Anki');
+    });
+
+    it('should count cards whose Anki note was deleted', async () => {
+      const card = await syncCard();
+      state.notes = [];
+
+      const result = await service.pullChanges([card]);
+
+      expect(result.missing).toBe(1);
+    });
+  });
+});
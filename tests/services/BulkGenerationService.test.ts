@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { BulkGenerationService } from '../../src/services/BulkGenerationService';
+import { GroqFlashcardService } from '../../src/services/GroqFlashcardService';
+import { MarkdownWriter } from '../../src/services/MarkdownWriter';
+import { BulkJobState, BulkScopeType, CardType, Flashcard, GenerationMode } from '../../src/types';
+import { createFile } from '../mocks/files';
+
+describe('BulkGenerationService', () => {
+  const files = [createFile('notes/a.md'), createFile('notes/b.md'), createFile('notes/c.md')];
+  const withSection = new Set(['notes/b.md']);
+  const scope = { type: BulkScopeType.FOLDER, value: 'notes', includeExisting: false };
+  const options = { mode: GenerationMode.DYNAMIC, tags: [], cardType: CardType.BASIC };
+
+  let app: App;
+  let groqService: GroqFlashcardService;
+  let markdownWriter: MarkdownWriter;
+  let service: BulkGenerationService;
+
+  beforeEach(() => {
+    app = new App();
+    app.vault.read = vi.fn(async (file: TFile) => `Content of ${file.path}`);
+
+    groqService = {
+      generateFlashcards: vi.fn(async (): Promise<Flashcard[]> => [
+        { front: 'Q', back: 'A', tags: [] }
+      ])
+    } as unknown as GroqFlashcardService;
+
+    markdownWriter = {
+      hasFlashcardsSection: vi.fn(async (file: TFile) => withSection.has(file.path))
+    } as unknown as MarkdownWriter;
+
+    service = new BulkGenerationService(app, groqService, markdownWriter);
+  });
+
+  it('should skip notes that already have flashcards', async () => {
+    const save = vi.fn(async () => {});
+    const job = service.createJob(files, scope, options, save);
+
+    const result = await job.run();
+
+    expect(result.state).toBe(BulkJobState.COMPLETED);
+    expect(result.processed).toBe(3);
+    expect(result.skipped).toBe(1);
+    expect(result.cardsGenerated).toBe(2);
+    expect(save).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record failures and continue with the next note', async () => {
+    const save = vi.fn(async (file: TFile) => {
+      if (file.path === 'notes/a.md') {
+        throw new Error('Disk full');
+      }
+    });
+    const job = service.createJob(files, { ...scope, includeExisting: true }, options, save);
+
+    const result = await job.run();
+
+    expect(result.failed).toBe(1);
+    expect(result.errors).toEqual([{ path: 'notes/a.md', message: 'Disk full' }]);
+    expect(result.cardsGenerated).toBe(2);
+  });
+
+  it('should apply frontmatter overrides and skip excluded notes', async () => {
+    const frontmatter: Record<string, Record<string, unknown>> = {
+      'notes/a.md': { 'obsicard-skip': true },
+      'notes/c.md': { 'obsicard-count': 4, 'obsicard-language': 'French' }
+    };
+    app.metadataCache.getFileCache = (file: TFile) => ({ frontmatter: frontmatter[file.path] });
+    const job = service.createJob(files, { ...scope, includeExisting: true }, options, async () => {});
+
+    const result = await job.run();
+
+    expect(result.skipped).toBe(1);
+    expect(groqService.generateFlashcards).toHaveBeenCalledTimes(2);
+    expect(groqService.generateFlashcards).toHaveBeenLastCalledWith(
+      'Content of notes/c.md',
+      { ...options, cardCount: 4, language: 'French' },
+      'c',
+      false,
+      { signal: expect.any(AbortSignal), onChunkFailure: expect.any(Function) }
+    );
+  });
+
+  it('should pause, resume and cancel between notes', async () => {
+    const job = service.createJob(files, { ...scope, includeExisting: true }, options, async () => {});
+    const states: BulkJobState[] = [];
+    let paused = false;
+
+    job.onProgress(progress => {
+      states.push(progress.state);
+      // Pause once after the first note, cancel after the second
+      if (!paused && progress.processed === 1) {
+        paused = true;
+        job.pause();
+      } else if (progress.processed === 2) {
+        job.cancel();
+      }
+    });
+
+    const running = job.run();
+    await vi.waitFor(() => expect(job.getProgress().state).toBe(BulkJobState.PAUSED));
+    expect(job.getProgress().processed).toBe(1);
+
+    job.resume();
+
+    const result = await running;
+    expect(result.state).toBe(BulkJobState.CANCELLED);
+    expect(result.processed).toBe(2);
+    expect(states).toContain(BulkJobState.PAUSED);
+  });
+});
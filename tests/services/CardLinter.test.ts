@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { CardLinter } from '../../src/services/CardLinter';
+import { CardType, Flashcard, LintRule } from '../../src/types';
+
+function rules(front: string, back: string, type = CardType.BASIC): LintRule[] {
+  const card: Flashcard = { front, back, tags: [], type };
+  return CardLinter.lint(card).warnings.map(warning => warning.rule);
+}
+
+describe('CardLinter', () => {
+  it('should give a well-formed card full marks', () => {
+    const quality = CardLinter.lint({ front: 'What organelle produces most of the ATP in a cell?', back: 'The mitochondrion', tags: [] });
+
+    expect(quality).toEqual({ score: 100, warnings: [] });
+  });
+
+  it('should flag cards testing several facts', () => {
+    expect(rules('What is ATP and where is it made?', 'Energy currency; mitochondria')).toContain(LintRule.MULTIPLE_FACTS);
+    expect(rules('What is ATP? Where is it made?', 'Energy currency; mitochondria')).toContain(LintRule.MULTIPLE_FACTS);
+    expect(rules('Name the stages of cellular respiration', '- Glycolysis\n- Krebs cycle\n- Electron transport chain'))
+      .toEqual([LintRule.MULTIPLE_FACTS]);
+    expect(rules('{{c1::Glycolysis}}, the {{c1::Krebs cycle}} and the {{c1::electron transport chain}} make up respiration', '', CardType.CLOZE))
+      .toEqual([LintRule.MULTIPLE_FACTS]);
+  });
+
+  it('should flag yes/no questions but not either/or questions', () => {
+    expect(rules('Is ATP produced in the mitochondria?', 'Yes')).toEqual([LintRule.YES_NO_QUESTION]);
+    expect(rules('Is ATP produced in the mitochondria or the nucleus?', 'In the mitochondria')).not.toContain(LintRule.YES_NO_QUESTION);
+  });
+
+  it('should flag answers given away by the question', () => {
+    expect(rules('What does the mitochondrion, the powerhouse of the cell, do?', 'Powerhouse of the cell')).toEqual([LintRule.ANSWER_IN_QUESTION]);
+    expect(rules('The {{c1::mitochondrion}} is where the mitochondrion makes ATP', '', CardType.CLOZE)).toEqual([LintRule.ANSWER_IN_QUESTION]);
+    expect(rules('The {{c1::mitochondrion}} makes ATP', 'The mitochondrion has its own DNA', CardType.CLOZE)).toEqual([]);
+  });
+
+  it('should flag vague pronouns and references to the source', () => {
+    expect(rules('What does it produce?', 'ATP')).toEqual([LintRule.VAGUE_PRONOUN]);
+    expect(rules('What is it called when cells divide?', 'Mitosis')).toEqual([]);
+    expect(rules('Which organelle does the author call the powerhouse of the cell?', 'The mitochondrion')).toEqual([LintRule.MISSING_CONTEXT]);
+    expect(rules('As mentioned above, {{c1::ATP}} stores energy', '', CardType.CLOZE)).toEqual([LintRule.MISSING_CONTEXT]);
+  });
+
+  it('should flag long answers and add up the penalties', () => {
+    const longAnswer = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+    expect(rules('What is cellular respiration?', longAnswer)).toEqual([LintRule.LONG_ANSWER]);
+
+    const quality = CardLinter.lint({ front: 'Does it make ATP?', back: 'Yes', tags: [] });
+    expect(quality.warnings.map(warning => warning.rule)).toEqual([LintRule.YES_NO_QUESTION, LintRule.VAGUE_PRONOUN]);
+    expect(quality.score).toBe(50);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { DeckRouter } from '../../src/services/DeckRouter';
+import { DEFAULT_SETTINGS, DeckRuleType, ObsiCardSettings } from '../../src/types';
+import { createFile } from '../mocks/files';
+
+describe('DeckRouter', () => {
+  let caches: Map<string, { frontmatter?: Record<string, unknown>; tags?: { tag: string }[] }>;
+  let settings: ObsiCardSettings;
+  let router: DeckRouter;
+
+  beforeEach(() => {
+    caches = new Map();
+    settings = {
+      ...DEFAULT_SETTINGS,
+      deckRules: [
+        { type: DeckRuleType.FRONTMATTER, match: 'anki-deck', deck: '' },
+        { type: DeckRuleType.TAG, match: '#exam', deck: 'Exams::Current' },
+        { type: DeckRuleType.FOLDER, match: 'Courses/*', deck: 'Uni::$1' }
+      ]
+    };
+    const app = {
+      metadataCache: { getFileCache: (file: TFile) => caches.get(file.path) ?? null }
+    } as unknown as App;
+    router = new DeckRouter(settings, app);
+  });
+
+  it('should map folders to nested decks', () => {
+    const route = router.resolve(createFile('Courses/Bio101/Week 1/Cells.md'));
+
+    expect(route.deckName).toBe('Uni::Bio101');
+    expect(route.rule).toBe(settings.deckRules[2]);
+  });
+
+  it('should evaluate rules in order', () => {
+    const file = createFile('Courses/Bio101/Cells.md');
+    caches.set(file.path, { frontmatter: { 'anki-deck': ' Biology :: Cells ' }, tags: [{ tag: '#exam/final' }] });
+
+    expect(router.resolve(file).deckName).toBe('Biology::Cells');
+
+    caches.set(file.path, { tags: [{ tag: '#exam/final' }] });
+    expect(router.resolve(file).deckName).toBe('Exams::Current');
+  });
+
+  it('should prefer the deck named by the note over the rules', () => {
+    const file = createFile('Courses/Bio101/Cells.md');
+    caches.set(file.path, { frontmatter: { 'obsicard-deck': 'Biology :: Cells' } });
+
+    expect(router.resolve(file)).toEqual({ deckName: 'Biology::Cells', fromNote: true });
+  });
+
+  it('should match card tags and fall back to the default deck', () => {
+    const file = createFile('Inbox/Cells.md');
+
+    expect(router.resolve(file, [{ front: 'Q', back: 'A', tags: ['Exam'] }]).deckName).toBe('Exams::Current');
+    expect(router.resolve(file, [{ front: 'Q', back: 'A', tags: ['examples'] }])).toEqual({ deckName: 'ObsiCard' });
+    expect(router.resolve(createFile('Courses/Cells.md'))).toEqual({ deckName: 'ObsiCard' });
+  });
+});
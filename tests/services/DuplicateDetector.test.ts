@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { DuplicateDetector } from '../../src/services/DuplicateDetector';
+import { AnkiSyncService } from '../../src/services/AnkiSyncService';
+import { FlashcardIndexService } from '../../src/services/FlashcardIndexService';
+import { GroqFlashcardService } from '../../src/services/GroqFlashcardService';
+import { CardSyncState, DEFAULT_SETTINGS, DuplicateSource, Flashcard, IndexedFlashcard, ObsiCardSettings } from '../../src/types';
+
+function card(front: string, back: string, ankiNoteId?: number): Flashcard {
+  return { front, back, tags: [], ...(ankiNoteId ? { ankiNoteId } : {}) };
+}
+
+function indexed(flashcard: Flashcard, filePath: string): IndexedFlashcard {
+  return { card: flashcard, filePath, sourcePath: filePath, state: CardSyncState.NEVER_SYNCED };
+}
+
+describe('DuplicateDetector', () => {
+  const file = { path: 'bio/cells.md', basename: 'cells' } as TFile;
+  let entries: IndexedFlashcard[];
+  let deckCards: Flashcard[];
+  let embed: ReturnType<typeof vi.fn>;
+
+  function createDetector(settings: Partial<ObsiCardSettings> = {}): DuplicateDetector {
+    const flashcardIndex = { buildIndex: async () => entries } as unknown as FlashcardIndexService;
+    const ankiService = { getDeckFlashcards: async () => deckCards } as unknown as AnkiSyncService;
+    const groqService = { embed } as unknown as GroqFlashcardService;
+    return new DuplicateDetector({ ...DEFAULT_SETTINGS, ...settings }, flashcardIndex, ankiService, groqService);
+  }
+
+  beforeEach(() => {
+    entries = [
+      indexed(card('What is the powerhouse of the cell?', 'The mitochondrion'), 'bio/cells.md'),
+      indexed(card('What does DNA stand for?', 'Deoxyribonucleic acid', 7), 'bio/dna.md')
+    ];
+    deckCards = [
+      card('What does DNA stand for?', 'Deoxyribonucleic acid', 7),
+      card('When did World War II end?', '1945', 8)
+    ];
+    embed = vi.fn();
+  });
+
+  it('should flag cards repeating the note or another note, and leave new ones alone', async () => {
+    const detector = createDetector();
+    const corpus = await detector.loadExisting(file);
+    const repeated = card('What is the powerhouse of the cell?', 'Mitochondrion.');
+    const elsewhere = card('What does **DNA** stand for?', 'deoxyribonucleic acid');
+
+    const matches = await detector.findDuplicates([repeated, elsewhere, card('What is ATP?', 'Adenosine triphosphate')], corpus);
+
+    expect(matches.map(match => [match.card, match.source, match.location])).toEqual([
+      [repeated, DuplicateSource.NOTE, 'bio/cells.md'],
+      [elsewhere, DuplicateSource.VAULT, 'bio/dna.md']
+    ]);
+    expect(matches[1].similarity).toBe(1);
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('should compare later cards of a run with earlier ones', async () => {
+    const detector = createDetector();
+    const corpus = await detector.loadExisting(file);
+    const first = card('What is ATP?', 'Adenosine triphosphate');
+    const second = card('What is ATP', 'Adenosine triphosphate.');
+
+    expect(await detector.findDuplicates([first], corpus)).toEqual([]);
+    const matches = await detector.findDuplicates([second], corpus);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ card: second, existing: first, source: DuplicateSource.BATCH });
+  });
+
+  it('should check the Anki deck only when enabled, skipping notes synced from the vault', async () => {
+    const newCard = card('When did World War II end?', '1945');
+
+    const withoutAnki = createDetector();
+    expect(await withoutAnki.findDuplicates([newCard], await withoutAnki.loadExisting(file, 'Biology'))).toEqual([]);
+
+    const withAnki = createDetector({ checkAnkiDuplicates: true });
+    const corpus = await withAnki.loadExisting(file, 'Biology');
+    const matches = await withAnki.findDuplicates([newCard, card('What does DNA stand for?', 'Deoxyribonucleic acid')], corpus);
+
+    expect(matches.map(match => [match.source, match.location])).toEqual([
+      [DuplicateSource.ANKI, 'Biology'],
+      [DuplicateSource.VAULT, 'bio/dna.md']
+    ]);
+  });
+
+  it('should catch reworded duplicates by embeddings and fall back to text when they fail', async () => {
+    const vectors: Record<string, number[]> = {
+      'what is the powerhouse of the cell the mitochondrion': [1, 0, 0],
+      'which organelle produces most of the energy of a cell mitochondria': [0.95, 0.1, 0],
+      'what is atp adenosine triphosphate': [0, 0, 1]
+    };
+    embed.mockImplementation(async (texts: string[]) => texts.map(text => vectors[text] ?? [0, 1, 0]));
+    const detector = createDetector({ embeddingModel: 'text-embedding-3-small' });
+    const corpus = await detector.loadExisting(file);
+    const reworded = card('Which organelle produces most of the energy of a cell?', 'Mitochondria');
+
+    const matches = await detector.findDuplicates([reworded, card('What is ATP?', 'Adenosine triphosphate')], corpus);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ card: reworded, source: DuplicateSource.NOTE, semantic: true });
+
+    embed.mockRejectedValueOnce(new Error('Model not found'));
+    const exact = card('What is the powerhouse of the cell?', 'The mitochondrion');
+    const fallback = await detector.findDuplicates([exact, card('Name the energy molecule', 'ATP')], corpus);
+
+    expect(fallback.map(match => match.card)).toEqual([exact]);
+    expect(corpus.embeddingFailed).toBe(true);
+  });
+
+  it('should keep the vectors a check needs when the embedding cache is full', async () => {
+    embed.mockImplementation(async (texts: string[]) => texts.map(text => text.includes('mitochondri') ? [1, 0, 0] : [0, 1, 0]));
+    const detector = createDetector({ embeddingModel: 'text-embedding-3-small' });
+    const corpus = await detector.loadExisting(file);
+    const cache = (detector as unknown as { embeddings: Map<string, number[]> }).embeddings;
+    cache.set('what is the powerhouse of the cell the mitochondrion', [1, 0, 0]);
+    while (cache.size < 5000) {
+      cache.set(`filler ${cache.size}`, [0, 1, 0]);
+    }
+    const reworded = card('Which organelle produces most of the energy of a cell?', 'Mitochondria');
+
+    const matches = await detector.findDuplicates([reworded], corpus);
+
+    expect(matches).toMatchObject([{ card: reworded, source: DuplicateSource.NOTE, semantic: true }]);
+    expect(cache.size).toBe(5000);
+    expect(cache.has('filler 1')).toBe(false);
+  });
+});
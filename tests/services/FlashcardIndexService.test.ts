@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { AnkiSyncService } from '../../src/services/AnkiSyncService';
+import { FlashcardIndexService } from '../../src/services/FlashcardIndexService';
+import { MarkdownWriter } from '../../src/services/MarkdownWriter';
+import { CardSyncState, DEFAULT_SETTINGS, Flashcard, QueuedSyncItem } from '../../src/types';
+import { createMockAnkiConnectHandler, createMockAnkiState } from '../mocks/anki';
+import { createFile } from '../mocks/files';
+
+function block(card: string): string {
+  return `---\n\n<!-- obsicard v2 ${card} -->\n**Q:** Q ${card}\n**A:** A\n<!-- /obsicard -->\n`;
+}
+
+describe('FlashcardIndexService', () => {
+  let files: Map<string, string>;
+  let state: ReturnType<typeof createMockAnkiState>;
+  let ankiService: AnkiSyncService;
+  let index: FlashcardIndexService;
+
+  beforeEach(async () => {
+    files = new Map([
+      ['bio/cells.md', '# Cells\n\n## Flashcards\n\n' + block('id: a') + '\n' + block('id: b anki-id: 1000') + '\n## Summary\n'],
+      ['bio/plain.md', '# No flashcards here\n'],
+      ['Flashcards/bio/dna - cards.md', '## Flashcards\n\n---\n\n<!-- obsicard v2 id: c -->\n**Q:** Q c\n**A:** A\n\n*Tags:* #bio/dna\n*Source:* [[bio/dna]]\n<!-- /obsicard -->\n'],
+      ['bio/dna.md', '# DNA\n']
+    ]);
+
+    const queue: QueuedSyncItem[] = [{ flashcard: { id: 'c', front: 'Q c', back: 'A', tags: [] }, timestamp: 0, retryCount: 0 }];
+    const queueFiles = new Map([['sync-queue.json', JSON.stringify({ items: queue, deadLetters: [] })]]);
+    const app = {
+      vault: {
+        getName: () => 'My Vault',
+        getMarkdownFiles: () => [...files.keys()].map(createFile),
+        getAbstractFileByPath: (path: string) => files.has(path) ? createFile(path) : null,
+        read: async (file: TFile) => files.get(file.path) ?? '',
+        modify: async (file: TFile, data: string) => {
+          files.set(file.path, data);
+        },
+        adapter: {
+          exists: async (path: string) => queueFiles.has(path),
+          read: async (path: string) => queueFiles.get(path) ?? '',
+          write: async (path: string, data: string) => {
+            queueFiles.set(path, data);
+          }
+        }
+      },
+      metadataCache: {
+        getFirstLinkpathDest: (link: string) => files.has(`${link}.md`) ? createFile(`${link}.md`) : null
+      }
+    } as unknown as App;
+
+    state = createMockAnkiState();
+    state.notes.push({ id: 1000, deckName: 'ObsiCard', modelName: 'Basic', fields: { Front: 'Q id: b anki-id: 1000', Back: 'A' }, tags: [] });
+    state.nextNoteId = 2000;
+    global.fetch = vi.fn(createMockAnkiConnectHandler(state)) as unknown as typeof fetch;
+
+    ankiService = new AnkiSyncService(DEFAULT_SETTINGS, app, 'sync-queue.json');
+    await ankiService.loadQueue();
+    index = new FlashcardIndexService(app, new MarkdownWriter(app), ankiService);
+  });
+
+  it('should index every Flashcards section with source notes and sync states', async () => {
+    const entries = await index.buildIndex();
+
+    expect(entries.map(entry => [entry.card.id, entry.filePath, entry.sourcePath, entry.state])).toEqual([
+      ['a', 'bio/cells.md', 'bio/cells.md', CardSyncState.NEVER_SYNCED],
+      ['b', 'bio/cells.md', 'bio/cells.md', CardSyncState.SYNCED],
+      ['c', 'Flashcards/bio/dna - cards.md', 'bio/dna.md', CardSyncState.QUEUED]
+    ]);
+    expect([...index.groupBySource(entries).keys()]).toEqual(['bio/cells.md', 'bio/dna.md']);
+  });
+
+  it('should filter by text and by tag, including nested tags', async () => {
+    const entries = await index.buildIndex();
+
+    expect(index.filterFlashcards(entries, 'q ID: A').map(entry => entry.card.id)).toEqual(['a']);
+    expect(index.filterFlashcards(entries, 'cells').map(entry => entry.card.id)).toEqual(['a', 'b']);
+    expect(index.filterFlashcards(entries, '', 'bio').map(entry => entry.card.id)).toEqual(['c']);
+    expect(index.getTags(entries)).toEqual(['bio/dna']);
+  });
+
+  it('should delete cards from notes, Anki and the sync queue', async () => {
+    const entries = await index.buildIndex();
+
+    const removed = await index.deleteFlashcards(entries.filter(entry => entry.card.id !== 'a'));
+
+    expect(removed).toBe(2);
+    expect(files.get('bio/cells.md')).toBe('# Cells\n\n## Flashcards\n\n' + block('id: a') + '\n## Summary\n');
+    expect(files.get('Flashcards/bio/dna - cards.md')).toBe('## Flashcards\n\n');
+    expect(state.notes).toHaveLength(0);
+    expect(ankiService.getQueueStatus().count).toBe(0);
+  });
+
+  it('should retag cards and move them to another deck', async () => {
+    const entries = await index.buildIndex();
+    const cells = entries.filter(entry => entry.filePath === 'bio/cells.md');
+
+    await index.retag(cells, ['exam'], []);
+    await index.moveToDeck(cells, 'Biology');
+
+    const reindexed = (await index.buildIndex()).filter(entry => entry.filePath === 'bio/cells.md');
+    expect(reindexed.map(entry => entry.card.tags)).toEqual([['exam'], ['exam']]);
+    expect(reindexed.every(entry => entry.state === CardSyncState.SYNCED)).toBe(true);
+    expect(state.notes.map(note => [note.id, note.deckName, note.tags])).toEqual([
+      [1000, 'Biology', ['exam']],
+      [2000, 'Biology', ['exam']]
+    ]);
+  });
+
+  it('should write IDs for cards that have none before acting on them', async () => {
+    files.set('bio/old.md', '## Flashcards\n\n---\n\n**Q:** Old\n\n**A:** Card\n\n*Tags:* #legacy\n');
+    const entries = (await index.buildIndex()).filter(entry => entry.filePath === 'bio/old.md');
+    expect(entries[0].card.id).toBeUndefined();
+
+    await index.resync(entries);
+
+    const [card] = (await index.buildIndex()).filter(entry => entry.filePath === 'bio/old.md').map(entry => entry.card);
+    expect(card).toMatchObject<Partial<Flashcard>>({ front: 'Old', back: 'Card', ankiNoteId: 2000 });
+    expect(card.id).toBeTruthy();
+  });
+});
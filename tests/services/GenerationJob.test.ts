@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GenerationJob } from '../../src/services/GenerationJob';
+import { GroqFlashcardService } from '../../src/services/GroqFlashcardService';
+import { AnkiSyncService } from '../../src/services/AnkiSyncService';
+import {
+  CardSyncStatus,
+  CardType,
+  Flashcard,
+  GenerationHooks,
+  GenerationMode,
+  GenerationProgress,
+  GenerationStage
+} from '../../src/types';
+
+const options = { mode: GenerationMode.DYNAMIC, tags: [], cardType: CardType.BASIC };
+const card = (n: number): Flashcard => ({ id: `card${n}`, front: `Q${n}`, back: `A${n}`, tags: [] });
+
+/**
+ * Generation service stub that emits one card and then runs the given step
+ */
+function createGroqService(afterFirstCard: (hooks: GenerationHooks) => Promise<Flashcard[]>): GroqFlashcardService {
+  return {
+    generateFlashcards: async (_content: string, _options: unknown, _noteName: unknown, _notify: unknown, hooks: GenerationHooks) => {
+      hooks.onFlashcards?.([card(1)]);
+      return afterFirstCard(hooks);
+    }
+  } as unknown as GroqFlashcardService;
+}
+
+describe('GenerationJob', () => {
+  it('should keep the cards generated before a cancel', async () => {
+    let signal: AbortSignal | undefined;
+    const groqService = createGroqService(async hooks => {
+      signal = hooks.signal;
+      job.cancel();
+      return [card(1)];
+    });
+    const job: GenerationJob = new GenerationJob(groqService, {} as AnkiSyncService);
+    const received: Flashcard[] = [];
+    job.onFlashcards(cards => received.push(...cards));
+
+    const flashcards = await job.generate('Content', options);
+
+    expect(signal?.aborted).toBe(true);
+    expect(job.isCancelled()).toBe(true);
+    expect(flashcards.map(c => c.id)).toEqual(['card1']);
+    expect(received).toEqual(flashcards);
+  });
+
+  it('should offer partial results when a later chunk fails, and fail only without any', async () => {
+    const failing = createGroqService(async () => {
+      throw new Error('Rate limited');
+    });
+    const partial = await new GenerationJob(failing, {} as AnkiSyncService).generate('Content', options);
+    expect(partial.map(c => c.id)).toEqual(['card1']);
+
+    const empty = {
+      generateFlashcards: async () => {
+        throw new Error('Rate limited');
+      }
+    } as unknown as GroqFlashcardService;
+    await expect(new GenerationJob(empty, {} as AnkiSyncService).generate('Content', options))
+      .rejects.toThrow('Rate limited');
+  });
+
+  it('should sync with a fresh signal after generation was stopped and report the syncing stage', async () => {
+    const syncFlashcards = vi.fn(async (cards: Flashcard[], _deck?: string, _path?: string, signal?: AbortSignal) => ({
+      synced: signal?.aborted ? 0 : cards.length,
+      updated: 0,
+      queued: 0,
+      errors: 0,
+      outcomes: cards.map(flashcard => ({
+        flashcard,
+        status: signal?.aborted ? CardSyncStatus.CANCELLED : CardSyncStatus.ADDED
+      }))
+    }));
+    const job = new GenerationJob(
+      createGroqService(async () => [card(1)]),
+      { syncFlashcards } as unknown as AnkiSyncService
+    );
+    const stages: GenerationStage[] = [];
+    job.onProgress((progress: GenerationProgress) => stages.push(progress.stage));
+
+    const flashcards = await job.generate('Content', options);
+    job.cancel();
+    const result = await job.sync(flashcards, 'Deck', 'Note.md');
+
+    expect(result.synced).toBe(1);
+    expect(syncFlashcards).toHaveBeenCalledWith(flashcards, 'Deck', 'Note.md', expect.any(AbortSignal));
+    expect(stages).toEqual([GenerationStage.SYNCING]);
+    expect(job.getProgress().stage).toBe(GenerationStage.SYNCING);
+  });
+});
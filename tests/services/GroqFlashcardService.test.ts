@@ -0,0 +1,242 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GroqFlashcardService } from '../../src/services/GroqFlashcardService';
+import { CardSource, CardType, ChunkFailure, DEFAULT_SETTINGS, Flashcard, GenerationMode, GenerationProgress, GenerationStage, LLMProviderType } from '../../src/types';
+import { createMockSSEServer, MockSSEServer, openAIStreamEvents } from '../mocks/sse';
+
+describe('GroqFlashcardService', () => {
+  const options = { mode: GenerationMode.DYNAMIC, tags: [], cardType: CardType.BASIC };
+  const reply = JSON.stringify([
+    { front: 'What is ATP?', back: 'The energy currency of the cell', tags: ['biology'] },
+    { front: 'Where is ATP made?', back: 'In the mitochondria', tags: ['biology'] },
+    { front: 'Broken card' }
+  ]);
+  let server: MockSSEServer | undefined;
+
+  function createService(url: string, streamGeneration = true): GroqFlashcardService {
+    return new GroqFlashcardService({
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.OPENAI_COMPATIBLE,
+      llmApiUrl: url,
+      llmModel: 'local-model',
+      requestsPerMinute: 0,
+      streamGeneration
+    });
+  }
+
+  function mockReplies(...replies: Array<{ status?: number; body: unknown }>): ReturnType<typeof vi.fn> {
+    const fetchMock = vi.fn();
+    for (const { status = 200, body } of replies) {
+      fetchMock.mockResolvedValueOnce({ status, json: async () => body } as Response);
+    }
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  const chatReply = (content: string) => ({ body: { choices: [{ message: { content } }] } });
+  const requestBody = (fetchMock: ReturnType<typeof vi.fn>, call: number) => JSON.parse(fetchMock.mock.calls[call][1].body as string);
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should pass on each card as soon as it has been streamed', async () => {
+    server = await createMockSSEServer(() => ({ events: openAIStreamEvents(reply) }));
+    const arrivals: Flashcard[][] = [];
+    const progress: GenerationProgress[] = [];
+
+    const flashcards = await createService(server.url).generateFlashcards('ATP is made in mitochondria.', options, 'Cells', false, {
+      onFlashcards: cards => arrivals.push(cards),
+      onProgress: update => progress.push(update)
+    });
+
+    expect(arrivals).toHaveLength(2);
+    expect(arrivals.flat()).toEqual(flashcards);
+    expect(flashcards).toMatchObject([
+      { front: 'What is ATP?', source: 'Cells', type: CardType.BASIC },
+      { front: 'Where is ATP made?', source: 'Cells', type: CardType.BASIC }
+    ]);
+    expect(progress[progress.length - 1]).toEqual({ stage: GenerationStage.GENERATING, chunksDone: 1, chunksTotal: 1, cardsGenerated: 2 });
+  });
+
+  it('should keep the cards received before the stream is cancelled', async () => {
+    const firstCard = JSON.stringify({ front: 'What is ATP?', back: 'The energy currency of the cell' });
+    server = await createMockSSEServer(() => ({ events: openAIStreamEvents(`[${firstCard}, {"front": "Where`), hold: true }));
+    const controller = new AbortController();
+
+    const flashcards = await createService(server.url).generateFlashcards('ATP is made in mitochondria.', options, 'Cells', false, {
+      signal: controller.signal,
+      onFlashcards: () => controller.abort()
+    });
+
+    expect(flashcards).toHaveLength(1);
+    expect(flashcards[0].front).toBe('What is ATP?');
+    await server.closed;
+  });
+
+  it('should send an unusable reply back with the validation errors', async () => {
+    const fetchMock = mockReplies(
+      chatReply('Here you go: [{front: "What is ATP?"}]'),
+      chatReply(JSON.stringify({ flashcards: [{ front: 'What is ATP?', back: 'The energy currency of the cell', tags: [] }] }))
+    );
+
+    const flashcards = await createService('http://localhost/v1/chat/completions', false)
+      .generateFlashcards('ATP is the energy currency of the cell.', options, 'Cells', false);
+
+    expect(flashcards).toMatchObject([{ front: 'What is ATP?', back: 'The energy currency of the cell' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestBody(fetchMock, 0).response_format).toEqual({ type: 'json_object' });
+
+    const repairMessages = requestBody(fetchMock, 1).messages;
+    expect(repairMessages[2]).toEqual({ role: 'assistant', content: 'Here you go: [{front: "What is ATP?"}]' });
+    expect(repairMessages[3].content).toContain('Reply is not valid JSON');
+  });
+
+  it('should keep the usable cards when the repair does not help', async () => {
+    const partial = JSON.stringify({ flashcards: [
+      { front: 'What is ATP?', back: 'The energy currency of the cell', tags: [] },
+      { front: 'Broken card' }
+    ] });
+    const fetchMock = mockReplies(chatReply(partial), chatReply('Sorry, I cannot do that.'));
+
+    const flashcards = await createService('http://localhost/v1/chat/completions', false)
+      .generateFlashcards('ATP is the energy currency of the cell.', options, 'Cells', false);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestBody(fetchMock, 1).messages[3].content).toContain('Card 2: Flashcard must have a valid "back" string');
+    expect(flashcards.map(card => card.front)).toEqual(['What is ATP?']);
+  });
+
+  it('should report why a chunk failed', async () => {
+    mockReplies({ status: 400, body: { error: { message: 'Context length exceeded' } } });
+    const failures: ChunkFailure[] = [];
+
+    await expect(createService('http://localhost/v1/chat/completions', false)
+      .generateFlashcards('ATP is the energy currency of the cell.', options, 'Cells', false, {
+        onChunkFailure: failure => failures.push(failure)
+      })).rejects.toThrow('Context length exceeded');
+
+    expect(failures).toEqual([{
+      chunk: 1,
+      chunksTotal: 1,
+      reason: 'OpenAI-compatible API error (400): Context length exceeded'
+    }]);
+  });
+
+  it('should rewrite a flashcard into cards keeping its tags and source', async () => {
+    const fetchMock = mockReplies(chatReply(JSON.stringify({
+      flashcards: [
+        { front: 'What is ATP?', back: 'The energy currency of the cell', tags: ['other'] },
+        { front: 'Where is ATP made?', back: 'In the mitochondria', tags: [] }
+      ]
+    })));
+    const card: Flashcard = { front: 'What is ATP and where is it made?', back: 'Energy currency; mitochondria', tags: ['biology'], source: 'Cells' };
+
+    const flashcards = await createService('http://localhost/v1/chat/completions', false)
+      .rewriteFlashcard(card, ['Asks several questions at once; split it into one card per question']);
+
+    expect(requestBody(fetchMock, 0).messages[1].content).toContain('- Asks several questions at once');
+    expect(requestBody(fetchMock, 0).messages[1].content).toContain('Front: What is ATP and where is it made?');
+    expect(flashcards).toMatchObject([
+      { front: 'What is ATP?', tags: ['biology'], source: 'Cells', type: CardType.BASIC },
+      { front: 'Where is ATP made?', tags: ['biology'], source: 'Cells', type: CardType.BASIC }
+    ]);
+  });
+
+  describe('long notes', () => {
+    // 30 chapters of about 500 tokens each
+    const book = Array.from({ length: 30 }, (_, i) => `## Chapter ${i + 1}\n\n${`Chapter ${i + 1} defines term${i + 1} precisely. `.repeat(60)}`).join('\n\n');
+
+    function mockModel(summaryLength: number) {
+      const fetchMock = vi.fn(async (_url: string, init: { body: string }) => {
+        const { messages } = JSON.parse(init.body) as { messages: Array<{ content: string }> };
+        let content = JSON.stringify({ flashcards: [{ front: 'What is term1?', back: 'A term', tags: [] }] });
+        if (messages[1].content.startsWith('The following are summaries')) {
+          content = 'Merged summary.';
+        } else if (messages[0].content.includes('summaries')) {
+          content = `Summary with term${[...messages[1].content.matchAll(/term(\d+)/g)].pop()?.[1]}. ${'Detail. '.repeat(summaryLength)}`;
+        }
+        return { status: 200, json: async () => ({ choices: [{ message: { content } }] }) } as Response;
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+      return fetchMock;
+    }
+
+    const prompts = (fetchMock: ReturnType<typeof mockModel>) => fetchMock.mock.calls.map(call => JSON.parse(call[1].body).messages[1].content as string);
+
+    it('should summarize every part of the note and generate from the summaries', async () => {
+      const fetchMock = mockModel(10);
+      const progress: GenerationProgress[] = [];
+
+      await createService('http://localhost/v1/chat/completions', false)
+        .generateFlashcards(book, options, 'Book', false, { onProgress: update => progress.push(update) });
+
+      const summaryPrompts = prompts(fetchMock).filter(prompt => prompt.startsWith('Please provide a concise summary'));
+      expect(summaryPrompts.length).toBeGreaterThan(1);
+      expect(summaryPrompts.join()).toContain('Chapter 30 defines term30');
+      expect(prompts(fetchMock).filter(prompt => prompt.startsWith('Generate')).join()).toContain('Summary with term30');
+      expect(progress.filter(update => update.stage === GenerationStage.SUMMARIZING).pop())
+        .toMatchObject({ chunksDone: summaryPrompts.length, chunksTotal: summaryPrompts.length });
+    });
+
+    it('should merge summaries that are still too long', async () => {
+      const fetchMock = mockModel(1500);
+
+      await createService('http://localhost/v1/chat/completions', false).generateFlashcards(book, options, 'Book', false);
+
+      const mergePrompts = prompts(fetchMock).filter(prompt => prompt.startsWith('The following are summaries'));
+      expect(mergePrompts.length).toBeGreaterThan(0);
+      expect(mergePrompts.join()).toContain('Summary with term30');
+      expect(prompts(fetchMock).filter(prompt => prompt.startsWith('Generate')).join()).toContain('Merged summary.');
+    });
+
+    it('should count the summary requests in the plan', () => {
+      const service = createService('http://localhost/v1/chat/completions');
+
+      const summarized = service.planGeneration(book, options);
+      const original = service.planGeneration(book, { ...options, cardSource: CardSource.ORIGINAL });
+
+      expect(summarized.summarize).toBe(true);
+      expect(summarized.summaryRequests).toBeGreaterThan(1);
+      expect(summarized.requests).toBe(summarized.chunks + summarized.summaryRequests);
+      expect(original).toMatchObject({ summarize: false, summaryRequests: 0 });
+      expect(original.requests).toBe(original.chunks);
+    });
+
+    it('should generate from every part of the full text when asked to', async () => {
+      const fetchMock = mockModel(10);
+
+      await createService('http://localhost/v1/chat/completions', false)
+        .generateFlashcards(book, { ...options, cardSource: CardSource.ORIGINAL }, 'Book', false);
+
+      expect(prompts(fetchMock).every(prompt => prompt.startsWith('Generate high-quality flashcards'))).toBe(true);
+      expect(prompts(fetchMock).join()).toContain('Chapter 30 defines term30');
+    });
+  });
+
+  describe('planGeneration', () => {
+    const content = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} explains how cells turn glucose into ATP during respiration.`).join('\n\n');
+
+    it('should leave room for the prompt and the answer in each chunk', () => {
+      const service = new GroqFlashcardService({ ...DEFAULT_SETTINGS, contextWindow: 5000 });
+
+      const plan = service.planGeneration(content, options);
+
+      expect(plan.chunkTokens).toBeLessThan(1000);
+      expect(plan.chunks).toBeGreaterThan(1);
+      expect(plan.requests).toBe(plan.chunks);
+      expect(plan.promptTokens).toBeGreaterThan(plan.contentTokens);
+      expect(plan.summarize).toBe(false);
+    });
+
+    it('should price models with known prices only', () => {
+      const groq = new GroqFlashcardService({ ...DEFAULT_SETTINGS, groqModel: 'llama-3.3-70b-versatile' });
+      const plan = groq.planGeneration(content, { ...options, cardCount: 10 });
+
+      expect(plan.chunks).toBe(1);
+      expect(plan.outputTokens).toBe(800);
+      expect(plan.estimatedCost).toBeCloseTo((plan.promptTokens * 0.59 + 800 * 0.79) / 1000000);
+      expect(createService('http://localhost/v1/chat/completions').planGeneration(content, options).estimatedCost).toBeUndefined();
+    });
+  });
+});
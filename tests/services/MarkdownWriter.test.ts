@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { MarkdownWriter } from '../../src/services/MarkdownWriter';
+import { CardType, Flashcard, FlashcardDestination, OutputFormat } from '../../src/types';
+import { createFile } from '../mocks/files';
+
+describe('MarkdownWriter', () => {
+  const file = createFile('notes/cells.md');
+  let content: string;
+  let writer: MarkdownWriter;
+
+  beforeEach(() => {
+    content = '# Cells\n\nSome notes.\n\n## Summary\n\nThe end.\n';
+    const app = new App();
+    app.vault.read = async () => content;
+    app.vault.modify = async (_file: TFile, data: string) => {
+      content = data;
+    };
+    writer = new MarkdownWriter(app);
+  });
+
+  it('should read back multi-line cards written to a note', async () => {
+    const cards: Flashcard[] = [{
+      front: 'What does this print?',
+      back: '```python\n# prints a greeting\nprint("hi")\n```\n\n---\n\n| a | b |\n|---|---|',
+      tags: ['python'],
+      type: CardType.BASIC,
+      source: 'cells',
+      created: '2025-01-31',
+      id: 'card1'
+    }];
+
+    await writer.writeFlashcardsToNote(file, cards);
+    await writer.writeFlashcardsToNote(file, [{ ...cards[0], id: 'card2', front: 'Second' }]);
+
+    const parsed = await writer.readFlashcardsFromNote(file);
+
+    expect(parsed).toEqual([cards[0], { ...cards[0], id: 'card2', front: 'Second' }]);
+    expect(content).toContain('## Summary');
+  });
+
+  it('should keep content and creation date when updating IDs', async () => {
+    const card: Flashcard = { front: 'Q', back: 'Line 1\nLine 2', tags: [], type: CardType.BASIC, created: '2025-01-31', id: 'card1' };
+    await writer.writeFlashcardsToNote(file, [card]);
+
+    await writer.updateFlashcardMetadata(file, [{ ...card, ankiNoteId: 99, syncHash: 'abc' }]);
+
+    const [parsed] = await writer.readFlashcardsFromNote(file);
+    expect(parsed).toEqual({ ...card, ankiNoteId: 99, syncHash: 'abc' });
+  });
+
+  it('should upgrade version 1 blocks when their content is replaced', async () => {
+    content = [
+      '## Flashcards',
+      '',
+      '---',
+      '',
+      '**Q:** Old question',
+      '',
+      '**A:** Old answer',
+      '',
+      '*Tags:* #bio',
+      '*Created:* 2024-12-01',
+      '<!-- obsicard-id: old1 anki-id: 42 -->',
+      ''
+    ].join('\n');
+
+    await writer.updateFlashcardContent(file, [{ front: 'New question', back: 'New\nanswer', tags: ['bio'], id: 'old1', ankiNoteId: 42 }]);
+
+    expect(content).toContain('<!-- obsicard v2 id: old1 anki-id: 42 -->');
+    expect(await writer.readFlashcardsFromNote(file)).toEqual([{
+      front: 'New question',
+      back: 'New\nanswer',
+      tags: ['bio'],
+      type: CardType.BASIC,
+      created: '2024-12-01',
+      id: 'old1',
+      ankiNoteId: 42
+    }]);
+  });
+
+  it('should delete cards without leaving their separators behind', async () => {
+    const cards: Flashcard[] = ['a', 'b', 'c'].map(id => ({ front: id, back: id, tags: [], type: CardType.BASIC, created: '2025-01-31', id }));
+    await writer.writeFlashcardsToNote(file, [cards[0], cards[2]]);
+    const expected = content;
+    content = '# Cells\n\nSome notes.\n\n## Summary\n\nThe end.\n';
+    await writer.writeFlashcardsToNote(file, cards);
+
+    expect(await writer.deleteFlashcards(file, ['b'])).toBe(1);
+
+    expect(content).toBe(expected);
+  });
+
+  it('should write new sections in the configured format and keep the format of existing ones', async () => {
+    const card: Flashcard = { front: 'Q', back: 'A', tags: ['bio'], type: CardType.BASIC, created: '2025-01-31', id: 'card1' };
+    writer.setOutputFormat(OutputFormat.SPACED_REPETITION);
+
+    await writer.writeFlashcardsToNote(file, [card]);
+
+    expect(content).toContain('## Flashcards\n\n#flashcards\n\nQ::A <!-- obsicard');
+    writer.setOutputFormat(OutputFormat.OBSICARD);
+    await writer.writeFlashcardsToNote(file, [{ ...card, id: 'card2' }]);
+
+    expect(content).not.toContain('<!-- obsicard v2');
+    expect(await writer.readFlashcardsFromNote(file)).toEqual([card, { ...card, id: 'card2' }]);
+  });
+
+  it('should remove duplicates in place without rewriting the section', async () => {
+    const card = (id: string, front: string, back: string): Flashcard =>
+      ({ front, back, tags: ['bio'], type: CardType.BASIC, created: '2025-01-31', id, ankiNoteId: id.charCodeAt(0) });
+    const [a, b, c] = [card('a', 'What is ATP?', 'Energy'), card('b', 'What is **ATP**', 'energy.'), card('c', 'Where is ATP made?', 'Mitochondria')];
+    const writeNote = async (cards: Flashcard[]) => {
+      content = '# Cells\n\nSome notes.\n';
+      await writer.writeFlashcardsToNote(file, cards);
+      content += '\n## Summary\n\nThe end.\n';
+    };
+    writer.setOutputFormat(OutputFormat.SPACED_REPETITION);
+    await writeNote([a, c]);
+    const expected = content;
+    await writeNote([a, b, c]);
+    writer.setOutputFormat(OutputFormat.OBSICARD);
+
+    expect(await writer.deduplicateFlashcards(file)).toBe(1);
+
+    expect(content).toBe(expected);
+    expect(await writer.readFlashcardsFromNote(file)).toEqual([a, c]);
+  });
+});
+
+describe('MarkdownWriter companion notes', () => {
+  const source = createFile('notes/bio/cells.md');
+  const companionPath = 'Flashcards/notes/bio/cells - cards.md';
+  let files: Map<string, string>;
+  let folders: Set<string>;
+  let writer: MarkdownWriter;
+
+  beforeEach(() => {
+    files = new Map([[source.path, '# Cells\n\nShared reference.\n']]);
+    folders = new Set(['notes', 'notes/bio']);
+
+    const app = new App();
+    const vault = app.vault as unknown as Record<string, unknown>;
+    vault.read = async (file: TFile) => files.get(file.path) ?? '';
+    vault.modify = async (file: TFile, data: string) => {
+      files.set(file.path, data);
+    };
+    vault.getAbstractFileByPath = (path: string) => {
+      if (files.has(path)) {
+        return createFile(path);
+      }
+      return folders.has(path) ? { path } : null;
+    };
+    vault.createFolder = async (path: string) => {
+      folders.add(path);
+    };
+    vault.create = async (path: string, data: string) => {
+      files.set(path, data);
+      return createFile(path);
+    };
+
+    writer = new MarkdownWriter(app);
+    writer.setDestination(FlashcardDestination.COMPANION_NOTE, 'Flashcards/{{folder}}/{{basename}} - cards');
+  });
+
+  it('should create the companion note and link cards back to the source', async () => {
+    const card: Flashcard = { front: 'Q', back: 'A', tags: [], type: CardType.BASIC, created: '2025-01-31', id: 'card1' };
+
+    const result = await writer.writeFlashcardsForNote(source, [card]);
+
+    expect(result?.file.path).toBe(companionPath);
+    expect([...folders]).toEqual(expect.arrayContaining(['Flashcards', 'Flashcards/notes', 'Flashcards/notes/bio']));
+    expect(files.get(source.path)).toBe('# Cells\n\nShared reference.\n');
+    expect(files.get(companionPath)).toContain('Flashcards for [[notes/bio/cells|cells]].');
+    expect(await writer.readFlashcardsForNote(source)).toEqual([{ ...card, source: 'notes/bio/cells' }]);
+  });
+
+  it('should skip cards already stored in the source or companion note', async () => {
+    files.set(source.path, files.get(source.path) + '\n## Flashcards\n\n<!-- obsicard v2 id: old -->\n**Q:** In source\n**A:** A\n<!-- /obsicard -->\n');
+    await writer.writeFlashcardsForNote(source, [{ front: 'In companion', back: 'A', tags: [] }]);
+
+    const result = await writer.writeFlashcardsForNote(source, [
+      { front: 'In source', back: 'A', tags: [] },
+      { front: 'In companion', back: 'A', tags: [] },
+      { front: 'New', back: 'A', tags: [] }
+    ]);
+
+    expect(result?.written.map(card => card.front)).toEqual(['New']);
+    expect((await writer.readFlashcardsForNote(source)).map(card => card.front)).toEqual(['In source', 'In companion', 'New']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { NoteOverrideReader } from '../../src/services/NoteOverrideReader';
+import { CardType, GenerationMode } from '../../src/types';
+
+describe('NoteOverrideReader', () => {
+  const defaults = { mode: GenerationMode.DYNAMIC, tags: ['default'], cardType: CardType.BASIC };
+
+  it('should parse overrides from frontmatter', () => {
+    const overrides = NoteOverrideReader.parse({
+      'obsicard-deck': 'Biology::Cells',
+      'obsicard-tags': '#cells, exam',
+      'obsicard-count': '5',
+      'obsicard-type': 'Cloze',
+      'obsicard-language': 'German',
+      'obsicard-model': 'llama-3.1-8b-instant'
+    });
+
+    expect(overrides).toEqual({
+      skip: false,
+      deckName: 'Biology::Cells',
+      tags: ['cells', 'exam'],
+      cardCount: 5,
+      cardType: CardType.CLOZE,
+      language: 'German',
+      model: 'llama-3.1-8b-instant'
+    });
+  });
+
+  it('should ignore invalid values', () => {
+    const overrides = NoteOverrideReader.parse({
+      'obsicard-skip': 'no',
+      'obsicard-mode': 'random',
+      'obsicard-count': -2,
+      'obsicard-type': 'essay',
+      'obsicard-language': ['German']
+    });
+
+    expect(overrides).toEqual({ skip: false });
+    expect(NoteOverrideReader.parse({ 'obsicard-count': 500 }).cardCount).toBe(50);
+  });
+
+  it('should read the overrides of a note and apply them to the defaults', () => {
+    const file = { path: 'notes/a.md' } as TFile;
+    const app = {
+      metadataCache: {
+        getFileCache: () => ({ frontmatter: { 'obsicard-skip': true, 'obsicard-tags': ['cells'], 'obsicard-count': 3 } })
+      }
+    } as unknown as App;
+    const reader = new NoteOverrideReader(app);
+
+    const overrides = reader.read(file);
+    expect(overrides.skip).toBe(true);
+    expect(NoteOverrideReader.apply(defaults, overrides)).toEqual({
+      mode: GenerationMode.FIXED,
+      tags: ['cells'],
+      cardType: CardType.BASIC,
+      cardCount: 3,
+      language: undefined,
+      model: undefined
+    });
+    expect(reader.read(undefined)).toEqual({ skip: false });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RequestScheduler } from '../../src/services/RequestScheduler';
+import { ProviderError } from '../../src/services/providers/LLMProvider';
+import { RateLimitQuota } from '../../src/types';
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Schedule a request and track whether it has been sent
+   */
+  function track(scheduler: RequestScheduler, tokens: number, send: () => Promise<string> = async () => 'ok') {
+    const state = { sent: false, result: undefined as Promise<string> | undefined };
+    state.result = scheduler.schedule(tokens, () => {
+      state.sent = true;
+      return send();
+    });
+    return state;
+  }
+
+  it('should pace requests within the tokens per minute', async () => {
+    const scheduler = new RequestScheduler(0, 6000);
+
+    const first = track(scheduler, 4000);
+    const second = track(scheduler, 4000);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first.sent).toBe(true);
+    expect(second.sent).toBe(false);
+
+    // 2000 tokens are missing, which refill in 20 seconds
+    await vi.advanceTimersByTimeAsync(19000);
+    expect(second.sent).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(second.sent).toBe(true);
+  });
+
+  it('should retry a rate-limited request after retry-after and hold back the others', async () => {
+    const scheduler = new RequestScheduler(0, 0);
+    const quotas: RateLimitQuota[] = [];
+    scheduler.onQuotaChange(quota => quotas.push(quota));
+    const send = vi.fn()
+      .mockRejectedValueOnce(new ProviderError('Groq API error (429): Rate limit reached', 429, { retryAfterMs: 5000 }))
+      .mockResolvedValueOnce('cards');
+
+    const limited = track(scheduler, 100, send);
+    await vi.advanceTimersByTimeAsync(0);
+    const other = track(scheduler, 100);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(other.sent).toBe(false);
+    expect(quotas[0].pausedUntil).toBe(Date.now() + 1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(limited.result).resolves.toBe('cards');
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(other.sent).toBe(true);
+  });
+
+  it('should give up on errors that are not transient and after the last retry', async () => {
+    const scheduler = new RequestScheduler(0, 0);
+
+    const invalid = vi.fn().mockRejectedValue(new ProviderError('Invalid model', 400));
+    await expect(scheduler.schedule(100, invalid)).rejects.toThrow('Invalid model');
+    expect(invalid).toHaveBeenCalledTimes(1);
+
+    const overloaded = vi.fn().mockRejectedValue(new ProviderError('Overloaded', 503));
+    const result = scheduler.schedule(100, overloaded);
+    const rejection = expect(result).rejects.toThrow('Overloaded');
+    await vi.advanceTimersByTimeAsync(60000);
+    await rejection;
+    expect(overloaded).toHaveBeenCalledTimes(4);
+  });
+
+  it('should adopt the reported token limit and wait for an exhausted one to reset', async () => {
+    const scheduler = new RequestScheduler(0, 0);
+    const quotas: RateLimitQuota[] = [];
+    scheduler.onQuotaChange(quota => quotas.push(quota));
+
+    scheduler.updateFromServer({ tokensLimit: 6000, tokensRemaining: 0, tokensResetMs: 10000, requestsRemaining: 14399 });
+    expect(quotas[quotas.length - 1]).toMatchObject({ tokensRemaining: 0, requestsRemaining: 14399 });
+
+    const request = track(scheduler, 500);
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(request.sent).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request.sent).toBe(true);
+    expect(scheduler.getQuota().pausedUntil).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Validator } from '../../src/services/Validator';
-import { Flashcard } from '../../src/types';
+import { Flashcard, CardType } from '../../src/types';
 
 describe('Validator', () => {
   describe('validateFlashcard', () => {
@@ -225,5 +225,48 @@ describe('Validator', () => {
       expect(sanitized[0].tags).toHaveLength(2); // Duplicates removed
     });
   });
-});
 
+  describe('cloze cards', () => {
+    it('should accept well-formed cloze cards without extra', () => {
+      const card = {
+        front: 'The {{c1::mitochondria}} produces {{c2::ATP::energy molecule}}.',
+        back: '',
+        tags: ['biology'],
+        type: CardType.CLOZE
+      };
+
+      const result = Validator.validateFlashcard(card);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject cloze cards without deletions', () => {
+      const result = Validator.validateFlashcard(
+        { front: 'No deletions here', back: '', tags: [] },
+        CardType.CLOZE
+      );
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject malformed cloze markup', () => {
+      const result = Validator.validateFlashcard(
+        { front: 'The {{c1::mitochondria is {{c2::broken}}', tags: [] },
+        CardType.CLOZE
+      );
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should repair cloze responses using text/extra fields', () => {
+      const result = Validator.validateGroqResponse(
+        [{ text: '{{c1::Paris}} is the capital of France.', extra: 'Since 987' }],
+        CardType.CLOZE
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.repaired?.[0]).toMatchObject({
+        front: '{{c1::Paris}} is the capital of France.',
+        back: 'Since 987',
+        type: CardType.CLOZE
+      });
+    });
+  });
+});
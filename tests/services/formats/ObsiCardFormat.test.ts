@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { ObsiCardFormat } from '../../../src/services/formats/ObsiCardFormat';
+import { CardType, Flashcard } from '../../../src/types';
+
+/**
+ * Small seeded PRNG (mulberry32) so failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Content fragments chosen to collide with the format's own syntax
+const FRAGMENTS = [
+  'What is photosynthesis?',
+  'The mitochondria is the powerhouse of the cell.',
+  '---',
+  '',
+  '**Q:** nested question',
+  '**A:**',
+  '**Cloze:** not a label',
+  '*Tags:* #fake',
+  '*Created:* 1999-01-01',
+  '*Source:* [[Elsewhere]]',
+  '\\**A:** already escaped',
+  '<!-- /obsicard -->',
+  '<!-- obsicard v2 id: fake -->',
+  '<!-- obsicard-id: legacy -->',
+  '```python\n# a comment, not a heading\nprint("hi")\n```',
+  '- first item\n- second item\n  - nested item',
+  '1. one\n2. two',
+  '$$\n\\int_0^1 x^2 \\, dx\n$$',
+  'Inline math $e^{i\\pi} + 1 = 0$',
+  '| a | b |\n|---|---|\n| 1 | 2 |',
+  '# Heading inside a card',
+  '## Another heading',
+  '> quoted text',
+  '    indented code',
+  'The {{c1::mitochondria}} makes {{c2::ATP::energy}}',
+  'trailing spaces   ',
+  '\\ starts with a backslash'
+];
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomText(random: () => number): string {
+  const lineCount = 1 + Math.floor(random() * 5);
+  const lines: string[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    lines.push(pick(random, FRAGMENTS));
+  }
+  return lines.join('\n').trim() || 'fallback';
+}
+
+function randomCard(random: () => number, index: number): Flashcard {
+  const type = random() < 0.3 ? CardType.CLOZE : CardType.BASIC;
+  const card: Flashcard = {
+    front: randomText(random),
+    back: type === CardType.CLOZE && random() < 0.4 ? '' : randomText(random),
+    tags: Array.from({ length: Math.floor(random() * 4) }, () => pick(random, ['bio', 'course/bio-101', 'exam_2', 'x'])),
+    type,
+    created: `2025-0${1 + Math.floor(random() * 9)}-1${Math.floor(random() * 10)}`
+  };
+
+  if (random() < 0.5) {
+    card.source = pick(random, ['Cell Biology', 'Courses/Bio 101/Lecture 3', 'note']);
+  }
+  if (random() < 0.8) {
+    card.id = `card${index}`;
+    if (random() < 0.6) {
+      card.ankiNoteId = 1700000000000 + index;
+      if (random() < 0.7) {
+        card.syncHash = `h${index.toString(36)}`;
+      }
+    }
+  }
+
+  return card;
+}
+
+describe('ObsiCardFormat', () => {
+  const format = new ObsiCardFormat();
+
+  it('should round-trip randomly generated flashcards', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const random = createRandom(seed);
+      const cards = Array.from({ length: 1 + Math.floor(random() * 4) }, (_, i) => randomCard(random, i));
+
+      const parsed = format.parseFlashcards(format.formatFlashcards(cards));
+
+      expect(parsed, `seed ${seed}`).toEqual(cards);
+    }
+  });
+
+  it('should write single-line fields inline and longer ones on their own lines', () => {
+    const text = format.formatFlashcard({
+      front: 'Question?',
+      back: 'Line one\nLine two',
+      tags: ['bio'],
+      type: CardType.BASIC,
+      created: '2025-01-31',
+      id: 'abc'
+    });
+
+    expect(text).toBe([
+      '<!-- obsicard v2 id: abc -->',
+      '**Q:** Question?',
+      '',
+      '**A:**',
+      '',
+      'Line one',
+      'Line two',
+      '',
+      '*Tags:* #bio',
+      '*Created:* 2025-01-31',
+      '<!-- /obsicard -->'
+    ].join('\n'));
+  });
+
+  it('should split sections into blocks that join back to the original text', () => {
+    const cards = [randomCard(createRandom(7), 0), randomCard(createRandom(8), 1)];
+    const text = 'Intro text\n\n' + format.formatFlashcards(cards) + '\n---\n\n**Q:** Legacy\n\n**A:** Card\n';
+
+    const blocks = format.splitBlocks(text);
+
+    expect(blocks.map(block => block.text).join('')).toBe(text);
+    expect(blocks.filter(block => block.card).map(block => block.version)).toEqual([2, 2, 1]);
+  });
+
+  it('should still read version 1 blocks', () => {
+    const text = [
+      '---',
+      '',
+      '**Q:** What is ATP?',
+      '',
+      '**A:** The energy currency of the cell',
+      '',
+      '*Tags:* #bio #course/cells',
+      '*Created:* 2024-12-01',
+      '<!-- obsicard-id: old1 anki-id: 42 -->',
+      ''
+    ].join('\n');
+
+    expect(format.parseFlashcards(text)).toEqual([{
+      front: 'What is ATP?',
+      back: 'The energy currency of the cell',
+      tags: ['bio', 'course/cells'],
+      created: '2024-12-01',
+      id: 'old1',
+      ankiNoteId: 42,
+      syncHash: undefined
+    }]);
+  });
+
+  it('should end the section at headings outside cards only', () => {
+    const card: Flashcard = { front: 'Q', back: '## Not the end\n# Still not', tags: [], type: CardType.BASIC };
+    const section = '\n\n' + format.formatFlashcards([card]) + '\n## Next section\n';
+
+    const end = format.findSectionEnd(section);
+
+    expect(section.substring(end)).toBe('\n## Next section\n');
+  });
+});
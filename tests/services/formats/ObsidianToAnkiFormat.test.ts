@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ObsidianToAnkiFormat } from '../../../src/services/formats/ObsidianToAnkiFormat';
+import { CardType, Flashcard } from '../../../src/types';
+
+describe('ObsidianToAnkiFormat', () => {
+  const format = new ObsidianToAnkiFormat();
+
+  it('should write START/END blocks that read back to the same cards', () => {
+    const cards: Flashcard[] = [
+      { front: 'What does this print?', back: '```python\n# a comment\nprint("hi")\n```', tags: ['python', 'code'], type: CardType.BASIC, created: '2025-01-31', id: 'a1', ankiNoteId: 1700000000000, syncHash: 'h1' },
+      { front: 'The {{c1::mitochondria}} makes ATP', back: '', tags: [], type: CardType.CLOZE, source: 'Cells', created: '2025-01-31' }
+    ];
+    const text = format.formatFlashcards(cards);
+
+    expect(text.split('\n')).toEqual([
+      '<!-- obsicard id: a1 sync: h1 created: 2025-01-31 -->',
+      'START',
+      'Basic',
+      'Front: What does this print?',
+      'Back: ```python',
+      '# a comment',
+      'print("hi")',
+      '```',
+      'Tags: python code',
+      '<!--ID: 1700000000000-->',
+      'END',
+      '',
+      '<!-- obsicard source: Cells created: 2025-01-31 -->',
+      'START',
+      'Cloze',
+      'Text: The {{c1::mitochondria}} makes ATP',
+      'Back Extra:',
+      'END',
+      ''
+    ]);
+    expect(format.parseFlashcards(text)).toEqual(cards);
+    expect(format.splitBlocks(text).map(block => block.text).join('')).toBe(text);
+  });
+
+  it('should read blocks written by the plugin without ObsiCard metadata', () => {
+    const text = 'Intro\n\nSTART\nBasic\nFront: Q\nBack: A\n<!--ID: 42-->\nEND\n';
+
+    expect(format.parseFlashcards(text)).toEqual([
+      { front: 'Q', back: 'A', tags: [], type: CardType.BASIC, ankiNoteId: 42 }
+    ]);
+  });
+
+  it('should not end the section at headings inside blocks', () => {
+    const text = '\n\nSTART\nBasic\nFront: Q\nBack: A\n## Not a section\nEND\n\n## Next';
+
+    expect(format.findSectionEnd(text)).toBe(text.indexOf('\n## Next'));
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { SpacedRepetitionFormat } from '../../../src/services/formats/SpacedRepetitionFormat';
+import { CardType, Flashcard } from '../../../src/types';
+
+describe('SpacedRepetitionFormat', () => {
+  const format = new SpacedRepetitionFormat();
+
+  it('should write single-line, multi-line and cloze cards in the plugin syntax', () => {
+    const cards: Flashcard[] = [
+      { front: 'Capital of France', back: 'Paris', tags: ['geo'], type: CardType.BASIC, created: '2025-01-31', id: 'a1' },
+      { front: 'List the primary colours', back: '- red\n- green\n- blue', tags: [], type: CardType.BASIC, created: '2025-01-31' },
+      { front: 'The {{c1::mitochondria}} makes {{c2::ATP}}', back: 'Cell biology', tags: [], type: CardType.CLOZE, created: '2025-01-31' }
+    ];
+
+    expect(format.formatFlashcards(cards).split('\n')).toEqual([
+      'Capital of France::Paris <!-- obsicard id: a1 tags: geo created: 2025-01-31 -->',
+      '',
+      'List the primary colours',
+      '?',
+      '- red',
+      '- green',
+      '- blue',
+      '<!-- obsicard created: 2025-01-31 -->',
+      '',
+      'The ==mitochondria== makes ==ATP==',
+      '<!-- obsicard created: 2025-01-31 extra: Cell%20biology -->',
+      ''
+    ]);
+    expect(format.parseFlashcards(format.formatFlashcards(cards))).toEqual(cards);
+  });
+
+  it('should read cards written by hand or by the plugin', () => {
+    const text = [
+      '#flashcards',
+      '',
+      'What is 2 + 2?:::4',
+      '',
+      'Multi-line question',
+      '??',
+      'Multi-line answer',
+      '<!--SR:!2025-02-01,3,250-->',
+      '',
+      'Just a paragraph of notes.'
+    ].join('\n');
+
+    expect(format.parseFlashcards(text)).toEqual([
+      { front: 'What is 2 + 2?', back: '4', tags: [], type: CardType.BASIC },
+      { front: 'Multi-line question', back: 'Multi-line answer', tags: [], type: CardType.BASIC }
+    ]);
+  });
+
+  it('should keep the scheduling comment when updating IDs', () => {
+    const text = 'Q::A <!-- obsicard created: 2025-01-31 --> <!--SR:!2025-02-01,3,250-->\n';
+    const [block] = format.splitBlocks(text);
+
+    const updated = format.updateBlockMetadata(block, { front: 'Q', back: 'A', tags: [], id: 'a1', ankiNoteId: 7, syncHash: 'h' });
+
+    expect(updated).toBe('Q::A <!-- obsicard id: a1 anki-id: 7 sync: h created: 2025-01-31 --> <!--SR:!2025-02-01,3,250-->\n');
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createLLMProvider } from '../../../src/services/providers/ProviderFactory';
+import { GroqProvider } from '../../../src/services/providers/GroqProvider';
+import { DEFAULT_SETTINGS, LLMProviderType, ObsiCardSettings } from '../../../src/types';
+import { mockFlashcardResponse } from '../../mocks/groq';
+
+function mockFetchOnce(response: unknown, status = 200) {
+  const fetchMock = global.fetch as ReturnType<typeof vi.fn>;
+  fetchMock.mockResolvedValueOnce({
+    status,
+    json: async () => response
+  } as Response);
+  return fetchMock;
+}
+
+function lastRequest(fetchMock: ReturnType<typeof vi.fn>) {
+  const [url, options] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+  return {
+    url: url as string,
+    headers: options.headers as Record<string, string>,
+    body: JSON.parse(options.body as string)
+  };
+}
+
+describe('ProviderFactory', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  it('should default to Groq', () => {
+    const provider = createLLMProvider(DEFAULT_SETTINGS);
+    expect(provider).toBeInstanceOf(GroqProvider);
+    expect(provider.validateConfig()).toContain('API key');
+  });
+
+  it('should send OpenAI-style requests to custom endpoints', async () => {
+    const settings: ObsiCardSettings = {
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.OPENAI_COMPATIBLE,
+      llmApiUrl: 'http://localhost:11434/v1/chat/completions',
+      llmModel: 'llama3.1'
+    };
+    const fetchMock = mockFetchOnce(mockFlashcardResponse);
+
+    const content = await createLLMProvider(settings).complete({
+      messages: [{ role: 'user', content: 'Hi' }],
+      maxTokens: 100
+    });
+
+    const request = lastRequest(fetchMock);
+    expect(request.url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(request.body.model).toBe('llama3.1');
+    expect(content).toContain('photosynthesis');
+  });
+
+  it('should use api-key header and omit model for Azure', async () => {
+    const settings: ObsiCardSettings = {
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.AZURE_OPENAI,
+      llmApiUrl: 'https://example.openai.azure.com/openai/deployments/gpt/chat/completions?api-version=2024-06-01',
+      llmApiKey: 'azure-key'
+    };
+    const fetchMock = mockFetchOnce(mockFlashcardResponse);
+
+    await createLLMProvider(settings).complete({
+      messages: [{ role: 'user', content: 'Hi' }],
+      maxTokens: 100
+    });
+
+    const request = lastRequest(fetchMock);
+    expect(request.headers['api-key']).toBe('azure-key');
+    expect(request.body.model).toBeUndefined();
+  });
+
+  it('should build Anthropic Messages requests and parse text blocks', async () => {
+    const settings: ObsiCardSettings = {
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.ANTHROPIC,
+      llmApiKey: 'sk-ant-test',
+      llmModel: 'claude-3-5-haiku-latest'
+    };
+    const fetchMock = mockFetchOnce({
+      content: [{ type: 'text', text: '[{"front":"Q","back":"A","tags":[]}]' }]
+    });
+
+    const content = await createLLMProvider(settings).complete({
+      messages: [
+        { role: 'system', content: 'Be helpful' },
+        { role: 'user', content: 'Hi' }
+      ],
+      maxTokens: 100
+    });
+
+    const request = lastRequest(fetchMock);
+    expect(request.url).toBe('https://api.anthropic.com/v1/messages');
+    expect(request.headers['x-api-key']).toBe('sk-ant-test');
+    expect(request.body.system).toBe('Be helpful');
+    expect(request.body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(content).toBe('[{"front":"Q","back":"A","tags":[]}]');
+  });
+
+  it('should enforce a response schema with JSON mode or a forced tool call', async () => {
+    const responseSchema = { type: 'object', properties: { flashcards: { type: 'array' } } };
+    const messages = [{ role: 'user' as const, content: 'Hi' }];
+    const groqSettings = { ...DEFAULT_SETTINGS, groqApiKey: 'gsk_test' };
+    const fetchMock = mockFetchOnce(mockFlashcardResponse);
+
+    await createLLMProvider(groqSettings).complete({ messages, maxTokens: 100, responseSchema });
+    expect(lastRequest(fetchMock).body.response_format).toEqual({ type: 'json_object' });
+
+    const anthropicSettings = { ...DEFAULT_SETTINGS, llmProvider: LLMProviderType.ANTHROPIC, llmApiKey: 'sk-ant-test', llmModel: 'claude' };
+    mockFetchOnce({
+      content: [{ type: 'tool_use', name: 'submit_response', input: { flashcards: [] } }]
+    });
+
+    const content = await createLLMProvider(anthropicSettings).complete({ messages, maxTokens: 100, responseSchema });
+
+    const request = lastRequest(fetchMock);
+    expect(request.body.tools[0]).toMatchObject({ name: 'submit_response', input_schema: responseSchema });
+    expect(request.body.tool_choice).toEqual({ type: 'tool', name: 'submit_response' });
+    expect(content).toBe('{"flashcards":[]}');
+  });
+
+  it('should request embeddings next to the chat endpoint, or from the Azure deployment named by the model', async () => {
+    const openAISettings = {
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.OPENAI_COMPATIBLE,
+      llmApiUrl: 'https://api.openai.com/v1/chat/completions',
+      llmModel: 'gpt-4o-mini'
+    };
+    const fetchMock = mockFetchOnce({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+
+    const embeddings = await createLLMProvider(openAISettings).embed(['a', 'b'], 'text-embedding-3-small');
+
+    expect(lastRequest(fetchMock).url).toBe('https://api.openai.com/v1/embeddings');
+    expect(lastRequest(fetchMock).body).toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+    expect(embeddings).toEqual([[1, 0], [0, 1]]);
+
+    const azureSettings = {
+      ...DEFAULT_SETTINGS,
+      llmProvider: LLMProviderType.AZURE_OPENAI,
+      llmApiUrl: 'https://example.openai.azure.com/openai/deployments/gpt/chat/completions?api-version=2024-06-01',
+      llmApiKey: 'azure-key'
+    };
+    mockFetchOnce({ data: [{ index: 0, embedding: [1] }] });
+
+    await createLLMProvider(azureSettings).embed(['a'], 'embed');
+    expect(lastRequest(fetchMock).url).toBe('https://example.openai.azure.com/openai/deployments/embed/embeddings?api-version=2024-06-01');
+
+    await expect(createLLMProvider({ ...DEFAULT_SETTINGS, groqApiKey: 'gsk_test' }).embed(['a'], 'embed'))
+      .rejects.toThrow('Groq does not offer embeddings');
+  });
+
+  it('should surface provider error messages', async () => {
+    const settings = { ...DEFAULT_SETTINGS, groqApiKey: 'gsk_test' };
+    mockFetchOnce({ error: { message: 'Invalid model' } }, 400);
+
+    await expect(createLLMProvider(settings).complete({
+      messages: [{ role: 'user', content: 'Hi' }],
+      maxTokens: 100
+    })).rejects.toThrow('Groq API error (400): Invalid model');
+  });
+
+  it('should reject malformed Groq keys when testing the connection', async () => {
+    const settings = { ...DEFAULT_SETTINGS, groqApiKey: 'not-a-groq-key' };
+    const result = await createLLMProvider(settings).testConnection();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('gsk_');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { OpenAICompatibleProvider } from '../../../src/services/providers/OpenAICompatibleProvider';
+import { AnthropicProvider } from '../../../src/services/providers/AnthropicProvider';
+import { createMockSSEServer, MockSSEServer, openAIStreamEvents } from '../../mocks/sse';
+
+describe('LLMProvider streaming', () => {
+  let server: MockSSEServer | undefined;
+  const request = { messages: [{ role: 'user' as const, content: 'Hi' }], maxTokens: 100 };
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should stream OpenAI-compatible completions piece by piece', async () => {
+    server = await createMockSSEServer(() => ({ events: openAIStreamEvents('Hello, streaming world!') }));
+    const provider = new OpenAICompatibleProvider({ url: server.url, apiKey: 'key', model: 'local-model' });
+    const pieces: string[] = [];
+
+    const text = await provider.stream(request, piece => pieces.push(piece));
+
+    expect(text).toBe('Hello, streaming world!');
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(server.requests[0]).toMatchObject({ model: 'local-model', stream: true });
+  });
+
+  it('should stream Anthropic text deltas', async () => {
+    server = await createMockSSEServer(() => ({
+      events: [
+        { event: 'message_start', data: '{"type":"message_start"}' },
+        { event: 'content_block_delta', data: '{"delta":{"type":"text_delta","text":"[{\\"front\\":"}}' },
+        { event: 'content_block_delta', data: '{"delta":{"type":"text_delta","text":"\\"Q\\"}]"}}' },
+        { event: 'message_stop', data: '{"type":"message_stop"}' }
+      ]
+    }));
+    const provider = new AnthropicProvider(server.url, 'key', 'claude-model');
+
+    expect(await provider.stream(request, () => {})).toBe('[{"front":"Q"}]');
+  });
+
+  it('should report error statuses and errors sent in the stream', async () => {
+    server = await createMockSSEServer(body => body.model === 'missing'
+      ? { status: 404, body: JSON.stringify({ error: { message: 'Model not found' } }) }
+      : { events: [{ data: JSON.stringify({ error: { message: 'Overloaded' } }) }] });
+
+    const missing = new OpenAICompatibleProvider({ url: server.url, apiKey: '', model: 'missing' });
+    await expect(missing.stream(request, () => {})).rejects.toThrow('OpenAI-compatible API error (404): Model not found');
+
+    const overloaded = new OpenAICompatibleProvider({ url: server.url, apiKey: '', model: 'busy' });
+    await expect(overloaded.stream(request, () => {})).rejects.toThrow('Overloaded');
+  });
+});
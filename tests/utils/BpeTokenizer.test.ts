@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { BpeTokenizer } from '../../src/utils/BpeTokenizer';
+
+describe('BpeTokenizer', () => {
+  // Tokens as raw bytes in a latin1 string, ranked by position
+  function vocabulary(...tokens: string[]): string {
+    return tokens.map((token, rank) => `${btoa(token)} ${rank}`).join('\n');
+  }
+
+  it('should merge the lowest ranked pair first', () => {
+    const tokenizer = BpeTokenizer.fromTiktoken('test', vocabulary('a', 'b', 'c', 'd', 'bc', 'ab', 'cd', 'abcd'));
+
+    // "bc" merges before "ab" and "cd", so "abcd" can no longer form
+    expect(tokenizer.countTokens('abcd')).toBe(1);
+    expect(tokenizer.countTokens('abcda')).toBe(4);
+  });
+
+  it('should split text into words before merging', () => {
+    const tokenizer = BpeTokenizer.fromTiktoken('test', vocabulary('a', 'b', ' ', 'ab', ' ab'));
+
+    expect(tokenizer.countTokens('ab ab ab')).toBe(3);
+    expect(tokenizer.countTokens('abab')).toBe(2);
+  });
+
+  it('should merge the UTF-8 bytes of a character', () => {
+    const tokenizer = BpeTokenizer.fromTiktoken('test', vocabulary('\xc3', '\xa9', '\xc3\xa9'));
+    const bytesOnly = BpeTokenizer.fromTiktoken('test', vocabulary('\xc3', '\xa9'));
+
+    expect(tokenizer.countTokens('é')).toBe(1);
+    expect(bytesOnly.countTokens('é')).toBe(2);
+  });
+
+  it('should reject a file without tokens', () => {
+    expect(() => BpeTokenizer.fromTiktoken('test', '\n')).toThrow('no tokens');
+  });
+});
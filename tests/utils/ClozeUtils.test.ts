@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ClozeUtils } from '../../src/utils/ClozeUtils';
+
+describe('ClozeUtils', () => {
+  describe('validate', () => {
+    it('should accept multiple deletions and hints', () => {
+      expect(ClozeUtils.validate('{{c1::Water}} boils at {{c2::100 °C::temperature}}.')).toEqual([]);
+    });
+
+    it('should reject empty deletions', () => {
+      expect(ClozeUtils.validate('The answer is {{c1::  }}.')).toHaveLength(1);
+    });
+
+    it('should reject c0 deletions', () => {
+      expect(ClozeUtils.validate('{{c0::Zero}} is invalid')[0]).toContain('1 or higher');
+    });
+
+    it('should reject unbalanced braces', () => {
+      expect(ClozeUtils.validate('{{c1::Valid}} but {{c2::open').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('hideDeletions', () => {
+    it('should hide answers and show hints', () => {
+      expect(ClozeUtils.hideDeletions('{{c1::Paris}} is in {{c2::France::country}}'))
+        .toBe('[...] is in [country]');
+    });
+  });
+
+  describe('revealDeletions', () => {
+    it('should show answers as plain text', () => {
+      expect(ClozeUtils.revealDeletions('{{c1::Paris}} is in {{c2::France::country}}'))
+        .toBe('Paris is in France');
+    });
+  });
+
+  describe('segments', () => {
+    it('should split text into plain and hidden parts', () => {
+      expect(ClozeUtils.segments('A {{c1::B}} C')).toEqual([
+        { text: 'A ' },
+        { text: '[...]', answer: 'B' },
+        { text: ' C' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { EstimatingTokenizer } from '../../src/utils/EstimatingTokenizer';
+
+describe('EstimatingTokenizer', () => {
+  const tokenizer = new EstimatingTokenizer();
+
+  it('should count common English words as one token each', () => {
+    // 10 tokens with the Llama 3 vocabulary
+    expect(tokenizer.countTokens('The quick brown fox jumps over the lazy dog.')).toBe(10);
+  });
+
+  it('should count numbers in groups of three digits', () => {
+    expect(tokenizer.countTokens('1234567')).toBe(3);
+  });
+
+  it('should count each CJK character', () => {
+    expect(tokenizer.countTokens('日本語のテキスト')).toBe(8);
+  });
+
+  it('should count code and math well above four characters per token', () => {
+    const code = 'if (a[i] != b[j]) { return -1; }';
+    const math = '∫₀¹ x² dx = ⅓';
+
+    expect(tokenizer.countTokens(code)).toBeGreaterThan(code.length / 3);
+    expect(tokenizer.countTokens(math)).toBeGreaterThan(math.length / 4);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { JsonArrayStreamParser } from '../../src/utils/JsonArrayStreamParser';
+
+describe('JsonArrayStreamParser', () => {
+  it('should return each object as soon as it is complete', () => {
+    const parser = new JsonArrayStreamParser();
+    const text = '```json\n[{"front": "Set {a}?", "back": "A \\"]\\" }", "tags": ["x"]}, {"front": "Q2", "back": "A2"}]\n```';
+
+    const seen = [...text].map(char => parser.push(char));
+
+    const completed = seen.flatMap((objects, index) => objects.map(object => ({ index, object })));
+    expect(completed.map(({ object }) => object)).toEqual([
+      { front: 'Set {a}?', back: 'A "]" }', tags: ['x'] },
+      { front: 'Q2', back: 'A2' }
+    ]);
+    // The first card is available long before the reply ends
+    expect(completed[0].index).toBe(text.indexOf('}, {'));
+  });
+
+  it('should skip a wrapper object and elements that are not valid JSON', () => {
+    const parser = new JsonArrayStreamParser();
+
+    expect(parser.push('{"flashcards": [{"front": "Q", "back": "A"}, {"front": 1,}, ')).toEqual([{ front: 'Q', back: 'A' }]);
+    expect(parser.push('{"front": "Q2", "back": "A2"}]}')).toEqual([{ front: 'Q2', back: 'A2' }]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownChunker } from '../../src/utils/MarkdownChunker';
+import { TokenUtils } from '../../src/utils/TokenUtils';
+
+describe('MarkdownChunker', () => {
+  const paragraph = (topic: string) => `${topic} is explained here in a few plain sentences. It matters for the exam. Remember it well.`;
+
+  it('should end chunks at headings and keep the heading breadcrumb', () => {
+    const note = [
+      '# Biology',
+      '',
+      '## Cells',
+      '',
+      paragraph('The cell'),
+      '',
+      paragraph('The membrane'),
+      '',
+      '## Energy',
+      '',
+      paragraph('ATP'),
+      '',
+      paragraph('Respiration')
+    ].join('\n');
+
+    const chunks = MarkdownChunker.chunk(note, 70);
+
+    expect(chunks.map(chunk => chunk.headings)).toEqual([['Biology'], ['Biology', 'Energy']]);
+    expect(chunks[0].content.startsWith('# Biology\n\n## Cells')).toBe(true);
+    expect(chunks[1].content.startsWith('# Biology\n\n## Energy\n\nATP')).toBe(true);
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[0, 6], [8, 12]]);
+  });
+
+  it('should restore the headings above a chunk that starts within a section', () => {
+    const note = ['# Biology', '## Cells', paragraph('The cell'), '', paragraph('The membrane'), '', paragraph('The nucleus')].join('\n');
+
+    const chunks = MarkdownChunker.chunk(note, 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[1].content.startsWith('# Biology\n## Cells\n\n')).toBe(true);
+    expect(chunks[1].headings).toEqual(['Biology', 'Cells']);
+  });
+
+  it('should keep a code block whole when it fits', () => {
+    const code = ['```js', ...Array.from({ length: 8 }, (_, i) => `const value${i} = compute(${i});`), '```'].join('\n');
+    const note = [paragraph('Code'), '', code, '', paragraph('Output')].join('\n');
+
+    const chunks = MarkdownChunker.chunk(note, TokenUtils.countTokens(code) + 10);
+
+    expect(chunks.some(chunk => chunk.content.includes(code))).toBe(true);
+  });
+
+  it('should split an oversized code block between lines, keeping its fences', () => {
+    const code = ['```js', ...Array.from({ length: 40 }, (_, i) => `const value${i} = compute(${i});`), '```'].join('\n');
+
+    const chunks = MarkdownChunker.chunk(code, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.startsWith('```js\n')).toBe(true);
+      expect(chunk.content.endsWith('\n```')).toBe(true);
+      expect(chunk.tokenCount).toBeLessThanOrEqual(110);
+    }
+    expect(chunks[1].startLine).toBe(chunks[0].endLine + 1);
+  });
+
+  it('should repeat the header rows of a split table', () => {
+    const table = ['| Term | Meaning |', '|---|---|', ...Array.from({ length: 30 }, (_, i) => `| term ${i} | meaning of term number ${i} |`)].join('\n');
+
+    const chunks = MarkdownChunker.chunk(table, 120);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.startsWith('| Term | Meaning |\n|---|---|\n')).toBe(true);
+    }
+  });
+
+  it('should repeat the end of a split section when overlap is set', () => {
+    const note = ['# Cells', paragraph('The cell'), '', paragraph('The membrane'), '', paragraph('The nucleus')].join('\n');
+
+    const chunks = MarkdownChunker.chunk(note, 70, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[1].content).toContain(paragraph('The membrane'));
+    expect(chunks[0].content).toContain(paragraph('The membrane'));
+  });
+
+  it('should leave out frontmatter and comments', () => {
+    const chunks = MarkdownChunker.chunk('---\ntags: [a]\n---\n%% draft %%\nContent', 100);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ content: 'Content', startLine: 4, endLine: 4 });
+    expect(MarkdownChunker.chunk('---\ntags: [a]\n---\n', 100)).toEqual([]);
+  });
+});
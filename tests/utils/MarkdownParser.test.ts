@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownParser } from '../../src/utils/MarkdownParser';
+import { MarkdownBlockType } from '../../src/types';
+
+describe('MarkdownParser', () => {
+  it('should split a note into blocks with their lines', () => {
+    const note = [
+      '---',
+      'tags: [bio]',
+      '---',
+      '# Cells',
+      'Cells are the unit of life.',
+      'They divide.',
+      '',
+      '- First item',
+      '  continued',
+      '',
+      '- Second item',
+      '',
+      '```python',
+      'x = 1',
+      '',
+      'y = 2',
+      '```',
+      '| A | B |',
+      '|---|---|',
+      '| 1 | 2 |',
+      '> [!note] Callout',
+      '> body',
+      '$$',
+      'E = mc^2',
+      '$$'
+    ].join('\n');
+
+    const blocks = MarkdownParser.parse(note).map(({ type, startLine, endLine }) => [type, startLine, endLine]);
+
+    expect(blocks).toEqual([
+      [MarkdownBlockType.FRONTMATTER, 0, 2],
+      [MarkdownBlockType.HEADING, 3, 3],
+      [MarkdownBlockType.PARAGRAPH, 4, 5],
+      [MarkdownBlockType.LIST, 7, 10],
+      [MarkdownBlockType.CODE, 12, 16],
+      [MarkdownBlockType.TABLE, 17, 19],
+      [MarkdownBlockType.QUOTE, 20, 21],
+      [MarkdownBlockType.MATH, 22, 24]
+    ]);
+  });
+
+  it('should read heading levels and text', () => {
+    const blocks = MarkdownParser.parse('## Krebs cycle ##\n\nSetext title\n===\n\n#tag is not a heading');
+
+    expect(blocks.map(block => [block.type, block.depth, block.heading])).toEqual([
+      [MarkdownBlockType.HEADING, 2, 'Krebs cycle'],
+      [MarkdownBlockType.HEADING, 1, 'Setext title'],
+      [MarkdownBlockType.PARAGRAPH, undefined, undefined]
+    ]);
+  });
+
+  it('should record where the top-level list items start', () => {
+    const [list] = MarkdownParser.parse('1. One\n   - nested\n2. Two\n\n3. Three\nAfter the list');
+
+    expect(list.type).toBe(MarkdownBlockType.LIST);
+    expect(list.items).toEqual([0, 2, 4]);
+    expect(list.endLine).toBe(5);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RateLimitHeaders } from '../../src/utils/RateLimitHeaders';
+
+describe('RateLimitHeaders', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should parse Groq and OpenAI x-ratelimit headers', () => {
+    const info = RateLimitHeaders.parseOpenAI({
+      'retry-after': '2',
+      'X-RateLimit-Limit-Tokens': '6000',
+      'x-ratelimit-remaining-requests': '14370',
+      'x-ratelimit-remaining-tokens': '5140',
+      'x-ratelimit-reset-requests': '2m59.56s',
+      'x-ratelimit-reset-tokens': '7.66s'
+    });
+
+    expect(info).toEqual({
+      requestsRemaining: 14370,
+      requestsResetMs: 179560,
+      tokensLimit: 6000,
+      tokensRemaining: 5140,
+      tokensResetMs: 7660,
+      retryAfterMs: 2000
+    });
+    expect(RateLimitHeaders.parseOpenAI({ 'content-type': 'application/json' })).toEqual({});
+  });
+
+  it('should parse Anthropic headers with reset timestamps', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    const info = RateLimitHeaders.parseAnthropic({
+      'anthropic-ratelimit-tokens-limit': '40000',
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': '2026-01-01T12:00:30Z'
+    });
+
+    expect(info).toEqual({ tokensLimit: 40000, tokensRemaining: 0, tokensResetMs: 30000 });
+  });
+
+  it('should parse durations', () => {
+    expect(RateLimitHeaders.parseDuration('120ms')).toBe(120);
+    expect(RateLimitHeaders.parseDuration('1h2m')).toBe(3720000);
+    expect(RateLimitHeaders.parseDuration('soon')).toBeUndefined();
+    expect(RateLimitHeaders.parseDuration('')).toBeUndefined();
+  });
+});
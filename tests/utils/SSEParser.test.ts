@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { SSEParser } from '../../src/utils/SSEParser';
+
+describe('SSEParser', () => {
+  it('should assemble events split across pieces', () => {
+    const parser = new SSEParser();
+
+    expect(parser.push('data: {"a"')).toEqual([]);
+    expect(parser.push(':1}\r\n\r\n: keep-alive\n\nevent: ping\ndata:')).toEqual([{ event: 'message', data: '{"a":1}' }]);
+    expect(parser.push(' x\ndata: y\n\n')).toEqual([{ event: 'ping', data: 'x\ny' }]);
+  });
+
+  it('should dispatch an unterminated event when the stream ends', () => {
+    const parser = new SSEParser();
+
+    expect(parser.push('data: [DONE]')).toEqual([]);
+    expect(parser.finish()).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { SimilarityIndex } from '../../src/utils/SimilarityIndex';
+import { SimilarityUtils } from '../../src/utils/SimilarityUtils';
+
+describe('SimilarityIndex', () => {
+  const texts = [
+    'What is the powerhouse of the cell? The mitochondrion',
+    'What does DNA stand for? Deoxyribonucleic acid',
+    'When did World War II end? 1945'
+  ].map(text => SimilarityUtils.normalize(text));
+
+  it('should find similar texts, most similar first', () => {
+    const index = new SimilarityIndex<number>();
+    texts.forEach((text, i) => index.add(text, i));
+
+    const hits = index.search(SimilarityUtils.normalize('What is the powerhouse of the cell? Mitochondrion.'), 0.5);
+
+    expect(hits.map(hit => hit.value)).toEqual([0]);
+    expect(hits[0].similarity).toBeGreaterThan(0.9);
+  });
+
+  it('should find every text above the minimum similarity', () => {
+    const index = new SimilarityIndex<number>();
+    texts.forEach((text, i) => index.add(text, i));
+
+    for (const text of texts) {
+      const hits = index.search(text, 0);
+      expect(hits[0].similarity).toBe(1);
+      expect(hits.every((hit, i) => i === 0 || hit.similarity <= hits[i - 1].similarity)).toBe(true);
+    }
+  });
+
+  it('should skip empty texts', () => {
+    const index = new SimilarityIndex<number>();
+    index.add('', 0);
+
+    expect(index.size).toBe(0);
+    expect(index.search('', 0)).toEqual([]);
+  });
+});
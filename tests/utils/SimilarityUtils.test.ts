@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { SimilarityUtils } from '../../src/utils/SimilarityUtils';
+
+describe('SimilarityUtils', () => {
+  it('should normalize away case, accents, markup, links and cloze syntax', () => {
+    expect(SimilarityUtils.normalize('The **{{c1::Mitochondrion::organelle}}** makes [[Energy|ATP]]!'))
+      .toBe('the mitochondrion makes atp');
+    expect(SimilarityUtils.normalize('Café <br> [crème](https://example.com)')).toBe('cafe creme');
+  });
+
+  it('should compute the Jaccard similarity of n-grams', () => {
+    const shingles = (text: string) => SimilarityUtils.shingles(SimilarityUtils.normalize(text));
+
+    expect(SimilarityUtils.jaccard(shingles('What is ATP?'), shingles('what is atp'))).toBe(1);
+    expect(SimilarityUtils.jaccard(shingles('abc'), shingles('xyz'))).toBe(0);
+    expect(SimilarityUtils.jaccard(shingles(''), shingles(''))).toBe(0);
+  });
+
+  it('should estimate similarity from MinHash signatures', () => {
+    const a = SimilarityUtils.shingles(SimilarityUtils.normalize('What is the powerhouse of the cell? The mitochondrion'));
+    const b = SimilarityUtils.shingles(SimilarityUtils.normalize('Which organelle is the powerhouse of the cell? Mitochondria'));
+
+    const estimate = SimilarityUtils.estimateSimilarity(SimilarityUtils.minHash(a), SimilarityUtils.minHash(b));
+
+    expect(Math.abs(estimate - SimilarityUtils.jaccard(a, b))).toBeLessThan(0.15);
+    expect(SimilarityUtils.estimateSimilarity(SimilarityUtils.minHash(a), SimilarityUtils.minHash(a))).toBe(1);
+  });
+
+  it('should compute cosine similarity', () => {
+    expect(SimilarityUtils.cosine([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(SimilarityUtils.cosine([1, 0], [0, 1])).toBe(0);
+    expect(SimilarityUtils.cosine([0, 0], [1, 1])).toBe(0);
+  });
+});